@@ -2,13 +2,15 @@
 
 import React, { Suspense, useCallback, useMemo, useRef, useState } from "react"
 import FloatingActionButton from "./_components/FloatingActionButton"
-import { CameraIcon, MicIcon, TextIcon } from "./_components/Icons"
+import { CameraIcon, MicIcon, SearchIcon, TextIcon } from "./_components/Icons"
+import { useUploadQueueBridge } from "./_hooks/upload/useUploadQueueBridge"
 import { useSessionSync } from "./_hooks/useSessionSync"
 import { useToolActionStore, type ToolActionState, type ToolActions } from "./_hooks/useToolActionStore"
 import CameraModal from "./camera/Modal.Camera"
 import { useCameraState } from "./camera/cameraStore"
 import MicrophoneModal from "./microphone/Modal.Microphone"
 import { useMicrophoneState } from "./microphone/microphoneStore"
+import SearchModal from "./search/Modal.Search"
 import TextModal from "./text/Modal.Text"
 
 // PGlite関連のimportは開発モード時のみ行う ------------------
@@ -20,6 +22,7 @@ const Repl = dynamic(() => import("@electric-sql/pglite-repl").then((m) => m.Rep
 
 const FABContent: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ className }) => {
   useSessionSync() // URLとStateのセッション同期を有効化
+  useUploadQueueBridge() // クラウド接続中・オンライン時に保存したファイルをアップロード
 
   const activeTool = useToolActionStore(useCallback((s: ToolActionState & ToolActions) => s.activeTool, []))
   const setActiveTool = useToolActionStore(useCallback((s: ToolActionState & ToolActions) => s.setActiveTool, []))
@@ -30,9 +33,10 @@ const FABContent: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ c
   const cameraState = useCameraState()
   const microphoneState = useMicrophoneState()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isSearchOpen, setSearchOpen] = useState(false)
 
   // PGlite関連の状態管理 ------------------------------
-  const { db, isLoading } = usePgliteStore()
+  const { db, backend, isLoading } = usePgliteStore()
   const [isPgliteOpen, setPgliteOpen] = useState(false)
   // --------------------------------------------------
 
@@ -46,6 +50,7 @@ const FABContent: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ c
         : []),
       { id: 3, label: "Text", icon: <TextIcon />, onClick: () => setActiveTool("text") },
       { id: 4, label: "File", onClick: () => handleSelect(fileInputRef) },
+      { id: 6, label: "Search", icon: <SearchIcon color="#4B4B4B" />, onClick: () => setSearchOpen(true) },
       ...(process.env.NODE_ENV === "development"
         ? [{ id: 5, label: "PGLite", onClick: () => setPgliteOpen(true) }]
         : []),
@@ -78,12 +83,14 @@ const FABContent: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ c
         onSelect={() => handleSelect(fileInputRef)}
       />
       <TextModal isOpen={activeTool === "text"} onClose={() => setActiveTool(null)} />
+      <SearchModal isOpen={isSearchOpen} onClose={() => setSearchOpen(false)} />
       <Modal
         isOpen={isPgliteOpen}
         onClose={() => setPgliteOpen(false)}
         className="fixed top-[10vh] z-50 h-[80vh] w-[90vw] bg-white"
       >
         {isLoading && <div>Loading PGLite...</div>}
+        {backend && <div className="px-2 py-1 text-xs text-gray-500">Storage: {backend}</div>}
         {db && <Repl pg={db?.$client} theme="dark" border={true} />}
       </Modal>
     </div>
@@ -0,0 +1,51 @@
+"use client"
+
+import React from "react"
+import type { FileMetadata } from "../_hooks/metadata/fileMetadata"
+
+const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds)
+  const m = Math.floor(total / 60)
+  const s = total % 60
+  return `${m}:${s.toString().padStart(2, "0")}`
+}
+
+/**
+ * ファイルのメタデータ（撮影日時・サイズ・向き・長さ・位置情報）を1行で表示する
+ * 位置情報は地図（OpenStreetMap）へのリンクにする
+ */
+export const FileMetadataInfo: React.FC<{ metadata?: FileMetadata | null; className?: string }> = ({
+  metadata,
+  className,
+}) => {
+  if (!metadata) return null
+  const items: React.ReactNode[] = []
+  if (metadata.capturedAt) items.push(new Date(metadata.capturedAt).toLocaleString())
+  if (metadata.width && metadata.height) items.push(`${metadata.width}×${metadata.height}`)
+  if (metadata.orientation) items.push(`${metadata.orientation}°`)
+  if (metadata.duration !== undefined) items.push(formatDuration(metadata.duration))
+  if (metadata.location) {
+    const { latitude, longitude } = metadata.location
+    items.push(
+      <a
+        href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline hover:text-white"
+      >
+        {latitude.toFixed(5)}, {longitude.toFixed(5)}
+      </a>,
+    )
+  }
+  if (items.length === 0) return null
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] font-bold tracking-wider text-zinc-300 ${className || ""}`}
+    >
+      {items.map((item, i) => (
+        <span key={i}>{item}</span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useState } from "react"
+import { useToolActionStore } from "../_hooks/useToolActionStore"
+
+const ACTION_CLASS =
+  "text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 disabled:opacity-40"
+
+/**
+ * 失敗したらトーストで知らせる（入力ミスで既存の名前と重なった場合など）
+ */
+const runWithToast = async (label: string, task: () => Promise<void>) => {
+  try {
+    await task()
+  } catch (error) {
+    console.error(`[FileSetActions] ${label} failed:`, error)
+    toast.error(`${label}に失敗しました`, { description: error instanceof Error ? error.message : undefined })
+  }
+}
+
+/**
+ * 現在のファイルセットの名前変更・統合・削除
+ * 各ツールの Collection Library のヘッダーで共通利用する
+ */
+export const FileSetActions: React.FC<{ className?: string }> = ({ className }) => {
+  const { currentFileSet, fileSets = [], renameFileSet, mergeFileSets, deleteFileSet } = useToolActionStore()
+  const [isBusy, setIsBusy] = useState(false)
+  const others = fileSets.filter((name) => name !== currentFileSet)
+
+  const run = async (label: string, task: () => Promise<void>) => {
+    setIsBusy(true)
+    await runWithToast(label, task)
+    setIsBusy(false)
+  }
+
+  const handleRename = () => {
+    const name = window.prompt("新しい名前", currentFileSet)?.trim()
+    if (!name || name === currentFileSet) return
+    void run("名前の変更", () => renameFileSet(currentFileSet, name))
+  }
+
+  const handleMerge = () => {
+    const name = window.prompt(`「${currentFileSet}」に取り込むファイルセット（${others.join(", ")}）`)?.trim()
+    if (!name || name === currentFileSet) return
+    if (!others.includes(name)) {
+      toast.warning(`「${name}」というファイルセットはありません`)
+      return
+    }
+    void run("統合", () => mergeFileSets([name], currentFileSet))
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm(`「${currentFileSet}」のファイルをゴミ箱も含めて完全に削除します。よろしいですか？`)) return
+    void run("削除", () => deleteFileSet(currentFileSet))
+  }
+
+  return (
+    <div className={`flex items-center gap-6 ${className || ""}`}>
+      <button onClick={handleRename} disabled={isBusy} className={ACTION_CLASS}>
+        Rename
+      </button>
+      <button onClick={handleMerge} disabled={isBusy || others.length === 0} className={ACTION_CLASS}>
+        Merge In
+      </button>
+      <button onClick={handleDelete} disabled={isBusy} className={`${ACTION_CLASS} hover:text-red-400`}>
+        Delete Set
+      </button>
+    </div>
+  )
+}
+
+/**
+ * 選択中のファイルを別のファイルセットへ移すボタン（Showcase ヘッダーの選択操作用）
+ */
+export const MoveFilesButton: React.FC<{ ids: string[]; onMoved?: () => void; className?: string }> = ({
+  ids,
+  onMoved,
+  className,
+}) => {
+  const { currentFileSet, fileSets = [], moveFiles } = useToolActionStore()
+  const [isBusy, setIsBusy] = useState(false)
+
+  const handleMove = async () => {
+    const others = fileSets.filter((name) => name !== currentFileSet)
+    const name = window.prompt(`${ids.length}件の移動先（${others.join(", ") || "新しい名前"}）`)?.trim()
+    if (!name || name === currentFileSet) return
+    setIsBusy(true)
+    await runWithToast("移動", async () => {
+      await moveFiles(ids, name)
+      toast.success(`${ids.length}件を「${name}」へ移動しました`)
+      onMoved?.()
+    })
+    setIsBusy(false)
+  }
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation()
+        void handleMove()
+      }}
+      disabled={isBusy || ids.length === 0}
+      className={`text-[9px] font-black tracking-widest text-zinc-600 uppercase transition-colors hover:text-zinc-400 disabled:opacity-40 ${className || ""}`}
+    >
+      Move
+    </button>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useRef, useState } from "react"
+import { useToolActionStore } from "../_hooks/useToolActionStore"
+
+const download = (file: File) => {
+  const url = URL.createObjectURL(file)
+  const anchor = document.createElement("a")
+  anchor.href = url
+  anchor.download = file.name
+  anchor.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * ファイルセットの書き出し（ZIP）・取り込みボタン
+ * 各ツールの Collection Library のフッターで共通利用する
+ * withPdf: 画像を1枚1ページにまとめた PDF の書き出しも出す（カメラの書類スキャン用）
+ */
+export const FileSetArchiveActions: React.FC<{ fileSet: string; withPdf?: boolean; className?: string }> = ({
+  fileSet,
+  withPdf,
+  className,
+}) => {
+  const { exportFileSet, exportFileSetPdf, importArchive } = useToolActionStore()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    try {
+      download(await exportFileSet(fileSet))
+    } catch (error) {
+      console.error("[FileSetArchiveActions] export failed:", error)
+      toast.error("書き出しに失敗しました")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleExportPdf = async () => {
+    setIsBusy(true)
+    try {
+      download(await exportFileSetPdf(fileSet))
+    } catch (error) {
+      console.error("[FileSetArchiveActions] PDF export failed:", error)
+      toast.error("PDF を作成できませんでした", { description: error instanceof Error ? error.message : undefined })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    setIsBusy(true)
+    try {
+      const result = await importArchive(file)
+      toast.success(`${result.imported}件を取り込みました`, {
+        description:
+          result.skipped > 0 ? `${result.skipped}件は取り込み済みのためスキップ` : result.fileSets.join(", "),
+      })
+    } catch (error) {
+      console.error("[FileSetArchiveActions] import failed:", error)
+      toast.error("取り込みに失敗しました", { description: error instanceof Error ? error.message : undefined })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className={`flex items-center justify-center gap-6 ${className || ""}`}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,application/zip"
+        onChange={handleImport}
+        className="hidden"
+        aria-label="Import archive file"
+      />
+      <button
+        onClick={() => void handleExport()}
+        disabled={isBusy}
+        className="text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 disabled:opacity-40"
+      >
+        Export ZIP
+      </button>
+      {withPdf && (
+        <button
+          onClick={() => void handleExportPdf()}
+          disabled={isBusy}
+          className="text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 disabled:opacity-40"
+        >
+          Export PDF
+        </button>
+      )}
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={isBusy}
+        className="text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 disabled:opacity-40"
+      >
+        Import ZIP
+      </button>
+    </div>
+  )
+}
@@ -505,6 +505,46 @@ const PlayIcon: React.FC<IconProps> = ({ size = "24px", color = "#4B4B4B" }) =>
   )
 }
 
+const PauseIcon: React.FC<IconProps> = ({ size = "24px", color = "#4B4B4B" }) => {
+  const { width, height } = parseSize(size)
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke={color}
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <rect x="6" y="4" width="4" height="16" />
+      <rect x="14" y="4" width="4" height="16" />
+    </svg>
+  )
+}
+
+const FlagIcon: React.FC<IconProps> = ({ size = "24px", color = "currentColor" }) => {
+  const { width, height } = parseSize(size)
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke={color}
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M4 15s1-1 4-1 5 2 8 2 4-1 4-1V3s-1 1-4 1-5-2-8-2-4 1-4 1z" />
+      <line x1="4" y1="22" x2="4" y2="15" />
+    </svg>
+  )
+}
+
 const MicIcon: React.FC<IconProps> = ({ size = "24px", color = "#4B4B4B" }) => {
   const { width, height } = parseSize(size)
   return (
@@ -571,22 +611,87 @@ const QrIcon: React.FC<IconProps> = ({ size = "24px", color = "currentColor" })
   )
 }
 
+const SearchIcon: React.FC<IconProps> = ({ size = "24px", color = "currentColor" }) => {
+  const { width, height } = parseSize(size)
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke={color}
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <circle cx="11" cy="11" r="7" />
+      <line x1="21" y1="21" x2="16.65" y2="16.65" />
+    </svg>
+  )
+}
+
+const FlashIcon: React.FC<IconProps> = ({ size = "24px", color = "currentColor" }) => {
+  const { width, height } = parseSize(size)
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke={color}
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <polygon points="13 2 4 14 11 14 10 22 19 10 12 10 13 2" />
+    </svg>
+  )
+}
+
+const HistoryIcon: React.FC<IconProps> = ({ size = "24px", color = "currentColor" }) => {
+  const { width, height } = parseSize(size)
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke={color}
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+      <polyline points="3 3 3 8 8 8" />
+      <polyline points="12 7 12 12 15 14" />
+    </svg>
+  )
+}
+
 export {
   CameraIcon,
   CheckIcon,
   CloseIcon,
   DocumentIcon,
+  FlagIcon,
+  FlashIcon,
+  HistoryIcon,
   LoadingDot,
   LoadingSpinner,
   MenuIcon,
   MicIcon,
   NextIcon,
+  PauseIcon,
   PenIcon,
   PictureIcon,
   PlayIcon,
   PrevIcon,
   QrIcon,
   RecordIcon,
+  SearchIcon,
   StopIcon,
   SwitchCameraIcon,
   SyncIcon,
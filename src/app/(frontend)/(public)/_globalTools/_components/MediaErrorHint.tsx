@@ -0,0 +1,29 @@
+"use client"
+
+import React from "react"
+import { isMediaDeviceError, type MediaDeviceKind, type MediaErrorCode } from "../_hooks/media/mediaDeviceError"
+
+const DEVICE_NAMES: Record<MediaDeviceKind, string> = { camera: "カメラ", microphone: "マイク" }
+
+const HINTS: Record<MediaErrorCode, ((device: string) => string) | null> = {
+  "permission-denied": (device) => `ブラウザの設定で${device}へのアクセスを許可してから Retry を押してください`,
+  "device-not-found": (device) => `${device}を接続してから Retry を押してください`,
+  "device-busy": () => "他のアプリが使用中です。閉じて戻ると自動で再接続します",
+  "stream-interrupted": () => "画面に戻ると自動で再接続します",
+  unknown: null,
+}
+
+/**
+ * カメラ・マイクのエラーに添える、次に何をすればよいかの案内
+ * 各ツールのエラー表示で共通利用する
+ */
+export const MediaErrorHint: React.FC<{ error: Error | null }> = ({ error }) => {
+  if (!isMediaDeviceError(error)) return null
+  const hint = HINTS[error.code]
+  if (!hint) return null
+  return (
+    <p className={`-mt-4 mb-6 text-xs ${error.recoverable ? "text-zinc-500" : "text-amber-400"}`}>
+      {hint(DEVICE_NAMES[error.device])}
+    </p>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useState } from "react"
+import { useToolActionStore, type ScanHistoryEntry } from "../_hooks/useToolActionStore"
+import { describeScan, FORMAT_LABELS, type ScanResult } from "../camera/barcode/scanResult"
+import { Modal } from "./atoms/Modal"
+import { TrashIcon } from "./Icons"
+
+const ACTION_CLASS = "text-[9px] font-bold tracking-widest text-zinc-300 uppercase hover:text-white"
+
+const copyScan = async (result: ScanResult) => {
+  try {
+    await navigator.clipboard.writeText(result.rawValue)
+    toast.success("コピーしました")
+  } catch (error) {
+    console.error("[ScanHistory] Copy failed:", error)
+    toast.error("コピーに失敗しました")
+  }
+}
+
+const shareScan = async (result: ScanResult) => {
+  try {
+    if (result.payload.kind === "url") await navigator.share({ url: result.payload.url })
+    else await navigator.share({ title: FORMAT_LABELS[result.format], text: result.rawValue })
+  } catch (error) {
+    // 共有シートを閉じただけの場合（AbortError）は何もしない
+    if (error instanceof DOMException && error.name === "AbortError") return
+    console.error("[ScanHistory] Share failed:", error)
+    toast.error("共有に失敗しました")
+  }
+}
+
+/**
+ * 現在のファイルセットのスキャン履歴（開く・コピー・共有・削除）
+ * カメラの Collection Library のフッターで利用する
+ */
+export const ScanHistory: React.FC<{ className?: string }> = ({ className }) => {
+  const { currentFileSet, listScanHistory, deleteScans, openScan } = useToolActionStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const [entries, setEntries] = useState<ScanHistoryEntry[]>([])
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function"
+
+  const open = async () => {
+    setIsOpen(true)
+    try {
+      setEntries(await listScanHistory({ fileSet: currentFileSet }))
+    } catch (error) {
+      console.error("[ScanHistory] Failed to load scans:", error)
+      toast.error("スキャン履歴を読み込めませんでした")
+    }
+  }
+
+  const remove = async (id: string) => {
+    await deleteScans([id])
+    setEntries((prev) => prev.filter((entry) => entry.id !== id))
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => void open()}
+        className={`text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 ${className || ""}`}
+      >
+        Scan History
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        className="w-[90vw] max-w-md border border-white/5 bg-zinc-900/95 p-0 text-zinc-100"
+      >
+        <div className="flex max-h-[70vh] flex-col">
+          <div className="border-b border-white/5 px-6 pt-8 pb-4">
+            <h3 className="text-[10px] font-black tracking-[0.4em] text-zinc-400 uppercase">
+              Scans · {currentFileSet}
+            </h3>
+          </div>
+          <ul className="flex-1 divide-y divide-white/5 overflow-y-auto">
+            {entries.map(({ id, result, createdAt }) => (
+              <li key={id} className="flex items-center gap-3 px-6 py-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-xs font-bold">{describeScan(result)}</p>
+                  <p className="text-[10px] text-zinc-500">
+                    {FORMAT_LABELS[result.format]} · {new Date(createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => {
+                    openScan(result)
+                    if (result.payload.kind === "url") setIsOpen(false)
+                  }}
+                  className={ACTION_CLASS}
+                >
+                  Open
+                </button>
+                <button onClick={() => void copyScan(result)} className={ACTION_CLASS}>
+                  Copy
+                </button>
+                {canShare && (
+                  <button onClick={() => void shareScan(result)} className={ACTION_CLASS}>
+                    Share
+                  </button>
+                )}
+                <button
+                  onClick={() => void remove(id)}
+                  aria-label={`Delete scan ${result.rawValue}`}
+                  className="text-zinc-500 hover:text-red-400"
+                >
+                  <TrashIcon size="14px" />
+                </button>
+              </li>
+            ))}
+            {entries.length === 0 && (
+              <li className="p-8 text-center text-xs text-zinc-500">スキャン履歴はありません</li>
+            )}
+          </ul>
+        </div>
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useState } from "react"
+import { formatBytes } from "../_hooks/storage/storageQuota"
+import { useToolActionStore, type EvictionStrategy } from "../_hooks/useToolActionStore"
+import { Modal } from "./atoms/Modal"
+
+const LEVEL_COLOR = {
+  ok: "bg-zinc-400",
+  warning: "bg-amber-400",
+  critical: "bg-red-500",
+} as const
+
+/**
+ * ストレージ使用量の表示と、同期済みファイルの退避・永続化の要求
+ * 各ツールの Collection Library のフッターで共通利用する
+ */
+export const StorageMeter: React.FC<{ className?: string }> = ({ className }) => {
+  const {
+    storage = null,
+    uploadStatus,
+    refreshStorageUsage,
+    requestPersistentStorage,
+    evictSyncedFiles,
+    retryFailedUploads,
+  } = useToolActionStore()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const ratio = storage?.usage != null && storage.quota ? Math.min(1, storage.usage / storage.quota) : null
+
+  const handleOpen = () => {
+    setIsOpen(true)
+    void refreshStorageUsage().catch((error) => console.error("[StorageMeter] refresh failed:", error))
+  }
+
+  const handleEvict = async (strategy: EvictionStrategy) => {
+    setIsBusy(true)
+    try {
+      const result = await evictSyncedFiles({ strategy })
+      toast.success(`${result.evicted}件を端末から退避しました`, { description: formatBytes(result.freedBytes) })
+    } catch (error) {
+      console.error("[StorageMeter] eviction failed:", error)
+      toast.error("退避に失敗しました")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage()
+    if (!granted) toast.warning("ブラウザが永続化を許可しませんでした")
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleOpen}
+        aria-label="Open storage usage"
+        className={`mx-auto flex w-40 flex-col items-center gap-1.5 text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 ${className || ""}`}
+      >
+        <span>Storage {storage ? `${formatBytes(storage.usage)} / ${formatBytes(storage.quota)}` : ""}</span>
+        {ratio !== null && (
+          <span className="h-0.5 w-full overflow-hidden rounded-full bg-white/10">
+            <span
+              className={`block h-full ${LEVEL_COLOR[storage?.level ?? "ok"]}`}
+              style={{ width: `${Math.round(ratio * 100)}%` }}
+            />
+          </span>
+        )}
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        className="w-[90vw] max-w-md border border-white/5 bg-zinc-900/95 p-0 text-zinc-100"
+      >
+        <div className="flex max-h-[70vh] flex-col">
+          <div className="border-b border-white/5 px-6 pt-8 pb-4">
+            <h3 className="text-[10px] font-black tracking-[0.4em] text-zinc-400 uppercase">Storage</h3>
+            <p className="mt-2 text-xs text-zinc-300">
+              {formatBytes(storage?.usage ?? null)} / {formatBytes(storage?.quota ?? null)}
+              {ratio !== null && ` (${Math.round(ratio * 100)}%)`}
+            </p>
+            <p className="mt-1 text-[10px] text-zinc-500">
+              {storage?.persisted ? "永続化済み" : "ブラウザの判断で削除される可能性があります"}
+              {storage && !storage.persisted && (
+                <button onClick={() => void handlePersist()} className="ml-2 text-zinc-300 underline">
+                  永続化を要求
+                </button>
+              )}
+            </p>
+            {uploadStatus && (uploadStatus.pending > 0 || uploadStatus.failed > 0) && (
+              <p className="mt-1 text-[10px] text-zinc-500">
+                Cloud: {uploadStatus.isUploading ? "uploading" : "waiting"} {uploadStatus.pending}
+                {uploadStatus.failed > 0 && (
+                  <>
+                    {" · "}
+                    <span className="text-red-400">failed {uploadStatus.failed}</span>
+                    <button onClick={() => void retryFailedUploads()} className="ml-2 text-zinc-300 underline">
+                      再試行
+                    </button>
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+          <div className="flex-1 space-y-4 overflow-y-auto px-6 py-4 text-xs">
+            <section>
+              <h4 className="mb-2 text-[9px] font-bold tracking-widest text-zinc-500 uppercase">By category</h4>
+              <ul className="space-y-1">
+                {storage?.byCategory.map((c) => (
+                  <li key={c.category ?? "none"} className="flex justify-between">
+                    <span>
+                      {c.category ?? "file"} · {c.count}
+                    </span>
+                    <span className="text-zinc-400">{formatBytes(c.bytes)}</span>
+                  </li>
+                ))}
+                {storage && storage.trashBytes > 0 && (
+                  <li className="flex justify-between text-zinc-500">
+                    <span>trash</span>
+                    <span>{formatBytes(storage.trashBytes)}</span>
+                  </li>
+                )}
+              </ul>
+            </section>
+            <section>
+              <h4 className="mb-2 text-[9px] font-bold tracking-widest text-zinc-500 uppercase">By file set</h4>
+              <ul className="space-y-1">
+                {storage?.byFileSet.map((s) => (
+                  <li key={s.fileSet} className="flex justify-between">
+                    <span className="truncate">
+                      {s.fileSet} · {s.count}
+                    </span>
+                    <span className="text-zinc-400">{formatBytes(s.bytes)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+          <div className="flex items-center justify-between gap-4 border-t border-white/5 px-6 py-4">
+            <span className="text-[10px] text-zinc-500">同期済み {formatBytes(storage?.evictableBytes ?? 0)}</span>
+            <div className="flex gap-4">
+              {(["lru", "oldest"] as const).map((strategy) => (
+                <button
+                  key={strategy}
+                  onClick={() => void handleEvict(strategy)}
+                  disabled={isBusy || !storage?.evictableBytes}
+                  className="text-[9px] font-bold tracking-widest text-zinc-300 uppercase hover:text-white disabled:opacity-40"
+                >
+                  {strategy === "lru" ? "Evict LRU" : "Evict Oldest"}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </Modal>
+    </>
+  )
+}
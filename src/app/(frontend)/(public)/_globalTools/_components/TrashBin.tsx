@@ -0,0 +1,80 @@
+"use client"
+
+import React, { useState } from "react"
+import { useToolActionStore } from "../_hooks/useToolActionStore"
+import { Modal } from "./atoms/Modal"
+import { TrashIcon } from "./Icons"
+
+/**
+ * 現在のファイルセットのゴミ箱（復元・完全削除・空にする）
+ * 各ツールの Collection Library のフッターで共通利用する
+ */
+export const TrashBin: React.FC<{ className?: string }> = ({ className }) => {
+  const { trashFiles = [], currentFileSet, restoreFiles, deleteFiles, emptyTrash } = useToolActionStore()
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        aria-label={`Open trash (${trashFiles.length})`}
+        className={`inline-flex items-center gap-1.5 text-[9px] font-bold tracking-[0.3em] text-zinc-500 uppercase transition-colors hover:text-zinc-200 ${className || ""}`}
+      >
+        <TrashIcon size="12px" />
+        Trash {trashFiles.length > 0 && `(${trashFiles.length})`}
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        className="w-[90vw] max-w-md border border-white/5 bg-zinc-900/95 p-0 text-zinc-100"
+      >
+        <div className="flex max-h-[70vh] flex-col">
+          <div className="flex items-center justify-between border-b border-white/5 px-6 pt-8 pb-4">
+            <h3 className="text-[10px] font-black tracking-[0.4em] text-zinc-400 uppercase">
+              Trash · {currentFileSet}
+            </h3>
+            {trashFiles.length > 0 && (
+              <button
+                onClick={() => {
+                  if (window.confirm(`${trashFiles.length}件を完全に削除します。よろしいですか？`)) {
+                    void emptyTrash(currentFileSet)
+                  }
+                }}
+                className="text-[9px] font-bold tracking-widest text-red-400 uppercase hover:text-red-300"
+              >
+                Empty Trash
+              </button>
+            )}
+          </div>
+          <ul className="flex-1 divide-y divide-white/5 overflow-y-auto">
+            {trashFiles.map((file) => (
+              <li key={file.id} className="flex items-center gap-3 px-6 py-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-xs font-bold">{file.fileName}</p>
+                  <p className="text-[10px] text-zinc-500">
+                    {file.category ?? "file"} · {file.deletedAt ? new Date(file.deletedAt).toLocaleString() : ""}
+                  </p>
+                </div>
+                <button
+                  onClick={() => void restoreFiles([file.id])}
+                  className="text-[9px] font-bold tracking-widest text-zinc-300 uppercase hover:text-white"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => void deleteFiles([{ idbKey: file.idbKey, id: file.id }], { permanent: true })}
+                  aria-label={`Delete ${file.fileName} permanently`}
+                  className="text-zinc-500 hover:text-red-400"
+                >
+                  <TrashIcon size="14px" />
+                </button>
+              </li>
+            ))}
+            {trashFiles.length === 0 && <li className="p-8 text-center text-xs text-zinc-500">ゴミ箱は空です</li>}
+          </ul>
+        </div>
+      </Modal>
+    </>
+  )
+}
@@ -0,0 +1,71 @@
+/**
+ * fileSetArchive テスト
+ *
+ * マニフェストの往復（日時の復元を含む）と、不正なアーカイブの検出を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import type { ToolFileRecord } from "../db/pgliteSchema"
+import { archiveFileName, createFileSetArchive, readFileSetArchive } from "./fileSetArchive"
+import { createZip } from "./zip"
+
+const record = (overrides: Partial<ToolFileRecord> = {}): ToolFileRecord => ({
+  id: "00000000-0000-0000-0000-000000000001",
+  sessionId: "s1",
+  fileSet: "Trip",
+  category: "camera",
+  fileName: "photo.jpg",
+  mimeType: "image/jpeg",
+  size: 3,
+  idbKey: "key-1",
+  tags: [],
+  searchText: "photo.jpg",
+  remoteKey: null,
+  syncState: "local",
+  lastAccessedAt: null,
+  evictedAt: null,
+  metadata: { width: 4, height: 3, capturedAt: "2024-05-01T09:59:00.000Z" },
+  createdAt: new Date("2024-05-01T10:00:00.000Z"),
+  updatedAt: new Date("2024-05-01T10:00:00.000Z"),
+  deletedAt: null,
+  ...overrides,
+})
+
+describe("fileSetArchive", () => {
+  it("行と BLOB を書き出し、そのまま読み戻せる", async () => {
+    const note = record({
+      id: "00000000-0000-0000-0000-000000000002",
+      category: "text",
+      fileName: "memo/draft.md",
+      mimeType: "text/markdown",
+      idbKey: "key-2",
+      tags: ["todo"],
+    })
+    const archive = await createFileSetArchive("Trip", [
+      { record: record(), blob: new Blob(["img"], { type: "image/jpeg" }) },
+      { record: note, blob: new Blob(["# memo"], { type: "text/markdown" }) },
+    ])
+    const { manifest, blobs } = await readFileSetArchive(archive)
+    expect(manifest.fileSet).toBe("Trip")
+    expect(manifest.files.map((f) => f.idbKey)).toEqual(["key-1", "key-2"])
+    expect(manifest.files[0].createdAt).toEqual(new Date("2024-05-01T10:00:00.000Z"))
+    expect(manifest.files[1].tags).toEqual(["todo"])
+    expect(manifest.files[0].metadata).toEqual({ width: 4, height: 3, capturedAt: "2024-05-01T09:59:00.000Z" })
+    // パス区切りを含むファイル名は置き換える
+    expect(manifest.files[1].path).toBe("files/key-2/memo_draft.md")
+    expect(await blobs.get(manifest.files[1].path)?.text()).toBe("# memo")
+  })
+
+  it("manifest.json がないアーカイブは拒否する", async () => {
+    const zip = await createZip([{ name: "files/a.jpg", data: new Blob(["x"]) }])
+    await expect(readFileSetArchive(zip)).rejects.toThrow("manifest.json not found")
+  })
+
+  it("形式の異なるマニフェストは拒否する", async () => {
+    const zip = await createZip([{ name: "manifest.json", data: new Blob([JSON.stringify({ format: "other" })]) }])
+    await expect(readFileSetArchive(zip)).rejects.toThrow("Invalid archive manifest")
+  })
+
+  it("ファイルセット名からダウンロード用のファイル名を作る", () => {
+    expect(archiveFileName("2024/05 Trip")).toBe("2024_05 Trip.zip")
+  })
+})
@@ -0,0 +1,134 @@
+import { z } from "zod"
+import type { ToolFileRecord } from "../db/pgliteSchema"
+import { createZip, readZip } from "./zip"
+
+/**
+ * ファイルセットの可搬アーカイブ（ZIP）
+ *
+ * 構成:
+ * - manifest.json: files テーブルの行（ToolFileRecord）と、各 BLOB のアーカイブ内パス
+ * - files/<idbKey>/<fileName>: BLOB 本体
+ *
+ * idbKey を端末間で共通の識別子として扱い、再インポートしても重複しないようにする。
+ */
+
+export const ARCHIVE_FORMAT = "ftb-fileset-archive"
+export const ARCHIVE_VERSION = 1
+export const MANIFEST_PATH = "manifest.json"
+
+const ManifestMetadataSchema = z.object({
+  width: z.number().optional(),
+  height: z.number().optional(),
+  orientation: z.number().optional(),
+  capturedAt: z.string().optional(),
+  location: z
+    .object({
+      latitude: z.number(),
+      longitude: z.number(),
+      altitude: z.number().optional(),
+      accuracy: z.number().optional(),
+    })
+    .optional(),
+  duration: z.number().optional(),
+})
+
+const ManifestFileSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  fileSet: z.string(),
+  category: z.string().nullable(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  idbKey: z.string().min(1),
+  tags: z.array(z.string()).default([]),
+  searchText: z.string().nullable().default(null),
+  metadata: ManifestMetadataSchema.nullable().default(null), // 古いアーカイブにはない
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  path: z.string(),
+})
+
+const ArchiveManifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().min(1).max(ARCHIVE_VERSION),
+  exportedAt: z.coerce.date(),
+  fileSet: z.string(),
+  files: z.array(ManifestFileSchema),
+})
+
+export type ArchiveManifest = z.infer<typeof ArchiveManifestSchema>
+export type ArchiveManifestFile = z.infer<typeof ManifestFileSchema>
+
+export interface ArchivedFile {
+  record: ToolFileRecord
+  blob: Blob
+}
+
+/**
+ * アーカイブ内のパスに使えない文字を置き換える
+ */
+const toSafeName = (name: string): string =>
+  Array.from(name, (c) => (c.charCodeAt(0) < 0x20 || '\\/:*?"<>|'.includes(c) ? "_" : c))
+    .join("")
+    .trim() || "file"
+
+export const archiveFileName = (fileSet: string, extension = "zip"): string => `${toSafeName(fileSet)}.${extension}`
+
+/**
+ * ファイルセットをアーカイブ化する
+ */
+export const createFileSetArchive = async (fileSet: string, files: ArchivedFile[]): Promise<Blob> => {
+  const manifestFiles: ArchiveManifestFile[] = files.map(({ record }) => ({
+    id: record.id,
+    sessionId: record.sessionId,
+    fileSet: record.fileSet,
+    category: record.category,
+    fileName: record.fileName,
+    mimeType: record.mimeType,
+    size: record.size,
+    idbKey: record.idbKey,
+    tags: record.tags,
+    searchText: record.searchText,
+    metadata: record.metadata,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    path: `files/${toSafeName(record.idbKey)}/${toSafeName(record.fileName)}`,
+  }))
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    fileSet,
+    files: manifestFiles,
+  }
+  return createZip([
+    { name: MANIFEST_PATH, data: new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" }) },
+    ...files.map(({ record, blob }, i) => ({
+      name: manifestFiles[i].path,
+      data: blob,
+      lastModified: record.updatedAt,
+    })),
+  ])
+}
+
+/**
+ * アーカイブを読み込み、マニフェストとパスごとの BLOB を返す
+ */
+export const readFileSetArchive = async (
+  archive: Blob,
+): Promise<{ manifest: ArchiveManifest; blobs: Map<string, Blob> }> => {
+  const entries = await readZip(archive)
+  const manifestEntry = entries.find((e) => e.name === MANIFEST_PATH)
+  if (!manifestEntry) throw new Error(`Invalid archive: ${MANIFEST_PATH} not found`)
+  let json: unknown
+  try {
+    json = JSON.parse(await manifestEntry.data.text())
+  } catch (error) {
+    throw new Error(`Invalid archive: ${MANIFEST_PATH} is not valid JSON`, { cause: error })
+  }
+  const parsed = ArchiveManifestSchema.safeParse(json)
+  if (!parsed.success) throw new Error("Invalid archive manifest", { cause: parsed.error })
+  const blobs = new Map(entries.filter((e) => e.name !== MANIFEST_PATH).map((e) => [e.name, e.data]))
+  return { manifest: parsed.data, blobs }
+}
@@ -0,0 +1,64 @@
+/**
+ * pdf テスト
+ *
+ * JPEG ヘッダーの読み取りと、書き出した PDF の構造（ページ数・xref の位置）を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createImagePdf, readJpegInfo } from "./pdf"
+
+/**
+ * SOI → APP0 → SOF0 → SOS だけの JPEG 風バイト列（画像データは空）
+ */
+const createJpeg = (width: number, height: number, components = 3) =>
+  new Uint8Array([
+    ...[0xff, 0xd8], // SOI
+    ...[0xff, 0xe0, 0x00, 0x04, 0x00, 0x00], // APP0
+    ...[0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, components, 0, 0, 0], // SOF0
+    ...[0xff, 0xda, 0x00, 0x02], // SOS
+    ...[0xff, 0xd9], // EOI
+  ])
+
+const latin1 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join("")
+}
+
+describe("pdf", () => {
+  it("JPEG の大きさと色成分の数を読む", () => {
+    expect(readJpegInfo(createJpeg(640, 480))).toEqual({ width: 640, height: 480, components: 3 })
+    expect(readJpegInfo(createJpeg(1, 2, 1))).toEqual({ width: 1, height: 2, components: 1 })
+    expect(readJpegInfo(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull()
+    // SOF より先に画像データが始まるものは壊れている
+    expect(readJpegInfo(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]))).toBeNull()
+  })
+
+  it("画像ごとに1ページの PDF を書き出す", async () => {
+    const pdf = createImagePdf(
+      [
+        { jpeg: createJpeg(600, 800), width: 600, height: 800, components: 3 },
+        { jpeg: createJpeg(800, 600, 1), width: 800, height: 600, components: 1 },
+      ],
+      { title: "書類" },
+    )
+    expect(pdf.type).toBe("application/pdf")
+    const text = await latin1(pdf)
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true)
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true)
+    expect(text).toContain("/Count 2")
+    expect(text).toContain("/MediaBox [0 0 631.5 842]")
+    expect(text).toContain("/MediaBox [0 0 842 631.5]")
+    expect(text).toContain("/ColorSpace /DeviceGray")
+    expect(text).toContain("/Title <FEFF66F8985E>")
+
+    // startxref が xref テーブルの先頭を指し、各オブジェクトの位置が正しい
+    const startxref = Number(/startxref\n(\d+)/.exec(text)![1])
+    expect(text.slice(startxref, startxref + 4)).toBe("xref")
+    const offsets = Array.from(text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), (m) => Number(m[1]))
+    expect(offsets).toHaveLength(9)
+    offsets.forEach((offset, i) => expect(text.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj`)))
+  })
+
+  it("ページがなければエラー", () => {
+    expect(() => createImagePdf([])).toThrow()
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * 最小限の PDF 書き出し（画像を1枚ずつページにする）
+ *
+ * - JPEG はそのまま埋め込む（DCTDecode）。再圧縮しないので画質も処理時間も変わらない
+ * - ページは画像の縦横比のまま、長辺を A4 の長辺（842pt）に合わせる
+ * - テキストやフォントは扱わない
+ */
+
+export interface PdfImagePage {
+  jpeg: Uint8Array
+  width: number
+  height: number
+  components: number // 1: グレースケール, 3: RGB, 4: CMYK
+}
+
+export interface JpegInfo {
+  width: number
+  height: number
+  components: number
+}
+
+const A4_LONG_SIDE = 842
+const JPEG_QUALITY = 0.9
+const COLOR_SPACES: Record<number, string> = { 1: "/DeviceGray", 3: "/DeviceRGB", 4: "/DeviceCMYK" }
+
+/**
+ * JPEG の SOF セグメントから大きさと色成分の数を読む。JPEG でなければ null
+ */
+export const readJpegInfo = (bytes: Uint8Array): JpegInfo | null => {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null
+  let offset = 2
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // 詰め物の 0xFF は読み飛ばす
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    // SOF0〜SOF15（DHT: C4, JPG: C8, DAC: CC を除く）
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+    if (isStartOfFrame) {
+      if (offset + 10 > bytes.length) return null
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9],
+      }
+    }
+    // 画像データ（SOS）より前に SOF がなければ壊れている
+    if (marker === 0xda) return null
+    offset += 2 + length
+  }
+  return null
+}
+
+/**
+ * PDF の文字列（UTF-16BE の16進表記。日本語のタイトルも表示できる）
+ */
+const toPdfText = (text: string): string => {
+  let hex = "FEFF"
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase()
+  return `<${hex}>`
+}
+
+/**
+ * 画像のページを並べた PDF を作る
+ */
+export const createImagePdf = (pages: PdfImagePage[], options?: { title?: string }): Blob => {
+  if (pages.length === 0) throw new Error("PDF needs at least one page")
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let position = 0
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk
+    chunks.push(bytes)
+    position += bytes.length
+  }
+  // オブジェクト番号は 1 から。offsets[n - 1] が n 番の位置
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id - 1] = position
+    write(`${id} 0 obj\n${body}\n`)
+    if (stream) {
+      write("stream\n")
+      write(stream)
+      write("\nendstream\n")
+    }
+    write("endobj\n")
+  }
+
+  const CATALOG = 1
+  const PAGES = 2
+  const INFO = 3
+  // ページごとに Page・Contents・Image の3オブジェクトを使う
+  const pageId = (i: number) => 4 + i * 3
+
+  // 2行目のコメントはバイナリを含むファイルであることを示す慣習
+  write("%PDF-1.4\n")
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+  writeObject(CATALOG, `<< /Type /Catalog /Pages ${PAGES} 0 R >>`)
+  writeObject(
+    PAGES,
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  )
+  writeObject(INFO, `<< ${options?.title ? `/Title ${toPdfText(options.title)} ` : ""}>>`)
+
+  pages.forEach((page, i) => {
+    const id = pageId(i)
+    const scale = A4_LONG_SIDE / Math.max(page.width, page.height)
+    const pageWidth = Number((page.width * scale).toFixed(2))
+    const pageHeight = Number((page.height * scale).toFixed(2))
+    const content = encoder.encode(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`)
+    const colorSpace = COLOR_SPACES[page.components] ?? "/DeviceRGB"
+    writeObject(
+      id,
+      `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents ${id + 1} 0 R /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> >>`,
+    )
+    writeObject(id + 1, `<< /Length ${content.length} >>`, content)
+    writeObject(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg,
+    )
+  })
+
+  const xrefPosition = position
+  const objectCount = offsets.length + 1
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  write(offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join(""))
+  write(
+    `trailer\n<< /Size ${objectCount} /Root ${CATALOG} 0 R /Info ${INFO} 0 R >>\nstartxref\n${xrefPosition}\n%%EOF\n`,
+  )
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" })
+}
+
+/**
+ * 画像ファイルを PDF のページにする（ブラウザのみ）
+ * JPEG はそのまま使い、それ以外（PNG・WebP など）は JPEG に変換する
+ */
+export const toPdfImagePage = async (blob: Blob): Promise<PdfImagePage | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const info = readJpegInfo(bytes)
+  if (info) return { jpeg: bytes, ...info }
+
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const canvas = document.createElement("canvas")
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    const context = canvas.getContext("2d", { alpha: false })
+    if (!context) return null
+    // 透過部分は黒くなるので白で塗ってから描く
+    context.fillStyle = "#fff"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(bitmap, 0, 0)
+    const jpeg = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY))
+    if (!jpeg) return null
+    return { jpeg: new Uint8Array(await jpeg.arrayBuffer()), width: bitmap.width, height: bitmap.height, components: 3 }
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * zip テスト
+ *
+ * STORE 形式での書き出し → 読み込みの往復と、壊れた入力の検出を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { crc32, createZip, readZip } from "./zip"
+
+const textOf = (blob: Blob) => blob.text()
+
+describe("zip", () => {
+  it("CRC-32 が既知の値と一致する", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926)
+  })
+
+  it("書き出したエントリを名前・内容・日時ごと読み戻せる", async () => {
+    const lastModified = new Date(2024, 4, 6, 12, 34, 56)
+    const zip = await createZip([
+      { name: "manifest.json", data: new Blob(['{"a":1}']), lastModified },
+      { name: "files/key-1/写真.jpg", data: new Blob([new Uint8Array([0, 1, 2, 255])]), lastModified },
+      { name: "files/empty.txt", data: new Blob([]), lastModified },
+    ])
+    const entries = await readZip(zip)
+    expect(entries.map((e) => e.name)).toEqual(["manifest.json", "files/key-1/写真.jpg", "files/empty.txt"])
+    expect(await textOf(entries[0].data)).toBe('{"a":1}')
+    expect(Array.from(new Uint8Array(await entries[1].data.arrayBuffer()))).toEqual([0, 1, 2, 255])
+    expect(entries[2].data.size).toBe(0)
+    expect(entries[0].lastModified).toEqual(lastModified)
+  })
+
+  it("ZIP でない入力は拒否する", async () => {
+    await expect(readZip(new Blob(["not a zip"]))).rejects.toThrow("Not a ZIP archive")
+  })
+
+  it("内容が壊れていれば CRC 不一致で拒否する", async () => {
+    const zip = await createZip([{ name: "a.txt", data: new Blob(["hello"]) }])
+    const bytes = new Uint8Array(await zip.arrayBuffer())
+    bytes[30 + "a.txt".length] ^= 0xff // 本文の先頭バイトを反転
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow("CRC mismatch")
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * 最小限の ZIP 書き出し・読み込み
+ *
+ * - 書き出しは無圧縮（STORE）。画像・音声は既に圧縮済みのため、展開コストのない形式で十分
+ * - 読み込みは STORE に加え、DecompressionStream が使える環境では DEFLATE にも対応する
+ * - ZIP64 は非対応（1アーカイブ 4GB / 65535 エントリまで）
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Blob
+  lastModified?: Date
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const UTF8_FLAG = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const MAX_UINT32 = 0xffffffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * MS-DOS 形式の日時（2秒単位・1980年以降）
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+const fromDosDateTime = (time: number, date: number): Date =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  )
+
+/**
+ * エントリ群から ZIP（STORE）を生成する。BLOB 本体はコピーせず Blob のパーツとして連結する
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  if (entries.length > 0xffff) throw new Error(`Too many entries for ZIP: ${entries.length}`)
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()))
+    const size = entry.data.size
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date())
+    if (offset + LOCAL_HEADER_SIZE + name.length + size > MAX_UINT32) {
+      throw new Error("ZIP archive exceeds 4GB (ZIP64 is not supported)")
+    }
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE))
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, METHOD_STORE, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length)
+    const view = new DataView(central.buffer)
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    view.setUint16(4, 20, true) // version made by
+    view.setUint16(6, 20, true) // version needed
+    view.setUint16(8, UTF8_FLAG, true)
+    view.setUint16(10, METHOD_STORE, true)
+    view.setUint16(12, time, true)
+    view.setUint16(14, date, true)
+    view.setUint32(16, crc, true)
+    view.setUint32(20, size, true)
+    view.setUint32(24, size, true)
+    view.setUint16(28, name.length, true)
+    view.setUint32(42, offset, true)
+    central.set(name, CENTRAL_HEADER_SIZE)
+    centralHeaders.push(central)
+
+    parts.push(local.buffer, name, entry.data)
+    offset += LOCAL_HEADER_SIZE + name.length + size
+  }
+
+  const centralSize = centralHeaders.reduce((sum, h) => sum + h.length, 0)
+  const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralHeaders, end.buffer], { type: "application/zip" })
+}
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, end).arrayBuffer())
+
+const inflateRaw = async (data: Blob): Promise<Blob> => {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("Compressed ZIP entries are not supported in this browser")
+  }
+  const stream = data.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Response(stream).blob()
+}
+
+/**
+ * ZIP を読み込み、ファイルエントリを返す（ディレクトリエントリは除く）。CRC が一致しなければ例外
+ */
+export const readZip = async (zip: Blob): Promise<ZipEntry[]> => {
+  const tailStart = Math.max(0, zip.size - (END_OF_CENTRAL_DIRECTORY_SIZE + 0xffff))
+  const tail = await readBytes(zip, tailStart, zip.size)
+  let endOffset = -1
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) throw new Error("Not a ZIP archive (end of central directory not found)")
+
+  const entryCount = tail.getUint16(endOffset + 10, true)
+  const centralSize = tail.getUint32(endOffset + 12, true)
+  const centralOffset = tail.getUint32(endOffset + 16, true)
+  const central = await readBytes(zip, centralOffset, centralOffset + centralSize)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  let cursor = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (central.getUint32(cursor, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error("Corrupted ZIP central directory")
+    const method = central.getUint16(cursor + 10, true)
+    const time = central.getUint16(cursor + 12, true)
+    const date = central.getUint16(cursor + 14, true)
+    const crc = central.getUint32(cursor + 16, true)
+    const compressedSize = central.getUint32(cursor + 20, true)
+    const nameLength = central.getUint16(cursor + 28, true)
+    const extraLength = central.getUint16(cursor + 30, true)
+    const commentLength = central.getUint16(cursor + 32, true)
+    const localOffset = central.getUint32(cursor + 42, true)
+    const name = decoder.decode(
+      new Uint8Array(central.buffer, central.byteOffset + cursor + CENTRAL_HEADER_SIZE, nameLength),
+    )
+    cursor += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength
+    if (name.endsWith("/")) continue
+
+    const local = await readBytes(zip, localOffset, localOffset + LOCAL_HEADER_SIZE)
+    if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Corrupted ZIP entry: ${name}`)
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true)
+    const raw = zip.slice(dataStart, dataStart + compressedSize)
+
+    let data: Blob
+    if (method === METHOD_STORE) data = raw
+    else if (method === METHOD_DEFLATE) data = await inflateRaw(raw)
+    else throw new Error(`Unsupported ZIP compression method ${method}: ${name}`)
+
+    if (crc32(new Uint8Array(await data.arrayBuffer())) !== crc) throw new Error(`CRC mismatch in ZIP entry: ${name}`)
+    entries.push({ name, data, lastModified: fromDosDateTime(time, date) })
+  }
+  return entries
+}
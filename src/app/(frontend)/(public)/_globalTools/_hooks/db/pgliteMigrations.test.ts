@@ -0,0 +1,206 @@
+/**
+ * pgliteMigrations テスト (Classical Approach)
+ *
+ * 実際の PGlite（インメモリ）に対してマイグレーションを適用し、
+ * 新規DB・旧スキーマDBの双方でデータを失わずに最新化できることを検証する。
+ */
+import { PGlite } from "@electric-sql/pglite"
+import { getTableConfig } from "drizzle-orm/pg-core"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import {
+  createIndexesSql,
+  createTableSql,
+  getSchemaVersion,
+  MIGRATIONS,
+  runMigrations,
+  type Migration,
+} from "./pgliteMigrations"
+import { files, scans } from "./pgliteSchema"
+
+// マイグレーション導入前に getDb() が作成していたスキーマ（UNIQUE 制約・deleted_at なし）
+const LEGACY_SCHEMA = `
+  CREATE TABLE files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id TEXT NOT NULL,
+    file_set TEXT NOT NULL,
+    category TEXT,
+    file_name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    idb_key TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+`
+
+const insertFile = (pg: PGlite, idbKey: string, fileName: string, updatedAt: string) =>
+  pg.query(
+    `INSERT INTO files (session_id, file_set, category, file_name, mime_type, size, idb_key, updated_at)
+     VALUES ('s1', 'Default', 'camera', $1, 'image/jpeg', 10, $2, $3)`,
+    [fileName, idbKey, updatedAt],
+  )
+
+describe("pgliteMigrations", () => {
+  const TEST_TIMEOUT = 60000
+  let pg: PGlite
+
+  beforeEach(async () => {
+    pg = await PGlite.create()
+  }, TEST_TIMEOUT)
+
+  afterEach(async () => {
+    await pg.close()
+  })
+
+  it("スキーマ定義から CREATE TABLE 文を生成できる", () => {
+    const sql = createTableSql(files)
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS "files"')
+    expect(sql).toContain('"id" uuid DEFAULT gen_random_uuid() PRIMARY KEY')
+    expect(sql).toContain('"idb_key" text NOT NULL CONSTRAINT "files_idb_key_unique" UNIQUE')
+    expect(sql).toContain('"deleted_at" timestamp')
+    expect(sql).toContain(`"tags" text[] DEFAULT '{}'::text[] NOT NULL`)
+  })
+
+  it("式インデックス（GIN）の CREATE INDEX 文を生成できる", () => {
+    const statements = createIndexesSql(files)
+    expect(statements).toContain(
+      `CREATE INDEX IF NOT EXISTS "idx_files_search" ON "files" USING gin ((to_tsvector('simple', coalesce("files"."search_text", ''))));`,
+    )
+  })
+
+  it(
+    "新規DBに全マイグレーションを適用し、schema_migrations に記録する",
+    async () => {
+      const result = await runMigrations(pg)
+      const latest = MIGRATIONS[MIGRATIONS.length - 1].version
+      expect(result.currentVersion).toBe(latest)
+      expect(result.applied).toEqual(MIGRATIONS.map((m) => m.version))
+      expect(await getSchemaVersion(pg)).toBe(latest)
+      const recorded = await pg.query<{ version: number; name: string }>(
+        "SELECT version, name FROM schema_migrations ORDER BY version",
+      )
+      expect(recorded.rows.map((r) => r.name)).toEqual(MIGRATIONS.map((m) => m.name))
+      // idb_key の一意性が保証されている
+      await insertFile(pg, "k1", "a.jpg", "2024-01-01")
+      await expect(insertFile(pg, "k1", "b.jpg", "2024-01-02")).rejects.toThrow()
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "2回目の実行では何も適用しない（冪等）",
+    async () => {
+      await runMigrations(pg)
+      const second = await runMigrations(pg)
+      expect(second.applied).toEqual([])
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "旧スキーマのテーブルを DROP せずに移行する（重複行は最新に寄せる）",
+    async () => {
+      await pg.exec(LEGACY_SCHEMA)
+      await insertFile(pg, "dup", "old.jpg", "2024-01-01")
+      await insertFile(pg, "dup", "new.jpg", "2024-02-01")
+      await insertFile(pg, "solo", "solo.jpg", "2024-01-15")
+      await runMigrations(pg)
+      const rows = await pg.query<{ idb_key: string; file_name: string; deleted_at: Date | null }>(
+        "SELECT idb_key, file_name, deleted_at FROM files ORDER BY idb_key",
+      )
+      expect(rows.rows).toEqual([
+        { idb_key: "dup", file_name: "new.jpg", deleted_at: null },
+        { idb_key: "solo", file_name: "solo.jpg", deleted_at: null },
+      ])
+      await expect(insertFile(pg, "solo", "again.jpg", "2024-03-01")).rejects.toThrow()
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "旧スキーマの行に検索用カラムを補い、テキスト以外はファイル名で検索できる",
+    async () => {
+      await pg.exec(LEGACY_SCHEMA)
+      await insertFile(pg, "img", "sunset photo.jpg", "2024-01-01")
+      await pg.query(
+        `INSERT INTO files (session_id, file_set, category, file_name, mime_type, size, idb_key)
+         VALUES ('s1', 'Default', 'text', 'note.md', 'text/markdown', 10, 'note')`,
+      )
+      await runMigrations(pg)
+      const rows = await pg.query<{ idb_key: string; search_text: string | null; tags: string[] }>(
+        "SELECT idb_key, search_text, tags FROM files ORDER BY idb_key",
+      )
+      expect(rows.rows).toEqual([
+        { idb_key: "img", search_text: "sunset photo.jpg", tags: [] },
+        // テキストの本文は IDB 側にあるため、ストアで索引し直すまで NULL
+        { idb_key: "note", search_text: null, tags: [] },
+      ])
+      const hits = await pg.query<{ idb_key: string }>(
+        `SELECT idb_key FROM files
+         WHERE to_tsvector('simple', coalesce(search_text, '')) @@ to_tsquery('simple', 'sunset:*')`,
+      )
+      expect(hits.rows.map((r) => r.idb_key)).toEqual(["img"])
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "v1 は作成時点の列だけで files を作り、後の列は各バージョンで追加する",
+    async () => {
+      const columnsOf = async (table: string) =>
+        (
+          await pg.query<{ column_name: string }>(
+            "SELECT column_name FROM information_schema.columns WHERE table_name = $1 ORDER BY column_name",
+            [table],
+          )
+        ).rows.map((r) => r.column_name)
+      await runMigrations(pg, MIGRATIONS.slice(0, 1))
+      expect(await columnsOf("files")).not.toContain("tags")
+      expect(await columnsOf("files")).not.toContain("sync_state")
+      await runMigrations(pg)
+      expect(await columnsOf("files")).toEqual(
+        getTableConfig(files)
+          .columns.map((c) => c.name)
+          .sort(),
+      )
+      expect(await columnsOf("scans")).toEqual(
+        getTableConfig(scans)
+          .columns.map((c) => c.name)
+          .sort(),
+      )
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "失敗したマイグレーションはロールバックされ、記録もされない",
+    async () => {
+      const broken: Migration[] = [
+        ...MIGRATIONS,
+        {
+          version: 1000,
+          name: "broken",
+          up: async (tx) => {
+            await tx.exec("CREATE TABLE half_done (id INTEGER)")
+            await tx.exec("SELECT * FROM table_that_does_not_exist")
+          },
+        },
+      ]
+      await expect(runMigrations(pg, broken)).rejects.toThrow("Migration 1000 (broken) failed")
+      expect(await getSchemaVersion(pg)).toBe(MIGRATIONS[MIGRATIONS.length - 1].version)
+      const table = await pg.query<{ exists: boolean }>(
+        "SELECT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'half_done') AS exists",
+      )
+      expect(table.rows[0].exists).toBe(false)
+    },
+    TEST_TIMEOUT,
+  )
+
+  it("バージョン番号が昇順でなければ拒否する", async () => {
+    const unordered: Migration[] = [
+      { version: 2, name: "b", up: async () => {} },
+      { version: 1, name: "a", up: async () => {} },
+    ]
+    await expect(runMigrations(pg, unordered)).rejects.toThrow("strictly ascending")
+  })
+})
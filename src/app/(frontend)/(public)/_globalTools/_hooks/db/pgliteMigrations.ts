@@ -0,0 +1,473 @@
+import type { PGliteInterface, Transaction } from "@electric-sql/pglite"
+import { is, sql, SQL } from "drizzle-orm"
+import {
+  getTableConfig,
+  index,
+  integer,
+  jsonb,
+  PgDialect,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+  type PgColumn,
+  type PgTable,
+} from "drizzle-orm/pg-core"
+import * as schema from "./pgliteSchema"
+
+/**
+ * PGlite のスキーママイグレーション
+ *
+ * - 番号付き・前進のみ（forward-only）。適用済みのバージョンは schema_migrations に記録する
+ * - DDL は drizzle の定義から生成する。テーブルを作るマイグレーションは、作成時点の列で固定した定義を使い、
+ *   後から足した列はそれぞれのバージョンの ALTER TABLE（addColumn）でのみ追加する
+ * - 各マイグレーションは1トランザクションで適用し、失敗時はそのマイグレーションごとロールバックする
+ * - 既存データを壊さないこと（DROP 禁止。列追加は NULL 許容で追加 → バックフィル → 制約付与の順）
+ */
+
+type MigrationExecutor = Pick<Transaction, "exec" | "query">
+
+export interface Migration {
+  version: number
+  name: string
+  up: (tx: MigrationExecutor) => Promise<void>
+}
+
+export interface MigrationResult {
+  applied: number[]
+  currentVersion: number
+}
+
+const MIGRATIONS_TABLE = "schema_migrations"
+
+const dialect = new PgDialect()
+
+const quote = (identifier: string): string => `"${identifier.replace(/"/g, '""')}"`
+
+/**
+ * drizzle のカラム定義から DEFAULT 句の式を生成する
+ */
+const defaultExpression = (column: PgColumn): string | null => {
+  if (!column.hasDefault || column.default === undefined) return null
+  if (is(column.default, SQL)) {
+    const { sql, params } = dialect.sqlToQuery(column.default)
+    if (params.length > 0) throw new Error(`Parameterized default is not supported: ${column.name}`)
+    return sql
+  }
+  const value = column.default
+  if (typeof value === "number" || typeof value === "boolean") return String(value)
+  if (value === null) return "NULL"
+  const literal = typeof value === "string" ? value : JSON.stringify(value)
+  return `'${literal.replace(/'/g, "''")}'`
+}
+
+/**
+ * カラム定義（型 + DEFAULT）。NOT NULL / 制約は呼び出し側で付与する
+ */
+const columnTypeWithDefault = (column: PgColumn): string => {
+  const def = defaultExpression(column)
+  return `${quote(column.name)} ${column.getSQLType()}${def ? ` DEFAULT ${def}` : ""}`
+}
+
+const findColumn = (table: PgTable, columnName: string): PgColumn => {
+  const column = getTableConfig(table).columns.find((c) => c.name === columnName)
+  if (!column) throw new Error(`Unknown column "${columnName}" in table "${getTableConfig(table).name}"`)
+  return column
+}
+
+/**
+ * drizzle のテーブル定義から CREATE TABLE IF NOT EXISTS 文を生成する
+ */
+export const createTableSql = (table: PgTable): string => {
+  const config = getTableConfig(table)
+  const lines = config.columns.map((column) => {
+    let line = columnTypeWithDefault(column)
+    if (column.primary) line += " PRIMARY KEY"
+    if (column.notNull && !column.primary) line += " NOT NULL"
+    if (column.isUnique)
+      line += ` CONSTRAINT ${quote(column.uniqueName ?? `${config.name}_${column.name}_unique`)} UNIQUE`
+    return line
+  })
+  return `CREATE TABLE IF NOT EXISTS ${quote(config.name)} (\n  ${lines.join(",\n  ")}\n);`
+}
+
+/**
+ * インデックス対象（カラム or 式）を SQL 化する。式は括弧で囲む
+ */
+const indexTargetSql = (target: unknown): string => {
+  if (is(target, SQL)) {
+    const { sql, params } = dialect.sqlToQuery(target)
+    if (params.length > 0) throw new Error("Parameterized index expression is not supported")
+    return `(${sql})`
+  }
+  return quote((target as PgColumn).name)
+}
+
+/**
+ * drizzle のテーブル定義から CREATE INDEX IF NOT EXISTS 文を生成する
+ */
+export const createIndexesSql = (table: PgTable): string[] => {
+  const config = getTableConfig(table)
+  return config.indexes.map((idx) => {
+    const columns = idx.config.columns.map(indexTargetSql).join(", ")
+    const unique = idx.config.unique ? "UNIQUE " : ""
+    const using = idx.config.method && idx.config.method !== "btree" ? ` USING ${idx.config.method}` : ""
+    return `CREATE ${unique}INDEX IF NOT EXISTS ${quote(idx.config.name!)} ON ${quote(config.name)}${using} (${columns});`
+  })
+}
+
+/**
+ * スキーマ定義上のカラムを非破壊的に追加する
+ *
+ * 1. NULL 許容のまま ADD COLUMN IF NOT EXISTS
+ * 2. backfill が指定されていれば NULL の行を埋める
+ * 3. スキーマ上 NOT NULL なら最後に制約を付与する
+ */
+export const addColumn = async (
+  tx: MigrationExecutor,
+  table: PgTable,
+  columnName: string,
+  options: { backfill?: string } = {},
+): Promise<void> => {
+  const tableName = quote(getTableConfig(table).name)
+  const column = findColumn(table, columnName)
+  await tx.exec(`ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS ${columnTypeWithDefault(column)};`)
+  if (options.backfill) {
+    await tx.exec(
+      `UPDATE ${tableName} SET ${quote(column.name)} = ${options.backfill} WHERE ${quote(column.name)} IS NULL;`,
+    )
+  }
+  if (column.notNull) {
+    await tx.exec(`ALTER TABLE ${tableName} ALTER COLUMN ${quote(column.name)} SET NOT NULL;`)
+  }
+}
+
+/**
+ * テーブルを（なければ）作成し、既存テーブルに足りないカラム・インデックスを補う
+ */
+const ensureTable = async (tx: MigrationExecutor, table: PgTable) => {
+  await tx.exec(createTableSql(table))
+  for (const column of getTableConfig(table).columns) {
+    await addColumn(tx, table, column.name)
+  }
+  for (const statement of createIndexesSql(table)) {
+    await tx.exec(statement)
+  }
+}
+
+/**
+ * v1 時点の files テーブル（以降の列追加は v3 以降のマイグレーションで行う。この定義は変更しないこと）
+ */
+const filesV1 = pgTable(
+  "files",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: text("session_id").notNull(),
+    fileSet: text("file_set").notNull(),
+    category: text("category"),
+    fileName: text("file_name").notNull(),
+    mimeType: text("mime_type").notNull(),
+    size: integer("size").notNull(),
+    idbKey: text("idb_key").notNull().unique(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at"),
+  },
+  (t) => [
+    index("idx_files_session_id").on(t.sessionId),
+    index("idx_files_file_set").on(t.fileSet),
+    index("idx_files_category").on(t.category),
+  ],
+)
+
+/**
+ * v3 時点の scans テーブル（format / kind は v7 で追加する。この定義は変更しないこと）
+ */
+const scansV3 = pgTable(
+  "scans",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: text("session_id").notNull(),
+    fileSet: text("file_set").notNull(),
+    payload: text("payload").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("idx_scans_session_id").on(t.sessionId),
+    index("idx_scans_search").using("gin", sql`to_tsvector('simple', ${t.payload})`),
+  ],
+)
+
+/**
+ * v5 時点の upload_jobs テーブル（この定義は変更しないこと）
+ */
+const uploadJobsV5 = pgTable(
+  "upload_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fileId: uuid("file_id").notNull().unique(),
+    status: text("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [index("idx_upload_jobs_due").on(t.status, t.nextAttemptAt)],
+)
+
+/**
+ * v8 時点の transcript_segments テーブル（この定義は変更しないこと）
+ */
+const transcriptSegmentsV8 = pgTable(
+  "transcript_segments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fileId: uuid("file_id").notNull(),
+    engine: text("engine").notNull(),
+    language: text("language"),
+    position: integer("position").notNull(),
+    startMs: integer("start_ms").notNull(),
+    endMs: integer("end_ms").notNull(),
+    text: text("text").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("idx_transcript_segments_file").on(t.fileId, t.position)],
+)
+
+/**
+ * v9 時点の text_revisions テーブル（この定義は変更しないこと）
+ */
+const textRevisionsV9 = pgTable(
+  "text_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fileId: uuid("file_id").notNull(),
+    seq: integer("seq").notNull(),
+    snapshot: text("snapshot"),
+    patch: jsonb("patch"),
+    size: integer("size").notNull(),
+    originFileId: uuid("origin_file_id"),
+    originSeq: integer("origin_seq"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [uniqueIndex("idx_text_revisions_file_seq").on(t.fileId, t.seq)],
+)
+
+/**
+ * v10 時点の links テーブル（この定義は変更しないこと）
+ */
+const linksV10 = pgTable(
+  "links",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sourceFileId: uuid("source_file_id").notNull(),
+    kind: text("kind").notNull(),
+    target: text("target").notNull(),
+    targetKey: text("target_key").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("idx_links_source").on(t.sourceFileId), index("idx_links_target").on(t.kind, t.targetKey)],
+)
+
+/**
+ * マイグレーション定義（追記のみ。適用済みのものを書き換えないこと）
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_files",
+    up: async (tx) => {
+      // マイグレーション導入前に作られた files テーブルもそのまま引き継ぐ
+      await ensureTable(tx, filesV1)
+    },
+  },
+  {
+    version: 2,
+    name: "files_idb_key_unique",
+    up: async (tx) => {
+      // 旧スキーマでは idb_key の UNIQUE 制約が欠けている場合がある。
+      // 以前はテーブルを DROP して作り直していたが、ここでは重複行（同じBLOBを指すメタデータ）を
+      // 最新の1行に寄せてから一意インデックスを張る。BLOB 本体には触れない。
+      const res = await tx.query<{ exists: boolean }>(
+        `SELECT EXISTS (
+          SELECT 1 FROM pg_index i
+          JOIN pg_class t ON t.oid = i.indrelid
+          JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(i.indkey)
+          WHERE t.relname = 'files' AND a.attname = 'idb_key' AND i.indisunique AND i.indnatts = 1
+        ) AS exists`,
+      )
+      if (res.rows[0]?.exists) return
+      await tx.exec(`
+        DELETE FROM files a
+        USING files b
+        WHERE a.idb_key = b.idb_key
+          AND (a.updated_at, a.ctid) < (b.updated_at, b.ctid);
+        CREATE UNIQUE INDEX IF NOT EXISTS files_idb_key_unique ON files (idb_key);
+      `)
+    },
+  },
+  {
+    version: 3,
+    name: "files_search_and_scans",
+    up: async (tx) => {
+      await addColumn(tx, schema.files, "tags")
+      await addColumn(tx, schema.files, "search_text")
+      // テキスト以外はファイル名のみで検索できる。テキストの本文・タグは BLOB（IDB）側にあるため、
+      // search_text を NULL のまま残し、ストア側で読み出して索引し直す
+      await tx.exec(
+        `UPDATE files SET search_text = file_name WHERE search_text IS NULL AND category IS DISTINCT FROM 'text';`,
+      )
+      await tx.exec(
+        `CREATE INDEX IF NOT EXISTS idx_files_search ON files USING gin ((to_tsvector('simple', coalesce(search_text, ''))));`,
+      )
+      await ensureTable(tx, scansV3)
+    },
+  },
+  {
+    version: 4,
+    name: "files_storage_accounting",
+    up: async (tx) => {
+      await addColumn(tx, schema.files, "remote_key")
+      await addColumn(tx, schema.files, "last_accessed_at")
+      await addColumn(tx, schema.files, "evicted_at")
+    },
+  },
+  {
+    version: 5,
+    name: "upload_jobs",
+    up: async (tx) => {
+      await addColumn(tx, schema.files, "sync_state")
+      await ensureTable(tx, uploadJobsV5)
+      // 既存のファイルもクラウドに送る（接続されるまでは待機のまま）
+      await tx.exec(`
+        INSERT INTO upload_jobs (file_id)
+          SELECT id FROM files WHERE deleted_at IS NULL AND remote_key IS NULL
+          ON CONFLICT (file_id) DO NOTHING;
+        UPDATE files SET sync_state = 'queued' WHERE id IN (SELECT file_id FROM upload_jobs);
+      `)
+    },
+  },
+  {
+    version: 6,
+    name: "files_metadata",
+    up: async (tx) => {
+      // 既存のファイルは NULL のまま（抽出するのは、これから保存・取り込みするファイルのみ）
+      await addColumn(tx, schema.files, "metadata")
+    },
+  },
+  {
+    version: 7,
+    name: "scans_format_and_kind",
+    up: async (tx) => {
+      // これまでのスキャンは QR のみ。種類は読み取った文字列から判別し直す
+      await addColumn(tx, schema.scans, "format")
+      await addColumn(tx, schema.scans, "kind")
+      await tx.exec(`
+        UPDATE scans SET kind = CASE
+          WHEN payload ~* '^https?://' THEN 'url'
+          WHEN payload ~* '^WIFI:' THEN 'wifi'
+          WHEN payload ~* '^BEGIN:VCARD' THEN 'vcard'
+          ELSE 'text'
+        END;
+      `)
+    },
+  },
+  {
+    version: 8,
+    name: "transcript_segments",
+    up: async (tx) => {
+      await ensureTable(tx, transcriptSegmentsV8)
+    },
+  },
+  {
+    version: 9,
+    name: "text_revisions",
+    up: async (tx) => {
+      await ensureTable(tx, textRevisionsV9)
+    },
+  },
+  {
+    version: 10,
+    name: "links",
+    up: async (tx) => {
+      await ensureTable(tx, linksV10)
+    },
+  },
+  {
+    version: 11,
+    name: "purge_orphaned_file_rows",
+    up: async (tx) => {
+      // これまでは次の保存時に片付けていたため、完全削除済みのファイルの行が残っている場合がある
+      await tx.exec(`
+        DELETE FROM transcript_segments WHERE file_id NOT IN (SELECT id FROM files);
+        DELETE FROM text_revisions WHERE file_id NOT IN (SELECT id FROM files);
+        DELETE FROM links WHERE source_file_id NOT IN (SELECT id FROM files);
+      `)
+    },
+  },
+]
+
+/**
+ * マイグレーション定義の整合性チェック（番号の重複・逆順を検出）
+ */
+const assertOrdered = (migrations: Migration[]): void => {
+  migrations.forEach((m, i) => {
+    if (!Number.isInteger(m.version) || m.version <= 0) {
+      throw new Error(`Invalid migration version: ${m.version} (${m.name})`)
+    }
+    if (i > 0 && m.version <= migrations[i - 1].version) {
+      throw new Error(`Migrations must be strictly ascending: ${migrations[i - 1].version} -> ${m.version}`)
+    }
+  })
+}
+
+/**
+ * 現在適用済みの最大バージョンを取得する（未初期化なら 0）
+ */
+export const getSchemaVersion = async (pg: Pick<PGliteInterface, "query">): Promise<number> => {
+  const res = await pg.query<{ version: number | null }>(`SELECT MAX(version)::int AS version FROM ${MIGRATIONS_TABLE}`)
+  return res.rows[0]?.version ?? 0
+}
+
+/**
+ * 未適用のマイグレーションを順番に、1件ずつトランザクションで適用する
+ */
+export const runMigrations = async (
+  pg: Pick<PGliteInterface, "exec" | "query" | "transaction">,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<MigrationResult> => {
+  assertOrdered(migrations)
+  await pg.exec(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `)
+  let currentVersion = await getSchemaVersion(pg)
+  const latest = migrations[migrations.length - 1]?.version ?? 0
+  if (currentVersion > latest) {
+    // 新しいコードで更新済みのDBを古いタブが開いた場合。前進のみなので何もしない
+    console.warn(`[PgliteMigrations] Database schema (v${currentVersion}) is newer than this build (v${latest})`)
+  }
+  const applied: number[] = []
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) continue
+    try {
+      await pg.transaction(async (tx) => {
+        await migration.up(tx)
+        await tx.query(`INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES ($1, $2)`, [
+          migration.version,
+          migration.name,
+        ])
+      })
+    } catch (error) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed`, { cause: error })
+    }
+    applied.push(migration.version)
+    currentVersion = migration.version
+  }
+  return { applied, currentVersion }
+}
@@ -1,18 +1,136 @@
-import { integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core"
+import { sql } from "drizzle-orm"
+import { index, integer, jsonb, pgTable, text, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core"
+import type { FileMetadata } from "../metadata/fileMetadata"
 
-export const files = pgTable("files", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  sessionId: text("session_id").notNull(),
-  fileSet: text("file_set").notNull(),
-  category: text("category"), // 'camera', 'microphone', etc.
-  fileName: text("file_name").notNull(),
-  mimeType: text("mime_type").notNull(),
-  size: integer("size").notNull(),
-  idbKey: text("idb_key").notNull().unique(), // IndexedDBのキー (Local S3 reference)
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-  deletedAt: timestamp("deleted_at"),
-})
+export const files = pgTable(
+  "files",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: text("session_id").notNull(),
+    fileSet: text("file_set").notNull(),
+    category: text("category"), // 'camera', 'microphone', etc.
+    fileName: text("file_name").notNull(),
+    mimeType: text("mime_type").notNull(),
+    size: integer("size").notNull(),
+    idbKey: text("idb_key").notNull().unique(), // IndexedDBのキー (Local S3 reference)
+    tags: text("tags")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`), // テキストの front-matter タグ
+    searchText: text("search_text"), // 全文検索用の文書（ファイル名・タイトル・タグ・Markdown本文）
+    remoteKey: text("remote_key"), // リモートにアップロード済みならそのキー（BLOB を端末から退避できる）
+    syncState: text("sync_state").notNull().default("local"), // 'local' | 'queued' | 'uploading' | 'synced' | 'failed'
+    lastAccessedAt: timestamp("last_accessed_at"), // 最後に BLOB を開いた日時（LRU 退避用）
+    evictedAt: timestamp("evicted_at"), // 容量確保のため端末の BLOB を削除した日時（行は残す）
+    metadata: jsonb("metadata").$type<FileMetadata>(), // 幅・高さ・撮影日時・向き・位置情報・長さ（抽出前は NULL）
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at"),
+  },
+  (t) => [
+    index("idx_files_session_id").on(t.sessionId),
+    index("idx_files_file_set").on(t.fileSet),
+    index("idx_files_category").on(t.category),
+    index("idx_files_search").using("gin", sql`to_tsvector('simple', coalesce(${t.searchText}, ''))`),
+  ],
+)
+
+/**
+ * QRコード等のスキャン結果（ファイルを伴わない）
+ */
+export const scans = pgTable(
+  "scans",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sessionId: text("session_id").notNull(),
+    fileSet: text("file_set").notNull(),
+    payload: text("payload").notNull(),
+    format: text("format").notNull().default("qr_code"), // BarcodeDetector の format 名
+    kind: text("kind").notNull().default("text"), // 'url' | 'wifi' | 'vcard' | 'product' | 'text'
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("idx_scans_session_id").on(t.sessionId),
+    index("idx_scans_search").using("gin", sql`to_tsvector('simple', ${t.payload})`),
+  ],
+)
+
+/**
+ * クラウドへのアップロード待ち（outbox）。成功した行は削除し、失敗は backoff して再試行する
+ */
+export const uploadJobs = pgTable(
+  "upload_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fileId: uuid("file_id").notNull().unique(), // files.id（1ファイルにつき1件）
+    status: text("status").notNull().default("pending"), // 'pending' | 'uploading' | 'failed'
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [index("idx_upload_jobs_due").on(t.status, t.nextAttemptAt)],
+)
+
+/**
+ * 録音の文字起こし（区間ごと）。files の行に紐づき、ファイルを完全に削除するときに一緒に削除する
+ */
+export const transcriptSegments = pgTable(
+  "transcript_segments",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fileId: uuid("file_id").notNull(), // files.id
+    engine: text("engine").notNull(), // 'http' | 'wasm' | 'speech-recognition'
+    language: text("language"), // BCP 47（エンジンが判定した場合はその言語）
+    position: integer("position").notNull(), // 区間の順番（0 から）
+    startMs: integer("start_ms").notNull(), // 録音の先頭からの位置
+    endMs: integer("end_ms").notNull(),
+    text: text("text").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("idx_transcript_segments_file").on(t.fileId, t.position)],
+)
+
+/**
+ * テキスト文書の版（保存ごと）。前の版との行単位の差分で持ち、一定の間隔で全文を持つ
+ */
+export const textRevisions = pgTable(
+  "text_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    fileId: uuid("file_id").notNull(), // files.id
+    seq: integer("seq").notNull(), // 文書ごとの版番号（1 から）
+    snapshot: text("snapshot"), // 全文（seq が間隔の倍数の版と最初の版）
+    patch: jsonb("patch").$type<(number | string[])[]>(), // seq - 1 の版からの差分（text/textDiff の LinePatch）
+    size: integer("size").notNull(), // 文書の文字数
+    originFileId: uuid("origin_file_id"), // 復元・分岐の元になった文書（同じ文書なら復元）
+    originSeq: integer("origin_seq"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [uniqueIndex("idx_text_revisions_file_seq").on(t.fileId, t.seq)],
+)
+
+/**
+ * テキスト文書からのリンク（[[ノート名]] と ![[idbKey]]）。保存のたびに文書ごとに作り直し、バックリンクの検索に使う
+ */
+export const links = pgTable(
+  "links",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sourceFileId: uuid("source_file_id").notNull(), // リンクを書いた文書の files.id
+    kind: text("kind").notNull(), // 'note' | 'embed'
+    target: text("target").notNull(), // 書かれたままのノート名、または埋め込むファイルの idbKey
+    targetKey: text("target_key").notNull(), // 照合用（ノートは小文字にしたファイル名、埋め込みは idbKey）
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [index("idx_links_source").on(t.sourceFileId), index("idx_links_target").on(t.kind, t.targetKey)],
+)
 
 export type ToolFileRecord = typeof files.$inferSelect
 export type NewToolFileRecord = typeof files.$inferInsert
+export type ScanRecord = typeof scans.$inferSelect
+export type UploadJobRecord = typeof uploadJobs.$inferSelect
+export type TranscriptSegmentRecord = typeof transcriptSegments.$inferSelect
+export type TextRevisionRecord = typeof textRevisions.$inferSelect
+export type LinkRecord = typeof links.$inferSelect
@@ -1,5 +1,6 @@
 import { PGlite } from "@electric-sql/pglite"
 import { worker } from "@electric-sql/pglite/worker"
+import { runMigrations } from "./pgliteMigrations"
 
 let fetchPatched = false
 
@@ -62,6 +63,11 @@ void worker({
     delete createOptions.__ftbBaseUrl
 
     const pg = await PGlite.create(createOptions as unknown as Parameters<typeof PGlite.create>[0])
+    // リーダーとなったWorkerの起動時にのみスキーマを最新化する（タブ間で二重適用しない）
+    const { applied, currentVersion } = await runMigrations(pg)
+    if (applied.length > 0) {
+      console.log(`[PGliteWorker] Applied migrations: ${applied.join(", ")} (schema v${currentVersion})`)
+    }
     return pg
   },
 })
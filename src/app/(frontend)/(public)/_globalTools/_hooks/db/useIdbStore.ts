@@ -54,6 +54,10 @@ export const idbStore = () => ({
       const db = await getDB()
       await db.put(STORE_NAME, data, key)
     } catch (error) {
+      // 容量超過は cause に QuotaExceededError を保持する（判定は storage/storageQuota.ts の isQuotaExceededError）
+      if (error instanceof DOMException && error.name === "QuotaExceededError") {
+        throw new Error("IdbStore: Storage quota exceeded [" + key + "]", { cause: error })
+      }
       throw new Error("IdbStore: Failed to put object [" + key + "]", { cause: error })
     }
   },
@@ -0,0 +1,50 @@
+/**
+ * usePgliteStore テスト
+ *
+ * 保存先（opfs-ahp / idb / memory）の判定を、ブラウザAPIの有無を差し替えて検証する。
+ */
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { detectPgliteBackends } from "./usePgliteStore"
+
+const fakeIndexedDb = (succeeds: boolean) => ({
+  open: () => {
+    const request: { result: { close: () => void }; onsuccess?: () => void; onerror?: () => void } = {
+      result: { close: () => {} },
+    }
+    queueMicrotask(() => (succeeds ? request.onsuccess?.() : request.onerror?.()))
+    return request
+  },
+  deleteDatabase: () => {},
+})
+
+const stubStorage = (getDirectory?: () => Promise<unknown>) => {
+  vi.stubGlobal("navigator", { ...navigator, storage: getDirectory ? { getDirectory } : undefined })
+}
+
+describe("detectPgliteBackends", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("OPFS と IndexedDB が使える場合は opfs-ahp → idb → memory の順", async () => {
+    stubStorage(async () => ({}))
+    vi.stubGlobal("FileSystemFileHandle", class {})
+    vi.stubGlobal("indexedDB", fakeIndexedDb(true))
+    expect(await detectPgliteBackends()).toEqual(["opfs-ahp", "idb", "memory"])
+  })
+
+  it("OPFS のルート取得が拒否される環境では IndexedDB にフォールバックする", async () => {
+    stubStorage(async () => {
+      throw new DOMException("denied", "SecurityError")
+    })
+    vi.stubGlobal("FileSystemFileHandle", class {})
+    vi.stubGlobal("indexedDB", fakeIndexedDb(true))
+    expect(await detectPgliteBackends()).toEqual(["idb", "memory"])
+  })
+
+  it("どちらも使えない場合はインメモリのみ", async () => {
+    stubStorage()
+    vi.stubGlobal("indexedDB", fakeIndexedDb(false))
+    expect(await detectPgliteBackends()).toEqual(["memory"])
+  })
+})
@@ -4,14 +4,44 @@ import { drizzle } from "drizzle-orm/pglite"
 import { useExternalStore } from "../atoms/useExternalStore"
 import * as schema from "./pgliteSchema"
 
+/**
+ * PGlite の保存先
+ * - opfs-ahp: OPFS のアクセスハンドル（最速・推奨）
+ * - idb: IndexedDB（OPFS のアクセスハンドルが使えない環境向け）
+ * - memory: 永続化なし（プライベートブラウジング等で両方使えない場合の最終手段）
+ */
+export type PgliteBackend = "opfs-ahp" | "idb" | "memory"
+
+const DB_NAME = "ftb-global-database"
+const BACKEND_PREFIX: Record<PgliteBackend, string> = {
+  "opfs-ahp": "opfs-ahp://",
+  idb: "idb://",
+  memory: "memory://",
+}
+// PGlite は idb://<name> を IndexedDB の "/pglite/<name>" に保存する
+const LEGACY_IDB_NAME = `/pglite/${DB_NAME}`
+// OPFS 側に既にDBがあり移行を見送った場合の記録（毎回ダンプし直さないため）
+const IDB_MIGRATION_SKIPPED_KEY = "ftb-pglite-idb-migration-skipped"
+// OPFS 側の起動に失敗した場合の記録（以後は IndexedDB を使い続け、毎回ダンプし直さない）
+const IDB_MIGRATION_FAILED_KEY = "ftb-pglite-idb-migration-failed"
+
+type OpenedDatabase = { worker: Worker; pg: PGliteWorker }
+
 let pgInstance: PGliteWorker | null = null
 let pgWorker: Worker | null = null
 let dbInstance: ReturnType<typeof drizzle<typeof schema>> | null = null
 let initPromise: Promise<ReturnType<typeof drizzle<typeof schema>>> | null = null
 let lastError: Error | null = null
-let DATA_DIR = "opfs-ahp://ftb-global-database" // "idb://ftb-global-database"
+let activeBackend: PgliteBackend | null = null
+let dataDirOverride: string | null = null // null の場合は環境判定で保存先を決める
 
-// TODO: Fallback to IndexedDB if opfs is not available
+const toDataDir = (backend: PgliteBackend) => `${BACKEND_PREFIX[backend]}${DB_NAME}`
+
+const backendOf = (dataDir: string): PgliteBackend => {
+  if (dataDir.startsWith(BACKEND_PREFIX["opfs-ahp"])) return "opfs-ahp"
+  if (dataDir.startsWith(BACKEND_PREFIX.idb)) return "idb"
+  return "memory"
+}
 
 /**
  * DBを破棄して再初期化するための内部関数（破壊的）
@@ -43,7 +73,8 @@ export const _internal_reset_pglite_store = async (dir: string = "opfs-ahp://tes
   dbInstance = null
   initPromise = null
   lastError = null
-  DATA_DIR = dir
+  activeBackend = null
+  dataDirOverride = dir
 }
 
 const listeners = new Set<() => void>()
@@ -53,8 +84,155 @@ export const subscribe = (listener: () => void) => {
 }
 const notify = () => listeners.forEach((l) => l())
 
+/**
+ * OPFS が使えるかを判定する
+ *
+ * createSyncAccessHandle は専用 Worker にしか公開されないため、ここではルートディレクトリを
+ * 取得できるか（プライベートブラウジング等では SecurityError）までを確認し、
+ * 最終的な可否は PGlite の起動成否で判断する。
+ */
+const supportsOpfs = async (): Promise<boolean> => {
+  if (typeof navigator === "undefined" || typeof navigator.storage?.getDirectory !== "function") return false
+  if (typeof FileSystemFileHandle === "undefined") return false
+  try {
+    await navigator.storage.getDirectory()
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * IndexedDB が使えるかを判定する（Firefox のプライベートモード等では open が失敗する）
+ */
+const supportsIndexedDb = (): Promise<boolean> =>
+  new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(false)
+    const probeName = "ftb-pglite-probe"
+    try {
+      const request = indexedDB.open(probeName)
+      request.onsuccess = () => {
+        request.result.close()
+        indexedDB.deleteDatabase(probeName)
+        resolve(true)
+      }
+      request.onerror = () => resolve(false)
+    } catch {
+      resolve(false)
+    }
+  })
+
+/**
+ * 利用可能な保存先を優先順（opfs-ahp → idb → memory）に列挙する
+ */
+export const detectPgliteBackends = async (): Promise<PgliteBackend[]> => {
+  const backends: PgliteBackend[] = []
+  if (await supportsOpfs()) backends.push("opfs-ahp")
+  if (await supportsIndexedDb()) backends.push("idb")
+  backends.push("memory")
+  return backends
+}
+
+const spawnDatabase = async (dataDir: string, options: { loadDataDir?: Blob | File } = {}): Promise<OpenedDatabase> => {
+  const worker = new Worker(new URL("./pgliteWorker.ts", import.meta.url), { type: "module" })
+  const baseUrl = window.location.origin === "null" ? window.location.href : window.location.origin
+  const workerOptions: Parameters<typeof PGliteWorker.create>[1] & { __ftbBaseUrl?: string } = {
+    ...options,
+    dataDir,
+    __ftbBaseUrl: baseUrl,
+  }
+  try {
+    const pg = await PGliteWorker.create(worker, workerOptions)
+    return { worker, pg }
+  } catch (e) {
+    worker.terminate()
+    throw e
+  }
+}
+
+const closeDatabase = async ({ worker, pg }: OpenedDatabase) => {
+  try {
+    await pg.close()
+  } catch {
+    /* noop */
+  }
+  worker.terminate()
+}
+
+const hasLegacyIdbDatabase = async (): Promise<boolean> => {
+  if (typeof indexedDB === "undefined" || typeof indexedDB.databases !== "function") return false
+  const databases = await indexedDB.databases()
+  return databases.some((db) => db.name === LEGACY_IDB_NAME)
+}
+
+const hasMigrationRecord = (key: string): boolean => {
+  try {
+    return localStorage.getItem(key) !== null
+  } catch {
+    return false
+  }
+}
+
+const recordMigration = (key: string) => {
+  try {
+    localStorage.setItem(key, new Date().toISOString())
+  } catch {
+    /* noop */
+  }
+}
+
+/**
+ * 以前 IndexedDB にフォールバックしていたDBを OPFS に移す
+ *
+ * IndexedDB 側をダンプし、OPFS 側を loadDataDir で初期化する。成功したら IndexedDB 側は削除する。
+ * OPFS 側に既にDBがある場合は既存を優先し、IndexedDB 側は残したまま以後の移行を見送る。
+ * 移行対象がなければ null を返す。失敗時は例外を投げ、呼び出し元で次の保存先（idb）にフォールバックする。
+ * OPFS 側の起動に失敗したことがあれば、ダンプせずに例外を投げ、以後も IndexedDB を使い続ける。
+ */
+const migrateIdbToOpfs = async (opfsDataDir: string): Promise<OpenedDatabase | null> => {
+  if (hasMigrationRecord(IDB_MIGRATION_SKIPPED_KEY) || !(await hasLegacyIdbDatabase())) return null
+  if (hasMigrationRecord(IDB_MIGRATION_FAILED_KEY)) {
+    throw new Error("Migration to OPFS failed before; keeping the IndexedDB database")
+  }
+
+  const legacy = await spawnDatabase(toDataDir("idb"))
+  let dump: File | Blob
+  try {
+    dump = await legacy.pg.dumpDataDir()
+  } finally {
+    await closeDatabase(legacy)
+  }
+
+  let opened: OpenedDatabase
+  try {
+    opened = await spawnDatabase(opfsDataDir, { loadDataDir: dump })
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    if (!/already exists/i.test(message)) {
+      recordMigration(IDB_MIGRATION_FAILED_KEY)
+      throw e
+    }
+    console.warn("[PgliteStore] OPFS database already exists; keeping IndexedDB copy and skipping migration")
+    recordMigration(IDB_MIGRATION_SKIPPED_KEY)
+    return null
+  }
+  indexedDB.deleteDatabase(LEGACY_IDB_NAME)
+  console.info("[PgliteStore] Migrated database from IndexedDB to OPFS")
+  return opened
+}
+
+const openDatabase = async (dataDir: string): Promise<OpenedDatabase> => {
+  if (!dataDirOverride && backendOf(dataDir) === "opfs-ahp") {
+    const migrated = await migrateIdbToOpfs(dataDir)
+    if (migrated) return migrated
+  }
+  return spawnDatabase(dataDir)
+}
+
 /**
  * PgliteとDrizzleの接続を初期化する
+ *
+ * 保存先は opfs-ahp → idb → memory の順に試し、最初に起動できたものを使う。
  */
 export const getDb = async (signal?: AbortSignal) => {
   if (dbInstance) return dbInstance
@@ -67,80 +245,30 @@ export const getDb = async (signal?: AbortSignal) => {
     try {
       if (typeof window === "undefined") throw new Error("PGlite is only available in the browser")
       if (signal?.aborted) throw new Error("getDb aborted")
-      if (!pgWorker) {
-        pgWorker = new Worker(new URL("./pgliteWorker.ts", import.meta.url), { type: "module" })
+      const dataDirs = dataDirOverride ? [dataDirOverride] : (await detectPgliteBackends()).map(toDataDir)
+      let openError: unknown = null
+      for (const dataDir of dataDirs) {
+        try {
+          const opened = await openDatabase(dataDir)
+          pgWorker = opened.worker
+          pgInstance = opened.pg
+          activeBackend = backendOf(dataDir)
+          break
+        } catch (e) {
+          openError = e
+          console.warn(`[PgliteStore] Failed to open ${dataDir}`, e)
+        }
       }
-      const baseUrl = window.location.origin === "null" ? window.location.href : window.location.origin
-      const workerOptions: Parameters<typeof PGliteWorker.create>[1] & { __ftbBaseUrl?: string } = {
-        dataDir: DATA_DIR,
-        __ftbBaseUrl: baseUrl,
+      if (!pgInstance) throw openError ?? new Error("No storage backend available for PGlite")
+      if (activeBackend === "memory" && !dataDirOverride) {
+        console.warn("[PgliteStore] Persistent storage is unavailable; data will be lost on reload")
       }
-      pgInstance = await PGliteWorker.create(pgWorker, workerOptions)
       if (signal?.aborted) {
         await pgInstance.close()
         pgInstance = null
         throw new Error("getDb aborted")
       }
-      // スキーマ定義（単一ソース）
-      const EXPECTED_SCHEMA = `
-        CREATE TABLE IF NOT EXISTS files (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          session_id TEXT NOT NULL,
-          file_set TEXT NOT NULL,
-          category TEXT,
-          file_name TEXT NOT NULL,
-          mime_type TEXT NOT NULL,
-          size INTEGER NOT NULL,
-          idb_key TEXT NOT NULL UNIQUE,
-          created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-          updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
-          deleted_at TIMESTAMP
-        );
-        CREATE INDEX IF NOT EXISTS idx_files_session_id ON files(session_id);
-        CREATE INDEX IF NOT EXISTS idx_files_file_set ON files(file_set);
-        CREATE INDEX IF NOT EXISTS idx_files_category ON files(category);
-      `
-
-      // 既存テーブルのスキーマ検証 & 自動マイグレーション
-      const tableExists = await pgInstance.query<{ exists: boolean }>(
-        `SELECT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'files')`,
-      )
-      if (tableExists.rows[0]?.exists) {
-        // UNIQUE制約の存在確認
-        const hasUniqueConstraint = await pgInstance.query<{ exists: boolean }>(
-          `SELECT EXISTS (
-            SELECT 1 FROM pg_constraint c
-            JOIN pg_class t ON c.conrelid = t.oid
-            WHERE t.relname = 'files'
-            AND c.contype = 'u'
-            AND EXISTS (
-              SELECT 1 FROM pg_attribute a
-              WHERE a.attrelid = t.oid AND a.attname = 'idb_key' AND a.attnum = ANY(c.conkey)
-            )
-          )`,
-        )
-        if (!hasUniqueConstraint.rows[0]?.exists) {
-          // スキーマ不整合を検出
-          console.warn("[PgliteStore] Schema mismatch detected: idb_key UNIQUE constraint missing")
-          // ユーザー確認
-          const confirmed = window.confirm(
-            "データベーススキーマの更新が必要です。\n\n" +
-              "この操作を行うと、保存されているファイルデータが削除されます。\n" +
-              "続行しますか？\n\n" +
-              "（キャンセルした場合、一部の機能が正常に動作しない可能性があります）",
-          )
-          if (confirmed) {
-            await pgInstance.exec(`DROP TABLE IF EXISTS files CASCADE;`)
-            await pgInstance.exec(EXPECTED_SCHEMA)
-            console.log("[PgliteStore] Table recreated with correct schema")
-          } else {
-            console.warn("[PgliteStore] Migration skipped by user. Some features may not work correctly.")
-          }
-        }
-      } else {
-        // 新規作成
-        await pgInstance.exec(EXPECTED_SCHEMA)
-      }
+      // スキーマの作成・更新は Worker 起動時のマイグレーション（pgliteMigrations.ts）で行う
       dbInstance = drizzle(pgInstance as unknown as PGlite, { schema })
       notify()
       return dbInstance
@@ -159,6 +287,7 @@ export const getDb = async (signal?: AbortSignal) => {
         /* noop */
       }
       pgWorker = null
+      activeBackend = null
       notify()
       throw e
     }
@@ -167,6 +296,11 @@ export const getDb = async (signal?: AbortSignal) => {
   return initPromise
 }
 
+/**
+ * 現在使用中の保存先（未初期化なら null）
+ */
+export const getPgliteBackend = (): PgliteBackend | null => activeBackend
+
 /**
  * データベースインスタンスを取得するためのHook
  * useSyncExternalStore を使用して外部ステート（Singleton）と同期する
@@ -174,8 +308,9 @@ export const getDb = async (signal?: AbortSignal) => {
 export function usePgliteStore() {
   const db = useExternalStore({ subscribe, getSnapshot: () => dbInstance, getServerSnapshot: () => null })
   const error = useExternalStore({ subscribe, getSnapshot: () => lastError, getServerSnapshot: () => null })
+  const backend = useExternalStore({ subscribe, getSnapshot: () => activeBackend, getServerSnapshot: () => null })
   if (typeof window !== "undefined" && !dbInstance && !initPromise) {
     getDb().catch(() => {}) // エラーは lastError/notify で管理される
   }
-  return { db, error, isLoading: !db && !error }
+  return { db, error, backend, isLoading: !db && !error }
 }
@@ -0,0 +1,46 @@
+/**
+ * mediaDeviceError テスト
+ *
+ * getUserMedia の例外（DOMException の name）から種類を判定し、自動復帰できるかを分けることを検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { isMediaDeviceError, MediaDeviceError, toMediaDeviceError } from "./mediaDeviceError"
+
+const domError = (name: string) => Object.assign(new Error(name), { name })
+
+describe("mediaDeviceError", () => {
+  it("DOMException の name から種類を判定する", () => {
+    expect(toMediaDeviceError(domError("NotAllowedError"), "camera").code).toBe("permission-denied")
+    expect(toMediaDeviceError(domError("NotFoundError"), "camera").code).toBe("device-not-found")
+    expect(toMediaDeviceError(domError("OverconstrainedError"), "camera").code).toBe("device-not-found")
+    expect(toMediaDeviceError(domError("NotReadableError"), "microphone").code).toBe("device-busy")
+    expect(toMediaDeviceError(new Error("Video loading timeout"), "camera")).toMatchObject({
+      code: "unknown",
+      message: "Video loading timeout",
+    })
+  })
+
+  it("包まれたエラーは cause をたどって判定する", () => {
+    const wrapped = new Error("Microphone access denied", { cause: domError("NotAllowedError") })
+    const error = toMediaDeviceError(wrapped, "microphone")
+    expect(error.code).toBe("permission-denied")
+    expect(error.cause).toBe(wrapped)
+    expect(error.message).toBe("Permission to use the microphone was denied")
+  })
+
+  it("権限とデバイスの問題は自動で復帰しない", () => {
+    expect(new MediaDeviceError("permission-denied", "camera").recoverable).toBe(false)
+    expect(new MediaDeviceError("device-not-found", "camera").recoverable).toBe(false)
+    expect(new MediaDeviceError("device-busy", "camera").recoverable).toBe(true)
+    expect(new MediaDeviceError("stream-interrupted", "camera").recoverable).toBe(true)
+    expect(new MediaDeviceError("unknown", "camera").recoverable).toBe(true)
+  })
+
+  it("MediaDeviceError はそのまま返す", () => {
+    const error = new MediaDeviceError("device-busy", "camera")
+    expect(toMediaDeviceError(error, "camera")).toBe(error)
+    expect(isMediaDeviceError(error)).toBe(true)
+    expect(isMediaDeviceError(new Error("x"))).toBe(false)
+    expect(isMediaDeviceError(null)).toBe(false)
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * カメラ・マイクのエラーを種類（code）ごとに分ける
+ *
+ * - recoverable: 時間をおけば使えるようになる（他のアプリが使用中・一時的な中断）。自動で取り直す
+ * - それ以外: 利用者の操作が必要（権限の取り消し・デバイスが外された）。自動では取り直さない
+ */
+
+export type MediaErrorCode =
+  | "permission-denied" // 権限が拒否・取り消された
+  | "device-not-found" // デバイスがない・外された
+  | "device-busy" // 他のアプリ・タブが使用中
+  | "stream-interrupted" // バックグラウンドへの移動などでストリームが止まった
+  | "unknown"
+
+export type MediaDeviceKind = "camera" | "microphone"
+
+const FATAL_CODES: ReadonlySet<MediaErrorCode> = new Set(["permission-denied", "device-not-found"])
+
+const MESSAGES: Record<Exclude<MediaErrorCode, "unknown">, (device: MediaDeviceKind) => string> = {
+  "permission-denied": (device) => `Permission to use the ${device} was denied`,
+  "device-not-found": (device) => `No ${device} was found`,
+  "device-busy": (device) => `The ${device} is being used by another app`,
+  "stream-interrupted": (device) => `The ${device} stream was interrupted`,
+}
+
+export class MediaDeviceError extends Error {
+  readonly code: MediaErrorCode
+  readonly device: MediaDeviceKind
+
+  constructor(code: MediaErrorCode, device: MediaDeviceKind, options?: { message?: string; cause?: unknown }) {
+    super(options?.message ?? (code === "unknown" ? `The ${device} failed` : MESSAGES[code](device)), {
+      cause: options?.cause,
+    })
+    this.name = "MediaDeviceError"
+    this.code = code
+    this.device = device
+  }
+
+  get recoverable(): boolean {
+    return !FATAL_CODES.has(this.code)
+  }
+}
+
+// getUserMedia が投げる DOMException の name
+const CODES_BY_NAME: Record<string, MediaErrorCode> = {
+  NotAllowedError: "permission-denied",
+  PermissionDeniedError: "permission-denied", // 古い Chrome
+  SecurityError: "permission-denied",
+  NotFoundError: "device-not-found",
+  DevicesNotFoundError: "device-not-found",
+  OverconstrainedError: "device-not-found", // 指定した deviceId のデバイスがもうない
+  NotReadableError: "device-busy",
+  TrackStartError: "device-busy",
+  AbortError: "device-busy",
+}
+
+/**
+ * 任意のエラーを MediaDeviceError にする（cause をたどって getUserMedia の例外を探す）
+ */
+export const toMediaDeviceError = (error: unknown, device: MediaDeviceKind): MediaDeviceError => {
+  if (error instanceof MediaDeviceError) return error
+  let current: unknown = error
+  for (let depth = 0; current && depth < 5; depth++) {
+    const name = (current as { name?: unknown }).name
+    if (typeof name === "string" && name in CODES_BY_NAME) {
+      return new MediaDeviceError(CODES_BY_NAME[name], device, { cause: error })
+    }
+    current = (current as { cause?: unknown }).cause
+  }
+  return new MediaDeviceError("unknown", device, {
+    message: error instanceof Error ? error.message : undefined,
+    cause: error,
+  })
+}
+
+export const isMediaDeviceError = (error: unknown): error is MediaDeviceError => error instanceof MediaDeviceError
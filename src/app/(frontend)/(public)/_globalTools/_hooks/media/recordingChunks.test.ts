@@ -0,0 +1,54 @@
+/**
+ * recordingChunks テスト
+ *
+ * 録画データを順番に書き出し、まとめて1つの Blob にできること、書き出しの失敗を報告すること、
+ * チャンクのキーから ID と順番を取り出せることを検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createMemoryIdbStore } from "../testing/memoryStorage"
+import { createRecordingSink, parseChunkKey } from "./recordingChunks"
+
+describe("recordingChunks", () => {
+  it("書き出した順にまとめ、discard で書き出した分を消す", async () => {
+    const storage = createMemoryIdbStore()
+    const sink = createRecordingSink("rec", storage)
+    await Promise.all(["ab", "cd", "ef"].map((text) => sink.write(new Blob([text]))))
+    expect(sink.bytes).toBe(6)
+    expect(storage.objects.size).toBe(3)
+    const blob = await sink.finish("video/webm")
+    expect(blob.type).toBe("video/webm")
+    expect(await blob.text()).toBe("abcdef")
+    await sink.discard()
+    expect(storage.objects.size).toBe(0)
+  })
+
+  it("書き出しに失敗したら write と finish がエラーになる", async () => {
+    const storage = createMemoryIdbStore()
+    let calls = 0
+    const sink = createRecordingSink("rec", {
+      ...storage,
+      put: async (key, data) => {
+        if (++calls === 2) throw new Error("IdbStore: Storage quota exceeded")
+        await storage.put(key, data)
+      },
+    })
+    await sink.write(new Blob(["a"]))
+    await expect(sink.write(new Blob(["b"]))).rejects.toThrow("quota")
+    await expect(sink.finish("video/webm")).rejects.toThrow("Failed to write recording chunks")
+    // 書き出せた分だけでまとめることもできる
+    expect(await (await sink.finish("audio/webm", { partial: true })).text()).toBe("a")
+  })
+
+  it("チャンクのキーから ID と順番を取り出す", async () => {
+    const storage = createMemoryIdbStore()
+    const sink = createRecordingSink("microphone_abc", storage)
+    await sink.write(new Blob(["a"]))
+    await sink.write(new Blob(["b"]))
+    const parsed = [...storage.objects.keys()].map(parseChunkKey)
+    expect(parsed).toEqual([
+      { recordingId: "microphone_abc", index: 0 },
+      { recordingId: "microphone_abc", index: 1 },
+    ])
+    expect(parseChunkKey("microphone_abc_manifest")).toBeNull()
+  })
+})
@@ -0,0 +1,73 @@
+import { idbStore } from "../db/useIdbStore"
+
+/**
+ * 録画・録音データを一定間隔（MediaRecorder の timeslice）ごとに IndexedDB へ書き出す
+ * 長い録画でもメモリに溜めず、終了時にまとめて1つの Blob にする
+ */
+
+type ChunkStorage = Pick<ReturnType<typeof idbStore>, "put" | "get" | "remove">
+
+export interface RecordingSink {
+  write: (chunk: Blob) => Promise<void>
+  // partial: 書き出せなかったチャンクがあっても、書き出せた分だけでまとめる
+  finish: (type: string, options?: { partial?: boolean }) => Promise<Blob>
+  // 書き出し中のチャンクを待つ（失敗は finish で報告する）
+  flush: () => Promise<void>
+  discard: () => Promise<void>
+  readonly bytes: number
+}
+
+const chunkKey = (recordingId: string, index: number) => `${recordingId}_chunk_${String(index).padStart(5, "0")}`
+
+/**
+ * チャンクのキーから録画・録音の ID と順番を取り出す（チャンクのキーでなければ null）
+ */
+export const parseChunkKey = (key: string): { recordingId: string; index: number } | null => {
+  const match = /^(.+)_chunk_(\d{5,})$/.exec(key)
+  return match ? { recordingId: match[1], index: Number(match[2]) } : null
+}
+
+export const createRecordingSink = (recordingId: string, storage: ChunkStorage = idbStore()): RecordingSink => {
+  const keys: string[] = []
+  const written = new Set<string>()
+  let bytes = 0
+  // 書き込みは順番に行う（前の失敗は finish で報告する）
+  let writing: Promise<void> = Promise.resolve()
+  let failure: unknown = null
+
+  const write = (chunk: Blob): Promise<void> => {
+    const key = chunkKey(recordingId, keys.length)
+    keys.push(key)
+    bytes += chunk.size
+    const putting = writing.then(() => storage.put(key, chunk)).then(() => void written.add(key))
+    writing = putting.catch((error) => {
+      failure ??= error
+    })
+    return putting
+  }
+
+  const finish = async (type: string, options?: { partial?: boolean }): Promise<Blob> => {
+    await writing
+    if (failure && !options?.partial) throw new Error("Failed to write recording chunks", { cause: failure })
+    const parts = await Promise.all(keys.filter((key) => written.has(key)).map((key) => storage.get(key)))
+    if (parts.some((part) => !part)) throw new Error("Recording chunk is missing")
+    return new Blob(parts as Blob[], { type })
+  }
+
+  const discard = async (): Promise<void> => {
+    await writing
+    const removing = keys.splice(0)
+    written.clear()
+    await Promise.all(removing.map((key) => storage.remove(key).catch(() => {})))
+  }
+
+  return {
+    write,
+    finish,
+    flush: () => writing,
+    discard,
+    get bytes() {
+      return bytes
+    },
+  }
+}
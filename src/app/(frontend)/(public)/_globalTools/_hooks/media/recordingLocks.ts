@@ -0,0 +1,42 @@
+/**
+ * 録画・録音中のセッションのロック（Web Locks）
+ *
+ * 録画・録音中はロックを持っておき、他のタブで録っている途中のチャンクを、途中で落ちたものと間違えないようにする。
+ * タブが落ちればブラウザがロックを手放す。
+ */
+
+// このタブで持っているロック（Web Locks 非対応の環境でも自分の録画・録音は除けるように）
+const activeNames = new Set<string>()
+
+// happy-dom などでは navigator.locks が null になる
+const hasLocks = () => typeof navigator !== "undefined" && "locks" in navigator && navigator.locks !== null
+
+/**
+ * 録画・録音が終わるまでロックを持つ。返した関数で手放す
+ */
+export const holdRecordingLock = (name: string): (() => void) => {
+  activeNames.add(name)
+  let release = () => {}
+  if (hasLocks()) {
+    const held = new Promise<void>((resolve) => (release = resolve))
+    void navigator.locks.request(name, () => held)
+  }
+  return () => {
+    activeNames.delete(name)
+    release()
+  }
+}
+
+/**
+ * prefix で始まるロックのうち、持たれているもの（このタブと他のタブ）。prefix を除いた名前で返す
+ */
+export const heldRecordingLocks = async (prefix: string): Promise<Set<string>> => {
+  const names = new Set([...activeNames].filter((name) => name.startsWith(prefix)))
+  if (hasLocks()) {
+    const { held = [] } = await navigator.locks.query()
+    for (const { name } of held) {
+      if (name?.startsWith(prefix)) names.add(name)
+    }
+  }
+  return new Set([...names].map((name) => name.slice(prefix.length)))
+}
@@ -0,0 +1,185 @@
+import { idbStore } from "../db/useIdbStore"
+import { createRecordingSink, parseChunkKey } from "./recordingChunks"
+import { heldRecordingLocks, holdRecordingLock } from "./recordingLocks"
+
+/**
+ * 録画・録音セッション（タブが落ちても、書き出し済みのデータを失わないようにする）
+ *
+ * - データは timeslice ごとに IndexedDB へ書き出す（<keyPrefix><id>_chunk_00000, ...）
+ * - 形式や開始日時はマニフェスト（<keyPrefix><id>_manifest）に書く
+ * - 正常に終わったものはチャンクごと消す。残っているものは途中で落ちたものとして、次に開いたときに復元できる
+ *
+ * 録画・録音中のセッションは Web Locks でロックしておき、他のタブで録っている途中のものを途中で落ちたものと間違えないようにする。
+ * カメラとマイクは、キーとロックの prefix・形式の推定・以前の版のキーの扱いを変えて使う。
+ */
+
+export type SessionStorage = Pick<ReturnType<typeof idbStore>, "put" | "get" | "remove" | "listKeys">
+
+export interface RecordingSessionManifest {
+  id: string
+  mimeType: string // 空: 不明（チャンクの先頭から推定する）
+  startedAt: string // ISO 8601
+}
+
+export interface RecordingSession<M extends RecordingSessionManifest> {
+  readonly manifest: M
+  readonly bytes: number
+  write: (chunk: Blob) => Promise<void>
+  // マニフェストを書き換える（マーカーを付けたときなど）
+  updateManifest: (changes: Partial<Omit<M, "id">>) => Promise<void>
+  // 書き出したチャンクをつないだもの（type が空なら、形式は呼び出し側で付ける）
+  finish: (type?: string) => Promise<Blob>
+  discard: () => Promise<void>
+  // チャンクを残したまま終える（途中で落ちたものとして、次に開いたときに復元できる）
+  abandon: () => Promise<void>
+}
+
+export interface OrphanedRecording<M extends RecordingSessionManifest> {
+  manifest: M
+  chunkKeys: string[] // 録った順
+  bytes: number
+}
+
+interface RecordingSessionsConfig<M extends RecordingSessionManifest> {
+  keyPrefix: string
+  lockPrefix: string
+  // 先頭のバイト列から形式を推定する（推定できなければ空か null）
+  sniffMimeType: (head: Uint8Array) => string | null
+  defaultMimeType: string
+  // マニフェストがない・読めないときの値（firstOrder は最初のチャンクの順番）
+  fallbackManifest: (id: string, firstOrder: number) => M
+  // マニフェストなしで書き出していた以前の版のキーから、ID と順番を取り出す
+  parseLegacyChunkKey?: (key: string) => { id: string; order: number } | null
+  // 残っていたチャンクを形式に合わせてまとめる（null: そのままつなぐ）
+  assemble?: (chunks: Blob[], manifest: M) => Blob | null
+}
+
+export const createRecordingSessions = <M extends RecordingSessionManifest>(config: RecordingSessionsConfig<M>) => {
+  const { keyPrefix, lockPrefix } = config
+  const recordingIdOf = (id: string) => `${keyPrefix}${id}`
+  const manifestKey = (id: string) => `${recordingIdOf(id)}_manifest`
+
+  const writeManifest = (storage: SessionStorage, manifest: M) =>
+    storage.put(manifestKey(manifest.id), new Blob([JSON.stringify(manifest)], { type: "application/json" }))
+
+  const readManifest = async (storage: SessionStorage, id: string, firstOrder: number): Promise<M | null> => {
+    try {
+      const blob = await storage.get(manifestKey(id))
+      const parsed = blob ? JSON.parse(await blob.text()) : null
+      return parsed && typeof parsed.id === "string" ? { ...config.fallbackManifest(id, firstOrder), ...parsed } : null
+    } catch {
+      return null
+    }
+  }
+
+  const parseSessionChunkKey = (key: string): { id: string; order: number } | null => {
+    const legacy = config.parseLegacyChunkKey?.(key)
+    if (legacy) return legacy
+    const parsed = parseChunkKey(key)
+    if (!parsed?.recordingId.startsWith(keyPrefix)) return null
+    return { id: parsed.recordingId.slice(keyPrefix.length), order: parsed.index }
+  }
+
+  const create = async (
+    options: Omit<M, "id" | "startedAt">,
+    storage: SessionStorage = idbStore(),
+  ): Promise<RecordingSession<M>> => {
+    const manifest = {
+      ...options,
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: new Date().toISOString(),
+    } as M
+    const release = holdRecordingLock(`${lockPrefix}${manifest.id}`)
+    // マニフェストを先に書く（最初のチャンクより前に落ちても、形式が分かるように）
+    try {
+      await writeManifest(storage, manifest)
+    } catch (error) {
+      release()
+      throw error
+    }
+    const sink = createRecordingSink(recordingIdOf(manifest.id), storage)
+
+    return {
+      manifest,
+      get bytes() {
+        return sink.bytes
+      },
+      write: (chunk) => sink.write(chunk),
+      updateManifest: async (changes) => {
+        Object.assign(manifest, changes)
+        await writeManifest(storage, manifest)
+      },
+      finish: (type = "") => sink.finish(type),
+      discard: async () => {
+        await sink.discard()
+        await storage.remove(manifestKey(manifest.id)).catch(() => {})
+        release()
+      },
+      abandon: async () => {
+        await sink.flush()
+        release()
+      },
+    }
+  }
+
+  /**
+   * 途中で落ちたもの（消されずに残っているチャンク）を探す。録画・録音中のセッションは除く
+   */
+  const findOrphans = async (storage: SessionStorage = idbStore()): Promise<OrphanedRecording<M>[]> => {
+    const [keys, recording] = await Promise.all([storage.listKeys(), heldRecordingLocks(lockPrefix)])
+    const chunks = new Map<string, { key: string; order: number }[]>()
+    const manifestIds = new Set<string>()
+    for (const key of keys) {
+      const chunk = parseSessionChunkKey(key)
+      if (chunk) {
+        chunks.set(chunk.id, [...(chunks.get(chunk.id) ?? []), { key, order: chunk.order }])
+      } else if (key.startsWith(keyPrefix) && key.endsWith("_manifest")) {
+        manifestIds.add(key.slice(keyPrefix.length, -"_manifest".length))
+      }
+    }
+
+    const orphans: OrphanedRecording<M>[] = []
+    for (const id of new Set([...chunks.keys(), ...manifestIds])) {
+      if (recording.has(id)) continue
+      const entries = (chunks.get(id) ?? []).sort((a, b) => a.order - b.order)
+      if (entries.length === 0) {
+        // チャンクを書く前に落ちたものは、復元するものがないのでマニフェストだけ消す
+        await storage.remove(manifestKey(id)).catch(() => {})
+        continue
+      }
+      const manifest =
+        (manifestIds.has(id) ? await readManifest(storage, id, entries[0].order) : null) ??
+        config.fallbackManifest(id, entries[0].order)
+      let bytes = 0
+      for (const { key } of entries) bytes += (await storage.get(key).catch(() => undefined))?.size ?? 0
+      orphans.push({ manifest, chunkKeys: entries.map((entry) => entry.key), bytes })
+    }
+    return orphans.sort((a, b) => a.manifest.startedAt.localeCompare(b.manifest.startedAt))
+  }
+
+  /**
+   * 残っていたチャンクを1つのファイルに戻す（読めないチャンクは飛ばす）
+   */
+  const restore = async (orphan: OrphanedRecording<M>, storage: SessionStorage = idbStore()): Promise<Blob> => {
+    const chunks: Blob[] = []
+    for (const key of orphan.chunkKeys) {
+      const chunk = await storage.get(key).catch(() => undefined)
+      if (chunk && chunk.size > 0) chunks.push(chunk)
+    }
+    if (chunks.length === 0) throw new Error("No recording chunks could be read")
+    const assembled = config.assemble?.(chunks, orphan.manifest)
+    if (assembled) return assembled
+    const mimeType =
+      orphan.manifest.mimeType || config.sniffMimeType(new Uint8Array(await chunks[0].slice(0, 12).arrayBuffer()))
+    // コーデック指定（;codecs=...）を除いた形式で保存する
+    return new Blob(chunks, { type: (mimeType || config.defaultMimeType).split(";")[0].trim().toLowerCase() })
+  }
+
+  const discardOrphan = async (orphan: OrphanedRecording<M>, storage: SessionStorage = idbStore()): Promise<void> => {
+    await Promise.all(
+      [...orphan.chunkKeys, manifestKey(orphan.manifest.id)].map((key) => storage.remove(key).catch(() => {})),
+    )
+  }
+
+  return { create, findOrphans, restore, discardOrphan }
+}
@@ -0,0 +1,141 @@
+/**
+ * streamMonitor テスト
+ *
+ * トラックの ended / mute、画面の表示状態、デバイスの抜き差しからストリームの停止を検知することを検証する。
+ */
+import { afterEach, beforeEach, describe, expect, it, onTestFinished, vi } from "vitest"
+import { createStreamMonitor, isStreamLive, type StreamMonitor } from "./streamMonitor"
+
+class FakeTrack extends EventTarget {
+  readyState: MediaStreamTrackState = "live"
+  muted = false
+
+  end() {
+    this.readyState = "ended"
+    this.dispatchEvent(new Event("ended"))
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted
+    this.dispatchEvent(new Event(muted ? "mute" : "unmute"))
+  }
+}
+
+const createStream = (...tracks: FakeTrack[]) => ({ getTracks: () => tracks }) as unknown as MediaStream
+
+let visibility: DocumentVisibilityState = "visible"
+const setVisibility = (next: DocumentVisibilityState) => {
+  visibility = next
+  document.dispatchEvent(new Event("visibilitychange"))
+}
+
+describe("streamMonitor", () => {
+  let monitor: StreamMonitor | null = null
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    visibility = "visible"
+    vi.spyOn(document, "visibilityState", "get").mockImplementation(() => visibility)
+  })
+
+  afterEach(() => {
+    monitor?.stop()
+    monitor = null
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it("すべてのトラックが動いていて mute されていなければ live", () => {
+    const track = new FakeTrack()
+    expect(isStreamLive(createStream(track))).toBe(true)
+    track.muted = true
+    expect(isStreamLive(createStream(track))).toBe(false)
+    expect(isStreamLive(createStream())).toBe(false)
+    expect(isStreamLive(null)).toBe(false)
+  })
+
+  it("トラックが終わったら1回だけ通知し、attach し直すまで通知しない", () => {
+    const onLost = vi.fn()
+    monitor = createStreamMonitor({ onLost })
+    const track = new FakeTrack()
+    monitor.attach(createStream(track))
+    track.end()
+    track.dispatchEvent(new Event("ended"))
+    expect(onLost).toHaveBeenCalledTimes(1)
+    expect(onLost).toHaveBeenCalledWith("ended")
+
+    const next = new FakeTrack()
+    monitor.attach(createStream(next))
+    // 前のトラックの監視は外れている
+    track.dispatchEvent(new Event("ended"))
+    expect(onLost).toHaveBeenCalledTimes(1)
+    next.end()
+    expect(onLost).toHaveBeenCalledTimes(2)
+  })
+
+  it("mute が続いたときだけ通知する", () => {
+    const onLost = vi.fn()
+    monitor = createStreamMonitor({ onLost })
+    const track = new FakeTrack()
+    monitor.attach(createStream(track))
+    track.setMuted(true)
+    vi.advanceTimersByTime(500)
+    track.setMuted(false)
+    vi.advanceTimersByTime(5000)
+    expect(onLost).not.toHaveBeenCalled()
+
+    track.setMuted(true)
+    vi.advanceTimersByTime(2000)
+    expect(onLost).toHaveBeenCalledWith("muted")
+  })
+
+  it("バックグラウンドの間に止まったストリームは、画面に戻ったときに通知する", () => {
+    const onLost = vi.fn()
+    monitor = createStreamMonitor({ onLost })
+    const track = new FakeTrack()
+    monitor.attach(createStream(track))
+    setVisibility("hidden")
+    track.end()
+    expect(onLost).not.toHaveBeenCalled()
+    setVisibility("visible")
+    expect(onLost).toHaveBeenCalledWith("resumed")
+  })
+
+  it("取り直しに失敗した（ストリームがない）ときは、画面に戻る・デバイスが変わるたびに通知する", () => {
+    const onLost = vi.fn()
+    const onDeviceChange = vi.fn()
+    const mediaDevices = new EventTarget()
+    // navigator.mediaDevices はプロトタイプの getter なので、インスタンスに上書きして後で消す
+    Object.defineProperty(navigator, "mediaDevices", { configurable: true, value: mediaDevices })
+    onTestFinished(() => {
+      Reflect.deleteProperty(navigator, "mediaDevices")
+    })
+    monitor = createStreamMonitor({ onLost, onDeviceChange })
+    monitor.attach(null)
+    mediaDevices.dispatchEvent(new Event("devicechange"))
+    expect(onDeviceChange).toHaveBeenCalledTimes(1)
+    expect(onLost).toHaveBeenCalledWith("devicechange")
+
+    monitor.attach(null)
+    setVisibility("hidden")
+    setVisibility("visible")
+    expect(onLost).toHaveBeenLastCalledWith("resumed")
+
+    // 動いているストリームならデバイスが変わっても通知しない
+    monitor.attach(createStream(new FakeTrack()))
+    mediaDevices.dispatchEvent(new Event("devicechange"))
+    expect(onLost).toHaveBeenCalledTimes(2)
+    expect(onDeviceChange).toHaveBeenCalledTimes(2)
+  })
+
+  it("stop の後は通知しない", () => {
+    const onLost = vi.fn()
+    monitor = createStreamMonitor({ onLost })
+    const track = new FakeTrack()
+    monitor.attach(createStream(track))
+    monitor.stop()
+    track.end()
+    setVisibility("visible")
+    expect(onLost).not.toHaveBeenCalled()
+  })
+})
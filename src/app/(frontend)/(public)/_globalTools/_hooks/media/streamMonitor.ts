@@ -0,0 +1,120 @@
+/**
+ * カメラ・マイクのストリームが使えなくなったことを検知する
+ *
+ * - トラックの ended: 他のアプリに奪われた・デバイスが外された・権限が取り消された
+ * - トラックの mute が続く: OS やブラウザが一時的に止めた（戻らなければ取り直す）
+ * - visibilitychange: バックグラウンドの間は何もせず、戻ったときにストリームを確かめる
+ * - devicechange: デバイスの抜き差し
+ *
+ * 見えていない間に止まったストリームは、画面に戻ったときにまとめて通知する。
+ */
+
+export type StreamLossReason = "ended" | "muted" | "resumed" | "devicechange"
+
+export interface StreamMonitor {
+  // 監視するストリームを差し替える（null: 取り直しに失敗したので、次の機会にまた通知する）
+  attach: (stream: MediaStream | null) => void
+  stop: () => void
+}
+
+// mute がこれより長く続いたら止まったとみなす（一瞬の mute は端末の切り替えなどでも起きる）
+const MUTE_GRACE_MS = 1500
+
+/**
+ * すべてのトラックが動いていて、mute されていないか
+ */
+export const isStreamLive = (stream: MediaStream | null): boolean => {
+  if (!stream) return false
+  const tracks = stream.getTracks()
+  return tracks.length > 0 && tracks.every((track) => track.readyState === "live" && !track.muted)
+}
+
+const isVisible = () => typeof document === "undefined" || document.visibilityState !== "hidden"
+
+const getMediaDevices = (): MediaDevices | null =>
+  typeof navigator !== "undefined" &&
+  "mediaDevices" in navigator &&
+  typeof navigator.mediaDevices.addEventListener === "function"
+    ? navigator.mediaDevices
+    : null
+
+/**
+ * ストリームの監視を始める。onLost はストリームごとに1回だけ呼ぶ（attach で次のストリームを渡すまで）
+ */
+export const createStreamMonitor = (handlers: {
+  onLost: (reason: StreamLossReason) => void
+  onDeviceChange?: () => void
+}): StreamMonitor => {
+  let stream: MediaStream | null = null
+  let isLost = false
+  let isStopped = false
+  let muteTimer: ReturnType<typeof setTimeout> | null = null
+
+  const clearMuteTimer = () => {
+    if (muteTimer) clearTimeout(muteTimer)
+    muteTimer = null
+  }
+
+  const report = (reason: StreamLossReason) => {
+    if (isStopped || isLost || !isVisible()) return
+    isLost = true
+    clearMuteTimer()
+    handlers.onLost(reason)
+  }
+
+  const check = (reason: StreamLossReason) => {
+    if (!isStreamLive(stream)) report(reason)
+  }
+
+  const handleEnded = () => report("ended")
+  const handleMute = () => {
+    clearMuteTimer()
+    muteTimer = setTimeout(() => check("muted"), MUTE_GRACE_MS)
+  }
+  const handleUnmute = () => {
+    if (stream?.getTracks().every((track) => !track.muted)) clearMuteTimer()
+  }
+  const handleVisibilityChange = () => {
+    if (!isVisible()) return
+    // 戻った直後は mute が解けていないことがあるので、ended 以外は少し待って確かめる
+    if (!stream || stream.getTracks().some((track) => track.readyState === "ended")) check("resumed")
+    else if (!isStreamLive(stream)) handleMute()
+  }
+  const handleDeviceChange = () => {
+    handlers.onDeviceChange?.()
+    check("devicechange")
+  }
+
+  const detachTracks = () => {
+    stream?.getTracks().forEach((track) => {
+      track.removeEventListener("ended", handleEnded)
+      track.removeEventListener("mute", handleMute)
+      track.removeEventListener("unmute", handleUnmute)
+    })
+  }
+
+  if (typeof document !== "undefined") document.addEventListener("visibilitychange", handleVisibilityChange)
+  getMediaDevices()?.addEventListener("devicechange", handleDeviceChange)
+
+  return {
+    attach: (next) => {
+      detachTracks()
+      clearMuteTimer()
+      stream = next
+      isLost = false
+      next?.getTracks().forEach((track) => {
+        track.addEventListener("ended", handleEnded)
+        track.addEventListener("mute", handleMute)
+        track.addEventListener("unmute", handleUnmute)
+      })
+    },
+    stop: () => {
+      isStopped = true
+      detachTracks()
+      clearMuteTimer()
+      stream = null
+      if (typeof document !== "undefined") document.removeEventListener("visibilitychange", handleVisibilityChange)
+      getMediaDevices()?.removeEventListener("devicechange", handleDeviceChange)
+    },
+  }
+}
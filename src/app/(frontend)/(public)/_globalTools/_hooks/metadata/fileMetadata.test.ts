@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest"
+import { extractFileMetadata, parseExif } from "./fileMetadata"
+
+/**
+ * リトルエンディアンの EXIF（向き・撮影日時・位置情報）を持つ最小の JPEG を組み立てる
+ * オフセットは TIFF ヘッダーの先頭からの位置
+ */
+const buildJpegWithExif = (): Uint8Array => {
+  const tiff = new DataView(new ArrayBuffer(210))
+  const ascii = (offset: number, text: string) =>
+    Array.from(text).forEach((c, i) => tiff.setUint8(offset + i, c.charCodeAt(0)))
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    tiff.setUint16(at, tag, true)
+    tiff.setUint16(at + 2, type, true)
+    tiff.setUint32(at + 4, count, true)
+    if (type === 3 && count === 1) tiff.setUint16(at + 8, value, true)
+    else tiff.setUint32(at + 8, value, true)
+  }
+  const rationals = (at: number, values: [number, number][]) =>
+    values.forEach(([n, d], i) => {
+      tiff.setUint32(at + i * 8, n, true)
+      tiff.setUint32(at + i * 8 + 4, d, true)
+    })
+  ascii(0, "II")
+  tiff.setUint16(2, 0x2a, true)
+  tiff.setUint32(4, 8, true)
+  // IFD0: Orientation=6（90度）, Exif IFD, GPS IFD
+  tiff.setUint16(8, 3, true)
+  entry(10, 0x0112, 3, 1, 6)
+  entry(22, 0x8769, 4, 1, 50)
+  entry(34, 0x8825, 4, 1, 80)
+  // Exif IFD: DateTimeOriginal, OffsetTimeOriginal
+  tiff.setUint16(50, 2, true)
+  entry(52, 0x9003, 2, 20, 134)
+  entry(64, 0x9011, 2, 7, 154)
+  // GPS IFD: 北緯 35°39'29.1" / 東経 139°44'28.8"
+  tiff.setUint16(80, 4, true)
+  entry(82, 0x0001, 2, 2, "N".charCodeAt(0))
+  entry(94, 0x0002, 5, 3, 162)
+  entry(106, 0x0003, 2, 2, "E".charCodeAt(0))
+  entry(118, 0x0004, 5, 3, 186)
+  ascii(134, "2024:05:01 18:30:00\0")
+  ascii(154, "+09:00\0")
+  rationals(162, [
+    [35, 1],
+    [39, 1],
+    [291, 10],
+  ])
+  rationals(186, [
+    [139, 1],
+    [44, 1],
+    [288, 10],
+  ])
+
+  const app1Length = 2 + 6 + tiff.byteLength
+  return new Uint8Array([
+    0xff,
+    0xd8,
+    0xff,
+    0xe1,
+    app1Length >> 8,
+    app1Length & 0xff,
+    ...Array.from("Exif\0\0", (c) => c.charCodeAt(0)),
+    ...new Uint8Array(tiff.buffer),
+    0xff,
+    0xda,
+    0x00,
+    0x02,
+  ])
+}
+
+describe("fileMetadata", () => {
+  it("JPEG の EXIF から向き・撮影日時（タイムゾーン付き）・位置情報を読み取る", () => {
+    const metadata = parseExif(buildJpegWithExif().buffer as ArrayBuffer)
+    expect(metadata.orientation).toBe(90)
+    expect(metadata.capturedAt).toBe("2024-05-01T09:30:00.000Z")
+    expect(metadata.location?.latitude).toBeCloseTo(35.658083, 5)
+    expect(metadata.location?.longitude).toBeCloseTo(139.741333, 5)
+  })
+
+  it("JPEG でない・EXIF がないデータは空のメタデータになる", () => {
+    expect(parseExif(new TextEncoder().encode("not a jpeg").buffer as ArrayBuffer)).toEqual({})
+    expect(parseExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02]).buffer as ArrayBuffer)).toEqual({})
+  })
+
+  it("撮影時のヒントは抽出結果より優先し、撮影日時が分からなければファイルの更新日時を使う", async () => {
+    const photo = new File([buildJpegWithExif() as BlobPart], "photo.jpg", { type: "image/jpeg" })
+    const metadata = await extractFileMetadata(photo, { orientation: 180, width: undefined })
+    expect(metadata).toMatchObject({ orientation: 180, capturedAt: "2024-05-01T09:30:00.000Z" })
+    expect(metadata.location).toBeDefined()
+
+    const lastModified = Date.UTC(2024, 0, 2, 3, 4, 5)
+    const note = new File(["memo"], "memo.txt", { type: "text/plain", lastModified })
+    expect(await extractFileMetadata(note)).toEqual({ capturedAt: new Date(lastModified).toISOString() })
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * ファイルのメタデータ（files.metadata に JSON で保存する）
+ *
+ * - 画像: 幅・高さ、EXIF の撮影日時・向き・位置情報
+ * - 動画/音声: 長さ（動画は幅・高さも）
+ * - カメラで撮影したものは EXIF を持たないため、撮影時の端末の向き・日時・位置を呼び出し側から渡す
+ * - 録音中に付けたマーカーも呼び出し側から渡す
+ * 抽出に失敗しても保存は止めない（取れた項目だけを返す）
+ */
+
+export interface GeoLocation {
+  latitude: number
+  longitude: number
+  altitude?: number // メートル
+  accuracy?: number // メートル（Geolocation API で取得した場合のみ）
+}
+
+export interface RecordingMarker {
+  time: number // 録音開始からの秒（一時停止していた時間は含まない）
+  label?: string
+}
+
+export interface FileMetadata {
+  width?: number
+  height?: number
+  orientation?: number // 撮影時の端末の向き（度。0 / 90 / 180 / 270）
+  capturedAt?: string // 撮影日時（ISO 8601）
+  location?: GeoLocation
+  duration?: number // 秒
+  markers?: RecordingMarker[] // 録音中に付けた目印
+}
+
+const MEDIA_TIMEOUT_MS = 5000
+const LOCATION_TIMEOUT_MS = 5000
+
+// EXIF の Orientation（1〜8）から回転角へ（反転を含む値も回転角だけを採る）
+const EXIF_ORIENTATION_DEGREES: Record<number, number> = { 1: 0, 2: 0, 3: 180, 4: 180, 5: 90, 6: 90, 7: 270, 8: 270 }
+
+const TAG = {
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+} as const
+
+type IfdValue = number | number[] | string
+
+/**
+ * TIFF の IFD を読み、タグ → 値の Map にする（使う型だけを扱う）
+ */
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, IfdValue> => {
+  const entries = new Map<number, IfdValue>()
+  const start = tiffStart + offset
+  if (start + 2 > view.byteLength) return entries
+  const count = view.getUint16(start, little)
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12
+    if (entry + 12 > view.byteLength) break
+    const tag = view.getUint16(entry, little)
+    const type = view.getUint16(entry + 2, little)
+    const n = view.getUint32(entry + 4, little)
+    const size = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 10: 8 }[type]
+    if (!size) continue
+    const valueOffset = size * n > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8
+    if (valueOffset + size * n > view.byteLength) continue
+    if (type === 2) {
+      const chars = Array.from({ length: n }, (_, k) => view.getUint8(valueOffset + k))
+      entries.set(tag, String.fromCharCode(...chars).replace(/\0+$/, ""))
+      continue
+    }
+    const values = Array.from({ length: n }, (_, k) => {
+      const at = valueOffset + k * size
+      switch (type) {
+        case 1:
+          return view.getUint8(at)
+        case 3:
+          return view.getUint16(at, little)
+        case 4:
+          return view.getUint32(at, little)
+        case 5:
+          return view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)
+        default:
+          return view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1)
+      }
+    })
+    entries.set(tag, n === 1 ? values[0] : values)
+  }
+  return entries
+}
+
+/**
+ * EXIF の日時（"YYYY:MM:DD HH:MM:SS"）を ISO 8601 にする
+ * タイムゾーン（OffsetTimeOriginal）がなければ端末のローカル時刻として扱う
+ */
+const parseExifDate = (value: IfdValue | undefined, offset: IfdValue | undefined): string | undefined => {
+  if (typeof value !== "string") return undefined
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value)
+  if (!match) return undefined
+  const [, y, mo, d, h, mi, s] = match
+  const date =
+    typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`)
+      : new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s))
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+const toDegrees = (value: IfdValue | undefined, ref: IfdValue | undefined, negative: string): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600
+  return ref === negative ? -degrees : degrees
+}
+
+/**
+ * JPEG の EXIF（APP1）から向き・撮影日時・ピクセル数・位置情報を読み取る
+ * JPEG 以外や EXIF がない場合は空のオブジェクトを返す
+ */
+export const parseExif = (buffer: ArrayBuffer): FileMetadata => {
+  const view = new DataView(buffer)
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {}
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break // 画像データ（SOS）以降に EXIF はない
+    // "Exif\0\0" の後ろが TIFF ヘッダー
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10
+      const little = view.getUint16(tiffStart) === 0x4949
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+      const exifOffset = ifd0.get(TAG.exifIfd)
+      const gpsOffset = ifd0.get(TAG.gpsIfd)
+      const exif = typeof exifOffset === "number" ? readIfd(view, tiffStart, exifOffset, little) : new Map()
+      const gps = typeof gpsOffset === "number" ? readIfd(view, tiffStart, gpsOffset, little) : new Map()
+
+      const metadata: FileMetadata = {}
+      const orientation = ifd0.get(TAG.orientation)
+      if (typeof orientation === "number" && orientation in EXIF_ORIENTATION_DEGREES) {
+        metadata.orientation = EXIF_ORIENTATION_DEGREES[orientation]
+      }
+      const capturedAt =
+        parseExifDate(exif.get(TAG.dateTimeOriginal), exif.get(TAG.offsetTimeOriginal)) ??
+        parseExifDate(ifd0.get(TAG.dateTime), undefined)
+      if (capturedAt) metadata.capturedAt = capturedAt
+      const width = exif.get(TAG.pixelXDimension)
+      const height = exif.get(TAG.pixelYDimension)
+      if (typeof width === "number" && typeof height === "number") {
+        metadata.width = width
+        metadata.height = height
+      }
+      const latitude = toDegrees(gps.get(TAG.gpsLatitude), gps.get(TAG.gpsLatitudeRef), "S")
+      const longitude = toDegrees(gps.get(TAG.gpsLongitude), gps.get(TAG.gpsLongitudeRef), "W")
+      if (latitude !== undefined && longitude !== undefined) {
+        const altitude = gps.get(TAG.gpsAltitude)
+        metadata.location = { latitude, longitude }
+        if (typeof altitude === "number") {
+          metadata.location.altitude = gps.get(TAG.gpsAltitudeRef) === 1 ? -altitude : altitude
+        }
+      }
+      return metadata
+    }
+    offset += 2 + length
+  }
+  return {}
+}
+
+/**
+ * タイムアウト付きで待つ（メディアのデコードが返ってこない環境があるため）
+ */
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T | null> =>
+  new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), ms)
+    promise
+      .then((value) => resolve(value))
+      .catch(() => resolve(null))
+      .finally(() => clearTimeout(timer))
+  })
+
+/**
+ * 画像の表示上の幅・高さ（EXIF の向きを反映した後のもの）
+ */
+const readImageSize = async (file: Blob): Promise<Pick<FileMetadata, "width" | "height"> | null> => {
+  if (typeof createImageBitmap !== "function") return null
+  const bitmap = await createImageBitmap(file)
+  try {
+    return { width: bitmap.width, height: bitmap.height }
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * 動画・音声の長さ（動画は幅・高さも）
+ * MediaRecorder の WebM は長さが Infinity になるため、末尾へシークして確定させる
+ * 時間内に読めなければ、その時点で分かっている項目だけを返す
+ */
+const readMediaInfo = (file: Blob, kind: "video" | "audio"): Promise<FileMetadata> =>
+  new Promise((resolve, reject) => {
+    if (typeof document === "undefined") return reject(new Error("No document"))
+    const element = document.createElement(kind)
+    const url = URL.createObjectURL(file)
+    const finish = (result: FileMetadata | Error) => {
+      clearTimeout(timer)
+      element.onloadedmetadata = element.ondurationchange = element.onerror = null
+      element.removeAttribute("src")
+      element.load()
+      URL.revokeObjectURL(url)
+      if (result instanceof Error) reject(result)
+      else resolve(result)
+    }
+    const collect = (): FileMetadata => {
+      const metadata: FileMetadata = {}
+      if (Number.isFinite(element.duration)) metadata.duration = element.duration
+      if (element instanceof HTMLVideoElement && element.videoWidth > 0) {
+        metadata.width = element.videoWidth
+        metadata.height = element.videoHeight
+      }
+      return metadata
+    }
+    const timer = setTimeout(() => finish(collect()), MEDIA_TIMEOUT_MS)
+    element.preload = "metadata"
+    element.onloadedmetadata = () => {
+      if (Number.isFinite(element.duration)) return finish(collect())
+      element.ondurationchange = () => {
+        if (Number.isFinite(element.duration)) finish(collect())
+      }
+      element.currentTime = Number.MAX_SAFE_INTEGER
+    }
+    element.onerror = () => finish(new Error(`Failed to load ${kind} metadata`))
+    element.src = url
+  })
+
+/**
+ * 現在地を取得する（位置情報の許可が既にある場合のみ。撮影のたびに許可を求めない）
+ */
+export const getCurrentLocation = async (): Promise<GeoLocation | null> => {
+  if (typeof navigator === "undefined" || !navigator.geolocation || !navigator.permissions) return null
+  try {
+    const permission = await navigator.permissions.query({ name: "geolocation" })
+    if (permission.state !== "granted") return null
+  } catch {
+    return null
+  }
+  const position = await withTimeout(
+    new Promise<GeolocationPosition>((resolve, reject) =>
+      navigator.geolocation.getCurrentPosition(resolve, reject, {
+        maximumAge: 60 * 1000,
+        timeout: LOCATION_TIMEOUT_MS,
+      }),
+    ),
+    LOCATION_TIMEOUT_MS,
+  )
+  if (!position) return null
+  const { latitude, longitude, altitude, accuracy } = position.coords
+  return { latitude, longitude, accuracy, ...(altitude !== null ? { altitude } : {}) }
+}
+
+/**
+ * ファイルからメタデータを抽出する
+ * hints（撮影時に分かっている向き・日時・位置等）は抽出結果より優先する
+ */
+export const extractFileMetadata = async (file: Blob, hints: FileMetadata = {}): Promise<FileMetadata> => {
+  const extracted: FileMetadata = {}
+  const type = file.type
+  try {
+    if (type.startsWith("image/")) {
+      if (type === "image/jpeg") Object.assign(extracted, parseExif(await file.slice(0, 128 * 1024).arrayBuffer()))
+      const size = await withTimeout(readImageSize(file), MEDIA_TIMEOUT_MS)
+      if (size) Object.assign(extracted, size)
+    } else if (type.startsWith("video/") || type.startsWith("audio/")) {
+      Object.assign(extracted, await readMediaInfo(file, type.startsWith("video/") ? "video" : "audio"))
+    }
+  } catch (error) {
+    console.warn("[FileMetadata] Extraction failed:", error)
+  }
+  // 撮影日時が分からない選択ファイルは、ファイルの更新日時で代用する
+  if (!extracted.capturedAt && file instanceof File && file.lastModified > 0) {
+    extracted.capturedAt = new Date(file.lastModified).toISOString()
+  }
+  const defined = Object.entries(hints).filter(([, value]) => value !== undefined)
+  return { ...extracted, ...Object.fromEntries(defined) }
+}
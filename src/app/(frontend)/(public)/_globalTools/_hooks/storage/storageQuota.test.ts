@@ -0,0 +1,60 @@
+/**
+ * storageQuota テスト
+ *
+ * StorageManager の有無・失敗時のフォールバックと、しきい値判定・容量超過エラーの検出を検証する。
+ */
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { estimateStorage, formatBytes, getStorageLevel, isQuotaExceededError, requestPersistence } from "./storageQuota"
+
+describe("storageQuota", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("estimate() と persisted() の結果を返す", async () => {
+    vi.stubGlobal("navigator", {
+      storage: {
+        estimate: async () => ({ usage: 800, quota: 1000 }),
+        persisted: async () => false,
+      },
+    })
+    expect(await estimateStorage()).toEqual({ usage: 800, quota: 1000, persisted: false })
+  })
+
+  it("StorageManager がなければ不明（null）として返す", async () => {
+    vi.stubGlobal("navigator", {})
+    expect(await estimateStorage()).toEqual({ usage: null, quota: null, persisted: null })
+    expect(await requestPersistence()).toBe(false)
+  })
+
+  it("永続化済みなら persist() を呼ばない", async () => {
+    const persist = vi.fn(async () => true)
+    vi.stubGlobal("navigator", { storage: { persisted: async () => true, persist } })
+    expect(await requestPersistence()).toBe(true)
+    expect(persist).not.toHaveBeenCalled()
+  })
+
+  it("使用率からレベルを判定する", () => {
+    const thresholds = { warning: 0.5, critical: 0.9 }
+    expect(getStorageLevel(10, 100, thresholds)).toBe("ok")
+    expect(getStorageLevel(50, 100, thresholds)).toBe("warning")
+    expect(getStorageLevel(95, 100, thresholds)).toBe("critical")
+    expect(getStorageLevel(null, 100, thresholds)).toBe("ok")
+    expect(getStorageLevel(10, 0, thresholds)).toBe("ok")
+  })
+
+  it("ラップされた QuotaExceededError を検出する", () => {
+    const quota = new DOMException("full", "QuotaExceededError")
+    const wrapped = new Error("Failed to save file", { cause: new Error("IdbStore: put failed", { cause: quota }) })
+    expect(isQuotaExceededError(wrapped)).toBe(true)
+    expect(isQuotaExceededError(new Error("other"))).toBe(false)
+    expect(isQuotaExceededError(null)).toBe(false)
+  })
+
+  it("バイト数を整形する", () => {
+    expect(formatBytes(512)).toBe("512 B")
+    expect(formatBytes(1536)).toBe("1.5 KB")
+    expect(formatBytes(200 * 1024 * 1024)).toBe("200 MB")
+    expect(formatBytes(null)).toBe("—")
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * ブラウザのストレージ容量（StorageManager）まわりのユーティリティ
+ *
+ * - estimate() はオリジン全体（IndexedDB・OPFS・キャッシュ等）の使用量を返す概算値
+ * - 未対応ブラウザでは null を返し、呼び出し側は「不明」として扱う
+ */
+
+export type StorageLevel = "ok" | "warning" | "critical"
+
+/**
+ * 使用率（0〜1）のしきい値
+ */
+export interface StorageThresholds {
+  warning: number
+  critical: number
+}
+
+export const DEFAULT_STORAGE_THRESHOLDS: StorageThresholds = { warning: 0.8, critical: 0.95 }
+
+export interface StorageEstimateResult {
+  usage: number | null
+  quota: number | null
+  persisted: boolean | null
+}
+
+const getStorageManager = (): StorageManager | null =>
+  typeof navigator !== "undefined" && navigator.storage ? navigator.storage : null
+
+/**
+ * navigator.storage.estimate() / persisted() を読む（未対応・失敗時は null）
+ */
+export const estimateStorage = async (): Promise<StorageEstimateResult> => {
+  const manager = getStorageManager()
+  const result: StorageEstimateResult = { usage: null, quota: null, persisted: null }
+  if (!manager) return result
+  try {
+    if (typeof manager.estimate === "function") {
+      const { usage, quota } = await manager.estimate()
+      result.usage = usage ?? null
+      result.quota = quota ?? null
+    }
+    if (typeof manager.persisted === "function") {
+      result.persisted = await manager.persisted()
+    }
+  } catch (error) {
+    console.warn("[StorageQuota] estimate failed:", error)
+  }
+  return result
+}
+
+/**
+ * 永続ストレージを要求する（ブラウザの判断で容量逼迫時に削除されなくなる）
+ * Firefox では許可ダイアログが出るため、ユーザー操作に続けて呼ぶこと
+ */
+export const requestPersistence = async (): Promise<boolean> => {
+  const manager = getStorageManager()
+  if (!manager || typeof manager.persist !== "function") return false
+  try {
+    if (typeof manager.persisted === "function" && (await manager.persisted())) return true
+    return await manager.persist()
+  } catch (error) {
+    console.warn("[StorageQuota] persist request failed:", error)
+    return false
+  }
+}
+
+/**
+ * 使用率からレベルを判定する（容量が不明なら ok）
+ */
+export const getStorageLevel = (
+  usage: number | null,
+  quota: number | null,
+  thresholds: StorageThresholds = DEFAULT_STORAGE_THRESHOLDS,
+): StorageLevel => {
+  if (usage === null || !quota) return "ok"
+  const ratio = usage / quota
+  if (ratio >= thresholds.critical) return "critical"
+  if (ratio >= thresholds.warning) return "warning"
+  return "ok"
+}
+
+/**
+ * 容量超過エラーかどうか（Error の cause チェーンも辿る）
+ * Safari/旧Firefox は name が異なる（code 22 / NS_ERROR_DOM_QUOTA_REACHED）
+ */
+export const isQuotaExceededError = (error: unknown): boolean => {
+  let current: unknown = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (typeof current === "object") {
+      const { name, code } = current as { name?: unknown; code?: unknown }
+      if (name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || code === 22) return true
+    }
+    current = current instanceof Error ? current.cause : null
+  }
+  return false
+}
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"]
+
+/**
+ * バイト数を表示用に整形する（1024 単位）
+ */
+export const formatBytes = (bytes: number | null): string => {
+  if (bytes === null || !Number.isFinite(bytes)) return "—"
+  let value = Math.max(0, bytes)
+  let unit = 0
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(value < 10 ? 1 : 0)} ${BYTE_UNITS[unit]}`
+}
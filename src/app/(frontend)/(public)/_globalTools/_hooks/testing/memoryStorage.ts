@@ -0,0 +1,28 @@
+/**
+ * テスト用のストレージ（メモリ上に持つだけ。テストごとに作り直す）
+ */
+
+/**
+ * idbStore の代わり（objects で中身を確かめられる）
+ */
+export const createMemoryIdbStore = () => {
+  const objects = new Map<string, Blob>()
+  return {
+    objects,
+    put: async (key: string, data: Blob) => void objects.set(key, data),
+    get: async (key: string) => objects.get(key),
+    remove: async (key: string) => void objects.delete(key),
+    listKeys: async () => [...objects.keys()],
+  }
+}
+
+/**
+ * localStorage の代わり
+ */
+export const createMemoryLocalStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  }
+}
@@ -0,0 +1,66 @@
+import type { ToolFileRecord } from "./db/pgliteSchema"
+
+/**
+ * タブ間でファイルの変更を通知する BroadcastChannel
+ *
+ * 各タブの ToolActionStore はメモリ上に state を持つため、他のタブでの保存・削除は
+ * このチャンネル経由で受け取り、syncData（全件の再取得）をせずに差分だけ反映する。
+ * BLOB は IndexedDB を共有しているので、メッセージには行（メタデータ）だけを載せる。
+ */
+export const TOOL_SYNC_CHANNEL = "ftb-tool-action-store"
+
+export type PurgedToolFile = Pick<ToolFileRecord, "id" | "idbKey" | "sessionId" | "fileSet">
+
+/**
+ * - files-upserted: 追加・更新・ゴミ箱への移動/復元・退避（行の最新状態をそのまま送る）
+ * - files-purged: 行ごと完全に削除された
+ * - fileset-renamed: ファイルセット名が変わった
+ */
+export type ToolSyncMessage =
+  | { type: "files-upserted"; records: ToolFileRecord[] }
+  | { type: "files-purged"; records: PurgedToolFile[] }
+  | { type: "fileset-renamed"; sessionId: string; from: string; to: string }
+
+export interface ToolSyncChannel {
+  post: (message: ToolSyncMessage) => void
+  close: () => void
+}
+
+const isToolSyncMessage = (data: unknown): data is ToolSyncMessage => {
+  if (!data || typeof data !== "object") return false
+  const message = data as { type?: unknown; records?: unknown; from?: unknown; to?: unknown }
+  switch (message.type) {
+    case "files-upserted":
+    case "files-purged":
+      return Array.isArray(message.records)
+    case "fileset-renamed":
+      return typeof message.from === "string" && typeof message.to === "string"
+    default:
+      return false
+  }
+}
+
+/**
+ * チャンネルを開く（BroadcastChannel 非対応の環境では null）
+ * 送信したインスタンス自身には届かないため、自タブの変更は呼び出し側で反映済みであること
+ */
+export const openToolSyncChannel = (
+  onMessage: (message: ToolSyncMessage) => void,
+  name: string = TOOL_SYNC_CHANNEL,
+): ToolSyncChannel | null => {
+  if (typeof BroadcastChannel === "undefined") return null
+  const channel = new BroadcastChannel(name)
+  channel.onmessage = (event: MessageEvent) => {
+    if (isToolSyncMessage(event.data)) onMessage(event.data)
+  }
+  return {
+    post: (message) => {
+      try {
+        channel.postMessage(message)
+      } catch (error) {
+        console.warn("[ToolSyncChannel] postMessage failed:", error)
+      }
+    },
+    close: () => channel.close(),
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * uploadQueue 統合テスト (Classical Approach)
+ *
+ * 実際の PGlite / IndexedDB に対してキューを動かし、アップロード先だけを差し替えて
+ * 成功・失敗時のバックオフ・上限到達・リロード後の再開を検証する。
+ */
+import { eq } from "drizzle-orm"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { files as filesTable, uploadJobs, type ToolFileRecord } from "../db/pgliteSchema"
+import { _internal_reset_idb_store, idbStore } from "../db/useIdbStore"
+import { _internal_reset_pglite_store, getDb } from "../db/usePgliteStore"
+import { createUploadQueue, UPLOAD_MAX_ATTEMPTS, uploadBackoffMs, type UploadQueue } from "./uploadQueue"
+
+if (typeof window !== "undefined") {
+  window.URL.createObjectURL = vi.fn((blob) => `blob:mock-${blob.size}`)
+  window.URL.revokeObjectURL = vi.fn()
+}
+
+const insertFile = async (idbKey: string): Promise<ToolFileRecord> => {
+  await idbStore().put(idbKey, new Blob(["data"], { type: "image/jpeg" }))
+  const db = await getDb()
+  const [row] = await db
+    .insert(filesTable)
+    .values({
+      sessionId: "s1",
+      fileSet: "Default",
+      category: "camera",
+      fileName: `${idbKey}.jpg`,
+      mimeType: "image/jpeg",
+      size: 4,
+      idbKey,
+    })
+    .returning()
+  return row
+}
+
+describe("uploadQueue (Classical Integration)", () => {
+  const TEST_TIMEOUT = 60000
+  let queue: UploadQueue
+  let changes: ToolFileRecord[]
+
+  beforeEach(async () => {
+    const testId = Math.random().toString(36).slice(2, 7)
+    await _internal_reset_pglite_store(`idb://test-db-${testId}`)
+    await _internal_reset_idb_store(`test-s3-${testId}`)
+    await getDb()
+    changes = []
+    queue = createUploadQueue({ onRecordsChanged: (records) => changes.push(...records), isOnline: () => true })
+  }, TEST_TIMEOUT)
+
+  afterEach(async () => {
+    queue.dispose()
+    await _internal_reset_pglite_store()
+    await _internal_reset_idb_store()
+    await new Promise((r) => setTimeout(r, 100))
+  })
+
+  it("バックオフは倍々に伸び、上限で頭打ちになる", () => {
+    expect(uploadBackoffMs(1)).toBe(5000)
+    expect(uploadBackoffMs(3)).toBe(20000)
+    expect(uploadBackoffMs(20)).toBe(10 * 60 * 1000)
+  })
+
+  it(
+    "アップロード先が設定されると送信し、remote_key を記録してジョブを消す",
+    async () => {
+      const file = await insertFile("k1")
+      await queue.enqueue([file.id])
+      expect(queue.getStatus().pending).toBe(1)
+      const upload = vi.fn(async ({ storagePath }: { storagePath: string }) => `remote/${storagePath}`)
+      queue.setTarget({ upload, storagePath: (f) => `Default/${f.idbKey}.jpg` })
+      await queue.process()
+
+      expect(upload).toHaveBeenCalledWith(
+        expect.objectContaining({ storagePath: "Default/k1.jpg", fileId: "k1", contentType: "image/jpeg" }),
+      )
+      const db = await getDb()
+      const [row] = await db.select().from(filesTable).where(eq(filesTable.id, file.id))
+      expect(row).toMatchObject({ syncState: "synced", remoteKey: "remote/Default/k1.jpg" })
+      expect(await db.select().from(uploadJobs)).toHaveLength(0)
+      expect(changes.map((c) => c.syncState)).toEqual(["queued", "uploading", "synced"])
+      expect(queue.getStatus()).toEqual({ pending: 0, failed: 0, isUploading: false })
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "失敗したらバックオフして待ち、上限に達したら failed にする",
+    async () => {
+      const file = await insertFile("k2")
+      await queue.enqueue([file.id])
+      queue.setTarget({
+        upload: async () => {
+          throw new Error("network down")
+        },
+        storagePath: (f) => f.idbKey,
+      })
+      await queue.process()
+      const db = await getDb()
+      const [job] = await db.select().from(uploadJobs)
+      expect(job).toMatchObject({ status: "pending", attempts: 1, lastError: "network down" })
+      expect(job.nextAttemptAt.getTime()).toBeGreaterThan(Date.now())
+      const [row] = await db.select().from(filesTable).where(eq(filesTable.id, file.id))
+      expect(row.syncState).toBe("queued")
+
+      // 最後の1回も失敗すると止まる
+      await db
+        .update(uploadJobs)
+        .set({ attempts: UPLOAD_MAX_ATTEMPTS - 1, nextAttemptAt: new Date(0) })
+        .where(eq(uploadJobs.id, job.id))
+      await queue.process()
+      const [failed] = await db.select().from(uploadJobs)
+      expect(failed.status).toBe("failed")
+      expect(queue.getStatus()).toMatchObject({ pending: 0, failed: 1 })
+
+      queue.setTarget(null)
+      await queue.retryFailed()
+      const [retried] = await db.select().from(uploadJobs)
+      expect(retried).toMatchObject({ status: "pending", attempts: 0 })
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "リロードで中断されたアップロードは resume で再開される",
+    async () => {
+      const file = await insertFile("k3")
+      const db = await getDb()
+      await db.insert(uploadJobs).values({ fileId: file.id, status: "uploading", attempts: 1 })
+      await db.update(filesTable).set({ syncState: "uploading" }).where(eq(filesTable.id, file.id))
+
+      const upload = vi.fn(async () => "remote/k3")
+      queue.setTarget({ upload, storagePath: (f) => f.idbKey })
+      await queue.resume()
+      await queue.process()
+      expect(upload).toHaveBeenCalledTimes(1)
+      const [row] = await db.select().from(filesTable).where(eq(filesTable.id, file.id))
+      expect(row).toMatchObject({ syncState: "synced", remoteKey: "remote/k3" })
+    },
+    TEST_TIMEOUT,
+  )
+})
@@ -0,0 +1,296 @@
+import { and, asc, eq, inArray, isNull, lte, notInArray, sql } from "drizzle-orm"
+import { files as filesTable, uploadJobs, type ToolFileRecord, type UploadJobRecord } from "../db/pgliteSchema"
+import { idbStore } from "../db/useIdbStore"
+import { getDb } from "../db/usePgliteStore"
+
+/**
+ * クラウドへのアップロードキュー（outbox）
+ *
+ * - 保存したファイルは upload_jobs に積み、アップロード先が設定されていてオンラインのときに順に送る
+ * - 失敗したら指数バックオフで再試行し、上限に達したら failed として手動の再試行を待つ
+ * - ジョブは PGlite に残るため、リロード後も続きから再開できる
+ * - 複数タブで同じジョブを二重に送らないよう、status の条件付き UPDATE で取得（claim）する
+ */
+
+export type SyncState = "local" | "queued" | "uploading" | "synced" | "failed"
+
+/**
+ * アップロード先（components/storage の CloudManager.upload を包む）
+ */
+export interface UploadTarget {
+  upload: (params: { storagePath: string; fileId: string; filePath: string; contentType?: string }) => Promise<string>
+  storagePath: (file: ToolFileRecord) => string
+}
+
+export interface UploadQueueStatus {
+  pending: number
+  failed: number
+  isUploading: boolean
+}
+
+export const UPLOAD_MAX_ATTEMPTS = 8
+const BACKOFF_BASE_MS = 5 * 1000
+const BACKOFF_MAX_MS = 10 * 60 * 1000
+// 再試行待ちのジョブを見に行く最短間隔（ゴミ箱のファイル等、対象外のジョブで空回りしないため）
+const MIN_RETRY_DELAY_MS = 1000
+
+/**
+ * attempts 回失敗した後の待ち時間（5秒から倍々、最大10分）
+ */
+export const uploadBackoffMs = (attempts: number): number =>
+  Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS)
+
+export type UploadQueue = ReturnType<typeof createUploadQueue>
+
+export function createUploadQueue(options: {
+  onRecordsChanged: (records: ToolFileRecord[]) => void // files の sync_state / remote_key が変わった
+  onStatusChange?: (status: UploadQueueStatus) => void
+  isOnline?: () => boolean
+  batchSize?: number
+}) {
+  const batchSize = options.batchSize ?? 5
+  const isOnline = options.isOnline ?? (() => typeof navigator === "undefined" || navigator.onLine !== false)
+  let target: UploadTarget | null = null
+  let running: Promise<void> | null = null
+  let rerun = false
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+  let disposed = false
+  let status: UploadQueueStatus = { pending: 0, failed: 0, isUploading: false }
+
+  const setStatus = (next: Partial<UploadQueueStatus>) => {
+    status = { ...status, ...next }
+    if (!disposed) options.onStatusChange?.(status)
+  }
+
+  const setFileState = async (
+    fileIds: string[],
+    syncState: SyncState,
+    extra: { remoteKey?: string } = {},
+  ): Promise<void> => {
+    if (fileIds.length === 0) return
+    const db = await getDb()
+    const updated = await db
+      .update(filesTable)
+      .set({ syncState, ...extra })
+      .where(inArray(filesTable.id, fileIds))
+      .returning()
+    if (updated.length > 0 && !disposed) options.onRecordsChanged(updated)
+  }
+
+  const refreshStatus = async (): Promise<void> => {
+    const db = await getDb()
+    const [counts] = await db
+      .select({
+        pending: sql<number>`(count(*) filter (where ${uploadJobs.status} <> 'failed'))::int`,
+        failed: sql<number>`(count(*) filter (where ${uploadJobs.status} = 'failed'))::int`,
+      })
+      .from(uploadJobs)
+    setStatus({ pending: counts?.pending ?? 0, failed: counts?.failed ?? 0 })
+  }
+
+  const clearRetryTimer = () => {
+    if (retryTimer) clearTimeout(retryTimer)
+    retryTimer = null
+  }
+
+  /**
+   * 次に再試行できるジョブの時刻にタイマーを仕掛ける
+   */
+  const scheduleRetry = async (): Promise<void> => {
+    clearRetryTimer()
+    if (disposed || !target) return
+    const db = await getDb()
+    const [next] = await db
+      .select({ at: uploadJobs.nextAttemptAt })
+      .from(uploadJobs)
+      .innerJoin(filesTable, eq(filesTable.id, uploadJobs.fileId))
+      .where(and(eq(uploadJobs.status, "pending"), isNull(filesTable.deletedAt)))
+      .orderBy(asc(uploadJobs.nextAttemptAt))
+      .limit(1)
+    if (!next || disposed) return
+    const delay = Math.max(MIN_RETRY_DELAY_MS, next.at.getTime() - Date.now())
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      void process()
+    }, delay)
+  }
+
+  const uploadOne = async (job: UploadJobRecord, file: ToolFileRecord, uploadTarget: UploadTarget) => {
+    const db = await getDb()
+    const [claimed] = await db
+      .update(uploadJobs)
+      .set({ status: "uploading", attempts: job.attempts + 1, updatedAt: new Date() })
+      .where(and(eq(uploadJobs.id, job.id), eq(uploadJobs.status, "pending")))
+      .returning()
+    if (!claimed) return // 他のタブが先に取得した
+    await setFileState([file.id], "uploading")
+    let filePath: string | null = null
+    let retryable = true
+    try {
+      const blob = await idbStore().get(file.idbKey)
+      if (!blob) {
+        retryable = false
+        throw new Error(`Blob not found: ${file.idbKey}`)
+      }
+      filePath = URL.createObjectURL(blob)
+      const remoteKey = await uploadTarget.upload({
+        storagePath: uploadTarget.storagePath(file),
+        fileId: file.idbKey,
+        filePath,
+        contentType: file.mimeType,
+      })
+      const done = await db
+        .delete(uploadJobs)
+        .where(and(eq(uploadJobs.id, job.id), eq(uploadJobs.status, "uploading")))
+        .returning({ id: uploadJobs.id })
+      // アップロード中に内容が更新されて再投入された場合はジョブを残し、もう一度送る
+      await setFileState([file.id], done.length > 0 ? "synced" : "queued", { remoteKey })
+    } catch (error) {
+      const failed = !retryable || claimed.attempts >= UPLOAD_MAX_ATTEMPTS
+      await db
+        .update(uploadJobs)
+        .set({
+          status: failed ? "failed" : "pending",
+          nextAttemptAt: new Date(Date.now() + uploadBackoffMs(claimed.attempts)),
+          lastError: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(uploadJobs.id, job.id), eq(uploadJobs.status, "uploading")))
+      await setFileState([file.id], failed ? "failed" : "queued")
+      console.warn(`[UploadQueue] Upload failed (${claimed.attempts}/${UPLOAD_MAX_ATTEMPTS}): ${file.fileName}`, error)
+    } finally {
+      if (filePath) URL.revokeObjectURL(filePath)
+    }
+  }
+
+  const processDueJobs = async (): Promise<void> => {
+    if (!target || !isOnline()) return
+    const db = await getDb()
+    // 完全削除されたファイルのジョブを片付ける
+    await db.delete(uploadJobs).where(notInArray(uploadJobs.fileId, db.select({ id: filesTable.id }).from(filesTable)))
+    setStatus({ isUploading: true })
+    try {
+      while (!disposed && target && isOnline()) {
+        const due = await db
+          .select({ job: uploadJobs, file: filesTable })
+          .from(uploadJobs)
+          .innerJoin(filesTable, eq(filesTable.id, uploadJobs.fileId))
+          .where(
+            and(
+              eq(uploadJobs.status, "pending"),
+              lte(uploadJobs.nextAttemptAt, new Date()),
+              isNull(filesTable.deletedAt), // ゴミ箱のファイルは復元されるまで送らない
+            ),
+          )
+          .orderBy(asc(uploadJobs.nextAttemptAt), asc(uploadJobs.createdAt))
+          .limit(batchSize)
+        if (due.length === 0) break
+        for (const { job, file } of due) {
+          if (disposed || !target) break
+          await uploadOne(job, file, target)
+        }
+      }
+    } finally {
+      setStatus({ isUploading: false })
+      await refreshStatus()
+      await scheduleRetry()
+    }
+  }
+
+  /**
+   * 期限の来たジョブを処理する（実行中に呼ばれたら、終わった後にもう一周する）
+   */
+  const process = (): Promise<void> => {
+    if (disposed) return Promise.resolve()
+    if (running) {
+      rerun = true
+      return running
+    }
+    running = (async () => {
+      try {
+        do {
+          rerun = false
+          await processDueJobs()
+        } while (rerun && !disposed)
+      } catch (error) {
+        console.error("[UploadQueue] Processing failed:", error)
+      } finally {
+        // ループを抜けた直後に外す（rerun の取りこぼしを防ぐため .finally() にはしない）
+        running = null
+      }
+    })()
+    return running
+  }
+
+  /**
+   * ファイルをキューに積む（既に積まれていれば、内容が変わったものとして最初からやり直す）
+   */
+  const enqueue = async (fileIds: string[]): Promise<void> => {
+    if (fileIds.length === 0 || disposed) return
+    const db = await getDb()
+    const now = new Date()
+    await db
+      .insert(uploadJobs)
+      .values(fileIds.map((fileId) => ({ fileId })))
+      .onConflictDoUpdate({
+        target: uploadJobs.fileId,
+        set: { status: "pending", attempts: 0, nextAttemptAt: now, lastError: null, updatedAt: now },
+      })
+    await setFileState(fileIds, "queued")
+    await refreshStatus()
+    void process()
+  }
+
+  /**
+   * リロード等で中断されたアップロードを再開できる状態に戻す
+   */
+  const resume = async (): Promise<void> => {
+    const db = await getDb()
+    const interrupted = await db
+      .update(uploadJobs)
+      .set({ status: "pending", updatedAt: new Date() })
+      .where(eq(uploadJobs.status, "uploading"))
+      .returning({ fileId: uploadJobs.fileId })
+    await setFileState(
+      interrupted.map((j) => j.fileId),
+      "queued",
+    )
+    await refreshStatus()
+    void process()
+  }
+
+  /**
+   * 上限に達して止まったジョブを再試行する
+   */
+  const retryFailed = async (): Promise<void> => {
+    const db = await getDb()
+    const retried = await db
+      .update(uploadJobs)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(eq(uploadJobs.status, "failed"))
+      .returning({ fileId: uploadJobs.fileId })
+    await setFileState(
+      retried.map((j) => j.fileId),
+      "queued",
+    )
+    await refreshStatus()
+    void process()
+  }
+
+  /**
+   * アップロード先を設定する（null で停止）
+   */
+  const setTarget = (next: UploadTarget | null): void => {
+    target = next
+    if (next) void process()
+    else clearRetryTimer()
+  }
+
+  const dispose = (): void => {
+    disposed = true
+    target = null
+    clearRetryTimer()
+  }
+
+  return { enqueue, process, resume, retryFailed, setTarget, getStatus: () => status, dispose }
+}
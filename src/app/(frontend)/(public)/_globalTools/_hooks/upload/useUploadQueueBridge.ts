@@ -0,0 +1,36 @@
+import { useCloud } from "@/components/storage/cloudProviders/useCloud"
+import { useOnlineStatus } from "@/hooks/useOnlineStatus"
+import { useEffect } from "react"
+import type { ToolFileRecord } from "../db/pgliteSchema"
+import { actions } from "../useToolActionStore"
+
+/**
+ * 接続中のクラウドストレージ（CloudProvider）をアップロードキューにつなぐHook
+ *
+ * - プロバイダーが接続されたらアップロード先に設定し、切断されたら外す
+ * - オフラインからオンラインに戻ったら、待っていたファイルを送る
+ * CloudProvider の内側（StorageProvider 配下）で使うこと
+ */
+export function useUploadQueueBridge() {
+  const { provider, storage, contentTypeToExtension } = useCloud()
+  const isOnline = useOnlineStatus()
+
+  useEffect(() => {
+    if (!provider || !storage) {
+      actions.setUploadTarget(null)
+      return
+    }
+    // 既存の同期（useSyncImageset）と同じ "<storage>/<セット名>_<種別>/<ID>.<拡張子>" に置く
+    const storagePath = (file: ToolFileRecord) => {
+      const known = contentTypeToExtension[file.mimeType]
+      const ext = known?.ext ?? (file.fileName.includes(".") ? file.fileName.split(".").pop() : "bin")
+      return `${storage.uuid}/${file.fileSet}_${known?.class ?? "others"}/${file.idbKey}.${ext}`
+    }
+    actions.setUploadTarget({ upload: (params) => provider.upload(params), storagePath })
+    return () => actions.setUploadTarget(null)
+  }, [provider, storage, contentTypeToExtension])
+
+  useEffect(() => {
+    if (isOnline) void actions.processUploadQueue()
+  }, [isOnline])
+}
@@ -7,9 +7,16 @@
  */
 import { toast } from "@/components/atoms/Toast"
 import { cleanup } from "@testing-library/react"
-import { eq } from "drizzle-orm"
+import { eq, inArray } from "drizzle-orm"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
-import { files as filesTable } from "./db/pgliteSchema"
+import { toScanResult } from "../camera/barcode/scanResult"
+import {
+  files as filesTable,
+  links as linksTable,
+  scans as scansTable,
+  textRevisions as textRevisionsTable,
+  transcriptSegments as transcriptSegmentsTable,
+} from "./db/pgliteSchema"
 import { _internal_reset_idb_store, idbStore } from "./db/useIdbStore"
 import { _internal_reset_pglite_store, getDb } from "./db/usePgliteStore"
 import { captureBridge } from "./useCaptureBridge"
@@ -20,6 +27,7 @@ vi.mock("@/components/atoms/Toast", () => ({
   toast: {
     success: vi.fn(),
     error: vi.fn(),
+    warning: vi.fn(),
   },
 }))
 
@@ -29,9 +37,6 @@ if (typeof window !== "undefined") {
   window.URL.revokeObjectURL = vi.fn()
 }
 
-// window.confirm のモック（スキーママイグレーション用）
-vi.spyOn(window, "confirm").mockReturnValue(true)
-
 describe("useToolActionStore (Classical Integration)", () => {
   const TEST_TIMEOUT = 60000
   let store: ReturnType<typeof createToolActionStore>
@@ -85,21 +90,136 @@ describe("useToolActionStore (Classical Integration)", () => {
   )
 
   it(
-    "deleteFiles を実行すると IDB と PGlite からデータが削除される",
+    "保存後にメタデータを抽出し、撮影時のヒントと合わせて metadata 列に記録する",
+    async () => {
+      const saved = await store.actions.saveFile(new File(["img"], "shot.jpg", { type: "image/jpeg" }), {
+        fileName: "shot.jpg",
+        category: "camera",
+        metadata: { orientation: 90, capturedAt: "2024-05-01T09:30:00.000Z" },
+      })
+      await vi.waitFor(() =>
+        expect(store.getState().cameraFiles.find((f) => f.idbKey === saved.idbKey)?.metadata).toEqual({
+          orientation: 90,
+          capturedAt: "2024-05-01T09:30:00.000Z",
+        }),
+      )
+      const db = await getDb()
+      const [record] = await db.select().from(filesTable).where(eq(filesTable.id, saved.id))
+      expect(record.metadata).toEqual({ orientation: 90, capturedAt: "2024-05-01T09:30:00.000Z" })
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "deleteFiles は既定でゴミ箱に移し（BLOB は残す）、restoreFiles で元に戻せる",
     async () => {
       const testFile = new File(["delete-me"], "del.jpg", { type: "image/jpeg" })
       const saveRes = await store.actions.saveFile(testFile, { fileName: "del.jpg", category: "camera" })
       await store.actions.deleteFiles([{ idbKey: saveRes.idbKey, id: saveRes.id }])
+      await store.syncData({ hydrateUrls: false })
       expect(store.getState().files).toHaveLength(0)
+      expect(store.getState().trashFiles.map((f) => f.idbKey)).toEqual([saveRes.idbKey])
       const idb = idbStore()
-      expect(await idb.get(saveRes.idbKey)).toBeUndefined()
+      expect(await idb.get(saveRes.idbKey)).toBeDefined()
       const db = await getDb()
-      const records = await db.select().from(filesTable).where(eq(filesTable.idbKey, saveRes.idbKey))
+      const [trashed] = await db.select().from(filesTable).where(eq(filesTable.idbKey, saveRes.idbKey))
+      expect(trashed.deletedAt).toBeInstanceOf(Date)
+      await store.actions.restoreFiles([saveRes.id])
+      expect(store.getState().files.map((f) => f.idbKey)).toEqual([saveRes.idbKey])
+      expect(store.getState().trashFiles).toHaveLength(0)
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "permanent 指定または emptyTrash で IDB と PGlite からデータが削除される",
+    async () => {
+      const first = await store.actions.saveFile(new Blob(["a"], { type: "image/jpeg" }), {
+        fileName: "a.jpg",
+        category: "camera",
+      })
+      const second = await store.actions.saveFile(new Blob(["b"], { type: "image/jpeg" }), {
+        fileName: "b.jpg",
+        category: "camera",
+      })
+      await store.actions.deleteFiles([first], { permanent: true })
+      await store.actions.deleteFiles([second])
+      await store.actions.emptyTrash()
+      expect(store.getState().files).toHaveLength(0)
+      expect(store.getState().trashFiles).toHaveLength(0)
+      const idb = idbStore()
+      expect(await idb.get(first.idbKey)).toBeUndefined()
+      expect(await idb.get(second.idbKey)).toBeUndefined()
+      const db = await getDb()
+      const records = await db
+        .select()
+        .from(filesTable)
+        .where(inArray(filesTable.idbKey, [first.idbKey, second.idbKey]))
       expect(records).toHaveLength(0)
     },
     TEST_TIMEOUT,
   )
 
+  it(
+    "完全削除したファイルの文字起こし・版・リンクも同じく削除される",
+    async () => {
+      const note = await store.actions.saveFile(new Blob(["# Note"], { type: "text/markdown" }), {
+        fileName: "Note.md",
+        category: "text",
+      })
+      const other = await store.actions.saveFile(new Blob(["# Other"], { type: "text/markdown" }), {
+        fileName: "Other.md",
+        category: "text",
+      })
+      const db = await getDb()
+      for (const fileId of [note.id, other.id]) {
+        await db
+          .insert(transcriptSegmentsTable)
+          .values({ fileId, engine: "http", position: 0, startMs: 0, endMs: 1, text: "a" })
+        await db.insert(textRevisionsTable).values({ fileId, seq: 1, snapshot: "# Note", size: 6 })
+        await db
+          .insert(linksTable)
+          .values({ sourceFileId: fileId, kind: "note", target: "Other", targetKey: "other.md" })
+      }
+      await store.actions.deleteFiles([note], { permanent: true })
+      const fileIdsOf = async () => ({
+        segments: (await db.select().from(transcriptSegmentsTable)).map((r) => r.fileId),
+        revisions: (await db.select().from(textRevisionsTable)).map((r) => r.fileId),
+        links: (await db.select().from(linksTable)).map((r) => r.sourceFileId),
+      })
+      expect(await fileIdsOf()).toEqual({ segments: [other.id], revisions: [other.id], links: [other.id] })
+
+      await store.actions.deleteFileSet("Default")
+      expect(await fileIdsOf()).toEqual({ segments: [], revisions: [], links: [] })
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "保持期間を過ぎたゴミ箱のファイルは syncData で完全削除される",
+    async () => {
+      const saved = await store.actions.saveFile(new Blob(["old"], { type: "image/jpeg" }), {
+        fileName: "old.jpg",
+        category: "camera",
+      })
+      await store.actions.deleteFiles([saved])
+      const db = await getDb()
+      await db
+        .update(filesTable)
+        .set({ deletedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) })
+        .where(eq(filesTable.idbKey, saved.idbKey))
+      const purgingStore = createToolActionStore({ autoStart: false, trashRetentionDays: 7 })
+      try {
+        await purgingStore.syncData({ hydrateUrls: false })
+        expect(await db.select().from(filesTable).where(eq(filesTable.idbKey, saved.idbKey))).toHaveLength(0)
+        expect(await idbStore().get(saved.idbKey)).toBeUndefined()
+      } finally {
+        purgingStore.dispose()
+      }
+    },
+    TEST_TIMEOUT,
+  )
+
   it(
     "カテゴリに基づき、cameraFiles と audioFiles が正しくフィルタリングされる",
     async () => {
@@ -188,4 +308,323 @@ describe("useToolActionStore (Classical Integration)", () => {
     },
     TEST_TIMEOUT,
   )
+
+  it(
+    "searchFiles はファイル名・テキスト本文・front-matter タグを横断検索できる",
+    async () => {
+      await store.actions.saveFile(new Blob(["img"], { type: "image/jpeg" }), {
+        fileName: "sunset.jpg",
+        category: "camera",
+      })
+      const markdown = [
+        "---",
+        'title: "買い物メモ"',
+        'tags: ["grocery", "weekly"]',
+        'createdAt: "2024-01-01T00:00:00.000Z"',
+        "wordCount: 2",
+        "---",
+        "牛乳と卵を買う",
+      ].join("\n")
+      await store.actions.saveFile(new Blob([markdown], { type: "text/markdown" }), {
+        fileName: "note.md",
+        category: "text",
+      })
+      const titles = async (params: Parameters<typeof store.actions.searchFiles>[0]) =>
+        (await store.actions.searchFiles(params)).map((r) => r.title)
+      expect(await titles({ query: "sun" })).toEqual(["sunset.jpg"])
+      expect(await titles({ query: "grocery" })).toEqual(["note.md"])
+      // 分かち書きされない日本語は部分一致で拾う
+      expect(await titles({ query: "卵" })).toEqual(["note.md"])
+      expect(await titles({ query: "", category: "camera" })).toEqual(["sunset.jpg"])
+      expect(await titles({ query: "", from: new Date(Date.now() + 60_000) })).toEqual([])
+      const [note] = await store.actions.searchFiles({ query: "weekly" })
+      expect(note.tags).toEqual(["grocery", "weekly"])
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "exportFileSet した ZIP を importArchive すると、欠けたファイルだけが idbKey ごと復元される",
+    async () => {
+      const photo = await store.actions.saveFile(new Blob(["img"], { type: "image/jpeg" }), {
+        fileName: "a.jpg",
+        category: "camera",
+      })
+      await store.actions.saveFile(new Blob(["# memo"], { type: "text/markdown" }), {
+        fileName: "n.md",
+        category: "text",
+      })
+      const archive = await store.actions.exportFileSet("Default")
+      expect(archive.name).toBe("Default.zip")
+      // 取り込み済みのものは重複させない
+      expect(await store.actions.importArchive(archive)).toEqual({ fileSets: [], imported: 0, skipped: 2 })
+      // 1件消してから取り込み直すと、その1件だけが戻る
+      const db = await getDb()
+      await db.delete(filesTable).where(eq(filesTable.idbKey, photo.idbKey))
+      await idbStore().remove(photo.idbKey)
+      expect(await store.actions.importArchive(archive)).toEqual({ fileSets: ["Default"], imported: 1, skipped: 1 })
+      const restored = await db.select().from(filesTable).where(eq(filesTable.idbKey, photo.idbKey))
+      expect(restored).toHaveLength(1)
+      expect(restored[0].category).toBe("camera")
+      expect(await (await idbStore().get(photo.idbKey))?.text()).toBe("img")
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "exportFileSetPdf はファイルセットの画像だけを撮影順に1枚1ページの PDF にする",
+    async () => {
+      // SOF0 だけを持つ最小の JPEG（幅・高さを読むだけなので画像データは不要）
+      const jpeg = (width: number, height: number) =>
+        new Blob(
+          [new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0, 11, 8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3])],
+          { type: "image/jpeg" },
+        )
+      await store.actions.saveFile(jpeg(600, 800), { fileName: "page1.jpg", category: "camera" })
+      await store.actions.saveFile(jpeg(800, 600), { fileName: "page2.jpg", category: "camera" })
+      await store.actions.saveFile(new Blob(["# memo"], { type: "text/markdown" }), {
+        fileName: "n.md",
+        category: "text",
+      })
+      const pdf = await store.actions.exportFileSetPdf("Default")
+      expect(pdf.name).toBe("Default.pdf")
+      expect(pdf.type).toBe("application/pdf")
+      const text = new TextDecoder("latin1").decode(await pdf.arrayBuffer())
+      expect(text).toContain("/Count 2")
+      expect(text.indexOf("/Width 600 /Height 800")).toBeLessThan(text.indexOf("/Width 800 /Height 600"))
+      await expect(store.actions.exportFileSetPdf("Empty")).rejects.toThrow()
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "queueSave は続けて呼んでもすべて登録し、登録前から一覧に表示する",
+    async () => {
+      const shots = [0, 1, 2, 3, 4].map((i) =>
+        store.actions.queueSave(new Blob([`shot${i}`], { type: "image/jpeg" }), {
+          fileName: `burst_${i}.jpg`,
+          category: "camera",
+        }),
+      )
+      // DB への登録を待たずに一覧に並ぶ
+      await vi.waitFor(() =>
+        expect(store.getState().files.filter((f) => f.fileName.startsWith("burst_"))).toHaveLength(5),
+      )
+      const saved = await Promise.all(shots)
+      expect(new Set(saved.map((s) => s.id)).size).toBe(5)
+      const db = await getDb()
+      const rows = await db
+        .select()
+        .from(filesTable)
+        .where(
+          inArray(
+            filesTable.id,
+            saved.map((s) => s.id),
+          ),
+        )
+      expect(rows.map((r) => r.fileName).sort()).toEqual([
+        "burst_0.jpg",
+        "burst_1.jpg",
+        "burst_2.jpg",
+        "burst_3.jpg",
+        "burst_4.jpg",
+      ])
+      expect(store.getState().pendingSaves).toHaveLength(0)
+      expect(await idbStore().get(saved[0].idbKey)).toBeInstanceOf(Blob)
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "refreshStorageUsage はカテゴリ別・ファイルセット別に集計し、evictSyncedFiles は同期済みを LRU 順に退避する",
+    async () => {
+      const save = (body: string, fileName: string, category: string) =>
+        store.actions.saveFile(new Blob([body], { type: "application/octet-stream" }), { fileName, category })
+      const recent = await save("aaaa", "recent.jpg", "camera")
+      const stale = await save("bbbbbb", "stale.jpg", "camera")
+      const local = await save("cc", "local.webm", "microphone")
+      // 保存直後のアップロード待ちへの登録を待つ（sync_state の上書きを避ける）
+      await vi.waitFor(() => expect(store.getState().uploadStatus.pending).toBe(3))
+      const db = await getDb()
+      // recent / stale はアップロード済み。stale の方が長く開かれていない
+      await db
+        .update(filesTable)
+        .set({ remoteKey: "remote/recent", syncState: "synced", lastAccessedAt: new Date() })
+        .where(eq(filesTable.id, recent.id))
+      await db
+        .update(filesTable)
+        .set({ remoteKey: "remote/stale", syncState: "synced", lastAccessedAt: new Date(Date.now() - 60_000) })
+        .where(eq(filesTable.id, stale.id))
+
+      const usage = await store.actions.refreshStorageUsage()
+      expect(usage.localBytes).toBe(12)
+      expect(usage.evictableBytes).toBe(10)
+      expect(usage.byCategory).toEqual([
+        { category: "camera", bytes: 10, count: 2 },
+        { category: "microphone", bytes: 2, count: 1 },
+      ])
+      expect(usage.byFileSet).toEqual([{ fileSet: "Default", bytes: 12, count: 3 }])
+      expect(store.getState().storage?.localBytes).toBe(12)
+
+      // 1バイト空ければよいので、最も古くアクセスされた stale だけが退避される
+      expect(await store.actions.evictSyncedFiles({ strategy: "lru", targetBytes: 1 })).toEqual({
+        evicted: 1,
+        freedBytes: 6,
+      })
+      const idb = idbStore()
+      expect(await idb.get(stale.idbKey)).toBeUndefined()
+      expect(await idb.get(recent.idbKey)).toBeDefined()
+      const [staleRow] = await db.select().from(filesTable).where(eq(filesTable.id, stale.id))
+      expect(staleRow.evictedAt).toBeInstanceOf(Date)
+
+      // 同期されていないファイルは対象外
+      expect(await store.actions.evictSyncedFiles()).toEqual({ evicted: 1, freedBytes: 4 })
+      expect(await idb.get(local.idbKey)).toBeDefined()
+      expect((await store.actions.refreshStorageUsage()).localBytes).toBe(2)
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "退避したファイルを同じキーで保存し直すと、退避の印が外れて未同期に戻る",
+    async () => {
+      const saved = await store.actions.saveFile(new Blob(["old"], { type: "image/jpeg" }), {
+        fileName: "photo.jpg",
+        category: "camera",
+      })
+      await vi.waitFor(() => expect(store.getState().uploadStatus.pending).toBe(1))
+      const db = await getDb()
+      await db
+        .update(filesTable)
+        .set({ remoteKey: "remote/photo", syncState: "synced" })
+        .where(eq(filesTable.id, saved.id))
+      expect(await store.actions.evictSyncedFiles()).toEqual({ evicted: 1, freedBytes: 3 })
+
+      await store.actions.saveFile(new Blob(["new body"], { type: "image/jpeg" }), {
+        fileName: "photo.jpg",
+        category: "camera",
+        idbKey: saved.idbKey,
+      })
+      const [row] = await db.select().from(filesTable).where(eq(filesTable.id, saved.id))
+      expect(row.evictedAt).toBeNull()
+      expect(row.syncState).not.toBe("synced")
+      // 同期済みではないので、すぐに退避し直されることはない
+      expect(await store.actions.evictSyncedFiles()).toEqual({ evicted: 0, freedBytes: 0 })
+      expect(await idbStore().get(saved.idbKey)).toBeDefined()
+
+      await store.syncData()
+      const file = store.getState().files.find((f) => f.idbKey === saved.idbKey)
+      expect(file?.evictedAt).toBeNull()
+      expect(file?.url).toBeTruthy()
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "ファイルの移動・ファイルセットの名前変更・統合・削除がスキャン結果も含めて反映される",
+    async () => {
+      const a = await store.actions.saveFile(new Blob(["a"], { type: "image/jpeg" }), {
+        fileName: "a.jpg",
+        category: "camera",
+      })
+      const b = await store.actions.saveFile(new Blob(["bb"], { type: "image/jpeg" }), {
+        fileName: "b.jpg",
+        category: "camera",
+      })
+      const db = await getDb()
+      const [record] = await db.select().from(filesTable).where(eq(filesTable.id, a.id))
+      await db
+        .insert(scansTable)
+        .values({ sessionId: record.sessionId, fileSet: "Default", payload: "https://example.com" })
+
+      await store.actions.moveFiles([b.id], "Trip")
+      expect(store.getState().files.map((f) => f.idbKey)).toEqual([a.idbKey])
+      expect(store.getState().fileSets).toEqual(["Default", "Trip"])
+
+      await store.actions.renameFileSet("Default", "Day1")
+      expect(store.getState().currentFileSet).toBe("Day1")
+      expect(store.getState().files.map((f) => f.fileSet)).toEqual(["Day1"])
+      const [scan] = await db.select().from(scansTable)
+      expect(scan.fileSet).toBe("Day1")
+      await expect(store.actions.renameFileSet("Day1", "Trip")).rejects.toThrow("File set already exists: Trip")
+
+      await store.actions.mergeFileSets(["Trip"], "Day1")
+      expect(store.getState().fileSets).toEqual(["Day1"])
+      expect(
+        store
+          .getState()
+          .files.map((f) => f.idbKey)
+          .sort(),
+      ).toEqual([a.idbKey, b.idbKey].sort())
+
+      await store.actions.deleteFileSet("Day1")
+      expect(store.getState().currentFileSet).toBe("Default")
+      expect(store.getState().files).toHaveLength(0)
+      expect(await db.select().from(filesTable)).toHaveLength(0)
+      expect(await db.select().from(scansTable)).toHaveLength(0)
+      expect(await idbStore().get(a.idbKey)).toBeUndefined()
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "スキャン結果を形式・種類とともに履歴に残し、URL は WebView で開く",
+    async () => {
+      store.actions.handleScan(toScanResult("ean_13", "4901234567894"))
+      await vi.waitFor(async () => expect(await store.actions.listScanHistory()).toHaveLength(1))
+      store.actions.handleScan(toScanResult("qr_code", "https://example.com"))
+      expect(store.getState()).toMatchObject({ isWebViewOpen: true, webUrl: "https://example.com/" })
+      await vi.waitFor(async () => expect(await store.actions.listScanHistory()).toHaveLength(2))
+
+      const history = await store.actions.listScanHistory({ fileSet: "Default" })
+      expect(history.map((entry) => entry.result)).toEqual([
+        toScanResult("qr_code", "https://example.com"),
+        toScanResult("ean_13", "4901234567894"),
+      ])
+      const db = await getDb()
+      const [product] = await db.select().from(scansTable).where(eq(scansTable.format, "ean_13"))
+      expect(product).toMatchObject({ payload: "4901234567894", kind: "product" })
+
+      await store.actions.deleteScans([history[0].id])
+      expect((await store.actions.listScanHistory()).map((entry) => entry.result.rawValue)).toEqual(["4901234567894"])
+      expect(await store.actions.listScanHistory({ fileSet: "Other" })).toEqual([])
+    },
+    TEST_TIMEOUT,
+  )
+
+  it(
+    "他のタブ（別インスタンス）での保存・ゴミ箱への移動が BroadcastChannel 経由で反映される",
+    async () => {
+      const channel = `test-channel-${Math.random().toString(36).slice(2, 7)}`
+      const tabA = createToolActionStore({ autoStart: false, syncChannelName: channel })
+      const tabB = createToolActionStore({ autoStart: false, syncChannelName: channel })
+      try {
+        tabA.start()
+        tabB.start()
+        await vi.waitFor(() => expect(tabB.getState().isDbReady).toBe(true), { timeout: 10000 })
+
+        const saved = await tabA.actions.saveFile(new Blob(["img"], { type: "image/jpeg" }), {
+          fileName: "from-a.jpg",
+          category: "camera",
+        })
+        await vi.waitFor(() => expect(tabB.getState().cameraFiles.map((f) => f.idbKey)).toEqual([saved.idbKey]))
+        await vi.waitFor(() =>
+          expect(tabB.getState().fileSetInfo.find((s) => s.name === "Default")).toMatchObject({
+            count: 1,
+            latestIdbKey: saved.idbKey,
+          }),
+        )
+        expect(tabB.getState().files[0].url).toMatch(/^blob:/)
+
+        await tabA.actions.deleteFiles([{ idbKey: saved.idbKey, id: saved.id }])
+        await vi.waitFor(() => expect(tabB.getState().files).toHaveLength(0))
+        expect(tabB.getState().trashFiles.map((f) => f.idbKey)).toEqual([saved.idbKey])
+        await vi.waitFor(() => expect(tabB.getState().fileSetInfo.find((s) => s.name === "Default")?.count).toBe(0))
+      } finally {
+        tabA.dispose()
+        tabB.dispose()
+      }
+    },
+    TEST_TIMEOUT,
+  )
 })
@@ -1,12 +1,60 @@
 import { toast } from "@/components/atoms/Toast"
-import { and, desc, eq, inArray, sql } from "drizzle-orm"
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  isNotNull,
+  isNull,
+  like,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+  type Column,
+  type SQL,
+} from "drizzle-orm"
 import { z } from "zod"
+import {
+  describeScan,
+  FORMAT_LABELS,
+  toScanResult,
+  type BarcodeFormat,
+  type ScanResult,
+} from "../camera/barcode/scanResult"
 import { cameraActions, type CameraExternalActions } from "../camera/cameraStore"
 import { microphoneActions, type MicrophoneExternalActions } from "../microphone/microphoneStore"
+import { createTextClient } from "../text/textClient"
+import { archiveFileName, createFileSetArchive, readFileSetArchive, type ArchivedFile } from "./archive/fileSetArchive"
+import { createImagePdf, toPdfImagePage, type PdfImagePage } from "./archive/pdf"
 import { useExternalStore } from "./atoms/useExternalStore"
-import { files as filesTable, type ToolFileRecord } from "./db/pgliteSchema"
+import {
+  files as filesTable,
+  links as linksTable,
+  scans as scansTable,
+  textRevisions as textRevisionsTable,
+  transcriptSegments as transcriptSegmentsTable,
+  type ToolFileRecord,
+} from "./db/pgliteSchema"
 import { idbStore } from "./db/useIdbStore"
 import { getDb, subscribe as subscribePglite } from "./db/usePgliteStore"
+import { extractFileMetadata, type FileMetadata } from "./metadata/fileMetadata"
+import {
+  DEFAULT_STORAGE_THRESHOLDS,
+  estimateStorage,
+  formatBytes,
+  getStorageLevel,
+  isQuotaExceededError,
+  requestPersistence,
+  type StorageLevel,
+  type StorageThresholds,
+} from "./storage/storageQuota"
+import { openToolSyncChannel, type PurgedToolFile, type ToolSyncChannel, type ToolSyncMessage } from "./toolSyncChannel"
+import { createUploadQueue, type SyncState, type UploadQueueStatus, type UploadTarget } from "./upload/uploadQueue"
 import { captureBridge, type BridgeData } from "./useCaptureBridge"
 import { getSessionState, sessionStore } from "./useSessionSync"
 
@@ -29,6 +77,12 @@ export interface ToolFile {
   size: number
   idbKey: string
   createdAt: Date
+  updatedAt?: Date
+  deletedAt?: Date | null // ゴミ箱に入っている場合のみ値を持つ
+  remoteKey?: string | null // リモートにアップロード済みの場合のキー
+  metadata?: FileMetadata | null // 抽出前は null
+  syncState?: SyncState // クラウドへのアップロード状況
+  evictedAt?: Date | null // 容量確保のため端末から BLOB を退避済み
   url: string | null
   isPending?: boolean
 }
@@ -45,6 +99,77 @@ export interface SavedToolFileResult {
   id: string
 }
 
+/**
+ * 検索条件。query が空ならフィルタのみで新しい順に返す
+ * category に "qr" を指定するとスキャン結果のみを対象にする
+ */
+export interface FileSearchQuery {
+  query?: string
+  category?: string
+  fileSet?: string
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+export interface FileSearchResult {
+  kind: "file" | "scan"
+  id: string
+  idbKey: string | null // スキャン結果は BLOB を持たない
+  fileSet: string
+  category: string | null
+  title: string
+  snippet: string
+  tags: string[]
+  createdAt: Date
+  rank: number
+}
+
+/**
+ * スキャン履歴の1件（読み取った文字列は保存時の format で解釈し直す）
+ */
+export interface ScanHistoryEntry {
+  id: string
+  fileSet: string
+  result: ScanResult
+  createdAt: Date
+}
+
+export interface ArchiveImportResult {
+  fileSets: string[]
+  imported: number
+  skipped: number // 取り込み済み（同じ idbKey が存在）または BLOB 欠落
+}
+
+/**
+ * ストレージ使用状況
+ * usage / quota はオリジン全体の概算値、bytes 系は files.size の合計（全セッション）
+ */
+export interface StorageUsage {
+  usage: number | null
+  quota: number | null
+  persisted: boolean | null
+  level: StorageLevel
+  localBytes: number // 端末に保持している BLOB（ゴミ箱・退避済みを除く）
+  trashBytes: number
+  evictableBytes: number // 同期済みで退避できる BLOB
+  byFileSet: { fileSet: string; bytes: number; count: number }[]
+  byCategory: { category: string | null; bytes: number; count: number }[]
+  checkedAt: Date
+}
+
+/**
+ * 退避の順序
+ * - lru: 最後に開いた日時（未オープンなら作成日時）が古い順
+ * - oldest: 作成日時が古い順
+ */
+export type EvictionStrategy = "lru" | "oldest"
+
+export interface EvictionResult {
+  evicted: number
+  freedBytes: number
+}
+
 interface RawSetInfo {
   name: string
   count: number
@@ -54,7 +179,7 @@ interface RawSetInfo {
 interface PendingSave {
   id: string
   file: Blob | File
-  options?: { fileName?: string; category?: string }
+  options?: { fileName?: string; category?: string; metadata?: FileMetadata }
   resolve: (value: SavedToolFileResult) => void
   reject: (reason?: unknown) => void
 }
@@ -64,14 +189,33 @@ interface PendingSave {
  */
 export interface ToolActions extends Required<CameraExternalActions & MicrophoneExternalActions> {
   addPreview: (url: string, category?: string) => string
-  handleScan: (data: string) => void
+  handleScan: (result: ScanResult) => void
+  openScan: (result: ScanResult) => void
+  listScanHistory: (params?: { fileSet?: string; limit?: number }) => Promise<ScanHistoryEntry[]>
+  deleteScans: (ids: string[]) => Promise<void>
   switchFileSet: (fileSet: string) => void
+  renameFileSet: (from: string, to: string) => Promise<void>
+  mergeFileSets: (sources: string[], target: string) => Promise<void>
+  moveFiles: (ids: string[], target: string) => Promise<void>
+  deleteFileSet: (name: string) => Promise<void>
   closeWebView: () => void
   setActiveTool: (tool: "camera" | "microphone" | "text" | null) => void
   addFiles: (files: FileList | File[], category?: string) => void
   handleSelect: (fileInputRef: React.RefObject<HTMLInputElement | null>) => void
   handleFileChange: (event: React.ChangeEvent<HTMLInputElement>, category?: string) => void
-  deleteFiles: (items: { idbKey: string; id: string }[]) => Promise<void>
+  deleteFiles: (items: { idbKey: string; id: string }[], options?: { permanent?: boolean }) => Promise<void>
+  restoreFiles: (ids: string[]) => Promise<void>
+  emptyTrash: (fileSet?: string) => Promise<void>
+  searchFiles: (params: FileSearchQuery) => Promise<FileSearchResult[]>
+  exportFileSet: (name: string) => Promise<File>
+  exportFileSetPdf: (name: string) => Promise<File>
+  importArchive: (file: Blob) => Promise<ArchiveImportResult>
+  refreshStorageUsage: () => Promise<StorageUsage>
+  requestPersistentStorage: () => Promise<boolean>
+  evictSyncedFiles: (params?: { strategy?: EvictionStrategy; targetBytes?: number }) => Promise<EvictionResult>
+  setUploadTarget: (target: UploadTarget | null) => void
+  processUploadQueue: () => Promise<void>
+  retryFailedUploads: () => Promise<void>
   playAudio: () => void
   stopAudio: () => void
   setAudioUrl: (url: string | null) => void
@@ -84,6 +228,7 @@ export interface ToolActionState {
   cameraFiles: ToolFile[]
   audioFiles: ToolFile[]
   textFiles: ToolFile[]
+  trashFiles: ToolFile[] // 現在のファイルセットでゴミ箱に入っているもの（新しく削除した順）
   fileSets: string[]
   fileSetInfo: FileSetInfo[]
   currentFileSet: string
@@ -93,6 +238,8 @@ export interface ToolActionState {
   error: Error | null
   pendingSaves: PendingSave[]
   syncStatus: "idle" | "buffering" | "syncing" | "error"
+  storage: StorageUsage | null // 未計測なら null
+  uploadStatus: UploadQueueStatus
 }
 
 const initialState: ToolActionState = {
@@ -102,6 +249,7 @@ const initialState: ToolActionState = {
   cameraFiles: [],
   audioFiles: [],
   textFiles: [],
+  trashFiles: [],
   fileSets: ["Default"],
   fileSetInfo: [],
   currentFileSet: "Default",
@@ -111,6 +259,8 @@ const initialState: ToolActionState = {
   error: null,
   pendingSaves: [],
   syncStatus: "idle",
+  storage: null,
+  uploadStatus: { pending: 0, failed: 0, isUploading: false },
 }
 
 /**
@@ -125,6 +275,104 @@ const revokeUrls = (files: ToolFile[], setInfos: FileSetInfo[] = []) => {
   })
 }
 
+/**
+ * 集計結果から FileSetInfo を組み立てる（件数・最新が変わっていなければ既存をそのまま使う）
+ */
+const buildFileSetInfo = async (
+  name: string,
+  info: RawSetInfo | undefined,
+  existing: FileSetInfo | undefined,
+  hydrateUrls: boolean,
+): Promise<FileSetInfo> => {
+  const latestIdbKey = info?.latest_idb_key || null
+  if (existing && existing.latestIdbKey === latestIdbKey && existing.count === (info?.count || 0)) {
+    return existing
+  }
+  let latestImageUrl = null
+  if (hydrateUrls && latestIdbKey) {
+    const blob = await idbStore().get(latestIdbKey)
+    if (blob) latestImageUrl = URL.createObjectURL(blob)
+  }
+  return {
+    name,
+    count: info?.count || 0,
+    latestImageUrl,
+    latestIdbKey,
+  }
+}
+
+const newestFirst = (a: ToolFile, b: ToolFile) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+const newestDeletedFirst = (a: ToolFile, b: ToolFile) =>
+  new Date(b.deletedAt ?? 0).getTime() - new Date(a.deletedAt ?? 0).getTime()
+
+const textClient = createTextClient()
+
+export const SCAN_CATEGORY = "qr"
+
+/**
+ * 全文検索用のカラム値を組み立てる（テキストは front-matter のタイトル・タグと本文を含める）
+ */
+const buildSearchFields = async (
+  file: Blob,
+  fileName: string,
+  category: string | null,
+): Promise<{ tags: string[]; searchText: string }> => {
+  if (category !== "text" || typeof file.text !== "function") return { tags: [], searchText: fileName }
+  try {
+    const { metadata, body } = textClient.parseMarkdown(await file.text())
+    return { tags: metadata.tags, searchText: [fileName, metadata.title, ...metadata.tags, body].join("\n") }
+  } catch {
+    return { tags: [], searchText: fileName }
+  }
+}
+
+/**
+ * 検索語を分割する（tsquery の演算子・記号は除去）
+ */
+const splitSearchTerms = (query: string): string[] =>
+  query
+    .split(/[\s\u3000]+/)
+    .map((term) => term.replace(/[&|!:*()<>'"\\]/g, ""))
+    .filter((term) => term.length > 0)
+
+/**
+ * 全語に一致する条件。tsvector の前方一致に加え、分かち書きされない日本語向けに部分一致も許す
+ */
+const matchTerms = (document: SQL, column: Column, terms: string[]): SQL | undefined => {
+  if (terms.length === 0) return undefined
+  const tsQuery = sql`to_tsquery('simple', ${terms.map((t) => `${t}:*`).join(" & ")})`
+  const escapeLike = (term: string) => `%${term.replace(/[\\%_]/g, "\\$&")}%`
+  return or(sql`${document} @@ ${tsQuery}`, and(...terms.map((t) => ilike(column, escapeLike(t)))))
+}
+
+const rankTerms = (document: SQL, terms: string[]): SQL<number> =>
+  terms.length > 0
+    ? sql<number>`ts_rank(${document}, to_tsquery('simple', ${terms.map((t) => `${t}:*`).join(" & ")}))`
+    : sql<number>`0::real`
+
+/**
+ * 最初に一致した語の前後を切り出す
+ */
+const buildSnippet = (text: string, terms: string[], radius = 40): string => {
+  const flat = text.replace(/\s+/g, " ").trim()
+  const lower = flat.toLowerCase()
+  const hit = terms.map((t) => lower.indexOf(t.toLowerCase())).find((i) => i >= 0) ?? 0
+  const start = Math.max(0, hit - radius)
+  const end = Math.min(flat.length, hit + radius * 2)
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+// 自動削除は syncData のたびには走らせず、この間隔をあけて実行する
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+// 保存のたびに容量を計測しないよう間隔をあける
+const STORAGE_CHECK_INTERVAL_MS = 5 * 1000
+// queueSave で DB への登録待ちにできる件数
+const MAX_BUFFER_SIZE = 50
+
+type DbTransaction = Parameters<Parameters<Awaited<ReturnType<typeof getDb>>["transaction"]>[0]>[0]
+
 type SyncOptions = {
   hydrateUrls?: boolean
 }
@@ -138,7 +386,16 @@ export type ToolActionStoreInstance = {
   dispose: () => void
 }
 
-export function createToolActionStore(options?: { autoStart?: boolean }): ToolActionStoreInstance {
+export function createToolActionStore(options?: {
+  autoStart?: boolean
+  trashRetentionDays?: number // ゴミ箱に入れてから完全削除するまでの日数（0以下で自動削除しない）
+  storageThresholds?: Partial<StorageThresholds> // 容量警告を出す使用率（0〜1）
+  evictionStrategy?: EvictionStrategy // 警告から退避するときの既定の順序
+  syncChannelName?: string // タブ間同期の BroadcastChannel 名（テストで分離する場合に指定）
+}): ToolActionStoreInstance {
+  const trashRetentionDays = options?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+  const storageThresholds: StorageThresholds = { ...DEFAULT_STORAGE_THRESHOLDS, ...options?.storageThresholds }
+  const evictionStrategy = options?.evictionStrategy ?? "lru"
   let state: ToolActionState = { ...initialState }
   const listeners = new Set<() => void>()
   let disposed = false
@@ -153,6 +410,42 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
   }
   const getState = () => state
   let currentAbortController: AbortController | null = null
+  let lastTrashPurgeAt = 0
+  let lastStorageCheckAt = 0
+  let notifiedStorageLevel: StorageLevel = "ok"
+  let persistenceRequested = false
+  let syncChannel: ToolSyncChannel | null = null
+  const broadcast = (message: ToolSyncMessage) => syncChannel?.post(message)
+
+  /**
+   * アップロード状況（sync_state / remote_key）の変化を表示中のファイルに反映し、他のタブにも伝える
+   */
+  const applySyncStates = (records: ToolFileRecord[]) => {
+    const byId = new Map(records.map((r) => [r.id, r]))
+    const patch = (f: ToolFile): ToolFile => {
+      const record = byId.get(f.id)
+      return record ? { ...f, syncState: record.syncState as SyncState, remoteKey: record.remoteKey } : f
+    }
+    state = {
+      ...state,
+      files: state.files.map(patch),
+      cameraFiles: state.cameraFiles.map(patch),
+      audioFiles: state.audioFiles.map(patch),
+      textFiles: state.textFiles.map(patch),
+    }
+    notify()
+    broadcast({ type: "files-upserted", records })
+  }
+  const uploadQueue = createUploadQueue({
+    onRecordsChanged: applySyncStates,
+    onStatusChange: (uploadStatus) => {
+      state = { ...state, uploadStatus }
+      notify()
+    },
+  })
+  const enqueueUploads = (fileIds: string[]) => {
+    uploadQueue.enqueue(fileIds).catch((error) => console.error("[ToolActionStore] Failed to enqueue upload:", error))
+  }
   let needsSync = false
   let activeSyncPromise: Promise<void> | null = null
   const runSyncData = async (syncOptions: SyncOptions): Promise<void> => {
@@ -180,11 +473,18 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
           const queue = [...state.pendingSaves]
           state = { ...state, pendingSaves: [], syncStatus: "syncing" }
           notify()
-          try {
-            for (const pending of queue) {
-              if (signal.aborted || disposed) break
+          let failed = false
+          for (const [index, pending] of queue.entries()) {
+            if (signal.aborted || disposed) {
+              // 中断された分は次の同期で登録し直す
+              state = { ...state, pendingSaves: [...queue.slice(index), ...state.pendingSaves] }
+              break
+            }
+            // 1件の失敗で残りを巻き添えにしない（失敗した分は queueSave で後片付けする）
+            try {
               const fileName = pending.options?.fileName || `file_${Date.now()}`
               const category = pending.options?.category || null
+              const searchFields = await buildSearchFields(pending.file, fileName, category)
               const [inserted] = await db
                 .insert(filesTable)
                 .values({
@@ -195,15 +495,20 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
                   mimeType: pending.file.type,
                   size: pending.file.size,
                   idbKey: pending.id,
+                  ...searchFields,
+                  metadata: pending.options?.metadata ?? null,
                 })
                 .returning()
+              broadcast({ type: "files-upserted", records: [inserted] })
+              enqueueUploads([inserted.id])
+              recordMetadata(inserted, pending.file, pending.options?.metadata)
               pending.resolve(inserted)
+            } catch (error) {
+              failed = true
+              pending.reject(error)
             }
-            state = { ...state, syncStatus: "idle" }
-          } catch (error) {
-            state = { ...state, syncStatus: "error" }
-            queue.forEach((p) => p.reject(error))
           }
+          state = { ...state, syncStatus: failed ? "error" : "idle" }
           notify()
         }
         if (signal.aborted || disposed) break
@@ -219,7 +524,7 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
               >`(array_agg(${filesTable.idbKey} order by ${filesTable.createdAt} desc))[1]`,
             })
             .from(filesTable)
-            .where(eq(filesTable.sessionId, initialSessionID))
+            .where(and(eq(filesTable.sessionId, initialSessionID), isNull(filesTable.deletedAt)))
             .groupBy(filesTable.fileSet)
           if (signal.aborted || disposed) break
           rawSetInfos = z.array(RawSetInfoSchema).parse(res)
@@ -231,7 +536,7 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
               count: sql<number>`count(*)::int`,
             })
             .from(filesTable)
-            .where(eq(filesTable.sessionId, initialSessionID))
+            .where(and(eq(filesTable.sessionId, initialSessionID), isNull(filesTable.deletedAt)))
             .groupBy(filesTable.fileSet)
           const basicInfos = z.array(BasicSetInfoSchema).parse(basicRes)
           rawSetInfos = await Promise.all(
@@ -242,7 +547,13 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
               const [latest] = await db
                 .select({ idbKey: filesTable.idbKey })
                 .from(filesTable)
-                .where(and(eq(filesTable.sessionId, initialSessionID), eq(filesTable.fileSet, info.name)))
+                .where(
+                  and(
+                    eq(filesTable.sessionId, initialSessionID),
+                    eq(filesTable.fileSet, info.name),
+                    isNull(filesTable.deletedAt),
+                  ),
+                )
                 .orderBy(desc(filesTable.createdAt))
                 .limit(1)
               return {
@@ -257,30 +568,20 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
         const fileSetNameList = Array.from(new Set([...rawSetInfos.map((s) => s.name), state.currentFileSet])).sort()
         const existingSetInfoMap = new Map(state.fileSetInfo.map((s) => [s.name, s]))
         const fileSetInfo: FileSetInfo[] = await Promise.all(
-          fileSetNameList.map(async (name) => {
-            const info = rawSetInfos.find((s) => s.name === name)
-            const latestIdbKey = info?.latest_idb_key || null
-            const existing = existingSetInfoMap.get(name)
-            if (existing && existing.latestIdbKey === latestIdbKey && existing.count === (info?.count || 0)) {
-              return existing
-            }
-            let latestImageUrl = null
-            if (syncOptions.hydrateUrls !== false && latestIdbKey) {
-              const blob = await idb.get(latestIdbKey)
-              if (blob) latestImageUrl = URL.createObjectURL(blob)
-            }
-            return {
+          fileSetNameList.map((name) =>
+            buildFileSetInfo(
               name,
-              count: info?.count || 0,
-              latestImageUrl,
-              latestIdbKey,
-            }
-          }),
+              rawSetInfos.find((s) => s.name === name),
+              existingSetInfoMap.get(name),
+              syncOptions.hydrateUrls !== false,
+            ),
+          ),
         )
         if (signal.aborted || disposed) break
         // 2. データを取得
-        const baseFilter = and(eq(filesTable.sessionId, initialSessionID), eq(filesTable.fileSet, state.currentFileSet))
-        const [allRecords, cameraRecords, audioRecords, textRecords] = await Promise.all([
+        const setFilter = and(eq(filesTable.sessionId, initialSessionID), eq(filesTable.fileSet, state.currentFileSet))
+        const baseFilter = and(setFilter, isNull(filesTable.deletedAt))
+        const [allRecords, cameraRecords, audioRecords, textRecords, trashRecords] = await Promise.all([
           db.select().from(filesTable).where(baseFilter).orderBy(desc(filesTable.createdAt)),
           db
             .select()
@@ -297,6 +598,11 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
             .from(filesTable)
             .where(and(baseFilter, eq(filesTable.category, "text")))
             .orderBy(desc(filesTable.createdAt)),
+          db
+            .select()
+            .from(filesTable)
+            .where(and(setFilter, isNotNull(filesTable.deletedAt)))
+            .orderBy(desc(filesTable.deletedAt)),
         ])
         // 3. 状態更新
         const existingFileMap = new Map(state.files.map((f) => [f.idbKey, f]))
@@ -329,6 +635,7 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
           cameraFiles: nextCameraFiles,
           audioFiles: nextAudioFiles,
           textFiles: nextTextFiles,
+          trashFiles: trashRecords.map((r) => ({ ...r, url: null }) as ToolFile),
           fileSets: fileSetNameList,
           fileSetInfo,
           isDbReady: true,
@@ -362,6 +669,16 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
             }
           }
         }
+        // 5. 保持期間を過ぎたゴミ箱のファイルを完全削除（一定間隔ごと）
+        if (trashRetentionDays > 0 && Date.now() - lastTrashPurgeAt > TRASH_PURGE_INTERVAL_MS) {
+          lastTrashPurgeAt = Date.now()
+          try {
+            // ゴミ箱の表示に反映するため、削除があれば同期をもう一周させる
+            if ((await purgeExpiredTrash()) > 0) needsSync = true
+          } catch (error) {
+            console.error("[ToolActionStore] Trash purge failed:", error)
+          }
+        }
         const latestSessionID = getSessionState()?.currentId || "default"
         if (needsSync || latestSessionID !== initialSessionID || state.currentFileSet !== initialFileSet) {
           shouldSync = true
@@ -380,6 +697,385 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
     }
   }
 
+  const purgedColumns = {
+    id: filesTable.id,
+    idbKey: filesTable.idbKey,
+    sessionId: filesTable.sessionId,
+    fileSet: filesTable.fileSet,
+  }
+
+  /**
+   * files の行を、その行に紐づく文字起こし・版・リンクとともに削除する（呼び出し側のトランザクション内で）
+   */
+  const deleteFileRows = async (tx: DbTransaction, where: SQL | undefined) => {
+    const purged = await tx.delete(filesTable).where(where).returning(purgedColumns)
+    const ids = purged.map((r) => r.id)
+    if (ids.length > 0) {
+      await tx.delete(transcriptSegmentsTable).where(inArray(transcriptSegmentsTable.fileId, ids))
+      await tx.delete(textRevisionsTable).where(inArray(textRevisionsTable.fileId, ids))
+      await tx.delete(linksTable).where(inArray(linksTable.sourceFileId, ids))
+    }
+    return purged
+  }
+
+  /**
+   * 行と BLOB を完全に削除する
+   */
+  const purgeFiles = async (records: { id: string; idbKey: string }[]): Promise<void> => {
+    if (records.length === 0) return
+    const db = await getDb()
+    const idb = idbStore()
+    const purged = await db.transaction((tx) =>
+      deleteFileRows(
+        tx,
+        inArray(
+          filesTable.id,
+          records.map((r) => r.id),
+        ),
+      ),
+    )
+    await Promise.all(records.map((r) => idb.remove(r.idbKey)))
+    broadcast({ type: "files-purged", records: purged })
+  }
+
+  /**
+   * 保持期間（trashRetentionDays）を過ぎたゴミ箱のファイルを完全削除する（全セッション対象）
+   */
+  const purgeExpiredTrash = async (): Promise<number> => {
+    const db = await getDb()
+    const threshold = new Date(Date.now() - trashRetentionDays * DAY_MS)
+    const expired = await db
+      .select({ id: filesTable.id, idbKey: filesTable.idbKey })
+      .from(filesTable)
+      .where(and(isNotNull(filesTable.deletedAt), lt(filesTable.deletedAt, threshold)))
+    await purgeFiles(expired)
+    return expired.length
+  }
+
+  /**
+   * オリジン全体の使用量と、files.size のファイルセット別・カテゴリ別の合計を計測する
+   */
+  const measureStorage = async (): Promise<StorageUsage> => {
+    const db = await getDb()
+    const live = isNull(filesTable.deletedAt)
+    const [estimate, rows] = await Promise.all([
+      estimateStorage(),
+      db
+        .select({
+          fileSet: filesTable.fileSet,
+          category: filesTable.category,
+          bytes: sql<number>`coalesce(sum(${filesTable.size}) filter (where ${live}), 0)::float8`,
+          count: sql<number>`(count(*) filter (where ${live}))::int`,
+          trashBytes: sql<number>`coalesce(sum(${filesTable.size}) filter (where ${filesTable.deletedAt} is not null), 0)::float8`,
+          evictableBytes: sql<number>`coalesce(sum(${filesTable.size}) filter (where ${and(live, eq(filesTable.syncState, "synced"))}), 0)::float8`,
+        })
+        .from(filesTable)
+        .where(isNull(filesTable.evictedAt))
+        .groupBy(filesTable.fileSet, filesTable.category),
+    ])
+    const byFileSet = new Map<string, { fileSet: string; bytes: number; count: number }>()
+    const byCategory = new Map<string | null, { category: string | null; bytes: number; count: number }>()
+    let localBytes = 0
+    let trashBytes = 0
+    let evictableBytes = 0
+    for (const row of rows) {
+      const bytes = Number(row.bytes)
+      localBytes += bytes
+      trashBytes += Number(row.trashBytes)
+      evictableBytes += Number(row.evictableBytes)
+      if (row.count === 0) continue // ゴミ箱のみのグループ
+      const set = byFileSet.get(row.fileSet) ?? { fileSet: row.fileSet, bytes: 0, count: 0 }
+      byFileSet.set(row.fileSet, { ...set, bytes: set.bytes + bytes, count: set.count + row.count })
+      const cat = byCategory.get(row.category) ?? { category: row.category, bytes: 0, count: 0 }
+      byCategory.set(row.category, { ...cat, bytes: cat.bytes + bytes, count: cat.count + row.count })
+    }
+    return {
+      ...estimate,
+      level: getStorageLevel(estimate.usage, estimate.quota, storageThresholds),
+      localBytes,
+      trashBytes,
+      evictableBytes,
+      byFileSet: [...byFileSet.values()].sort((a, b) => b.bytes - a.bytes),
+      byCategory: [...byCategory.values()].sort((a, b) => b.bytes - a.bytes),
+      checkedAt: new Date(),
+    }
+  }
+
+  /**
+   * 警告しきい値を下回るまでに空ける必要のある量（容量が不明なら null）
+   */
+  const bytesOverWarning = (usage: StorageUsage | null): number | null => {
+    if (!usage || usage.usage === null || !usage.quota) return null
+    return Math.max(0, usage.usage - usage.quota * storageThresholds.warning)
+  }
+
+  const evictFromToast = (targetBytes?: number) => {
+    void actions
+      .evictSyncedFiles({ targetBytes })
+      .then((result) => {
+        if (result.evicted === 0) {
+          toast("退避できる同期済みのファイルがありません")
+          return
+        }
+        toast.success(`${result.evicted}件を端末から退避しました`, { description: formatBytes(result.freedBytes) })
+      })
+      .catch((error) => console.error("[ToolActionStore] Eviction failed:", error))
+  }
+
+  /**
+   * 使用率がしきい値を超えたときに一度だけ警告する（下回ったら再び警告できるようにする）
+   */
+  const warnStorageLevel = (usage: StorageUsage) => {
+    const severity: Record<StorageLevel, number> = { ok: 0, warning: 1, critical: 2 }
+    if (severity[usage.level] > severity[notifiedStorageLevel]) {
+      const description = `${formatBytes(usage.usage)} / ${formatBytes(usage.quota)} 使用中`
+      const action =
+        usage.evictableBytes > 0
+          ? { label: "同期済みを整理", onClick: () => evictFromToast(bytesOverWarning(usage) ?? undefined) }
+          : undefined
+      if (usage.level === "critical") {
+        toast.error("ストレージの空き容量がほとんどありません", { description, action })
+      } else {
+        toast.warning("ストレージの空き容量が少なくなっています", { description, action })
+      }
+    }
+    notifiedStorageLevel = usage.level
+  }
+
+  /**
+   * 使用状況を計測して state に反映する（force でなければ一定間隔をあける）
+   */
+  const checkStorage = async (force = false): Promise<StorageUsage | null> => {
+    if (!force && Date.now() - lastStorageCheckAt < STORAGE_CHECK_INTERVAL_MS) return state.storage
+    lastStorageCheckAt = Date.now()
+    const usage = await measureStorage()
+    if (disposed) return usage
+    state = { ...state, storage: usage }
+    notify()
+    warnStorageLevel(usage)
+    return usage
+  }
+
+  /**
+   * BLOB を書き込んだ後の処理。初回は永続ストレージを要求する（ブラウザに消されないように）
+   */
+  const afterStorageWrite = async () => {
+    if (!persistenceRequested) {
+      persistenceRequested = true
+      await requestPersistence()
+    }
+    await checkStorage()
+  }
+
+  /**
+   * 保存したファイルのメタデータを抽出して記録する（保存自体は待たせない）
+   * 内容は変わらないため updatedAt は更新しない（他タブのプレビュー URL を使い回せるように）
+   */
+  const recordMetadata = (record: ToolFileRecord, file: Blob, hints?: FileMetadata): void => {
+    const run = async () => {
+      const metadata = await extractFileMetadata(file, hints)
+      if (disposed) return
+      const db = await getDb()
+      const [updated] = await db.update(filesTable).set({ metadata }).where(eq(filesTable.id, record.id)).returning()
+      if (!updated) return // 抽出中に完全削除された
+      const apply = (f: ToolFile): ToolFile => (f.idbKey === updated.idbKey ? { ...f, metadata } : f)
+      state = {
+        ...state,
+        files: state.files.map(apply),
+        cameraFiles: state.cameraFiles.map(apply),
+        audioFiles: state.audioFiles.map(apply),
+        textFiles: state.textFiles.map(apply),
+      }
+      notify()
+      broadcast({ type: "files-upserted", records: [updated] })
+    }
+    run().catch((error) => console.error("[ToolActionStore] Failed to record metadata:", error))
+  }
+
+  /**
+   * 指定したファイルセットの件数・最新サムネイルだけを取り直す（他タブの変更の反映用）
+   */
+  const refreshFileSetInfo = async (sessionId: string, names: string[]): Promise<void> => {
+    if (names.length === 0) return
+    const db = await getDb()
+    const res = await db
+      .select({
+        name: filesTable.fileSet,
+        count: sql<number>`count(*)::int`,
+        latest_idb_key: sql<string | null>`(array_agg(${filesTable.idbKey} order by ${filesTable.createdAt} desc))[1]`,
+      })
+      .from(filesTable)
+      .where(and(eq(filesTable.sessionId, sessionId), inArray(filesTable.fileSet, names), isNull(filesTable.deletedAt)))
+      .groupBy(filesTable.fileSet)
+    const rawSetInfos = z.array(RawSetInfoSchema).parse(res)
+    const existingSetInfoMap = new Map(state.fileSetInfo.map((s) => [s.name, s]))
+    const updated = await Promise.all(
+      names.map((name) =>
+        buildFileSetInfo(
+          name,
+          rawSetInfos.find((s) => s.name === name),
+          existingSetInfoMap.get(name),
+          true,
+        ),
+      ),
+    )
+    if (disposed || (getSessionState()?.currentId || "default") !== sessionId) {
+      revokeUrls(
+        [],
+        updated.filter((info) => !state.fileSetInfo.includes(info)),
+      )
+      return
+    }
+    // syncData と同じく、行のないファイルセットは現在のもの以外一覧から外す
+    const updatedMap = new Map(
+      updated.filter((info) => info.count > 0 || info.name === state.currentFileSet).map((info) => [info.name, info]),
+    )
+    const replaced = state.fileSetInfo.filter((s) => names.includes(s.name) && updatedMap.get(s.name) !== s)
+    const fileSetInfo = [...state.fileSetInfo.filter((s) => !names.includes(s.name)), ...updatedMap.values()].sort(
+      (a, b) => a.name.localeCompare(b.name),
+    )
+    revokeUrls(
+      [],
+      replaced.filter((s) => updatedMap.get(s.name)?.latestImageUrl !== s.latestImageUrl),
+    )
+    state = { ...state, fileSetInfo, fileSets: fileSetInfo.map((s) => s.name) }
+    notify()
+  }
+
+  /**
+   * 他のタブで追加・更新された行を差分で反映する
+   * ゴミ箱への移動・復元・退避も行の最新状態として届くので、同じ経路で扱う
+   */
+  const applyRemoteUpserts = async (records: ToolFileRecord[]): Promise<void> => {
+    const sessionId = getSessionState()?.currentId || "default"
+    const relevant = records.filter((r) => r.sessionId === sessionId)
+    if (relevant.length === 0) return
+    const currentSet = state.currentFileSet
+    const visible = relevant.filter((r) => r.fileSet === currentSet)
+    // 表示中のファイルセットのものだけ BLOB から URL を作る（IndexedDB はタブ間で共有）
+    // 内容が変わっていない行（アップロード状況の更新等）は既存の URL を使い回す
+    const existingByKey = new Map(state.files.map((f) => [f.idbKey, f]))
+    const reusedUrls = new Set<string>()
+    const urls = new Map<string, string | null>()
+    for (const r of visible) {
+      const existing = existingByKey.get(r.idbKey)
+      const unchanged =
+        existing?.updatedAt && new Date(existing.updatedAt).getTime() === new Date(r.updatedAt).getTime()
+      if (existing?.url && unchanged && !r.deletedAt && !r.evictedAt) {
+        urls.set(r.idbKey, existing.url)
+        reusedUrls.add(existing.url)
+      }
+    }
+    const idb = idbStore()
+    await Promise.all(
+      visible
+        .filter((r) => !r.deletedAt && !r.evictedAt && !urls.has(r.idbKey))
+        .map(async (r) => {
+          const blob = await idb.get(r.idbKey)
+          urls.set(r.idbKey, blob ? URL.createObjectURL(blob) : null)
+        }),
+    )
+    if (disposed || state.currentFileSet !== currentSet) {
+      urls.forEach((url) => url && !reusedUrls.has(url) && URL.revokeObjectURL(url))
+      if (!disposed) void syncData()
+      return
+    }
+    const touched = new Set(relevant.map((r) => r.idbKey))
+    const live = visible.filter((r) => !r.deletedAt).map((r) => ({ ...r, url: urls.get(r.idbKey) ?? null }) as ToolFile)
+    const trashed = visible.filter((r) => r.deletedAt).map((r) => ({ ...r, url: null }) as ToolFile)
+    const merge = (list: ToolFile[], additions: ToolFile[]) =>
+      [...list.filter((f) => !touched.has(f.idbKey)), ...additions].sort(newestFirst)
+    const replaced = state.files.filter((f) => touched.has(f.idbKey) && !(f.url && reusedUrls.has(f.url)))
+    state = {
+      ...state,
+      files: merge(state.files, live),
+      cameraFiles: merge(
+        state.cameraFiles,
+        live.filter((f) => f.category === "camera"),
+      ),
+      audioFiles: merge(
+        state.audioFiles,
+        live.filter((f) => f.category === "microphone"),
+      ),
+      textFiles: merge(
+        state.textFiles,
+        live.filter((f) => f.category === "text"),
+      ),
+      trashFiles: [...state.trashFiles.filter((f) => !touched.has(f.idbKey)), ...trashed].sort(newestDeletedFirst),
+    }
+    revokeUrls(replaced)
+    notify()
+    // 別のファイルセットへ移った行があれば、表示中のセットの件数も変わる
+    const affectedSets = new Set(relevant.map((r) => r.fileSet))
+    if (replaced.length > 0) affectedSets.add(currentSet)
+    await refreshFileSetInfo(sessionId, [...affectedSets])
+  }
+
+  /**
+   * 他のタブで完全削除された行を取り除く
+   */
+  const applyRemotePurges = async (records: PurgedToolFile[]): Promise<void> => {
+    const sessionId = getSessionState()?.currentId || "default"
+    const relevant = records.filter((r) => r.sessionId === sessionId)
+    if (relevant.length === 0) return
+    const purged = new Set(relevant.map((r) => r.idbKey))
+    const keep = (f: ToolFile) => !purged.has(f.idbKey)
+    revokeUrls(state.files.filter((f) => !keep(f)))
+    state = {
+      ...state,
+      files: state.files.filter(keep),
+      cameraFiles: state.cameraFiles.filter(keep),
+      audioFiles: state.audioFiles.filter(keep),
+      textFiles: state.textFiles.filter(keep),
+      trashFiles: state.trashFiles.filter(keep),
+    }
+    notify()
+    await refreshFileSetInfo(sessionId, [...new Set(relevant.map((r) => r.fileSet))])
+  }
+
+  /**
+   * ファイルセット名の変更を反映する（自タブ・他タブ共通。表示中のセットならそのまま追従する）
+   */
+  const applyRename = async (sessionId: string, from: string, to: string): Promise<void> => {
+    if ((getSessionState()?.currentId || "default") !== sessionId || from === to) return
+    const rename = (f: ToolFile): ToolFile => (f.fileSet === from ? { ...f, fileSet: to } : f)
+    revokeUrls(
+      [],
+      state.fileSetInfo.filter((s) => s.name === from),
+    )
+    state = {
+      ...state,
+      currentFileSet: state.currentFileSet === from ? to : state.currentFileSet,
+      files: state.files.map(rename),
+      cameraFiles: state.cameraFiles.map(rename),
+      audioFiles: state.audioFiles.map(rename),
+      textFiles: state.textFiles.map(rename),
+      trashFiles: state.trashFiles.map(rename),
+      fileSetInfo: state.fileSetInfo.filter((s) => s.name !== from),
+      fileSets: state.fileSets.filter((name) => name !== from),
+    }
+    notify()
+    await refreshFileSetInfo(sessionId, [to])
+  }
+
+  const handleSyncMessage = (message: ToolSyncMessage) => {
+    const apply = async () => {
+      switch (message.type) {
+        case "files-upserted":
+          return applyRemoteUpserts(message.records)
+        case "files-purged":
+          return applyRemotePurges(message.records)
+        case "fileset-renamed":
+          return applyRename(message.sessionId, message.from, message.to)
+      }
+    }
+    apply().catch((error) => {
+      // 差分の反映に失敗したら全件の同期で整合性を取り直す
+      console.error("[ToolActionStore] Failed to apply cross-tab change:", error)
+      void syncData()
+    })
+  }
+
   async function syncData(options: SyncOptions = {}): Promise<void> {
     const merged: SyncOptions = { hydrateUrls: options.hydrateUrls ?? true }
     if (disposed) return
@@ -393,6 +1089,63 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
     return activeSyncPromise
   }
 
+  /**
+   * 保存中のファイルを一覧に先に出す（addPreview 済みなら URL だけを Blob URL に差し替える）
+   */
+  const showPendingFile = (file: Blob | File, idbKey: string, category: string | null, fileName?: string) => {
+    const existingIndex = state.files.findIndex((f) => f.idbKey === idbKey)
+    if (existingIndex === -1) {
+      const tempUrl = URL.createObjectURL(file)
+      const tempFile: ToolFile = {
+        id: idbKey,
+        sessionId: getSessionState()?.currentId || "default",
+        fileSet: state.currentFileSet,
+        category,
+        fileName: fileName || `file_${Date.now()}`,
+        mimeType: file.type,
+        size: file.size,
+        idbKey,
+        createdAt: new Date(),
+        url: tempUrl,
+        isPending: true,
+      }
+      state = {
+        ...state,
+        files: [tempFile, ...state.files],
+        cameraFiles: category === "camera" ? [tempFile, ...state.cameraFiles] : state.cameraFiles,
+        audioFiles: category === "microphone" ? [tempFile, ...state.audioFiles] : state.audioFiles,
+      }
+      notify()
+    } else {
+      // 既存のプレビューがあればフラグ等を維持しつつURLだけBlob URLに差し替え
+      const oldFile = state.files[existingIndex]
+      const tempUrl = URL.createObjectURL(file)
+      // 重要：以前のURLがBlob URL（DataURL等ではない）ならメモリリーク防止のために解放
+      if (oldFile.url?.startsWith("blob:")) URL.revokeObjectURL(oldFile.url)
+
+      const updateFile = (f: ToolFile) =>
+        f.idbKey === idbKey ? { ...f, url: tempUrl, size: file.size, isPending: true } : f
+      state = {
+        ...state,
+        files: state.files.map(updateFile),
+        cameraFiles: state.cameraFiles.map(updateFile),
+        audioFiles: state.audioFiles.map(updateFile),
+      }
+      notify()
+    }
+  }
+
+  const hidePendingFile = (idbKey: string) => {
+    const filterOut = (f: ToolFile) => f.idbKey !== idbKey
+    state = {
+      ...state,
+      files: state.files.filter(filterOut),
+      cameraFiles: state.cameraFiles.filter(filterOut),
+      audioFiles: state.audioFiles.filter(filterOut),
+    }
+    notify()
+  }
+
   /**
    * 外から呼び出すアクション
    */
@@ -402,54 +1155,13 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
      */
     saveFile: async (
       file: Blob | File,
-      options?: { fileName?: string; idbKey?: string; category?: string },
+      options?: { fileName?: string; idbKey?: string; category?: string; metadata?: FileMetadata },
     ): Promise<SavedToolFileResult> => {
       const idb = idbStore()
       const idbKey = options?.idbKey || crypto.randomUUID()
       const category = options?.category || null
       // 1. 最適化UI更新
-      // すでに addPreview で追加されている場合はスキップまたは更新
-      const existingIndex = state.files.findIndex((f) => f.idbKey === idbKey)
-      if (existingIndex === -1) {
-        const tempUrl = URL.createObjectURL(file)
-        const tempFile: ToolFile = {
-          id: idbKey,
-          sessionId: getSessionState()?.currentId || "default",
-          fileSet: state.currentFileSet,
-          category,
-          fileName: options?.fileName || `file_${Date.now()}`,
-          mimeType: file.type,
-          size: file.size,
-          idbKey,
-          createdAt: new Date(),
-          url: tempUrl,
-          isPending: true,
-        }
-        state = {
-          ...state,
-          files: [tempFile, ...state.files],
-          cameraFiles: category === "camera" ? [tempFile, ...state.cameraFiles] : state.cameraFiles,
-          audioFiles: category === "microphone" ? [tempFile, ...state.audioFiles] : state.audioFiles,
-        }
-        notify()
-      } else {
-        // 既存のプレビューがあればフラグ等を維持しつつURLだけBlob URLに差し替え
-        const oldFile = state.files[existingIndex]
-        const tempUrl = URL.createObjectURL(file)
-        // 重要：以前のURLがBlob URL（DataURL等ではない）ならメモリリーク防止のために解放
-        if (oldFile.url?.startsWith("blob:")) URL.revokeObjectURL(oldFile.url)
-
-        const updateFile = (f: ToolFile) =>
-          f.idbKey === idbKey ? { ...f, url: tempUrl, size: file.size, isPending: true } : f
-        state = {
-          ...state,
-          files: state.files.map(updateFile),
-          cameraFiles: state.cameraFiles.map(updateFile),
-          audioFiles: state.audioFiles.map(updateFile),
-        }
-        notify()
-      }
-      const MAX_BUFFER_SIZE = 50
+      showPendingFile(file, idbKey, category, options?.fileName)
       if (state.pendingSaves.length >= MAX_BUFFER_SIZE) {
         throw new Error("Buffer full, cannot save more files")
       }
@@ -461,6 +1173,7 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
             const db = await getDb()
             const sessionID = getSessionState()?.currentId || "default"
             const fileName = options?.fileName || `file_${Date.now()}`
+            const searchFields = await buildSearchFields(file, fileName, category)
             // upsert: idbKey が既存なら UPDATE、なければ INSERT
             const [result] = await db
               .insert(filesTable)
@@ -472,6 +1185,8 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
                 mimeType: file.type,
                 size: file.size,
                 idbKey,
+                ...searchFields,
+                metadata: options?.metadata ?? null,
               })
               .onConflictDoUpdate({
                 target: filesTable.idbKey,
@@ -482,6 +1197,12 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
                   fileName,
                   mimeType: file.type,
                   size: file.size,
+                  ...searchFields,
+                  metadata: options?.metadata ?? null,
+                  // 内容が変わったので、退避済みの印を外し、アップロードし直すまでは未同期として扱う
+                  // （enqueueUploads を待つ間に同期済みとして退避されないよう、同じ文で戻す）
+                  syncState: "local",
+                  evictedAt: null,
                   updatedAt: new Date(),
                 },
               })
@@ -500,6 +1221,9 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
                     mimeType: result.mimeType,
                     size: result.size,
                     createdAt: result.createdAt,
+                    metadata: result.metadata,
+                    syncState: result.syncState as SyncState,
+                    evictedAt: result.evictedAt,
                     isPending: false,
                   }
                 : f
@@ -513,6 +1237,10 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
 
             // 後追いで整合性を取る（fileSets / fileSetInfo / url hydration 等）
             void syncData()
+            broadcast({ type: "files-upserted", records: [result] })
+            enqueueUploads([result.id])
+            recordMetadata(result, file, options?.metadata)
+            void afterStorageWrite().catch((error) => console.error("[ToolActionStore] Storage check failed:", error))
 
             // ブリッジ経由でトーストを表示
             const type = category === "microphone" ? "audio" : "image"
@@ -545,14 +1273,53 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
         return saveToDb().then((inserted) => ({ id: inserted.id, idbKey: inserted.idbKey }))
       } catch (error) {
         await idb.remove(idbKey).catch(() => {})
-        const filterOut = (f: ToolFile) => f.idbKey !== idbKey
-        state = {
-          ...state,
-          files: state.files.filter(filterOut),
-          cameraFiles: state.cameraFiles.filter(filterOut),
-          audioFiles: state.audioFiles.filter(filterOut),
+        if (isQuotaExceededError(error)) {
+          toast.error("空き容量が不足しているため保存できませんでした", {
+            description: "同期済みのファイルを整理するか、不要なファイルを削除してください",
+            action: {
+              label: "同期済みを整理",
+              onClick: () => evictFromToast(Math.max(file.size, bytesOverWarning(state.storage) ?? 0)),
+            },
+          })
         }
-        notify()
+        hidePendingFile(idbKey)
+        throw new Error("Failed to save file", { cause: error })
+      }
+    },
+
+    /**
+     * 連写・インターバル撮影など、続けて保存するためのバッファ付き保存
+     * BLOB だけを先に IndexedDB に書き、DB への登録は pendingSaves に積んで syncData でまとめて行う
+     * 1枚ごとに DB の書き込みやトーストを待たないので、撮影中のプレビューを止めない
+     */
+    queueSave: async (
+      file: Blob | File,
+      options?: { fileName?: string; idbKey?: string; category?: string; metadata?: FileMetadata },
+    ): Promise<SavedToolFileResult> => {
+      if (state.pendingSaves.length >= MAX_BUFFER_SIZE) {
+        throw new Error("Buffer full, cannot save more files")
+      }
+      const idbKey = options?.idbKey || crypto.randomUUID()
+      showPendingFile(file, idbKey, options?.category || null, options?.fileName)
+      try {
+        await idbStore().put(idbKey, file)
+      } catch (error) {
+        hidePendingFile(idbKey)
+        throw new Error("Failed to buffer file", { cause: error })
+      }
+      const saved = new Promise<SavedToolFileResult>((resolve, reject) => {
+        state = { ...state, pendingSaves: [...state.pendingSaves, { id: idbKey, file, options, resolve, reject }] }
+      })
+      void syncData()
+      try {
+        const { id } = await saved
+        return { id, idbKey }
+      } catch (error) {
+        // 登録できなかったファイルは、表示からも IndexedDB からも消す
+        hidePendingFile(idbKey)
+        await idbStore()
+          .remove(idbKey)
+          .catch(() => {})
         throw new Error("Failed to save file", { cause: error })
       }
     },
@@ -613,8 +1380,9 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
 
     /**
      * 複数のファイルを一括削除する
+     * 既定ではゴミ箱に移す（deletedAt を設定し BLOB は残す）。permanent 指定時は行と BLOB を即時削除する
      */
-    deleteFiles: async (items: { idbKey: string; id: string }[]): Promise<void> => {
+    deleteFiles: async (items: { idbKey: string; id: string }[], options?: { permanent?: boolean }): Promise<void> => {
       if (items.length === 0) return
       const idbKeysToRemove = new Set(items.map((i) => i.idbKey))
       const filterOut = (f: ToolFile) => !idbKeysToRemove.has(f.idbKey)
@@ -624,6 +1392,8 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
         files: state.files.filter(filterOut),
         cameraFiles: state.cameraFiles.filter(filterOut),
         audioFiles: state.audioFiles.filter(filterOut),
+        textFiles: state.textFiles.filter(filterOut),
+        trashFiles: options?.permanent ? state.trashFiles.filter(filterOut) : state.trashFiles,
       }
       notify()
       // 2. バックグラウンドで残りの処理を行う
@@ -631,11 +1401,35 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
         const db = await getDb()
         const idb = idbStore()
         try {
-          const validDbIds = items.map((i) => i.id).filter((id) => id && id.length > 10)
-          if (validDbIds.length > 0) {
-            await db.delete(filesTable).where(inArray(filesTable.id, validDbIds))
+          if (options?.permanent) {
+            const validDbIds = items.map((i) => i.id).filter((id) => id && id.length > 10)
+            if (validDbIds.length > 0) {
+              const purged = await db.transaction((tx) => deleteFileRows(tx, inArray(filesTable.id, validDbIds)))
+              broadcast({ type: "files-purged", records: purged })
+            }
+            await Promise.all(items.map((item) => idb.remove(item.idbKey)))
+          } else {
+            const trashed = await db
+              .update(filesTable)
+              .set({ deletedAt: new Date() })
+              .where(and(inArray(filesTable.idbKey, [...idbKeysToRemove]), isNull(filesTable.deletedAt)))
+              .returning()
+            if (trashed.length > 0) broadcast({ type: "files-upserted", records: trashed })
+            // DB に行がない（保存前のプレビュー等）ものはゴミ箱に入れられないので BLOB ごと消す
+            const trashedKeys = new Set(trashed.map((r) => r.idbKey))
+            await Promise.all(items.filter((i) => !trashedKeys.has(i.idbKey)).map((i) => idb.remove(i.idbKey)))
+            if (trashed.length > 0) {
+              toast.success("ゴミ箱に移動しました", {
+                description: `${trashed.length}件`,
+                action: {
+                  label: "元に戻す",
+                  onClick: () => {
+                    void actions.restoreFiles(trashed.map((r) => r.id))
+                  },
+                },
+              })
+            }
           }
-          await Promise.all(items.map((item) => idb.remove(item.idbKey)))
           void syncData()
         } catch (error) {
           console.error("[ToolActionStore] Background delete failed:", error)
@@ -645,46 +1439,466 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
       return processDeletion()
     },
 
+    /**
+     * ゴミ箱から元に戻す
+     */
+    restoreFiles: async (ids: string[]): Promise<void> => {
+      if (ids.length === 0) return
+      const idSet = new Set(ids)
+      state = { ...state, trashFiles: state.trashFiles.filter((f) => !idSet.has(f.id)) }
+      notify()
+      try {
+        const db = await getDb()
+        const restored = await db
+          .update(filesTable)
+          .set({ deletedAt: null, updatedAt: new Date() })
+          .where(inArray(filesTable.id, ids))
+          .returning()
+        broadcast({ type: "files-upserted", records: restored })
+      } finally {
+        await syncData()
+      }
+    },
+
+    /**
+     * ゴミ箱を空にする（指定がなければ現在のファイルセット）
+     */
+    emptyTrash: async (fileSet?: string): Promise<void> => {
+      const targetSet = fileSet ?? state.currentFileSet
+      if (targetSet === state.currentFileSet) {
+        state = { ...state, trashFiles: [] }
+        notify()
+      }
+      try {
+        const db = await getDb()
+        const sessionId = getSessionState()?.currentId || "default"
+        const trashed = await db
+          .select({ id: filesTable.id, idbKey: filesTable.idbKey })
+          .from(filesTable)
+          .where(
+            and(
+              eq(filesTable.sessionId, sessionId),
+              eq(filesTable.fileSet, targetSet),
+              isNotNull(filesTable.deletedAt),
+            ),
+          )
+        await purgeFiles(trashed)
+      } finally {
+        await syncData()
+      }
+    },
+
+    /**
+     * ファイル名・テキスト本文・タグ・QRスキャン結果を横断検索する（現在のセッション内）
+     */
+    searchFiles: async ({
+      query = "",
+      category,
+      fileSet,
+      from,
+      to,
+      limit = 50,
+    }: FileSearchQuery): Promise<FileSearchResult[]> => {
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      const terms = splitSearchTerms(query)
+      const results: FileSearchResult[] = []
+
+      if (category !== SCAN_CATEGORY) {
+        const document = sql`to_tsvector('simple', coalesce(${filesTable.searchText}, ''))`
+        const rows = await db
+          .select({
+            id: filesTable.id,
+            idbKey: filesTable.idbKey,
+            fileSet: filesTable.fileSet,
+            category: filesTable.category,
+            fileName: filesTable.fileName,
+            tags: filesTable.tags,
+            searchText: filesTable.searchText,
+            createdAt: filesTable.createdAt,
+            rank: rankTerms(document, terms),
+          })
+          .from(filesTable)
+          .where(
+            and(
+              eq(filesTable.sessionId, sessionId),
+              isNull(filesTable.deletedAt),
+              category ? eq(filesTable.category, category) : undefined,
+              fileSet ? eq(filesTable.fileSet, fileSet) : undefined,
+              from ? gte(filesTable.createdAt, from) : undefined,
+              to ? lte(filesTable.createdAt, to) : undefined,
+              matchTerms(document, filesTable.searchText, terms),
+            ),
+          )
+          .orderBy(desc(rankTerms(document, terms)), desc(filesTable.createdAt))
+          .limit(limit)
+        results.push(
+          ...rows.map((r) => ({
+            kind: "file" as const,
+            id: r.id,
+            idbKey: r.idbKey,
+            fileSet: r.fileSet,
+            category: r.category,
+            title: r.fileName,
+            snippet: buildSnippet(r.searchText ?? r.fileName, terms),
+            tags: r.tags,
+            createdAt: r.createdAt,
+            rank: Number(r.rank),
+          })),
+        )
+      }
+
+      if (!category || category === SCAN_CATEGORY) {
+        const document = sql`to_tsvector('simple', ${scansTable.payload})`
+        const rows = await db
+          .select({
+            id: scansTable.id,
+            fileSet: scansTable.fileSet,
+            payload: scansTable.payload,
+            createdAt: scansTable.createdAt,
+            rank: rankTerms(document, terms),
+          })
+          .from(scansTable)
+          .where(
+            and(
+              eq(scansTable.sessionId, sessionId),
+              fileSet ? eq(scansTable.fileSet, fileSet) : undefined,
+              from ? gte(scansTable.createdAt, from) : undefined,
+              to ? lte(scansTable.createdAt, to) : undefined,
+              matchTerms(document, scansTable.payload, terms),
+            ),
+          )
+          .orderBy(desc(rankTerms(document, terms)), desc(scansTable.createdAt))
+          .limit(limit)
+        results.push(
+          ...rows.map((r) => ({
+            kind: "scan" as const,
+            id: r.id,
+            idbKey: null,
+            fileSet: r.fileSet,
+            category: SCAN_CATEGORY,
+            title: r.payload,
+            snippet: buildSnippet(r.payload, terms),
+            tags: [],
+            createdAt: r.createdAt,
+            rank: Number(r.rank),
+          })),
+        )
+      }
+
+      return results.sort((a, b) => b.rank - a.rank || b.createdAt.getTime() - a.createdAt.getTime()).slice(0, limit)
+    },
+
+    /**
+     * ファイルセットを ZIP（BLOB + manifest.json）に書き出す（現在のセッション内）
+     */
+    exportFileSet: async (name: string): Promise<File> => {
+      const db = await getDb()
+      const idb = idbStore()
+      const sessionId = getSessionState()?.currentId || "default"
+      const records = await db
+        .select()
+        .from(filesTable)
+        .where(and(eq(filesTable.sessionId, sessionId), eq(filesTable.fileSet, name), isNull(filesTable.deletedAt)))
+        .orderBy(filesTable.createdAt)
+      const archived: ArchivedFile[] = []
+      for (const record of records) {
+        const blob = await idb.get(record.idbKey)
+        if (blob) archived.push({ record, blob })
+        else console.warn(`[ToolActionStore] Blob missing on export, skipped: ${record.idbKey}`)
+      }
+      const archive = await createFileSetArchive(name, archived)
+      return new File([archive], archiveFileName(name), { type: "application/zip" })
+    },
+
+    /**
+     * ファイルセットの画像を撮影順に並べた PDF を作る（書類スキャンのまとめ用。現在のセッション内）
+     */
+    exportFileSetPdf: async (name: string): Promise<File> => {
+      const db = await getDb()
+      const idb = idbStore()
+      const sessionId = getSessionState()?.currentId || "default"
+      const records = await db
+        .select()
+        .from(filesTable)
+        .where(
+          and(
+            eq(filesTable.sessionId, sessionId),
+            eq(filesTable.fileSet, name),
+            isNull(filesTable.deletedAt),
+            like(filesTable.mimeType, "image/%"),
+          ),
+        )
+        .orderBy(filesTable.createdAt)
+      const pages: PdfImagePage[] = []
+      for (const record of records) {
+        const blob = await idb.get(record.idbKey)
+        const page = blob ? await toPdfImagePage(blob) : null
+        if (page) pages.push(page)
+        else console.warn(`[ToolActionStore] Image unavailable for PDF, skipped: ${record.idbKey}`)
+      }
+      if (pages.length === 0) throw new Error(`No images in file set: ${name}`)
+      return new File([createImagePdf(pages, { title: name })], archiveFileName(name, "pdf"), {
+        type: "application/pdf",
+      })
+    },
+
+    /**
+     * exportFileSet で書き出した ZIP を現在のセッションに取り込む
+     * 同じ idbKey が既に存在するファイルはスキップするため、何度取り込んでも重複しない
+     */
+    importArchive: async (file: Blob): Promise<ArchiveImportResult> => {
+      const { manifest, blobs } = await readFileSetArchive(file)
+      const db = await getDb()
+      const idb = idbStore()
+      const sessionId = getSessionState()?.currentId || "default"
+      const idbKeys = manifest.files.map((f) => f.idbKey)
+      const existing =
+        idbKeys.length > 0
+          ? await db.select({ idbKey: filesTable.idbKey }).from(filesTable).where(inArray(filesTable.idbKey, idbKeys))
+          : []
+      const existingKeys = new Set(existing.map((r) => r.idbKey))
+      const result: ArchiveImportResult = { fileSets: [], imported: 0, skipped: 0 }
+      const importedRecords: ToolFileRecord[] = []
+      // 途中で失敗しても、それまでに取り込んだ分は一覧・同期・アップロードに反映する
+      try {
+        for (const entry of manifest.files) {
+          const blob = blobs.get(entry.path)
+          if (existingKeys.has(entry.idbKey) || !blob) {
+            if (!blob) console.warn(`[ToolActionStore] Blob missing in archive, skipped: ${entry.path}`)
+            result.skipped++
+            continue
+          }
+          const typed = blob.type === entry.mimeType ? blob : new Blob([blob], { type: entry.mimeType })
+          await idb.put(entry.idbKey, typed)
+          try {
+            const searchFields = entry.searchText
+              ? { tags: entry.tags, searchText: entry.searchText }
+              : await buildSearchFields(typed, entry.fileName, entry.category)
+            const inserted = await db
+              .insert(filesTable)
+              .values({
+                sessionId,
+                fileSet: entry.fileSet,
+                category: entry.category,
+                fileName: entry.fileName,
+                mimeType: entry.mimeType,
+                size: typed.size,
+                idbKey: entry.idbKey,
+                ...searchFields,
+                metadata: entry.metadata,
+                createdAt: entry.createdAt,
+                updatedAt: entry.updatedAt,
+              })
+              .onConflictDoNothing({ target: filesTable.idbKey })
+              .returning()
+            if (inserted.length === 0) {
+              result.skipped++
+              continue
+            }
+            importedRecords.push(...inserted)
+            if (!entry.metadata) recordMetadata(inserted[0], typed)
+          } catch (error) {
+            await idb.remove(entry.idbKey).catch(() => {})
+            throw new Error(`Failed to import ${entry.fileName}`, { cause: error })
+          }
+          existingKeys.add(entry.idbKey)
+          if (!result.fileSets.includes(entry.fileSet)) result.fileSets.push(entry.fileSet)
+          result.imported++
+        }
+      } finally {
+        if (result.imported > 0) {
+          void syncData()
+          broadcast({ type: "files-upserted", records: importedRecords })
+          enqueueUploads(importedRecords.map((r) => r.id))
+          void afterStorageWrite().catch((error) => console.error("[ToolActionStore] Storage check failed:", error))
+        }
+      }
+      return result
+    },
+
+    /**
+     * ストレージ使用状況を計測し直す
+     */
+    refreshStorageUsage: async (): Promise<StorageUsage> => {
+      const usage = await checkStorage(true)
+      return usage ?? measureStorage()
+    },
+
+    /**
+     * 永続ストレージを要求する（結果は storage.persisted に反映）
+     */
+    requestPersistentStorage: async (): Promise<boolean> => {
+      persistenceRequested = true
+      const granted = await requestPersistence()
+      await checkStorage(true)
+      return granted
+    },
+
+    /**
+     * リモートに同期済みのファイルの BLOB を端末から削除して容量を空ける（行・メタデータは残す）
+     * targetBytes を省略すると同期済みのものをすべて退避する
+     */
+    evictSyncedFiles: async ({
+      strategy = evictionStrategy,
+      targetBytes = Number.POSITIVE_INFINITY,
+    }: { strategy?: EvictionStrategy; targetBytes?: number } = {}): Promise<EvictionResult> => {
+      const db = await getDb()
+      const idb = idbStore()
+      const order =
+        strategy === "lru" ? sql`coalesce(${filesTable.lastAccessedAt}, ${filesTable.createdAt})` : filesTable.createdAt
+      const candidates = await db
+        .select({ id: filesTable.id, idbKey: filesTable.idbKey, size: filesTable.size })
+        .from(filesTable)
+        .where(and(eq(filesTable.syncState, "synced"), isNull(filesTable.evictedAt), isNull(filesTable.deletedAt)))
+        .orderBy(asc(order), asc(filesTable.createdAt))
+      const result: EvictionResult = { evicted: 0, freedBytes: 0 }
+      const evictedKeys = new Set<string>()
+      const evictedRecords: ToolFileRecord[] = []
+      for (const candidate of candidates) {
+        if (result.freedBytes >= targetBytes) break
+        // 先に行へ印を付ける（BLOB の削除に失敗しても、行が存在しない BLOB を指すことはない）
+        const updated = await db
+          .update(filesTable)
+          .set({ evictedAt: new Date() })
+          .where(eq(filesTable.id, candidate.id))
+          .returning()
+        evictedRecords.push(...updated)
+        await idb.remove(candidate.idbKey)
+        evictedKeys.add(candidate.idbKey)
+        result.evicted++
+        result.freedBytes += candidate.size
+      }
+      if (result.evicted > 0) {
+        const evictedAt = new Date()
+        const markEvicted = (f: ToolFile): ToolFile => {
+          if (!evictedKeys.has(f.idbKey)) return f
+          if (f.url?.startsWith("blob:")) URL.revokeObjectURL(f.url)
+          return { ...f, url: null, evictedAt }
+        }
+        state = {
+          ...state,
+          files: state.files.map(markEvicted),
+          cameraFiles: state.cameraFiles.map(markEvicted),
+          audioFiles: state.audioFiles.map(markEvicted),
+          textFiles: state.textFiles.map(markEvicted),
+        }
+        notify()
+        void syncData()
+        broadcast({ type: "files-upserted", records: evictedRecords })
+        await checkStorage(true)
+      }
+      return result
+    },
+
+    /**
+     * アップロード先を設定する（クラウドに接続されたら設定し、切断されたら null）
+     */
+    setUploadTarget: (target: UploadTarget | null): void => {
+      uploadQueue.setTarget(target)
+    },
+
+    /**
+     * アップロード待ちのファイルを送る（オンラインに戻ったとき等）
+     */
+    processUploadQueue: (): Promise<void> => uploadQueue.process(),
+
+    /**
+     * 再試行の上限に達したアップロードをやり直す
+     */
+    retryFailedUploads: (): Promise<void> => uploadQueue.retryFailed(),
+
     /**
      * IDBからBlobのURLを取得するのみ
      */
     getFileWithUrl: async (idbKey: string): Promise<string | null> => {
       const idb = idbStore()
       const blob = await idb.get(idbKey)
+      // LRU 退避のために最終アクセス日時を記録する（表示は待たない）
+      if (blob) {
+        void getDb()
+          .then((db) => db.update(filesTable).set({ lastAccessedAt: new Date() }).where(eq(filesTable.idbKey, idbKey)))
+          .catch((error) => console.error("[ToolActionStore] Failed to record access:", error))
+      }
       return blob ? URL.createObjectURL(blob) : null
     },
 
     /**
      * スキャンの処理
      */
-    handleScan: (data: string): void => {
+    handleScan: (result: ScanResult): void => {
+      // 履歴として記録する（UIの反応は待たない）
+      const sessionId = getSessionState()?.currentId || "default"
+      const fileSet = state.currentFileSet
+      void getDb()
+        .then((db) =>
+          db.insert(scansTable).values({
+            sessionId,
+            fileSet,
+            payload: result.rawValue,
+            format: result.format,
+            kind: result.payload.kind,
+          }),
+        )
+        .catch((error) => console.error("[ToolActionStore] Failed to record scan:", error))
       const target = captureBridge.getActiveTargetFor("qr")
-      toast.success("QRコードを検出しました", {
-        description: data.length > 30 ? data.slice(0, 30) + "..." : data,
+      const description = describeScan(result)
+      toast.success(`${FORMAT_LABELS[result.format]}を検出しました`, {
+        description: description.length > 30 ? description.slice(0, 30) + "..." : description,
         action: target
           ? {
               label: `${target.label}に適用`,
               onClick: () => {
-                target.onApply({ type: "qr", data })
+                target.onApply({ type: "qr", data: result.rawValue })
               },
             }
           : undefined,
       })
-      try {
-        const url = new URL(data)
-        if (url.protocol === "http:" || url.protocol === "https:") {
-          state = {
-            ...state,
-            webUrl: data,
-            isWebViewOpen: true,
-          }
-        } else {
-          alert(`Detected: ${data}`)
-        }
-      } catch {
-        alert(`Detected text: ${data}`)
+      if (result.payload.kind === "url") actions.openScan(result)
+    },
+
+    /**
+     * スキャン結果を開く（URL は WebView、それ以外は内容をトーストで示す）
+     */
+    openScan: (result: ScanResult): void => {
+      const url =
+        result.payload.kind === "url" ? result.payload.url : result.payload.kind === "vcard" ? result.payload.url : null
+      if (url && /^https?:/i.test(url)) {
+        state = { ...state, webUrl: url, isWebViewOpen: true }
+        notify()
+        return
       }
-      notify()
+      toast(FORMAT_LABELS[result.format], { description: describeScan(result) })
+    },
+
+    /**
+     * スキャン履歴（新しい順）。fileSet を省略するとすべてのファイルセットが対象
+     */
+    listScanHistory: async ({ fileSet, limit = 100 } = {}): Promise<ScanHistoryEntry[]> => {
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      const rows = await db
+        .select()
+        .from(scansTable)
+        .where(and(eq(scansTable.sessionId, sessionId), fileSet ? eq(scansTable.fileSet, fileSet) : undefined))
+        .orderBy(desc(scansTable.createdAt))
+        .limit(limit)
+      return rows.map((r) => ({
+        id: r.id,
+        fileSet: r.fileSet,
+        result: toScanResult(r.format as BarcodeFormat, r.payload),
+        createdAt: r.createdAt,
+      }))
+    },
+
+    /**
+     * スキャン履歴を削除する
+     */
+    deleteScans: async (ids: string[]): Promise<void> => {
+      if (ids.length === 0) return
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      await db.delete(scansTable).where(and(eq(scansTable.sessionId, sessionId), inArray(scansTable.id, ids)))
     },
 
     /**
@@ -698,11 +1912,134 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
         files: [],
         cameraFiles: [],
         audioFiles: [],
+        trashFiles: [],
       }
       notify()
       void syncData()
     },
 
+    /**
+     * ファイルセットの名前を変更する（ファイルとスキャン結果をまとめて1トランザクションで）
+     * 既に使われている名前へは変更できない（まとめる場合は mergeFileSets）
+     */
+    renameFileSet: async (from: string, to: string): Promise<void> => {
+      const name = to.trim()
+      if (!name) throw new Error("File set name is empty")
+      if (name === from) return
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      await db.transaction(async (tx) => {
+        const [conflict] = await tx
+          .select({ id: filesTable.id })
+          .from(filesTable)
+          .where(and(eq(filesTable.sessionId, sessionId), eq(filesTable.fileSet, name)))
+          .limit(1)
+        if (conflict) throw new Error(`File set already exists: ${name}`)
+        await tx
+          .update(filesTable)
+          .set({ fileSet: name })
+          .where(and(eq(filesTable.sessionId, sessionId), eq(filesTable.fileSet, from)))
+        await tx
+          .update(scansTable)
+          .set({ fileSet: name })
+          .where(and(eq(scansTable.sessionId, sessionId), eq(scansTable.fileSet, from)))
+      })
+      broadcast({ type: "fileset-renamed", sessionId, from, to: name })
+      await applyRename(sessionId, from, name)
+    },
+
+    /**
+     * 複数のファイルセットを1つにまとめる（ゴミ箱のファイル・スキャン結果も含めて移す）
+     * 表示中のセットをまとめた場合は、まとめ先に切り替える
+     */
+    mergeFileSets: async (sources: string[], target: string): Promise<void> => {
+      const name = target.trim()
+      if (!name) throw new Error("File set name is empty")
+      const sourceNames = [...new Set(sources)].filter((s) => s !== name)
+      if (sourceNames.length === 0) return
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      const moved = await db.transaction(async (tx) => {
+        const rows = await tx
+          .update(filesTable)
+          .set({ fileSet: name, updatedAt: new Date() })
+          .where(and(eq(filesTable.sessionId, sessionId), inArray(filesTable.fileSet, sourceNames)))
+          .returning()
+        await tx
+          .update(scansTable)
+          .set({ fileSet: name })
+          .where(and(eq(scansTable.sessionId, sessionId), inArray(scansTable.fileSet, sourceNames)))
+        return rows
+      })
+      broadcast({ type: "files-upserted", records: moved })
+      if (sourceNames.includes(state.currentFileSet)) {
+        state = { ...state, currentFileSet: name }
+        notify()
+      }
+      await syncData()
+    },
+
+    /**
+     * ファイルを別のファイルセットへ移す（存在しない名前なら新しいセットになる）
+     */
+    moveFiles: async (ids: string[], target: string): Promise<void> => {
+      const name = target.trim()
+      if (!name) throw new Error("File set name is empty")
+      if (ids.length === 0) return
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      const moved = await db
+        .update(filesTable)
+        .set({ fileSet: name, updatedAt: new Date() })
+        .where(and(eq(filesTable.sessionId, sessionId), inArray(filesTable.id, ids), ne(filesTable.fileSet, name)))
+        .returning()
+      if (moved.length === 0) return
+      broadcast({ type: "files-upserted", records: moved })
+      // 表示中のセットから出ていくものは先に一覧から外す（URL は syncData を待たずに解放）
+      const movedKeys = new Set(moved.filter((r) => r.fileSet !== state.currentFileSet).map((r) => r.idbKey))
+      const keep = (f: ToolFile) => !movedKeys.has(f.idbKey)
+      revokeUrls(state.files.filter((f) => !keep(f)))
+      state = {
+        ...state,
+        files: state.files.filter(keep),
+        cameraFiles: state.cameraFiles.filter(keep),
+        audioFiles: state.audioFiles.filter(keep),
+        textFiles: state.textFiles.filter(keep),
+      }
+      notify()
+      await syncData()
+    },
+
+    /**
+     * ファイルセットを完全に削除する（ゴミ箱のファイル・スキャン結果も含む。元に戻せない）
+     * 表示中のセットを削除した場合は、残っている別のセット（なければ Default）に切り替える
+     */
+    deleteFileSet: async (name: string): Promise<void> => {
+      const db = await getDb()
+      const sessionId = getSessionState()?.currentId || "default"
+      const purged = await db.transaction(async (tx) => {
+        await tx.delete(scansTable).where(and(eq(scansTable.sessionId, sessionId), eq(scansTable.fileSet, name)))
+        return deleteFileRows(tx, and(eq(filesTable.sessionId, sessionId), eq(filesTable.fileSet, name)))
+      })
+      const idb = idbStore()
+      await Promise.all(purged.map((r) => idb.remove(r.idbKey)))
+      if (purged.length > 0) broadcast({ type: "files-purged", records: purged })
+      if (state.currentFileSet === name) {
+        revokeUrls(state.files, state.fileSetInfo)
+        state = {
+          ...state,
+          currentFileSet: state.fileSets.find((s) => s !== name) ?? "Default",
+          files: [],
+          cameraFiles: [],
+          audioFiles: [],
+          textFiles: [],
+          trashFiles: [],
+        }
+        notify()
+      }
+      await syncData()
+    },
+
     /**
      * UI状態のリセット
      */
@@ -743,6 +2080,26 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
     },
   }
 
+  /**
+   * 検索用カラムが未設定のテキスト（マイグレーション前に保存されたもの）を IDB から読み出して索引する
+   */
+  const reindexTextFiles = async (): Promise<void> => {
+    const db = await getDb()
+    const idb = idbStore()
+    const rows = await db
+      .select({ id: filesTable.id, idbKey: filesTable.idbKey, fileName: filesTable.fileName })
+      .from(filesTable)
+      .where(and(eq(filesTable.category, "text"), isNull(filesTable.searchText)))
+    for (const row of rows) {
+      if (disposed) return
+      const blob = await idb.get(row.idbKey)
+      const searchFields = blob
+        ? await buildSearchFields(blob, row.fileName, "text")
+        : { tags: [], searchText: row.fileName }
+      await db.update(filesTable).set(searchFields).where(eq(filesTable.id, row.id))
+    }
+  }
+
   let unsubPglite: (() => void) | null = null
   let unsubSession: (() => void) | null = null
 
@@ -752,6 +2109,7 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
     // PGliteの準備が整う前でも、基本的なアクションは登録しておく
     cameraActions.setExternalActions({
       saveFile: (file, opts) => actions.saveFile(file, { ...opts, category: "camera" }),
+      queueSave: (file, opts) => actions.queueSave(file, { ...opts, category: "camera" }),
       getFileWithUrl: actions.getFileWithUrl,
       deleteFile: actions.deleteFile,
       addPreview: (url) => actions.addPreview(url, "camera"),
@@ -774,12 +2132,18 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
         void syncData()
       })
     }
+    if (!syncChannel) {
+      syncChannel = openToolSyncChannel(handleSyncMessage, options?.syncChannelName)
+    }
 
     // 初期同期キック: DB がすでに準備済みでも取りこぼさない
     void getDb()
       .then(() => {
         if (!state.isDbReady) return syncData()
       })
+      .then(() => reindexTextFiles())
+      .then(() => uploadQueue.resume())
+      .then(() => checkStorage(true))
       .catch((err) => {
         console.error("[ToolActionStore] Initial DB kick failed:", err)
       })
@@ -809,6 +2173,9 @@ export function createToolActionStore(options?: { autoStart?: boolean }): ToolAc
       /* noop */
     }
     unsubSession = null
+    syncChannel?.close()
+    syncChannel = null
+    uploadQueue.dispose()
     listeners.clear()
   }
 
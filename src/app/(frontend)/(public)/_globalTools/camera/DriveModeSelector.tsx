@@ -0,0 +1,113 @@
+"use client"
+
+import React, { useState } from "react"
+import { cameraActions, useCameraState } from "./cameraStore"
+import type { DriveMode } from "./captureSequence"
+
+const MODES: { mode: DriveMode; label: string }[] = [
+  { mode: "single", label: "Single" },
+  { mode: "burst", label: "Burst" },
+  { mode: "timer", label: "Timer" },
+  { mode: "interval", label: "Interval" },
+]
+const TIMER_CHOICES = [3, 10] as const
+const INTERVAL_CHOICES = [2, 5, 10, 30, 60]
+
+const OPTION_CLASS = "rounded-xl px-3 py-2 text-left text-[10px] font-bold transition-colors"
+const optionClass = (isActive: boolean) =>
+  `${OPTION_CLASS} ${isActive ? "bg-zinc-100 text-zinc-950" : "text-zinc-400 hover:bg-zinc-900"}`
+
+/**
+ * シャッターの動作（1枚・連写・セルフタイマー・インターバル撮影）の切り替え
+ * 撮影中（カウントダウン・連写・インターバル撮影の途中）は変更できない
+ */
+export const DriveModeSelector: React.FC = () => {
+  const { driveMode, driveSettings, sequence, countdown } = useCameraState()
+  const [isOpen, setIsOpen] = useState(false)
+  const isBusy = sequence !== null || countdown !== null
+
+  const badge =
+    driveMode === "burst"
+      ? "B"
+      : driveMode === "timer"
+        ? `${driveSettings.timerSeconds}s`
+        : driveMode === "interval"
+          ? `↻${driveSettings.intervalSeconds}s`
+          : "1"
+
+  return (
+    <div className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsOpen(!isOpen)
+        }}
+        disabled={isBusy}
+        aria-label={`Drive Mode: ${driveMode}`}
+        className={`flex h-10 min-w-10 items-center justify-center rounded-full px-2 text-[10px] font-black tracking-wider transition-all active:scale-90 disabled:opacity-40 ${
+          driveMode === "single"
+            ? "bg-zinc-900/80 text-zinc-400 hover:bg-zinc-800 hover:text-zinc-100"
+            : "bg-zinc-100 text-zinc-950"
+        }`}
+      >
+        {badge}
+      </button>
+      {isOpen && !isBusy && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="animate-in fade-in slide-in-from-bottom-2 absolute right-0 bottom-14 z-50 flex w-48 flex-col gap-1 rounded-2xl border border-zinc-800 bg-zinc-950/90 p-2 shadow-2xl backdrop-blur-2xl"
+        >
+          <div className="px-2 py-1 text-[9px] font-black tracking-widest text-zinc-600 uppercase">Drive</div>
+          {MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => {
+                cameraActions.setDriveMode(mode)
+                if (mode === "single" || mode === "burst") setIsOpen(false)
+              }}
+              className={optionClass(driveMode === mode)}
+            >
+              {label}
+            </button>
+          ))}
+          {driveMode === "timer" && (
+            <div className="mt-1 flex gap-1 border-t border-white/5 pt-2">
+              {TIMER_CHOICES.map((seconds) => (
+                <button
+                  key={seconds}
+                  onClick={() => cameraActions.setDriveSettings({ timerSeconds: seconds })}
+                  className={`flex-1 ${optionClass(driveSettings.timerSeconds === seconds)}`}
+                >
+                  {seconds}s
+                </button>
+              ))}
+            </div>
+          )}
+          {driveMode === "interval" && (
+            <div className="mt-1 flex flex-col gap-1 border-t border-white/5 pt-2">
+              <div className="flex flex-wrap gap-1">
+                {INTERVAL_CHOICES.map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() => cameraActions.setDriveSettings({ intervalSeconds: seconds })}
+                    className={optionClass(driveSettings.intervalSeconds === seconds)}
+                  >
+                    {seconds}s
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 px-3 py-2 text-[10px] font-bold text-zinc-400">
+                <input
+                  type="checkbox"
+                  checked={driveSettings.timelapse}
+                  onChange={(e) => cameraActions.setDriveSettings({ timelapse: e.target.checked })}
+                />
+                Time-lapse (WebM)
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
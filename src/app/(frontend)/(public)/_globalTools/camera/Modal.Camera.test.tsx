@@ -311,7 +311,13 @@ describe("CameraModal (Integration Test with Real Components)", () => {
       const { unmount } = render(<CameraModal isOpen={true} onClose={() => {}} onScan={onScan} />)
       try {
         // スキャンループの中で detect が呼ばれるのを待つ
-        await waitFor(() => expect(onScan).toHaveBeenCalledWith("https://example.com"), { timeout: 8000 })
+        await waitFor(
+          () =>
+            expect(onScan).toHaveBeenCalledWith(
+              expect.objectContaining({ format: "qr_code", rawValue: "https://example.com" }),
+            ),
+          { timeout: 8000 },
+        )
       } finally {
         MockBarcodeDetector._mockDetectResult = []
         unmount()
@@ -1,10 +1,16 @@
+import { toast } from "@/components/atoms/Toast"
 import Image from "next/image"
 import React, { useEffect, useRef, useState } from "react"
 import { Carousel } from "../_components/atoms/Carousel"
 import { Modal } from "../_components/atoms/Modal"
+import { FileMetadataInfo } from "../_components/FileMetadataInfo"
+import { FileSetActions, MoveFilesButton } from "../_components/FileSetActions"
+import { FileSetArchiveActions } from "../_components/FileSetArchiveActions"
 import { Tool } from "../_components/GlobalTool"
 import {
   CheckIcon,
+  DocumentIcon,
+  FlashIcon,
   LoadingSpinner,
   PictureIcon,
   QrIcon,
@@ -12,8 +18,16 @@ import {
   SwitchCameraIcon,
   TrashIcon,
 } from "../_components/Icons"
+import { MediaErrorHint } from "../_components/MediaErrorHint"
+import { ScanHistory } from "../_components/ScanHistory"
+import { StorageMeter } from "../_components/StorageMeter"
+import { TrashBin } from "../_components/TrashBin"
 import { useToolActionStore } from "../_hooks/useToolActionStore"
-import { cameraActions, useCameraState } from "./cameraStore"
+import { FORMAT_LABELS, type ScanResult } from "./barcode/scanResult"
+import { cameraActions, useCameraState, type SequenceResult } from "./cameraStore"
+import { DriveModeSelector } from "./DriveModeSelector"
+import { RecordingProfileSelector } from "./RecordingProfileSelector"
+import { useCameraGestures } from "./useCameraGestures"
 
 const SABI_GOLD = "#9f890e"
 
@@ -25,7 +39,7 @@ const hexToRgb = (hex: string): string => {
 interface CameraModalProps {
   isOpen: boolean
   onClose: () => void
-  onScan?: (data: string) => void
+  onScan?: (result: ScanResult) => void
   onSelect?: (accept?: string) => void
   standalone?: boolean
   showShowcase?: boolean
@@ -58,6 +72,10 @@ const CameraModal: React.FC<CameraModalProps> = ({
     deleteFiles,
   } = useToolActionStore()
   const cameraState = useCameraState()
+  const { documentOutline } = cameraState
+  // 入力用途（standalone）では1枚撮りだけを使う
+  const driveMode = standalone ? "single" : cameraState.driveMode
+  const { handlers: gestureHandlers, focusRing, activeGesture } = useCameraGestures()
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const longPressTimerRef = useRef<NodeJS.Timeout | null>(null)
@@ -78,14 +96,14 @@ const CameraModal: React.FC<CameraModalProps> = ({
   // アクション（コールバック）の登録
   useEffect(() => {
     if (!isOpen) return // 閉じている時は登録しない
-    const wrappedOnScan = (data: string) => {
+    const wrappedOnScan = (result: ScanResult) => {
       if (standalone && onCapture) {
         // スタンドアロンモード（入力用途）なら、スキャン成功時に即座に閉じる
-        onCapture({ type: "qr", data })
+        onCapture({ type: "qr", data: result.rawValue })
         onClose()
         return // ここで終了
       }
-      onScan?.(data)
+      onScan?.(result)
     }
     cameraActions.setCallbacks({ onScan: wrappedOnScan, onSelect })
   }, [isOpen, onScan, onSelect, standalone, onCapture, onClose])
@@ -96,6 +114,8 @@ const CameraModal: React.FC<CameraModalProps> = ({
       cameraActions.cleanup()
       return
     }
+    // 前回途中で落ちた録画があれば復元を勧める
+    void cameraActions.findOrphanedRecordings()
     let cancelled = false
     const setupCamera = async () => {
       if (videoRef.current && canvasRef.current) {
@@ -116,7 +136,7 @@ const CameraModal: React.FC<CameraModalProps> = ({
   // ImageViewer表示中はスキャンを止めてUI応答性を優先
   useEffect(() => {
     if (!isOpen) return
-    if (viewingIndex !== null || !cameraState.isQrEnabled) {
+    if (viewingIndex !== null || !cameraState.isQrEnabled || cameraState.captureMode === "document") {
       if (cameraState.isScanning) cameraActions.stopQrScan()
       return
     }
@@ -130,6 +150,7 @@ const CameraModal: React.FC<CameraModalProps> = ({
     cameraState.isRecording,
     cameraState.isScanning,
     cameraState.isQrEnabled,
+    cameraState.captureMode,
   ])
 
   const handleSwitchDevice = async (deviceId?: string) => {
@@ -142,17 +163,58 @@ const CameraModal: React.FC<CameraModalProps> = ({
     }
   }
 
+  const notifySequence = ({ count, timelapse }: SequenceResult) => {
+    if (count === 0) return
+    toast.success(`${count}枚を保存しました`, { description: timelapse ? "タイムラプスも保存しました" : undefined })
+  }
+
+  const finishRecording = async (blob: Blob) => {
+    if (standalone && onCapture) {
+      const url = URL.createObjectURL(blob)
+      onCapture({ type: "video", blob, url: url ?? undefined })
+      onClose()
+    } else {
+      if (confirm(`Save recorded video (${(blob.size / 1024 / 1024).toFixed(1)} MB)?`)) {
+        await cameraActions.saveRecording(blob)
+      }
+      cameraActions.startQrScan()
+    }
+  }
+
+  const handleRestoreOrphans = async () => {
+    const results = await cameraActions.restoreOrphanedRecordings()
+    if (results.length > 0) toast.success(`${results.length}件の録画を復元しました`)
+  }
+
+  const handleDiscardOrphans = async () => {
+    if (!confirm("Discard the unsaved video? This cannot be undone.")) return
+    await cameraActions.discardOrphanedRecordings()
+  }
+
+  const handleRecordLimitReached = async (blob: Blob) => {
+    toast.warning("録画の上限に達したため停止しました")
+    await finishRecording(blob)
+  }
+
   const handleMainActionPointerDown = () => {
-    if (cameraState.isRecording) return
+    // 書類モードでは長押しでの録画はしない
+    if (cameraState.isRecording || cameraState.captureMode === "document") return
+    // 連写は押している間だけ撮り続ける。セルフタイマー・インターバルでは長押しでの録画はしない
+    if (driveMode === "burst") {
+      cameraActions.startSequence("burst", notifySequence)
+      return
+    }
+    if (driveMode !== "single") return
     setIsLongPressing(true)
     longPressTimerRef.current = setTimeout(() => {
       cameraActions.stopQrScan()
-      cameraActions.startRecord()
+      void cameraActions.startRecord(handleRecordLimitReached)
       setIsLongPressing(false)
     }, 300) // 300ms長押しで録画開始
   }
 
   const handleMainActionPointerUp = () => {
+    if (driveMode === "burst" && cameraState.sequence?.kind === "burst") cameraActions.stopSequence()
     if (longPressTimerRef.current) {
       clearTimeout(longPressTimerRef.current)
       longPressTimerRef.current = null
@@ -162,16 +224,23 @@ const CameraModal: React.FC<CameraModalProps> = ({
 
   const handleMainActionClick = async () => {
     if (cameraState.isRecording) {
-      cameraActions.stopRecord((blob) => {
-        if (standalone && onCapture) {
-          const url = URL.createObjectURL(blob)
-          onCapture({ type: "video", blob, url: url ?? undefined })
-          onClose()
-        } else {
-          confirm(`Save recorded video (${(blob.size / 1024).toFixed(2)} KB)?`) // && cameraActions.saveFile(blob)
-          cameraActions.startQrScan()
-        }
-      })
+      cameraActions.stopRecord(finishRecording)
+    } else if (cameraState.captureMode === "document") {
+      const blob = await cameraActions.captureDocument({ skipSave: standalone })
+      if (!blob) {
+        toast.error("書類を保存できませんでした")
+      } else if (standalone && onCapture) {
+        onCapture({ type: "image", blob, url: URL.createObjectURL(blob) })
+        onClose()
+      }
+    } else if (driveMode === "burst") {
+      // 連写は pointerdown〜pointerup の間に撮影済み
+    } else if (driveMode === "timer") {
+      if (cameraState.countdown !== null) cameraActions.cancelSelfTimer()
+      else cameraActions.startSelfTimer()
+    } else if (driveMode === "interval") {
+      if (cameraState.sequence) cameraActions.stopSequence()
+      else cameraActions.startSequence("interval", notifySequence)
     } else {
       if (standalone) {
         // 2重発火防止
@@ -266,6 +335,12 @@ const CameraModal: React.FC<CameraModalProps> = ({
                 <p className="mt-4 animate-pulse text-xs tracking-widest text-zinc-500 uppercase">Initializing...</p>
               </div>
             )}
+            {cameraState.isRecovering && !cameraState.error && (
+              <div className="absolute inset-0 z-10 flex flex-col items-center justify-center bg-zinc-950/80">
+                <LoadingSpinner size="48px" color="#3b82f6" />
+                <p className="mt-4 animate-pulse text-xs tracking-widest text-zinc-500 uppercase">Reconnecting...</p>
+              </div>
+            )}
             {cameraState.error && (
               <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-zinc-950 px-8 text-center">
                 <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-red-500/20 text-red-500">
@@ -273,6 +348,7 @@ const CameraModal: React.FC<CameraModalProps> = ({
                 </div>
                 <h3 className="mb-2 text-lg font-bold text-white">Camera Error</h3>
                 <p className="mb-6 text-sm text-zinc-400">{cameraState.error.message}</p>
+                <MediaErrorHint error={cameraState.error} />
                 <button
                   onClick={() => {
                     void cameraActions.setup(videoRef.current!, canvasRef.current!).catch(() => {
@@ -290,9 +366,45 @@ const CameraModal: React.FC<CameraModalProps> = ({
               autoPlay
               playsInline
               muted
-              className={`${cameraState.isCapturing ? "scale-[0.98] brightness-50" : "scale-100 brightness-100"} ${cameraState.isAvailable ? "opacity-100" : "opacity-0"}`}
+              {...gestureHandlers}
+              className={`touch-none ${cameraState.isCapturing ? "scale-[0.98] brightness-50" : "scale-100 brightness-100"} ${cameraState.isAvailable ? "opacity-100" : "opacity-0"}`}
             />
             <canvas ref={canvasRef} className="hidden" />
+            {/* Focus ring: タップした位置 */}
+            {focusRing && (
+              <div
+                key={focusRing.key}
+                className="pointer-events-none absolute h-16 w-16 -translate-x-1/2 -translate-y-1/2 animate-pulse rounded-full border-2"
+                style={{ left: focusRing.x, top: focusRing.y, borderColor: SABI_GOLD }}
+              />
+            )}
+            {/* Zoom / Exposure indicator */}
+            {(activeGesture || (cameraState.controls.zoom ?? 1) > (cameraState.capabilities.zoom?.min ?? 1)) && (
+              <div className="pointer-events-none absolute top-12 left-1/2 -translate-x-1/2 rounded-full bg-black/50 px-3 py-1 text-[10px] font-bold tracking-widest text-zinc-100 backdrop-blur-sm">
+                {activeGesture === "swipe" && cameraState.controls.exposureCompensation !== null
+                  ? `EV ${cameraState.controls.exposureCompensation > 0 ? "+" : ""}${cameraState.controls.exposureCompensation.toFixed(1)}`
+                  : `${(cameraState.controls.zoom ?? 1).toFixed(1)}×`}
+              </div>
+            )}
+            {/* Document Overlay: 検出した書類の輪郭 */}
+            {cameraState.captureMode === "document" && documentOutline && (
+              <svg
+                className="pointer-events-none absolute inset-0 h-full w-full"
+                viewBox={`0 0 ${documentOutline.frameWidth} ${documentOutline.frameHeight}`}
+                preserveAspectRatio="xMidYMid meet"
+              >
+                <polygon
+                  points={documentOutline.quad
+                    .map((p) => `${p.x * documentOutline.frameWidth},${p.y * documentOutline.frameHeight}`)
+                    .join(" ")}
+                  fill={`rgba(${hexToRgb(SABI_GOLD)}, 0.15)`}
+                  stroke={SABI_GOLD}
+                  strokeWidth={3}
+                  vectorEffect="non-scaling-stroke"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            )}
             {/* QR Overlay */}
             <div
               className="pointer-events-none absolute inset-0 flex items-center justify-center"
@@ -315,17 +427,75 @@ const CameraModal: React.FC<CameraModalProps> = ({
                       className="absolute bottom-10 rounded-lg bg-[rgba(var(--sabi-gold),0.1)] px-4 py-2 text-xs font-medium shadow-sm backdrop-blur-sm"
                       style={{ color: SABI_GOLD }}
                     >
-                      QR Detected
+                      {FORMAT_LABELS[cameraState.scannedData.format]} Detected
                     </div>
                   )}
                 </>
               )}
             </div>
+            {/* Self-timer Countdown */}
+            {cameraState.countdown !== null && (
+              <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+                <span
+                  key={cameraState.countdown}
+                  className="animate-ping text-7xl font-black text-white/90 drop-shadow-lg [animation-iteration-count:1]"
+                >
+                  {cameraState.countdown}
+                </span>
+              </div>
+            )}
+            {/* Burst / Interval Indicator */}
+            {cameraState.sequence && (
+              <div className="absolute top-24 left-1/2 flex -translate-x-1/2 items-center gap-2 rounded-full bg-zinc-950/80 px-4 py-1 text-[10px] font-bold tracking-widest text-white uppercase shadow-lg">
+                <div className="h-2 w-2 animate-pulse rounded-full" style={{ backgroundColor: SABI_GOLD }} />
+                {cameraState.sequence.kind === "burst"
+                  ? `Burst ${cameraState.sequence.count}`
+                  : `Interval ${cameraState.sequence.count} · ${cameraState.driveSettings.intervalSeconds}s`}
+              </div>
+            )}
             {/* Recording Indicator */}
             {cameraState.isRecording && (
               <div className="absolute top-24 left-1/2 flex -translate-x-1/2 animate-pulse items-center gap-2 rounded-full bg-red-600/90 px-4 py-1 text-[10px] font-bold tracking-widest text-white uppercase shadow-lg">
                 <div className="h-2 w-2 rounded-full bg-white" />
-                Recording
+                <span>Recording</span>
+                {cameraState.recordedBytes > 0 && (
+                  <span className="font-mono opacity-80">
+                    {(cameraState.recordedBytes / 1024 / 1024).toFixed(1)} MB
+                  </span>
+                )}
+              </div>
+            )}
+            {/* Unsaved recordings from a previous session */}
+            {cameraState.orphanedRecordings.length > 0 && !cameraState.isRecording && !standalone && (
+              <div className="absolute top-4 right-4 left-4 z-10 flex items-center gap-3 rounded-2xl border border-amber-500/30 bg-zinc-950/90 px-4 py-3 backdrop-blur">
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-bold text-amber-300">Unsaved video found</p>
+                  <p className="text-[10px] text-zinc-500">
+                    前回の録画が保存されずに残っています（
+                    {cameraState.orphanedRecordings
+                      .map((orphan) => `${(orphan.bytes / 1024 / 1024).toFixed(1)} MB`)
+                      .join("・")}
+                    ）
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    void handleDiscardOrphans()
+                  }}
+                  className="rounded-full px-3 py-1.5 text-[10px] font-bold text-zinc-400 hover:bg-zinc-800"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    void handleRestoreOrphans()
+                  }}
+                  className="rounded-full bg-amber-500 px-3 py-1.5 text-[10px] font-bold text-zinc-950 hover:bg-amber-400"
+                >
+                  Recover
+                </button>
               </div>
             )}
           </>
@@ -394,6 +564,40 @@ const CameraModal: React.FC<CameraModalProps> = ({
                   </span>
                 )}
               </button>
+
+              {/* Document Mode Toggle */}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  cameraActions.setCaptureMode(cameraState.captureMode === "document" ? "photo" : "document")
+                }}
+                aria-label={cameraState.captureMode === "document" ? "Disable Document Scan" : "Enable Document Scan"}
+                className={`flex h-10 w-10 items-center justify-center rounded-full transition-all active:scale-90 ${
+                  cameraState.captureMode === "document"
+                    ? "bg-zinc-100 text-zinc-950"
+                    : "bg-zinc-900/80 text-zinc-600 hover:bg-zinc-800 hover:text-zinc-400"
+                }`}
+              >
+                <DocumentIcon size="20px" color="currentColor" />
+              </button>
+
+              {/* Torch: 対応端末のみ */}
+              {cameraState.capabilities.torch && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    void cameraActions.setTorch(!cameraState.controls.torch)
+                  }}
+                  aria-label={cameraState.controls.torch ? "Turn Off Light" : "Turn On Light"}
+                  className={`flex h-10 w-10 items-center justify-center rounded-full transition-all active:scale-90 ${
+                    cameraState.controls.torch
+                      ? "bg-zinc-100 text-zinc-950"
+                      : "bg-zinc-900/80 text-zinc-600 hover:bg-zinc-800 hover:text-zinc-400"
+                  }`}
+                >
+                  <FlashIcon size="18px" color="currentColor" />
+                </button>
+              )}
             </div>
 
             {/* Center Group: Primary Action (The Anchor) */}
@@ -420,8 +624,8 @@ const CameraModal: React.FC<CameraModalProps> = ({
                     e.stopPropagation()
                     handleMainActionClick()
                   }}
-                  aria-label="Capture Image"
-                  className={`group relative flex h-16 w-16 touch-none items-center justify-center rounded-full bg-white shadow-2xl transition-all duration-500 select-none active:scale-90 ${isLongPressing ? "ring-4 ring-red-500/50" : "hover:scale-105"}`}
+                  aria-label={cameraState.captureMode === "document" ? "Capture Document" : "Capture Image"}
+                  className={`group relative flex h-16 w-16 touch-none items-center justify-center rounded-full bg-white shadow-2xl transition-all duration-500 select-none active:scale-90 ${isLongPressing || cameraState.sequence || cameraState.countdown !== null ? "ring-4 ring-red-500/50" : "hover:scale-105"}`}
                 >
                   <div className="flex h-12 w-12 items-center justify-center rounded-full border-2 border-zinc-100 transition-transform group-hover:scale-95">
                     <div
@@ -433,7 +637,9 @@ const CameraModal: React.FC<CameraModalProps> = ({
             </div>
 
             {/* Right Group: Library Access */}
-            <div className="flex flex-1 items-center justify-end">
+            <div className="flex flex-1 items-center justify-end gap-3 sm:gap-10">
+              {cameraState.captureMode === "photo" && <RecordingProfileSelector />}
+              {!standalone && cameraState.captureMode === "photo" && <DriveModeSelector />}
               <button
                 onClick={(e) => {
                   e.stopPropagation()
@@ -497,6 +703,12 @@ const CameraModal: React.FC<CameraModalProps> = ({
                       >
                         Clear
                       </button>
+                      {!standalone && (
+                        <MoveFilesButton
+                          ids={files.filter((f) => !f.isPending && selectedKeys.has(f.idbKey)).map((f) => f.id)}
+                          onMoved={() => setSelectedKeys(new Set())}
+                        />
+                      )}
                     </div>
                   )}
                 </div>
@@ -622,6 +834,10 @@ const CameraModal: React.FC<CameraModalProps> = ({
                     <LoadingSpinner size="24px" color="rgba(255,255,255,0.2)" />
                   </div>
                 )}
+                <FileMetadataInfo
+                  metadata={image.metadata}
+                  className="absolute bottom-2 left-2 rounded-sm bg-black/40 px-2 py-1 backdrop-blur-md"
+                />
               </Carousel.Item>
             ))}
           </Carousel>
@@ -683,6 +899,7 @@ const CameraModal: React.FC<CameraModalProps> = ({
                 Create / Switch
               </button>
             </form>
+            <FileSetActions className="mt-4" />
           </div>
 
           {/* Library Grid (Expanded Thumbnail Area) */}
@@ -750,7 +967,11 @@ const CameraModal: React.FC<CameraModalProps> = ({
           </div>
 
           {/* Minimal Footer */}
-          <div className="border-t border-white/5 p-6 text-center">
+          <div className="space-y-4 border-t border-white/5 p-6 text-center">
+            <FileSetArchiveActions fileSet={currentFileSet} withPdf />
+            <ScanHistory />
+            <TrashBin />
+            <StorageMeter />
             <button
               onClick={() => setIsLibraryOpen(false)}
               className="text-[9px] font-bold tracking-[0.3em] text-zinc-600 uppercase transition-colors hover:text-zinc-300"
@@ -0,0 +1,104 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { cameraActions, useCameraState } from "./cameraStore"
+import { pickRecordingMimeType, RECORDING_QUALITIES, type RecordingQuality } from "./recordingProfile"
+
+const QUALITIES = Object.keys(RECORDING_QUALITIES) as RecordingQuality[]
+// 解像度ごとの標準ビットレートに対する倍率
+const BITRATE_SCALES = [
+  { scale: 0.5, label: "Low" },
+  { scale: 1, label: "Std" },
+  { scale: 2, label: "High" },
+]
+const DURATION_CHOICES = [1, 5, 10, 30] // 分
+
+const OPTION_CLASS = "rounded-xl px-3 py-2 text-[10px] font-bold transition-colors"
+const optionClass = (isActive: boolean) =>
+  `${OPTION_CLASS} ${isActive ? "bg-zinc-100 text-zinc-950" : "text-zinc-400 hover:bg-zinc-900"}`
+
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="px-2 pt-1 text-[9px] font-black tracking-widest text-zinc-600 uppercase">{children}</div>
+)
+
+/**
+ * 動画撮影の設定（解像度・ビットレート・音声・最大録画時間）の切り替え
+ * 設定はカメラごとに保存される。録画中は変更できない
+ */
+export const RecordingProfileSelector: React.FC = () => {
+  const { recordingProfile: profile, isRecording } = useCameraState()
+  const [isOpen, setIsOpen] = useState(false)
+  const standardBitrate = RECORDING_QUALITIES[profile.quality].videoBitsPerSecond
+  // 実際に使われる形式（端末が対応している最初の候補）
+  const mimeType = useMemo(() => pickRecordingMimeType(profile.codecs), [profile.codecs])
+
+  return (
+    <div className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsOpen(!isOpen)
+        }}
+        disabled={isRecording}
+        aria-label={`Recording Profile: ${RECORDING_QUALITIES[profile.quality].label}`}
+        className="flex h-10 min-w-10 items-center justify-center rounded-full bg-zinc-900/80 px-2 text-[10px] font-black tracking-wider text-zinc-400 transition-all hover:bg-zinc-800 hover:text-zinc-100 active:scale-90 disabled:opacity-40"
+      >
+        {RECORDING_QUALITIES[profile.quality].label}
+      </button>
+      {isOpen && !isRecording && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="animate-in fade-in slide-in-from-bottom-2 absolute right-0 bottom-14 z-50 flex w-52 flex-col gap-1 rounded-2xl border border-zinc-800 bg-zinc-950/90 p-2 shadow-2xl backdrop-blur-2xl"
+        >
+          <SectionLabel>Resolution</SectionLabel>
+          <div className="flex gap-1">
+            {QUALITIES.map((quality) => (
+              <button
+                key={quality}
+                onClick={() => void cameraActions.setRecordingProfile({ quality })}
+                className={`flex-1 ${optionClass(profile.quality === quality)}`}
+              >
+                {RECORDING_QUALITIES[quality].label}
+              </button>
+            ))}
+          </div>
+          <SectionLabel>Bitrate · {(profile.videoBitsPerSecond / 1_000_000).toFixed(1)} Mbps</SectionLabel>
+          <div className="flex gap-1">
+            {BITRATE_SCALES.map(({ scale, label }) => (
+              <button
+                key={label}
+                onClick={() => void cameraActions.setRecordingProfile({ videoBitsPerSecond: standardBitrate * scale })}
+                className={`flex-1 ${optionClass(profile.videoBitsPerSecond === standardBitrate * scale)}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <SectionLabel>Max Duration</SectionLabel>
+          <div className="flex gap-1">
+            {DURATION_CHOICES.map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() => void cameraActions.setRecordingProfile({ maxDurationSeconds: minutes * 60 })}
+                className={`flex-1 ${optionClass(profile.maxDurationSeconds === minutes * 60)}`}
+              >
+                {minutes}m
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 px-3 py-2 text-[10px] font-bold text-zinc-400">
+            <input
+              type="checkbox"
+              checked={profile.audio}
+              onChange={(e) => void cameraActions.setRecordingProfile({ audio: e.target.checked })}
+            />
+            Record Audio
+          </label>
+          <div className="border-t border-white/5 px-3 pt-2 pb-1 font-mono text-[9px] text-zinc-600">
+            {mimeType ?? "Browser default"}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
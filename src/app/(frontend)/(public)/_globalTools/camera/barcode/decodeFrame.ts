@@ -0,0 +1,18 @@
+import * as jsQRModule from "jsqr"
+import { decodeLinearBarcode } from "./linearBarcode"
+import { decodeMatrixBarcode } from "./matrixBarcode"
+import type { ScanResult } from "./scanResult"
+const jsQR = ((jsQRModule as unknown as { default: typeof jsQRModule.default }).default ||
+  jsQRModule) as typeof jsQRModule.default
+
+export type DecodedBarcode = Pick<ScanResult, "format" | "rawValue">
+
+/**
+ * 1フレーム分の画素から QR（jsQR）→ 一次元バーコード（EAN/Code128）→ Data Matrix・PDF417 の順に探す
+ * BarcodeDetector が使えない環境のフォールバック。メインスレッドと Worker の両方から使う
+ */
+export const decodeFrame = (image: ImageData): DecodedBarcode | null => {
+  const code = jsQR(image.data, image.width, image.height)
+  if (code?.data) return { format: "qr_code", rawValue: code.data }
+  return decodeLinearBarcode(image) ?? decodeMatrixBarcode(image)
+}
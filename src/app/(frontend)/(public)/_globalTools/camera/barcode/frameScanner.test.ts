@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { createFrameDecoder, getScanRegion, nextScanInterval } from "./frameScanner"
+
+describe("frameScanner", () => {
+  it("映像中央の範囲を切り出し、長辺を maxSide に収める", () => {
+    expect(getScanRegion(1920, 1080, 0.5, 480)).toEqual({
+      sx: 480,
+      sy: 270,
+      sw: 960,
+      sh: 540,
+      width: 480,
+      height: 270,
+    })
+    // 小さい映像は拡大しない
+    expect(getScanRegion(320, 240, 1, 480)).toMatchObject({ sx: 0, sy: 0, width: 320, height: 240 })
+  })
+
+  it("解析時間に応じてスキャン間隔を広げ、上限・下限に収める", () => {
+    expect(nextScanInterval(0, 200, 1000)).toBe(200)
+    expect(nextScanInterval(150, 200, 1000)).toBe(300)
+    expect(nextScanInterval(900, 200, 1000)).toBe(1000)
+  })
+
+  it("Worker が使えない環境ではメインスレッドの canvas で解析する", async () => {
+    const drawn: unknown[][] = []
+    const canvas = {
+      width: 0,
+      height: 0,
+      getContext: () => ({
+        drawImage: (...args: unknown[]) => drawn.push(args),
+        getImageData: (_x: number, _y: number, w: number, h: number) => ({
+          data: new Uint8ClampedArray(w * h * 4).fill(255),
+          width: w,
+          height: h,
+        }),
+      }),
+    } as unknown as HTMLCanvasElement
+    const decoder = createFrameDecoder(canvas)
+    const video = {} as HTMLVideoElement
+    const region = getScanRegion(640, 480, 0.5, 480)
+    expect(await decoder.decode(video, region)).toBeNull()
+    expect(drawn[0]).toEqual([video, 160, 120, 320, 240, 0, 0, 320, 240])
+    expect(canvas.width).toBe(320)
+    decoder.dispose()
+  })
+})
@@ -0,0 +1,123 @@
+import { WorkerManager } from "@/hooks/useWorker/utils/webWorker"
+import { decodeFrame, type DecodedBarcode } from "./decodeFrame"
+import type { ScanFrameJob } from "./scanWorker"
+
+/**
+ * 映像から切り出す範囲（sx〜sh）と、解析する画像の大きさ（width, height）
+ */
+export interface ScanRegion {
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+  width: number
+  height: number
+}
+
+export interface FrameDecoder {
+  decode: (video: HTMLVideoElement, region: ScanRegion) => Promise<DecodedBarcode | null>
+  dispose: () => void
+}
+
+// Worker の応答がこれより遅ければ失敗とみなしてメインスレッドに切り替える
+const WORKER_TIMEOUT = 5000
+
+/**
+ * 映像の中央 roi（0〜1, 各辺の割合）を切り出し、長辺が maxSide に収まる解析サイズを求める
+ * 枠の外を読まないことで画素の転送量と解析時間を減らす
+ */
+export const getScanRegion = (videoWidth: number, videoHeight: number, roi: number, maxSide: number): ScanRegion => {
+  const ratio = Math.min(1, Math.max(0.1, roi))
+  const sw = Math.max(1, Math.round(videoWidth * ratio))
+  const sh = Math.max(1, Math.round(videoHeight * ratio))
+  const scale = Math.min(1, maxSide / Math.max(sw, sh))
+  return {
+    sx: Math.round((videoWidth - sw) / 2),
+    sy: Math.round((videoHeight - sh) / 2),
+    sw,
+    sh,
+    width: Math.max(1, Math.floor(sw * scale)),
+    height: Math.max(1, Math.floor(sh * scale)),
+  }
+}
+
+/**
+ * 直近の解析時間（移動平均）から次のスキャンまでの待ち時間を決める
+ * 解析に使う時間が全体の 1/3 程度に収まるようにし、遅い端末ほどフレームレートを落とす
+ */
+export const nextScanInterval = (averageDecodeMs: number, minInterval: number, maxInterval: number): number =>
+  Math.min(maxInterval, Math.max(minInterval, Math.round(averageDecodeMs * 2)))
+
+const supportsWorkerDecoding = (): boolean =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap === "function"
+
+/**
+ * フォールバック用のデコーダー
+ * 切り出しと縮小は createImageBitmap に任せ、ImageBitmap を Worker に転送して解析する
+ * Worker が使えない・失敗した場合はメインスレッドの canvas で解析する
+ */
+export const createFrameDecoder = (canvas: HTMLCanvasElement): FrameDecoder => {
+  let manager: WorkerManager | null = supportsWorkerDecoding()
+    ? new WorkerManager({
+        scriptUrl: "barcode-scan-worker",
+        createWorker: () => new Worker(new URL("./scanWorker.ts", import.meta.url), { type: "module" }),
+        mode: "local",
+        globalTimeout: WORKER_TIMEOUT,
+        terminateAfterJob: false,
+        maxWorkerLifetime: Number.MAX_SAFE_INTEGER,
+        credentials: null,
+        onProgress: null,
+        onError: null,
+      })
+    : null
+  let disposed = false
+
+  const decodeInWorker = async (worker: WorkerManager, video: HTMLVideoElement, region: ScanRegion) => {
+    const bitmap = await createImageBitmap(video, region.sx, region.sy, region.sw, region.sh, {
+      resizeWidth: region.width,
+      resizeHeight: region.height,
+      resizeQuality: "low",
+    })
+    const result = await worker.executeJob<DecodedBarcode | null, ScanFrameJob>({
+      payload: { bitmap },
+      transfer: [bitmap],
+      retries: 0,
+      enableProgress: false,
+    })
+    if (result.status !== "completed") {
+      throw new Error("Barcode scan job failed", { cause: result.error })
+    }
+    return result.data ?? null
+  }
+
+  const decodeOnMainThread = (video: HTMLVideoElement, region: ScanRegion) => {
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+    if (!context) return null
+    if (canvas.width !== region.width) canvas.width = region.width
+    if (canvas.height !== region.height) canvas.height = region.height
+    context.drawImage(video, region.sx, region.sy, region.sw, region.sh, 0, 0, region.width, region.height)
+    return decodeFrame(context.getImageData(0, 0, region.width, region.height))
+  }
+
+  return {
+    decode: async (video, region) => {
+      if (manager) {
+        try {
+          return await decodeInWorker(manager, video, region)
+        } catch (error) {
+          // 停止時に中断されたジョブは失敗として扱わない
+          if (disposed) return null
+          console.warn("[FrameScanner] Worker decoding failed, falling back to the main thread:", error)
+          manager.dispose()
+          manager = null
+        }
+      }
+      return decodeOnMainThread(video, region)
+    },
+    dispose: () => {
+      disposed = true
+      manager?.dispose()
+      manager = null
+    },
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { decodeLinearBarcode, decodeScanline } from "./linearBarcode"
+
+const MODULE = 3
+
+/**
+ * 黒から始まる幅の並び（モジュール単位）を、前後に余白を付けた輝度の1行にする
+ */
+const toRow = (widths: number[], noise = 0): number[] => {
+  const row: number[] = Array(10 * MODULE).fill(240)
+  widths.forEach((w, i) => {
+    const width = w * MODULE + (i % 3 === 0 ? noise : 0)
+    for (let x = 0; x < width; x++) row.push(i % 2 === 0 ? 20 : 240)
+  })
+  return row.concat(Array(10 * MODULE).fill(240))
+}
+
+const digitsOf = (pattern: string) => Array.from(pattern, Number)
+
+// 4901234567894: 先頭の 4 → LGLLGG
+const EAN13_WIDTHS = [
+  [1, 1, 1],
+  ...["3112", "1123", "2221", "2122", "1141", "2311"].map(digitsOf), // 9 0(G) 1 2 3(G) 4(G)
+  [1, 1, 1, 1, 1],
+  ...["1231", "1114", "1312", "1213", "3112", "1132"].map(digitsOf), // 5 6 7 8 9 4
+  [1, 1, 1],
+].flat()
+
+// "Wikipedia"（Code Set B）: 開始 B, W i k i p e d i a, チェック 88, 停止
+const CODE128_WIDTHS = [
+  "211214",
+  "311321",
+  "142112",
+  "241211",
+  "142112",
+  "111242",
+  "112214",
+  "141221",
+  "142112",
+  "121124",
+  "421211",
+  "2331112",
+]
+  .map(digitsOf)
+  .flat()
+
+describe("linearBarcode", () => {
+  it("EAN-13（JAN）を読み、チェックデジットも検証する", () => {
+    expect(decodeScanline(toRow(EAN13_WIDTHS))).toEqual({ format: "ean_13", rawValue: "4901234567894" })
+  })
+
+  it("Code128 の文字列を読む（多少の幅の揺れと逆向きにも対応する）", () => {
+    const expected = { format: "code_128", rawValue: "Wikipedia" }
+    expect(decodeScanline(toRow(CODE128_WIDTHS))).toEqual(expected)
+    expect(decodeScanline(toRow(CODE128_WIDTHS, 1))).toEqual(expected)
+    expect(decodeScanline(toRow(CODE128_WIDTHS).reverse())).toEqual(expected)
+  })
+
+  it("チェック文字が合わないもの・模様のない画像は読まない", () => {
+    const broken = [...CODE128_WIDTHS]
+    broken.splice(broken.length - 13, 6, ...digitsOf("421112")) // チェック文字を 87 に差し替える
+    expect(decodeScanline(toRow(broken))).toBeNull()
+    expect(decodeScanline(Array(300).fill(200))).toBeNull()
+  })
+
+  it("画像の走査線からバーコードを探す", () => {
+    const row = toRow(EAN13_WIDTHS)
+    const width = row.length
+    const height = 20
+    const data = new Uint8ClampedArray(width * height * 4)
+    for (let y = 0; y < height; y++) {
+      row.forEach((v, x) => {
+        const i = (y * width + x) * 4
+        data.set([v, v, v, 255], i)
+      })
+    }
+    const image = { data, width, height } as ImageData
+    expect(decodeLinearBarcode(image)?.rawValue).toBe("4901234567894")
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * 一次元バーコード（EAN-13/JAN・EAN-8・Code128）の TypeScript 実装のデコーダー
+ * BarcodeDetector が使えない環境のフォールバック用
+ *
+ * 画像の数本の水平走査線を二値化し、白黒の幅（ラン）の並びをパターン表と照合する
+ * バーコードがおおむね水平に写っている前提で、傾きの補正はしない
+ * Data Matrix / PDF417 は二次元のため matrixBarcode で読む
+ */
+import type { BarcodeFormat } from "./scanResult"
+
+export interface LinearBarcode {
+  format: Extract<BarcodeFormat, "ean_13" | "ean_8" | "code_128">
+  rawValue: string
+}
+
+interface Run {
+  dark: boolean
+  width: number
+}
+
+// 一要素あたりの許容誤差（モジュール単位の平均）
+const MAX_PATTERN_ERROR = 0.4
+// 二値化に必要な明暗差
+const MIN_CONTRAST = 48
+// 走査する行（画像の高さに対する位置）
+const SCANLINES = [0.5, 0.4, 0.6, 0.3, 0.7, 0.2, 0.8]
+
+// EAN の L コード（左側・奇数パリティ）。G コードは逆順、R コードは L と同じ幅の並び
+const EAN_L = [3211, 2221, 2122, 1411, 1132, 1231, 1114, 1312, 1213, 3112].map((p) => Array.from(String(p), Number))
+const EAN_G = EAN_L.map((p) => [...p].reverse())
+// EAN-13 の先頭桁は左側6桁の L/G の並びで表される
+const EAN13_PARITY = [
+  "LLLLLL",
+  "LLGLGG",
+  "LLGGLG",
+  "LLGGGL",
+  "LGLLGG",
+  "LGGLLG",
+  "LGGGLL",
+  "LGLGLG",
+  "LGLGGL",
+  "LGGLGL",
+]
+
+// Code128 のシンボル（値 0〜105）。106 は停止コードで 7 要素
+const CODE128 = [
+  212222, 222122, 222221, 121223, 121322, 131222, 122213, 122312, 132212, 221213, 221312, 231212, 112232, 122132,
+  122231, 113222, 123122, 123221, 223211, 221132, 221231, 213212, 223112, 312131, 311222, 321122, 321221, 312212,
+  322112, 322211, 212123, 212321, 232121, 111323, 131123, 131321, 112313, 132113, 132311, 211313, 231113, 231311,
+  112133, 112331, 132131, 113123, 113321, 133121, 313121, 211331, 231131, 213113, 213311, 213131, 311123, 311321,
+  331121, 312113, 312311, 332111, 314111, 221411, 431111, 111224, 111422, 121124, 121421, 141122, 141221, 112214,
+  112412, 122114, 122411, 142112, 142211, 241211, 221114, 413111, 241112, 134111, 111242, 121142, 121241, 114212,
+  124112, 124211, 411212, 421112, 421211, 212141, 214121, 412121, 111143, 111341, 131141, 114113, 114311, 411113,
+  411311, 113141, 114131, 311141, 411131, 211412, 211214, 211232,
+].map((p) => Array.from(String(p), Number))
+const CODE128_STOP = Array.from(String(2331112), Number)
+const CODE128_START_A = 103
+const CODE128_START_C = 105
+const GROUP_SEPARATOR = "\u001d"
+
+/**
+ * 輝度の並びを二値化してランに分ける（しきい値は行の最小・最大の中間）
+ */
+const toRuns = (row: ArrayLike<number>): Run[] => {
+  let min = 255
+  let max = 0
+  for (let i = 0; i < row.length; i++) {
+    min = Math.min(min, row[i])
+    max = Math.max(max, row[i])
+  }
+  if (max - min < MIN_CONTRAST) return []
+  const threshold = (min + max) / 2
+  const runs: Run[] = []
+  for (let i = 0; i < row.length; i++) {
+    const dark = row[i] < threshold
+    const last = runs[runs.length - 1]
+    if (last && last.dark === dark) last.width++
+    else runs.push({ dark, width: 1 })
+  }
+  return runs
+}
+
+const widthsAt = (runs: Run[], start: number, count: number): number[] | null =>
+  start >= 0 && start + count <= runs.length ? runs.slice(start, start + count).map((r) => r.width) : null
+
+/**
+ * 幅の並びを合計 modules モジュールに正規化し、パターンとの平均誤差を返す
+ */
+const patternError = (widths: number[], pattern: number[], modules: number): number => {
+  const unit = widths.reduce((sum, w) => sum + w, 0) / modules
+  let error = 0
+  for (let i = 0; i < widths.length; i++) error += Math.abs(widths[i] / unit - pattern[i])
+  return error / widths.length
+}
+
+/**
+ * 最も近いパターンの番号（許容誤差を超えたら -1）
+ */
+const bestMatch = (widths: number[], patterns: number[][], modules: number, from = 0, to = patterns.length): number => {
+  let best = -1
+  let bestError = MAX_PATTERN_ERROR
+  for (let i = from; i < to; i++) {
+    const error = patternError(widths, patterns[i], modules)
+    if (error < bestError) {
+      best = i
+      bestError = error
+    }
+  }
+  return best
+}
+
+/**
+ * すべての幅が unit に近いガードパターン（101 / 01010）か
+ */
+const isGuard = (widths: number[] | null, unit: number): widths is number[] =>
+  !!widths && widths.every((w) => w > unit * 0.5 && w < unit * 1.6)
+
+const eanChecksumValid = (digits: number[]): boolean => {
+  const body = digits.slice(0, -1)
+  // 末尾（チェックデジットの直前）から 3,1,3,1... の重み
+  const sum = body.reduceRight((acc, d, i) => acc + d * ((body.length - i) % 2 === 1 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === digits[digits.length - 1]
+}
+
+/**
+ * start（暗いラン）から始まる EAN-13 / EAN-8 を読む
+ */
+const decodeEan = (runs: Run[], start: number, digitsPerSide: 4 | 6): LinearBarcode | null => {
+  const startGuard = widthsAt(runs, start, 3)
+  if (!startGuard) return null
+  const unit = startGuard.reduce((sum, w) => sum + w, 0) / 3
+  if (!isGuard(startGuard, unit)) return null
+  // 手前に静穏域（3モジュール以上の余白）がない場合は別の模様の一部とみなす
+  if (start > 0 && runs[start - 1].width < unit * 3) return null
+
+  const digits: number[] = []
+  let parity = ""
+  let p = start + 3
+  for (let i = 0; i < digitsPerSide; i++) {
+    const widths = widthsAt(runs, p, 4)
+    if (!widths) return null
+    const l = bestMatch(widths, EAN_L, 7)
+    const g = digitsPerSide === 6 ? bestMatch(widths, EAN_G, 7) : -1
+    if (l < 0 && g < 0) return null
+    const useG = g >= 0 && (l < 0 || patternError(widths, EAN_G[g], 7) < patternError(widths, EAN_L[l], 7))
+    digits.push(useG ? g : l)
+    parity += useG ? "G" : "L"
+    p += 4
+  }
+  if (!isGuard(widthsAt(runs, p, 5), unit)) return null
+  p += 5
+  for (let i = 0; i < digitsPerSide; i++) {
+    const widths = widthsAt(runs, p, 4)
+    const digit = widths ? bestMatch(widths, EAN_L, 7) : -1
+    if (digit < 0) return null
+    digits.push(digit)
+    p += 4
+  }
+  if (!isGuard(widthsAt(runs, p, 3), unit)) return null
+
+  if (digitsPerSide === 6) {
+    const first = EAN13_PARITY.indexOf(parity)
+    if (first < 0) return null
+    digits.unshift(first)
+  }
+  if (!eanChecksumValid(digits)) return null
+  return { format: digitsPerSide === 6 ? "ean_13" : "ean_8", rawValue: digits.join("") }
+}
+
+/**
+ * Code128 の値の並び（開始コードを含み、チェック文字・停止コードを除く）を文字列にする
+ * FNC1 は先頭なら GS1 の識別として読み飛ばし、途中なら区切り文字（GS）にする。FNC2〜4 は扱わない
+ */
+const code128Text = (values: number[]): string => {
+  let set: "A" | "B" | "C" = values[0] === CODE128_START_A ? "A" : values[0] === CODE128_START_C ? "C" : "B"
+  let shift = false
+  let text = ""
+  for (let i = 1; i < values.length; i++) {
+    const v = values[i]
+    const current = shift ? (set === "A" ? "B" : "A") : set
+    shift = false
+    if (v === 102) {
+      if (i > 1) text += GROUP_SEPARATOR
+    } else if (current === "C") {
+      if (v < 100) text += v.toString().padStart(2, "0")
+      else if (v === 100) set = "B"
+      else if (v === 101) set = "A"
+    } else if (v < 96) {
+      text += String.fromCharCode(current === "A" && v >= 64 ? v - 64 : v + 32)
+    } else if (v === 98) {
+      shift = true
+    } else if (v === 99) {
+      set = "C"
+    } else if (v === 100 && current === "A") {
+      set = "B"
+    } else if (v === 101 && current === "B") {
+      set = "A"
+    }
+  }
+  return text
+}
+
+/**
+ * start（暗いラン）から始まる Code128 を読む
+ */
+const decodeCode128 = (runs: Run[], start: number): LinearBarcode | null => {
+  const startWidths = widthsAt(runs, start, 6)
+  if (!startWidths) return null
+  const startCode = bestMatch(startWidths, CODE128, 11, CODE128_START_A, CODE128_START_C + 1)
+  if (startCode < 0) return null
+  const unit = startWidths.reduce((sum, w) => sum + w, 0) / 11
+  if (start > 0 && runs[start - 1].width < unit * 5) return null
+
+  const values = [startCode]
+  let p = start + 6
+  for (;;) {
+    const stop = widthsAt(runs, p, 7)
+    if (stop && patternError(stop, CODE128_STOP, 13) < MAX_PATTERN_ERROR) break
+    const widths = widthsAt(runs, p, 6)
+    const value = widths ? bestMatch(widths, CODE128, 11, 0, CODE128_START_A) : -1
+    if (value < 0) return null
+    values.push(value)
+    p += 6
+  }
+  // 開始コード・データ1文字以上・チェック文字
+  if (values.length < 3) return null
+  const check = values.pop()!
+  const sum = values.reduce((acc, v, i) => acc + v * Math.max(i, 1), 0)
+  if (sum % 103 !== check) return null
+  return { format: "code_128", rawValue: code128Text(values) }
+}
+
+const decodeRuns = (runs: Run[]): LinearBarcode | null => {
+  for (let i = 0; i < runs.length; i++) {
+    if (!runs[i].dark) continue
+    const found = decodeEan(runs, i, 6) ?? decodeEan(runs, i, 4) ?? decodeCode128(runs, i)
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * 輝度（0〜255）の1行を読む。逆向き（上下反転して写った場合）も試す
+ */
+export const decodeScanline = (row: ArrayLike<number>): LinearBarcode | null => {
+  const runs = toRuns(row)
+  if (runs.length < 20) return null
+  return decodeRuns(runs) ?? decodeRuns([...runs].reverse())
+}
+
+/**
+ * 画像の数本の走査線からバーコードを探す
+ */
+export const decodeLinearBarcode = (image: ImageData): LinearBarcode | null => {
+  const { data, width, height } = image
+  const row = new Uint8ClampedArray(width)
+  for (const position of SCANLINES) {
+    const offset = Math.floor(height * position) * width * 4
+    for (let x = 0; x < width; x++) {
+      const i = offset + x * 4
+      row[x] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+    }
+    const found = decodeScanline(row)
+    if (found) return found
+  }
+  return null
+}
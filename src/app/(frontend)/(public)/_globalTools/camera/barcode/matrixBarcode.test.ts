@@ -0,0 +1,48 @@
+/**
+ * matrixBarcode テスト
+ *
+ * @zxing/library の DataMatrixWriter で描いた Data Matrix を画素から読めること、
+ * 模様のない画像では何も返さないことを検証する。
+ */
+import { BarcodeFormat, DataMatrixWriter } from "@zxing/library"
+import { describe, expect, it } from "vitest"
+import { decodeFrame } from "./decodeFrame"
+import { decodeMatrixBarcode } from "./matrixBarcode"
+
+const SCALE = 6
+const QUIET_ZONE = 4
+
+/**
+ * Data Matrix を余白付きの RGBA 画像に描く
+ */
+const drawDataMatrix = (text: string): ImageData => {
+  const matrix = new DataMatrixWriter().encode(text, BarcodeFormat.DATA_MATRIX, 0, 0)
+  const width = (matrix.getWidth() + QUIET_ZONE * 2) * SCALE
+  const height = (matrix.getHeight() + QUIET_ZONE * 2) * SCALE
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const mx = Math.floor(x / SCALE) - QUIET_ZONE
+      const my = Math.floor(y / SCALE) - QUIET_ZONE
+      const dark = mx >= 0 && my >= 0 && mx < matrix.getWidth() && my < matrix.getHeight() && matrix.get(mx, my)
+      if (dark) data.set([20, 20, 20, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height } as ImageData
+}
+
+describe("matrixBarcode", () => {
+  it("Data Matrix を読む", () => {
+    const image = drawDataMatrix("LOT-2026/10-0042")
+    expect(decodeMatrixBarcode(image)).toEqual({ format: "data_matrix", rawValue: "LOT-2026/10-0042" })
+    // フォールバックの順番（QR → 一次元 → 二次元）でも読める
+    expect(decodeFrame(image)).toEqual({ format: "data_matrix", rawValue: "LOT-2026/10-0042" })
+  })
+
+  it("模様のない画像は読まない", () => {
+    const width = 120
+    const height = 80
+    const image = { data: new Uint8ClampedArray(width * height * 4).fill(230), width, height } as ImageData
+    expect(decodeMatrixBarcode(image)).toBeNull()
+  })
+})
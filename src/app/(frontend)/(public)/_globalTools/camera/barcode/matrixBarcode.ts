@@ -0,0 +1,52 @@
+import {
+  BinaryBitmap,
+  DataMatrixReader,
+  HybridBinarizer,
+  PDF417Reader,
+  RGBLuminanceSource,
+  type Reader,
+} from "@zxing/library"
+import type { BarcodeFormat } from "./scanResult"
+
+/**
+ * 二次元バーコード（Data Matrix・PDF417）のデコーダー（@zxing/library）
+ * BarcodeDetector が使えない環境のフォールバック用。QR は jsQR、一次元バーコードは linearBarcode で読む
+ */
+
+export interface MatrixBarcode {
+  format: Extract<BarcodeFormat, "data_matrix" | "pdf417">
+  rawValue: string
+}
+
+const READERS: [MatrixBarcode["format"], Reader][] = [
+  ["data_matrix", new DataMatrixReader()],
+  ["pdf417", new PDF417Reader()],
+]
+
+/**
+ * RGBA の画素を輝度（1画素1バイト）にする
+ */
+const toLuminances = ({ data, width, height }: ImageData): Uint8ClampedArray => {
+  const luminances = new Uint8ClampedArray(width * height)
+  for (let p = 0, i = 0; p < luminances.length; p++, i += 4) {
+    luminances[p] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  }
+  return luminances
+}
+
+export const decodeMatrixBarcode = (image: ImageData): MatrixBarcode | null => {
+  const bitmap = new BinaryBitmap(
+    new HybridBinarizer(new RGBLuminanceSource(toLuminances(image), image.width, image.height)),
+  )
+  for (const [format, reader] of READERS) {
+    try {
+      const text = reader.decode(bitmap).getText()
+      if (text) return { format, rawValue: text }
+    } catch {
+      // 見つからない・読めない（NotFound / Checksum / Format）
+    } finally {
+      reader.reset()
+    }
+  }
+  return null
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { describeScan, parseScanPayload, toScanResult } from "./scanResult"
+
+describe("scanResult", () => {
+  it("URL・商品コード・文字列を判別する", () => {
+    expect(parseScanPayload("qr_code", "https://example.com")).toEqual({ kind: "url", url: "https://example.com/" })
+    expect(parseScanPayload("ean_13", "4901234567894")).toEqual({ kind: "product", gtin: "4901234567894" })
+    expect(parseScanPayload("code_128", "ABC-123")).toEqual({ kind: "text", text: "ABC-123" })
+    expect(describeScan(toScanResult("ean_13", "4901234567894"))).toBe("JAN 4901234567894")
+  })
+
+  it("Wi-Fi 設定をエスケープ込みで読む", () => {
+    expect(parseScanPayload("qr_code", "WIFI:T:WPA;S:my\\;net;P:p\\:ss;H:true;;")).toEqual({
+      kind: "wifi",
+      ssid: "my;net",
+      password: "p:ss",
+      encryption: "WPA",
+      hidden: true,
+    })
+    expect(parseScanPayload("qr_code", "WIFI:T:WPA;;").kind).toBe("text")
+  })
+
+  it("vCard から名前・所属・連絡先を読む", () => {
+    const vcard = [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:山田;太郎",
+      "ORG:Example Inc.",
+      "TEL;TYPE=CELL:090-1234-5678",
+      "EMAIL:taro@example.com",
+      "URL:https://example.com",
+      "END:VCARD",
+    ].join("\r\n")
+    expect(parseScanPayload("qr_code", vcard)).toEqual({
+      kind: "vcard",
+      name: "太郎 山田",
+      organization: "Example Inc.",
+      phones: ["090-1234-5678"],
+      emails: ["taro@example.com"],
+      url: "https://example.com",
+    })
+  })
+})
@@ -0,0 +1,167 @@
+/**
+ * スキャン結果の型と、読み取った文字列の解釈（URL / Wi-Fi / vCard / 商品コード）
+ */
+
+/**
+ * BarcodeDetector の format 名に合わせる
+ */
+export type BarcodeFormat = "qr_code" | "ean_13" | "ean_8" | "upc_a" | "upc_e" | "code_128" | "data_matrix" | "pdf417"
+
+export const SCAN_FORMATS: BarcodeFormat[] = [
+  "qr_code",
+  "ean_13",
+  "ean_8",
+  "upc_a",
+  "upc_e",
+  "code_128",
+  "data_matrix",
+  "pdf417",
+]
+
+const PRODUCT_FORMATS: BarcodeFormat[] = ["ean_13", "ean_8", "upc_a", "upc_e"]
+
+export const FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  qr_code: "QR",
+  ean_13: "EAN-13",
+  ean_8: "EAN-8",
+  upc_a: "UPC-A",
+  upc_e: "UPC-E",
+  code_128: "Code128",
+  data_matrix: "Data Matrix",
+  pdf417: "PDF417",
+}
+
+export type ScanPayload =
+  | { kind: "url"; url: string }
+  | { kind: "wifi"; ssid: string; password?: string; encryption?: string; hidden?: boolean }
+  | { kind: "vcard"; name?: string; organization?: string; phones: string[]; emails: string[]; url?: string }
+  | { kind: "product"; gtin: string } // EAN/JAN/UPC（JAN は 45/49 で始まる EAN-13）
+  | { kind: "text"; text: string }
+
+export type ScanKind = ScanPayload["kind"]
+
+export interface ScanResult {
+  format: BarcodeFormat
+  rawValue: string
+  payload: ScanPayload
+}
+
+/**
+ * "WIFI:T:WPA;S:ssid;P:pass;H:true;;" 形式（\ でエスケープされた ; , : \ を含む）
+ */
+const parseWifi = (raw: string): ScanPayload | null => {
+  const fields = new Map<string, string>()
+  let key = ""
+  let value = ""
+  let inValue = false
+  for (let i = 5; i < raw.length; i++) {
+    const c = raw[i]
+    if (c === "\\" && i + 1 < raw.length) {
+      value += raw[++i]
+    } else if (!inValue && c === ":") {
+      inValue = true
+    } else if (c === ";") {
+      if (key) fields.set(key.toUpperCase(), value)
+      key = ""
+      value = ""
+      inValue = false
+    } else if (inValue) {
+      value += c
+    } else {
+      key += c
+    }
+  }
+  const ssid = fields.get("S")
+  if (!ssid) return null
+  return {
+    kind: "wifi",
+    ssid,
+    password: fields.get("P") || undefined,
+    encryption: fields.get("T") || undefined,
+    hidden: fields.get("H") === "true" || undefined,
+  }
+}
+
+/**
+ * vCard（2.1 / 3.0 / 4.0）から名前・所属・電話・メール・URL を拾う
+ */
+const parseVCard = (raw: string): ScanPayload => {
+  // 折り返し行（先頭が空白）を前の行に連結する
+  const lines = raw.replace(/\r?\n[ \t]/g, "").split(/\r?\n/)
+  const payload: Extract<ScanPayload, { kind: "vcard" }> = { kind: "vcard", phones: [], emails: [] }
+  let structuredName: string | undefined
+  for (const line of lines) {
+    const separator = line.indexOf(":")
+    if (separator < 0) continue
+    const property = line.slice(0, separator).split(";")[0].toUpperCase()
+    const value = line.slice(separator + 1).trim()
+    if (!value) continue
+    switch (property) {
+      case "FN":
+        payload.name = value
+        break
+      case "N":
+        structuredName = value.split(";").slice(0, 2).reverse().filter(Boolean).join(" ")
+        break
+      case "ORG":
+        payload.organization = value.replace(/;/g, " ").trim()
+        break
+      case "TEL":
+        payload.phones.push(value.replace(/^tel:/i, ""))
+        break
+      case "EMAIL":
+        payload.emails.push(value)
+        break
+      case "URL":
+        payload.url = value
+        break
+    }
+  }
+  if (!payload.name && structuredName) payload.name = structuredName
+  return payload
+}
+
+/**
+ * 読み取った文字列を種類ごとに解釈する
+ */
+export const parseScanPayload = (format: BarcodeFormat, raw: string): ScanPayload => {
+  const text = raw.trim()
+  if (PRODUCT_FORMATS.includes(format) && /^\d+$/.test(text)) return { kind: "product", gtin: text }
+  if (/^https?:\/\/\S+$/i.test(text)) {
+    try {
+      return { kind: "url", url: new URL(text).toString() }
+    } catch {
+      // URL として不正なら文字列として扱う
+    }
+  }
+  if (/^WIFI:/i.test(text)) {
+    const wifi = parseWifi(text)
+    if (wifi) return wifi
+  }
+  if (/^BEGIN:VCARD/i.test(text)) return parseVCard(text)
+  return { kind: "text", text: raw }
+}
+
+export const toScanResult = (format: BarcodeFormat, rawValue: string): ScanResult => ({
+  format,
+  rawValue,
+  payload: parseScanPayload(format, rawValue),
+})
+
+/**
+ * 一覧・トースト用の短い説明
+ */
+export const describeScan = ({ payload, rawValue }: ScanResult): string => {
+  switch (payload.kind) {
+    case "url":
+      return payload.url
+    case "wifi":
+      return `Wi-Fi: ${payload.ssid}${payload.encryption ? ` (${payload.encryption})` : ""}`
+    case "vcard":
+      return [payload.name, payload.organization, payload.phones[0] ?? payload.emails[0]].filter(Boolean).join(" / ")
+    case "product":
+      return `${/^4[59]/.test(payload.gtin) && payload.gtin.length === 13 ? "JAN" : "GTIN"} ${payload.gtin}`
+    default:
+      return rawValue
+  }
+}
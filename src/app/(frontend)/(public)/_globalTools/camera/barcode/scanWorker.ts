@@ -0,0 +1,41 @@
+import { decodeFrame, type DecodedBarcode } from "./decodeFrame"
+
+/**
+ * バーコード読み取り用の Worker（WorkerManager のジョブ形式: JOB → RESULT / ERROR）
+ * メインスレッドで切り出した ImageBitmap を受け取り、OffscreenCanvas で画素を取り出して解析する
+ */
+export interface ScanFrameJob {
+  bitmap: ImageBitmap
+}
+
+let canvas: OffscreenCanvas | null = null
+let context: OffscreenCanvasRenderingContext2D | null = null
+
+const readPixels = (bitmap: ImageBitmap): ImageData => {
+  if (!canvas || !context) {
+    canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    context = canvas.getContext("2d", { willReadFrequently: true })
+    if (!context) throw new Error("OffscreenCanvas 2d context is not available")
+  }
+  if (canvas.width !== bitmap.width) canvas.width = bitmap.width
+  if (canvas.height !== bitmap.height) canvas.height = bitmap.height
+  context.drawImage(bitmap, 0, 0)
+  return context.getImageData(0, 0, bitmap.width, bitmap.height)
+}
+
+self.onmessage = (event: MessageEvent<{ type?: string; payload?: ScanFrameJob; jobId?: string }>) => {
+  const { type, payload, jobId } = event.data || {}
+  if (type !== "JOB" || !payload) return
+  try {
+    const result: DecodedBarcode | null = decodeFrame(readPixels(payload.bitmap))
+    self.postMessage({ type: "RESULT", jobId, payload: result })
+  } catch (error) {
+    self.postMessage({
+      type: "ERROR",
+      jobId,
+      payload: { message: error instanceof Error ? error.message : String(error) },
+    })
+  } finally {
+    payload.bitmap.close()
+  }
+}
@@ -1,6 +1,7 @@
-import * as jsQRModule from "jsqr"
-const jsQR = ((jsQRModule as unknown as { default: typeof jsQRModule.default }).default ||
-  jsQRModule) as typeof jsQRModule.default
+import { createFrameDecoder, getScanRegion, nextScanInterval } from "./barcode/frameScanner"
+import { SCAN_FORMATS, toScanResult, type BarcodeFormat, type ScanResult } from "./barcode/scanResult"
+import { detectDocumentQuad, type Quad } from "./document/detectQuad"
+import { enhanceContrast, warpPerspective } from "./document/perspective"
 
 // 【Barcode Detection API】
 // https://developer.mozilla.org/en-US/docs/Web/API/Barcode_Detection_API
@@ -8,22 +9,18 @@ const jsQR = ((jsQRModule as unknown as { default: typeof jsQRModule.default }).
 // 続・Webの技術だけで作るQRコードリーダー
 // https://qiita.com/kan_dai/items/3486880236a2fcd9b527
 
-// TODO: バーコードスキャナーの実装したい
-// TODO: カメラのフラッシュ機能を実装したい
-// TODO: カメラのズーム機能を実装したい
 // TODO: 撮影時・スキャン時のシャッター音・バイブレーションを実装したい
-// TODO: 解像度を変更する機能を実装したい
 // TODO: AIモデルへのリアルタイムデータ送信機能を実装したい
-// TODO: Web Workers for QR scanning
 // TODO: Stream Processing Pipeline
-// TODO: Device capability detection
-// TODO: Error recovery mechanisms
 // TODO: Performance optimizations for video processing
 // TODO: 利用可能なカメラデバイスの列挙
-// TODO: ビデオ制約のカスタマイズ機能
 
 interface CameraConfig {
-  QRSCAN_INTERVAL?: number // QRコードスキャン間隔
+  QRSCAN_INTERVAL?: number // QRコードスキャン間隔（最短）
+  QRSCAN_MAX_INTERVAL?: number // 解析が遅い端末でのスキャン間隔の上限
+  QRSCAN_REGION?: number // 解析する映像中央の範囲（各辺の割合）
+  DOCUMENT_DETECT_INTERVAL?: number // 書類の輪郭検出の間隔
+  RECORD_TIMESLICE?: number // 録画データを書き出す間隔
   VIDEO_TIMEOUT?: number // ビデオタイムアウト
   PREFERRED_CAMERA?: "environment" | "user" // デフォルトカメラ
   VIDEO_CONSTRAINTS?: MediaTrackConstraints // ビデオ制約
@@ -43,6 +40,7 @@ interface CameraCallbacks {
 
 type BarcodeDetectorDetectedBarcode = {
   rawValue?: string
+  format?: string
 }
 
 interface BarcodeDetectorLike {
@@ -57,9 +55,29 @@ const getBarcodeDetectorConstructor = (): BarcodeDetectorConstructorLike | null
   return maybe ?? null
 }
 
+/**
+ * 対応フォーマットをすべて指定して作る（未対応の指定で失敗する実装では QR のみ）
+ */
+const createBarcodeDetector = (): BarcodeDetectorLike | null => {
+  const BarcodeDetectorCtor = getBarcodeDetectorConstructor()
+  if (!BarcodeDetectorCtor) return null
+  try {
+    return new BarcodeDetectorCtor({ formats: SCAN_FORMATS })
+  } catch {
+    return new BarcodeDetectorCtor({ formats: ["qr_code"] })
+  }
+}
+
+const toBarcodeFormat = (format?: string): BarcodeFormat =>
+  SCAN_FORMATS.includes(format as BarcodeFormat) ? (format as BarcodeFormat) : "qr_code"
+
 const createCameraClient = (config: CameraConfig = {}) => {
   const defaultConfig: Required<CameraConfig> = {
     QRSCAN_INTERVAL: 200,
+    QRSCAN_MAX_INTERVAL: 1000,
+    QRSCAN_REGION: 0.8,
+    DOCUMENT_DETECT_INTERVAL: 250,
+    RECORD_TIMESLICE: 1000,
     VIDEO_TIMEOUT: 10000,
     PREFERRED_CAMERA: "environment",
     VIDEO_CONSTRAINTS: VIDEO_CONSTRAINTS,
@@ -127,10 +145,15 @@ const createCameraClient = (config: CameraConfig = {}) => {
     })
   }
 
-  const getSensor = async (deviceId?: string, facingMode?: "user" | "environment"): Promise<MediaStream> => {
+  const getSensor = async (
+    deviceId?: string,
+    facingMode?: "user" | "environment",
+    videoConstraints?: MediaTrackConstraints,
+  ): Promise<MediaStream> => {
     const constraints: MediaStreamConstraints = {
       video: {
         ...finalConfig.VIDEO_CONSTRAINTS,
+        ...videoConstraints,
         ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: facingMode || finalConfig.PREFERRED_CAMERA }),
       },
       audio: false,
@@ -148,8 +171,9 @@ const createCameraClient = (config: CameraConfig = {}) => {
     videoElement: HTMLVideoElement,
     deviceId?: string,
     facingMode?: "user" | "environment",
+    videoConstraints?: MediaTrackConstraints,
   ): Promise<MediaStream> => {
-    const stream = await getSensor(deviceId, facingMode)
+    const stream = await getSensor(deviceId, facingMode, videoConstraints)
     await waitForVideoReady(videoElement, stream)
     return stream
   }
@@ -162,111 +186,198 @@ const createCameraClient = (config: CameraConfig = {}) => {
   const startQrScan = (
     videoElement: HTMLVideoElement,
     canvasElement: HTMLCanvasElement,
-    onScan: (data: string) => void,
+    onScan: (result: ScanResult) => void,
   ): (() => void) => {
-    const context = canvasElement.getContext("2d", { willReadFrequently: true })
-    if (!context) return () => {}
-
-    const BarcodeDetectorCtor = getBarcodeDetectorConstructor()
-    const detector = BarcodeDetectorCtor ? new BarcodeDetectorCtor({ formats: ["qr_code"] }) : null
+    const detector = createBarcodeDetector()
+    // BarcodeDetector がなければ jsQR / 一次元バーコードのデコーダーを Worker で動かす
+    const decoder = detector ? null : createFrameDecoder(canvasElement)
 
     let isScanning = true
-    let inFlight = false
-
-    const ensureScanCanvasSize = () => {
-      const vw = videoElement.videoWidth
-      const vh = videoElement.videoHeight
-      if (vw <= 0 || vh <= 0) return
-
-      // jsQR fallback時は getImageData が支配的に重いので、必ず縮小する。
-      // QR はある程度の解像度があれば読めるので、長辺 480px 程度に抑える。
-      const maxSide = 480
-      const scale = Math.min(1, maxSide / Math.max(vw, vh))
-      const nextW = Math.max(1, Math.floor(vw * scale))
-      const nextH = Math.max(1, Math.floor(vh * scale))
-      if (canvasElement.width !== nextW) canvasElement.width = nextW
-      if (canvasElement.height !== nextH) canvasElement.height = nextH
+    let averageDecodeMs = 0
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const detect = async (): Promise<ScanResult | null> => {
+      if (detector) {
+        // ネイティブ実装がある場合はそれを優先（メインスレッド負荷が大きく下がる）
+        const codes = await detector.detect(videoElement)
+        const first = codes.find((code) => code.rawValue)
+        return first?.rawValue ? toScanResult(toBarcodeFormat(first.format), first.rawValue) : null
+      }
+      // jsQR は画素数に比例して重いので、中央の枠だけを長辺 480px 程度に縮小して解析する
+      const region = getScanRegion(videoElement.videoWidth, videoElement.videoHeight, finalConfig.QRSCAN_REGION, 480)
+      const decoded = await decoder!.decode(videoElement, region)
+      return decoded ? toScanResult(decoded.format, decoded.rawValue) : null
     }
 
     const scan = async () => {
+      timer = null
       if (!isScanning) return
-      if (inFlight) {
-        setTimeout(() => {
-          void scan()
-        }, finalConfig.QRSCAN_INTERVAL)
-        return
-      }
-      inFlight = true
-      if (videoElement.readyState === 4) {
+      if (videoElement.readyState === 4 && videoElement.videoWidth > 0) {
+        const startedAt = performance.now()
         try {
-          if (detector) {
-            // ネイティブ実装がある場合はそれを優先（メインスレッド負荷が大きく下がる）
-            const codes = await detector.detect(videoElement)
-            const first = codes[0]?.rawValue
-            if (first) onScan(first)
-          } else {
-            ensureScanCanvasSize()
-            context.drawImage(videoElement, 0, 0, canvasElement.width, canvasElement.height)
-            const imageData = context.getImageData(0, 0, canvasElement.width, canvasElement.height)
-            const code = jsQR(imageData.data, imageData.width, imageData.height)
-            if (code?.data) onScan(code.data)
-          }
+          const result = await detect()
+          if (result && isScanning) onScan(result)
         } catch {
           // スキャン失敗は無視して継続
         }
+        // 解析時間の移動平均に合わせて間隔を広げ、プレビューのカクつきを抑える
+        const elapsed = performance.now() - startedAt
+        averageDecodeMs = averageDecodeMs === 0 ? elapsed : averageDecodeMs * 0.8 + elapsed * 0.2
       }
-
-      inFlight = false
-      setTimeout(() => {
-        void scan()
-      }, finalConfig.QRSCAN_INTERVAL)
+      if (!isScanning) return
+      timer = setTimeout(
+        () => {
+          void scan()
+        },
+        nextScanInterval(averageDecodeMs, finalConfig.QRSCAN_INTERVAL, finalConfig.QRSCAN_MAX_INTERVAL),
+      )
     }
 
     void scan()
     return () => {
       isScanning = false
+      if (timer) clearTimeout(timer)
+      decoder?.dispose()
     }
   }
 
-  const capture = async (
+  /**
+   * プレビューから書類の輪郭を検出し続ける（見つからなければ null を通知）
+   * 輪郭の検出は長辺 240px 程度に縮小した画像で十分なので、専用の小さなキャンバスを使う
+   */
+  const startDocumentDetection = (
     videoElement: HTMLVideoElement,
-    canvasElement: HTMLCanvasElement,
-    deviceOrientation: number, // デバイスの物理的な向き 0, 90, 180, 270
-    onComplete: (url: string | null, blob: Blob | null) => void,
-  ): Promise<void> => {
-    const context = canvasElement.getContext("2d", { alpha: false })
-    if (!context) {
-      onComplete(null, null)
-      return
+    onDetect: (quad: Quad | null, frame: { width: number; height: number }) => void,
+  ): (() => void) => {
+    const canvas = document.createElement("canvas")
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+    let isDetecting = true
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const detect = () => {
+      timer = null
+      if (!isDetecting || !context) return
+      const vw = videoElement.videoWidth
+      const vh = videoElement.videoHeight
+      if (videoElement.readyState === 4 && vw > 0) {
+        const scale = Math.min(1, 240 / Math.max(vw, vh))
+        const width = Math.max(1, Math.round(vw * scale))
+        const height = Math.max(1, Math.round(vh * scale))
+        if (canvas.width !== width) canvas.width = width
+        if (canvas.height !== height) canvas.height = height
+        try {
+          context.drawImage(videoElement, 0, 0, width, height)
+          onDetect(detectDocumentQuad(context.getImageData(0, 0, width, height)), { width: vw, height: vh })
+        } catch {
+          // 検出失敗は無視して継続
+        }
+      }
+      if (isDetecting) timer = setTimeout(detect, finalConfig.DOCUMENT_DETECT_INTERVAL)
     }
 
-    // 1. フレーム固定（pauseのみ。currentTimeの設定は重いので避ける）
-    videoElement.pause()
+    detect()
+    return () => {
+      isDetecting = false
+      if (timer) clearTimeout(timer)
+    }
+  }
+
+  /**
+   * 書類を撮影する: 検出した四角形（映像に対して 0〜1 に正規化）を長方形に補正し、コントラストを上げた JPEG を返す
+   * 四角形がなければフレーム全体のコントラストだけを補正する
+   */
+  const captureDocument = async (
+    videoElement: HTMLVideoElement,
+    canvasElement: HTMLCanvasElement,
+    quad: Quad | null,
+  ): Promise<Blob | null> => {
+    const context = canvasElement.getContext("2d", { alpha: false, willReadFrequently: true })
     const vw = videoElement.videoWidth
     const vh = videoElement.videoHeight
+    if (!context || vw === 0 || vh === 0) return null
+
+    canvasElement.width = vw
+    canvasElement.height = vh
+    context.drawImage(videoElement, 0, 0, vw, vh)
+    const frame = context.getImageData(0, 0, vw, vh)
+    const corners: Quad = quad
+      ? (quad.map((p) => ({ x: p.x * vw, y: p.y * vh })) as Quad)
+      : [
+          { x: 0, y: 0 },
+          { x: vw, y: 0 },
+          { x: vw, y: vh },
+          { x: 0, y: vh },
+        ]
+    const page = enhanceContrast(warpPerspective(frame, corners))
+
+    canvasElement.width = page.width
+    canvasElement.height = page.height
+    const output = context.createImageData(page.width, page.height)
+    output.data.set(page.data)
+    context.putImageData(output, 0, 0)
+    return new Promise<Blob | null>((resolve) => canvasElement.toBlob(resolve, "image/jpeg", 0.9))
+  }
 
-    // 2. キャンバスサイズ設定（必要時のみ変更してメモリ再確保を抑制したいが、現状は毎回設定）
+  /**
+   * 端末の向きに合わせて回転したフレームをキャンバスに描く
+   * キャンバスサイズは変わるときだけ設定してメモリの再確保を抑える
+   */
+  const drawOrientedFrame = (
+    context: CanvasRenderingContext2D,
+    canvasElement: HTMLCanvasElement,
+    videoElement: HTMLVideoElement,
+    deviceOrientation: number,
+  ): void => {
+    const vw = videoElement.videoWidth
+    const vh = videoElement.videoHeight
     const isLandscape = deviceOrientation === 90 || deviceOrientation === 270
     const targetWidth = isLandscape ? vh : vw
     const targetHeight = isLandscape ? vw : vh
-
     if (canvasElement.width !== targetWidth || canvasElement.height !== targetHeight) {
       canvasElement.width = targetWidth
       canvasElement.height = targetHeight
     }
+    context.save()
+    context.translate(canvasElement.width / 2, canvasElement.height / 2)
+    context.rotate((deviceOrientation * Math.PI) / 180)
+    context.drawImage(videoElement, -vw / 2, -vh / 2, vw, vh)
+    context.restore()
+  }
 
-    // 3. 描画処理
-    const draw = () => {
-      context.save()
-      context.translate(canvasElement.width / 2, canvasElement.height / 2)
-      context.rotate((deviceOrientation * Math.PI) / 180)
-      context.drawImage(videoElement, -vw / 2, -vh / 2, vw, vh)
-      context.restore()
+  /**
+   * 連写・インターバル撮影用: 再生を止めずに現在のフレームを JPEG にする
+   * toBlob は呼び出した時点のキャンバスを写し取るので、続けて描き直しても前の1枚は壊れない
+   */
+  const grabFrame = (
+    videoElement: HTMLVideoElement,
+    canvasElement: HTMLCanvasElement,
+    deviceOrientation: number,
+  ): Promise<Blob | null> => {
+    const context = canvasElement.getContext("2d", { alpha: false })
+    if (!context || videoElement.videoWidth === 0) return Promise.resolve(null)
+    drawOrientedFrame(context, canvasElement, videoElement, deviceOrientation)
+    return new Promise<Blob | null>((resolve) => canvasElement.toBlob(resolve, "image/jpeg", 0.85))
+  }
 
-      // 描画が終わったら即座に再生を再開（ユーザーへのフィードバックを最優先）
-      videoElement.play().catch(() => {})
+  const capture = async (
+    videoElement: HTMLVideoElement,
+    canvasElement: HTMLCanvasElement,
+    deviceOrientation: number, // デバイスの物理的な向き 0, 90, 180, 270
+    onComplete: (url: string | null, blob: Blob | null) => void,
+  ): Promise<void> => {
+    const context = canvasElement.getContext("2d", { alpha: false })
+    if (!context) {
+      onComplete(null, null)
+      return
     }
-    draw()
+
+    // 1. フレーム固定（pauseのみ。currentTimeの設定は重いので避ける）
+    videoElement.pause()
+
+    // 2-3. キャンバスサイズ設定と描画
+    drawOrientedFrame(context, canvasElement, videoElement, deviceOrientation)
+    // 描画が終わったら即座に再生を再開（ユーザーへのフィードバックを最優先）
+    videoElement.play().catch(() => {})
 
     // 4. 即座にプレビューURLを通知（UIのトレイに表示するため）
     const previewUrl = canvasElement.toDataURL("image/jpeg", 0.6)
@@ -294,22 +405,34 @@ const createCameraClient = (config: CameraConfig = {}) => {
     return processBlob()
   }
 
-  const startRecord = (stream: MediaStream, onDataAvailable: (blob: Blob) => void): MediaRecorder => {
-    const recordedChunks: Blob[] = []
-    const mediaRecorder = new MediaRecorder(stream, { mimeType: "video/webm;codecs=vp9" })
+  /**
+   * 録画用のマイク入力（録画の設定で音声を有効にしたときだけ使う）
+   */
+  const getAudioStream = (): Promise<MediaStream> => navigator.mediaDevices.getUserMedia({ audio: true, video: false })
+
+  /**
+   * 録画を始める。データは RECORD_TIMESLICE ごとに onChunk へ渡し、ここでは溜めない
+   */
+  const startRecord = (
+    stream: MediaStream,
+    options: { mimeType?: string; videoBitsPerSecond?: number },
+    onChunk: (chunk: Blob) => void,
+    onStop: () => void,
+  ): MediaRecorder => {
+    const mediaRecorder = new MediaRecorder(stream, {
+      mimeType: options.mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond,
+    })
 
     mediaRecorder.addEventListener("dataavailable", (event) => {
       if (event.data.size > 0) {
-        recordedChunks.push(event.data)
+        onChunk(event.data)
       }
     })
 
-    mediaRecorder.addEventListener("stop", () => {
-      const blob = new Blob(recordedChunks, { type: "video/webm" })
-      onDataAvailable(blob)
-    })
+    mediaRecorder.addEventListener("stop", () => onStop())
 
-    mediaRecorder.start()
+    mediaRecorder.start(finalConfig.RECORD_TIMESLICE)
     return mediaRecorder
   }
 
@@ -326,7 +449,11 @@ const createCameraClient = (config: CameraConfig = {}) => {
     setupWithVideo,
     getAvailableDevices,
     startQrScan,
+    startDocumentDetection,
     capture,
+    grabFrame,
+    captureDocument,
+    getAudioStream,
     startRecord,
     cleanupStream,
   }
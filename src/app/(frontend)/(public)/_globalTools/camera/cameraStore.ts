@@ -1,6 +1,59 @@
 import { useExternalStore } from "../_hooks/atoms/useExternalStore"
+import { MediaDeviceError, toMediaDeviceError } from "../_hooks/media/mediaDeviceError"
+import { createStreamMonitor, type StreamLossReason, type StreamMonitor } from "../_hooks/media/streamMonitor"
+import { getCurrentLocation, type FileMetadata, type GeoLocation } from "../_hooks/metadata/fileMetadata"
 import { type SavedToolFileResult } from "../_hooks/useToolActionStore"
+import type { ScanResult } from "./barcode/scanResult"
 import { createCameraClient, type CameraConfig } from "./cameraClient"
+import {
+  DEFAULT_DRIVE_SETTINGS,
+  startCountdown,
+  startRepeating,
+  type DriveMode,
+  type DriveSettings,
+} from "./captureSequence"
+import type { Quad } from "./document/detectQuad"
+import {
+  DEFAULT_RECORDING_PROFILE,
+  isOverRecordingLimit,
+  loadRecordingProfile,
+  normalizeRecordingProfile,
+  pickRecordingMimeType,
+  RECORDING_QUALITIES,
+  recordingVideoConstraints,
+  saveRecordingProfile,
+  type RecordingProfile,
+  type RecordingQuality,
+} from "./recordingProfile"
+import {
+  applyExposureCompensation,
+  applyFocusAt,
+  applyTorch,
+  applyZoom,
+  DEFAULT_CONTROLS,
+  NO_CAPABILITIES,
+  probeCapabilities,
+  readControls,
+  type CameraCapabilities,
+  type CameraControls,
+} from "./trackControls"
+import {
+  createVideoRecordingSession,
+  discardOrphanedVideoRecording,
+  findOrphanedVideoRecordings,
+  restoreOrphanedVideoRecording,
+  type OrphanedVideoRecording,
+  type VideoRecordingSession,
+} from "./videoRecordingSession"
+
+/**
+ * 書類モードで検出中の輪郭（quad は映像に対して 0〜1 に正規化。frameWidth/Height は映像の大きさ）
+ */
+export interface DocumentOutline {
+  quad: Quad
+  frameWidth: number
+  frameHeight: number
+}
 
 interface CameraState {
   isAvailable: boolean | null // null:初期化中、true:利用可能、false:利用不可
@@ -12,17 +65,42 @@ interface CameraState {
   deviceId: string | null
   facingMode: "user" | "environment"
   availableDevices: MediaDeviceInfo[]
-  scannedData: string | null
-  error: Error | null
+  scannedData: ScanResult | null
+  error: Error | null // カメラ自体のエラーは MediaDeviceError（code で種類、recoverable で自動復帰の可否が分かる）
+  isRecovering: boolean // 止まったストリームを取り直している
   aspectRatio: number | null
   deviceOrientation: number // デバイスの物理的な向き 0, 90, 180, 270
+  capabilities: CameraCapabilities // 現在のトラックが対応している制御
+  controls: CameraControls // 現在の設定値
+  captureMode: "photo" | "document" // document: 書類の輪郭を検出し、台形補正して保存する
+  documentOutline: DocumentOutline | null
+  driveMode: DriveMode // シャッターの動作（1枚・連写・セルフタイマー・インターバル）
+  driveSettings: DriveSettings
+  countdown: number | null // セルフタイマーの残り秒数
+  sequence: { kind: SequenceKind; count: number } | null // 連写・インターバル撮影の進行状況（撮れた枚数）
+  recordingProfile: RecordingProfile // 動画撮影の設定（カメラごとに保存）
+  recordedBytes: number // 録画中に書き出したデータ量
+  orphanedRecordings: OrphanedVideoRecording[] // 前回途中で落ちて保存されなかった録画
+}
+
+type SequenceKind = "burst" | "interval"
+
+export interface SequenceResult {
+  kind: SequenceKind
+  count: number
+  timelapse: boolean // タイムラプス動画も保存したか
 }
 
 export interface CameraExternalActions {
   addPreview?: (url: string) => string
   saveFile?: (
     file: Blob | File,
-    options?: { fileName?: string; idbKey?: string; category?: string },
+    options?: { fileName?: string; idbKey?: string; category?: string; metadata?: FileMetadata },
+  ) => Promise<SavedToolFileResult>
+  // 連写・インターバル撮影用（DB への登録をまとめて後から行う）
+  queueSave?: (
+    file: Blob | File,
+    options?: { fileName?: string; idbKey?: string; category?: string; metadata?: FileMetadata },
   ) => Promise<SavedToolFileResult>
   getFileWithUrl?: (idbKey: string) => Promise<string | null>
   deleteFile?: (idbKey: string, dbId: string) => Promise<void>
@@ -30,21 +108,30 @@ export interface CameraExternalActions {
 
 interface CameraStateInternal extends CameraState {
   stream: MediaStream | null
+  streamMonitor: StreamMonitor | null
   videoElement: HTMLVideoElement | null
   canvasElement: HTMLCanvasElement | null
   mediaRecorder: MediaRecorder | null
+  recordCompleteCallback: ((blob: Blob) => void | Promise<void>) | null
+  recordingSession: VideoRecordingSession | null // 録画中のチャンクの書き出し先
   scanStopper: (() => void) | null
-  recordedBlob: Blob | null
+  documentDetectionStopper: (() => void) | null
+  countdownStopper: (() => void) | null
+  sequenceStopper: (() => void) | null
   aspectRatio: number | null
   orientationListener: ((e: DeviceOrientationEvent) => void) | null
+  lastLocation: GeoLocation | null // 撮影に添える位置情報（許可済みの場合のみ取得）
   externalActions: CameraExternalActions
   callbacks: {
-    onScan?: (data: string) => void
+    onScan?: (result: ScanResult) => void
     onCapture?: (url: string | null) => void
     onSelect?: () => void
   }
 }
 
+// タイムラプス用に1回のインターバル撮影で溜める写真の上限
+const TIMELAPSE_MAX_FRAMES = 300
+
 let cameraClient: ReturnType<typeof createCameraClient> | null = null
 const state: CameraStateInternal = {
   isAvailable: true, // Optimistic display
@@ -58,15 +145,33 @@ const state: CameraStateInternal = {
   availableDevices: [],
   scannedData: null,
   error: null,
+  isRecovering: false,
   stream: null,
+  streamMonitor: null,
   videoElement: null,
   canvasElement: null,
   mediaRecorder: null,
+  recordCompleteCallback: null,
+  recordingSession: null,
   scanStopper: null,
-  recordedBlob: null,
   aspectRatio: null,
   deviceOrientation: 0,
+  capabilities: NO_CAPABILITIES,
+  controls: DEFAULT_CONTROLS,
+  captureMode: "photo",
+  documentOutline: null,
+  documentDetectionStopper: null,
+  driveMode: "single",
+  driveSettings: DEFAULT_DRIVE_SETTINGS,
+  countdown: null,
+  sequence: null,
+  recordingProfile: DEFAULT_RECORDING_PROFILE,
+  recordedBytes: 0,
+  orphanedRecordings: [],
+  countdownStopper: null,
+  sequenceStopper: null,
   orientationListener: null,
+  lastLocation: null,
   externalActions: {},
   callbacks: {},
 }
@@ -85,8 +190,20 @@ const serverSnapshot: CameraState = {
   availableDevices: [],
   scannedData: null,
   error: null,
+  isRecovering: false,
   aspectRatio: null,
   deviceOrientation: 0,
+  capabilities: NO_CAPABILITIES,
+  controls: DEFAULT_CONTROLS,
+  captureMode: "photo",
+  documentOutline: null,
+  driveMode: "single",
+  driveSettings: DEFAULT_DRIVE_SETTINGS,
+  countdown: null,
+  sequence: null,
+  recordingProfile: DEFAULT_RECORDING_PROFILE,
+  recordedBytes: 0,
+  orphanedRecordings: [],
 }
 
 // Cache for getSnapshot to avoid infinite loops
@@ -125,8 +242,20 @@ const getSnapshot = (): CameraState => {
       availableDevices: state.availableDevices,
       scannedData: state.scannedData,
       error: state.error,
+      isRecovering: state.isRecovering,
       aspectRatio: state.aspectRatio,
       deviceOrientation: state.deviceOrientation,
+      capabilities: state.capabilities,
+      controls: state.controls,
+      captureMode: state.captureMode,
+      documentOutline: state.documentOutline,
+      driveMode: state.driveMode,
+      driveSettings: state.driveSettings,
+      countdown: state.countdown,
+      sequence: state.sequence,
+      recordingProfile: state.recordingProfile,
+      recordedBytes: state.recordedBytes,
+      orphanedRecordings: state.orphanedRecordings,
     }
     currentVersion = snapshotVersion
   }
@@ -148,7 +277,14 @@ const setup = async (
     state.videoElement = videoElement
     state.canvasElement = canvasElement
     const targetFacingMode = facingMode || state.facingMode
-    state.stream = await client.setupWithVideo(videoElement, deviceId, targetFacingMode)
+    // 開く前はどのカメラになるか分からないので、指定（なければ前回）のカメラの解像度で開く
+    const { quality } = loadRecordingProfile(deviceId ?? state.deviceId)
+    state.stream = await client.setupWithVideo(
+      videoElement,
+      deviceId,
+      targetFacingMode,
+      recordingVideoConstraints(quality),
+    )
     // ストリームから実際の設定を取得
     const track = state.stream.getVideoTracks()[0]
     const settings = track.getSettings()
@@ -158,21 +294,90 @@ const setup = async (
     state.facingMode = (settings.facingMode as "user" | "environment") || targetFacingMode
     state.isMirror = state.facingMode === "user"
     state.isAvailable = true
+    state.error = null
+    watchStream(state.stream)
+    // ズーム・ライトなどの対応状況はカメラごとに異なるので、ストリームを開くたびに調べ直す
+    state.capabilities = probeCapabilities(track)
+    state.controls = readControls(track, state.capabilities)
+    // 実際に開いたカメラの録画設定に切り替え、解像度が違えば合わせ直す
+    state.recordingProfile = loadRecordingProfile(state.deviceId)
+    if (state.recordingProfile.quality !== quality) await applyRecordingQuality(state.recordingProfile.quality)
 
     // プレビュー補正（非ミラーのまま、フロント×横向きで上下反転する症状を抑制）
     applyPreviewOrientationFix()
     // デバイス一覧も更新
     await getAvailableDevices()
+    refreshLocation()
     notify()
   } catch (error) {
-    const cameraError = error instanceof Error ? error : new Error("Camera initialization failed")
+    const cameraError = toMediaDeviceError(error, "camera")
     state.isAvailable = false
     state.error = cameraError
+    if (cameraError.recoverable) {
+      // 他のアプリが使用中などは、画面に戻ったとき・デバイスが変わったときにまた取り直す
+      state.streamMonitor?.attach(null)
+    } else {
+      state.streamMonitor?.stop()
+      state.streamMonitor = null
+    }
     notify()
     throw cameraError
   }
 }
 
+/**
+ * ストリームが止まったら取り直すよう監視する（モーダルを閉じる cleanup まで続ける）
+ */
+const watchStream = (stream: MediaStream): void => {
+  if (!state.streamMonitor) {
+    state.streamMonitor = createStreamMonitor({
+      onLost: (reason) => void recoverStream(reason),
+      onDeviceChange: () => {
+        getAvailableDevices().catch((error) => {
+          console.warn("[CameraStore] Failed to refresh devices:", error)
+        })
+      },
+    })
+  }
+  state.streamMonitor.attach(stream)
+}
+
+/**
+ * 止まったストリームを、前と同じカメラ（deviceId / facingMode）で取り直す
+ * 撮影中の動作は止め、録画中ならそこまでを保存する。取り直せたら QR スキャン（書類モードなら輪郭検出）を再開する
+ */
+const recoverStream = async (reason: StreamLossReason): Promise<void> => {
+  const { videoElement, canvasElement } = state
+  if (!videoElement || !canvasElement || state.isRecovering) return
+  console.warn(`[CameraStore] Stream lost (${reason}), reconnecting...`)
+  state.isRecovering = true
+  notify()
+  stopQrScan()
+  if (state.documentDetectionStopper) {
+    state.documentDetectionStopper()
+    state.documentDetectionStopper = null
+  }
+  cancelSelfTimer()
+  stopSequence()
+  if (state.mediaRecorder) stopRecord(saveRecording)
+  if (state.stream) {
+    getCameraClient().cleanupStream(state.stream)
+    state.stream = null
+  }
+  try {
+    await setup(videoElement, canvasElement, state.deviceId ?? undefined, state.facingMode)
+    // 取り直している間にモーダルが閉じられた
+    if (state.videoElement !== videoElement) return
+    if (state.captureMode === "document") startDocumentDetection()
+    else startQrScan()
+  } catch {
+    // setup が state.error に種類の分かるエラーを入れている
+  } finally {
+    state.isRecovering = false
+    notify()
+  }
+}
+
 const applyPreviewOrientationFix = (): void => {
   if (!state.videoElement) return
   // 撮影はcanvas側で補正済み。ここではプレビューのみを最小限補正する。
@@ -227,21 +432,21 @@ const switchDevice = async (deviceId?: string): Promise<void> => {
 }
 
 const startQrScan = (): void => {
-  if (!state.videoElement || !state.canvasElement || !state.isQrEnabled) {
-    // クリーンアップ済み、初期化前、またはQR無効時はスキャンを開始しない
+  if (!state.videoElement || !state.canvasElement || !state.isQrEnabled || state.captureMode !== "photo") {
+    // クリーンアップ済み、初期化前、QR無効時、または書類モードではスキャンを開始しない
     return
   }
   const client = getCameraClient()
   state.isScanning = true
   state.scannedData = null
   notify()
-  state.scanStopper = client.startQrScan(state.videoElement, state.canvasElement, (data) => {
-    if (state.scannedData !== data) {
-      state.scannedData = data
+  state.scanStopper = client.startQrScan(state.videoElement, state.canvasElement, (result) => {
+    if (state.scannedData?.rawValue !== result.rawValue) {
+      state.scannedData = result
       notify()
       // 外部アクションが登録されていれば実行し、データをクリアする
       if (state.callbacks.onScan) {
-        state.callbacks.onScan(data)
+        state.callbacks.onScan(result)
         state.scannedData = null
         notify()
       }
@@ -284,6 +489,65 @@ const setQrEnabled = (enabled: boolean): void => {
   notify()
 }
 
+const startDocumentDetection = (): void => {
+  if (!state.videoElement || state.documentDetectionStopper) return
+  const client = getCameraClient()
+  state.documentDetectionStopper = client.startDocumentDetection(state.videoElement, (quad, frame) => {
+    if (!quad && !state.documentOutline) return
+    state.documentOutline = quad ? { quad, frameWidth: frame.width, frameHeight: frame.height } : null
+    notify()
+  })
+}
+
+const stopDocumentDetection = (): void => {
+  if (state.documentDetectionStopper) {
+    state.documentDetectionStopper()
+    state.documentDetectionStopper = null
+  }
+  state.documentOutline = null
+  notify()
+}
+
+/**
+ * 撮影モードの切り替え。書類モードの間は QR スキャンを止めて輪郭検出だけを動かす
+ */
+const setCaptureMode = (mode: CameraState["captureMode"]): void => {
+  if (state.captureMode === mode) return
+  state.captureMode = mode
+  if (mode === "document") {
+    stopQrScan()
+    startDocumentDetection()
+  } else {
+    stopDocumentDetection()
+    if (!state.isRecording) startQrScan()
+  }
+  notify()
+}
+
+/**
+ * 位置情報を取り直す（撮影を待たせないよう、前回取得した値を次の撮影に使う）
+ */
+const refreshLocation = (): void => {
+  void getCurrentLocation()
+    .then((location) => {
+      if (location) state.lastLocation = location
+    })
+    .catch(() => {})
+}
+
+/**
+ * 撮影に添えるメタデータ（位置情報は前回取得した値を使い、次の撮影に向けて取り直す）
+ */
+const takeShotMetadata = (): FileMetadata => {
+  const metadata: FileMetadata = {
+    orientation: state.deviceOrientation,
+    capturedAt: new Date().toISOString(),
+    ...(state.lastLocation ? { location: state.lastLocation } : {}),
+  }
+  refreshLocation()
+  return metadata
+}
+
 const capture = async (
   onComplete?: (url: string | null, blob?: Blob | null) => void,
   options?: { skipSave?: boolean },
@@ -304,6 +568,7 @@ const capture = async (
     notify()
   }, 80)
   let tempId: string | undefined = undefined
+  const metadata = takeShotMetadata()
   const capturePromise = client.capture(
     state.videoElement,
     state.canvasElement,
@@ -324,7 +589,7 @@ const capture = async (
       }
       // 2. 本番通知（blobあり）の場合
       if (!options?.skipSave && state.externalActions.saveFile) {
-        state.externalActions.saveFile(blob, { idbKey: tempId }).catch((e) => {
+        state.externalActions.saveFile(blob, { idbKey: tempId, metadata }).catch((e) => {
           console.error("Failed to persist captured image:", e)
         })
       }
@@ -340,35 +605,424 @@ const capture = async (
   notify()
 }
 
-const startRecord = (): void => {
+const setDriveMode = (mode: DriveMode): void => {
+  cancelSelfTimer()
+  stopSequence()
+  state.driveMode = mode
+  notify()
+}
+
+const setDriveSettings = (settings: Partial<DriveSettings>): void => {
+  state.driveSettings = { ...state.driveSettings, ...settings }
+  notify()
+}
+
+/**
+ * セルフタイマー: driveSettings.timerSeconds 秒数えてから capture する
+ */
+const startSelfTimer = (...args: Parameters<typeof capture>): void => {
+  if (state.countdownStopper || !state.videoElement) return
+  state.countdownStopper = startCountdown(
+    state.driveSettings.timerSeconds,
+    (remaining) => {
+      state.countdown = remaining
+      notify()
+    },
+    () => {
+      state.countdownStopper = null
+      state.countdown = null
+      notify()
+      void capture(...args)
+    },
+  )
+}
+
+const cancelSelfTimer = (): void => {
+  if (!state.countdownStopper) return
+  state.countdownStopper()
+  state.countdownStopper = null
+  state.countdown = null
+  notify()
+}
+
+/**
+ * 連写（burst）・インターバル撮影（interval）を始める。stopSequence か上限の枚数で終わる
+ * 各フレームは再生を止めずに切り出し、queueSave でまとめて保存する（プレビューを止めない）
+ * インターバル撮影で timelapse が有効なら、終了時に撮った写真から WebM を作って保存する
+ */
+const startSequence = (kind: SequenceKind, onFinish?: (result: SequenceResult) => void): void => {
+  const video = state.videoElement
+  const canvas = state.canvasElement
+  if (!video || !canvas || state.sequence || state.isRecording) return
+  const client = getCameraClient()
+  // フレームの切り出しにキャンバスを使うので、その間はスキャンを止める
+  const wasScanning = state.isScanning
+  if (wasScanning) stopQrScan()
+  const { burstFps, burstMaxFrames, intervalSeconds, timelapse } = state.driveSettings
+  const withTimelapse = kind === "interval" && timelapse
+  const startedAt = Date.now()
+  const frames: Blob[] = []
+  const shots: Promise<void>[] = []
+  let count = 0
+  state.sequence = { kind, count: 0 }
+  notify()
+
+  const shoot = (index: number) => {
+    const shot = client.grabFrame(video, canvas, state.deviceOrientation).then((blob) => {
+      if (!blob) return
+      if (withTimelapse) frames.push(blob)
+      count++
+      state.sequence = { kind, count }
+      notify()
+      const save = state.externalActions.queueSave ?? state.externalActions.saveFile
+      save?.(blob, {
+        fileName: `${kind}_${startedAt}_${String(index + 1).padStart(3, "0")}.jpg`,
+        metadata: takeShotMetadata(),
+      }).catch((e) => {
+        console.error("[CameraStore] Failed to persist sequence frame:", e)
+      })
+    })
+    shots.push(shot)
+    return shot
+  }
+
+  const finish = async () => {
+    state.sequenceStopper = null
+    await Promise.allSettled(shots)
+    state.sequence = null
+    if (wasScanning) startQrScan()
+    notify()
+    let savedTimelapse = false
+    if (withTimelapse && frames.length >= 2 && state.externalActions.saveFile) {
+      try {
+        const { createTimelapse } = await import("./timelapse")
+        const movie = await createTimelapse(frames)
+        await state.externalActions.saveFile(movie, { fileName: `timelapse_${startedAt}.webm` })
+        savedTimelapse = true
+      } catch (error) {
+        console.error("[CameraStore] Failed to create time-lapse:", error)
+      }
+    }
+    onFinish?.({ kind, count, timelapse: savedTimelapse })
+  }
+
+  state.sequenceStopper = startRepeating(kind === "burst" ? 1000 / burstFps : intervalSeconds * 1000, shoot, {
+    // タイムラプスは写真をメモリに溜めるので枚数を抑える
+    maxCount: kind === "burst" ? burstMaxFrames : withTimelapse ? TIMELAPSE_MAX_FRAMES : Infinity,
+    onFinish: () => void finish(),
+  })
+}
+
+const stopSequence = (): void => {
+  state.sequenceStopper?.()
+}
+
+/**
+ * 書類を撮影する: 検出中の輪郭で台形補正・コントラスト補正した画像を保存する
+ * 補正はメインスレッドで行うため、処理中は isCapturing のままにしてシャッターを押せないようにする
+ */
+const captureDocument = async (options?: { skipSave?: boolean }): Promise<Blob | null> => {
+  if (!state.videoElement || !state.canvasElement || state.isCapturing) return null
+  const client = getCameraClient()
+  const quad = state.documentOutline?.quad ?? null
+  const metadata: FileMetadata = {
+    capturedAt: new Date().toISOString(),
+    ...(state.lastLocation ? { location: state.lastLocation } : {}),
+  }
+  refreshLocation()
+  state.isCapturing = true
+  notify()
+  try {
+    const blob = await client.captureDocument(state.videoElement, state.canvasElement, quad)
+    if (!blob) return null
+    if (!options?.skipSave && state.externalActions.saveFile) {
+      state.externalActions
+        .saveFile(blob, { fileName: `document_${Date.now()}.jpg`, category: "camera", metadata })
+        .catch((e) => {
+          console.error("[CameraStore] Failed to persist scanned document:", e)
+        })
+    }
+    return blob
+  } catch (error) {
+    console.error("[CameraStore] Document capture failed:", error)
+    return null
+  } finally {
+    state.isCapturing = false
+    notify()
+  }
+}
+
+/**
+ * 映像トラックに制御を適用する。トラックがない・非対応・適用に失敗した場合は null（何もしない）
+ * 失敗しても撮影は続けられるので、警告のみ出して状態は変えない
+ */
+const applyTrackControl = async <T>(
+  label: string,
+  task: (track: MediaStreamTrack, capabilities: CameraCapabilities) => Promise<T | null>,
+): Promise<T | null> => {
+  const track = state.stream?.getVideoTracks()[0]
+  if (!track || track.readyState !== "live") return null
+  try {
+    return await task(track, state.capabilities)
+  } catch (error) {
+    console.warn(`[CameraStore] Failed to apply ${label}:`, error)
+    return null
+  }
+}
+
+const setZoom = async (value: number): Promise<void> => {
+  const zoom = await applyTrackControl("zoom", (track, capabilities) => applyZoom(track, capabilities, value))
+  if (zoom === null) return
+  state.controls = { ...state.controls, zoom }
+  notify()
+}
+
+const setTorch = async (on: boolean): Promise<void> => {
+  const torch = await applyTrackControl("torch", (track, capabilities) => applyTorch(track, capabilities, on))
+  if (torch === null) return
+  state.controls = { ...state.controls, torch }
+  notify()
+}
+
+const setExposureCompensation = async (value: number): Promise<void> => {
+  const exposureCompensation = await applyTrackControl("exposure compensation", (track, capabilities) =>
+    applyExposureCompensation(track, capabilities, value),
+  )
+  if (exposureCompensation === null) return
+  state.controls = { ...state.controls, exposureCompensation }
+  notify()
+}
+
+/**
+ * 映像上の位置（0〜1 に正規化した座標）にピントを合わせる。合わせられたら true
+ */
+const focusAt = async (x: number, y: number): Promise<boolean> => {
+  const focused = await applyTrackControl("focus", (track, capabilities) => applyFocusAt(track, capabilities, x, y))
+  return focused === true
+}
+
+/**
+ * 録画の解像度をストリームに反映する（開き直さずに制約だけ変える）
+ */
+const applyRecordingQuality = async (quality: RecordingQuality): Promise<void> => {
+  const applied = await applyTrackControl("recording resolution", async (track) => {
+    await track.applyConstraints({ ...track.getConstraints(), ...recordingVideoConstraints(quality) })
+    return track.getSettings()
+  })
+  if (!applied) return
+  const { width, height } = applied
+  if (width && height) state.aspectRatio = width / height
+  notify()
+}
+
+/**
+ * 録画の設定を変えて、いまのカメラの設定として保存する（録画中は変えない）
+ * 解像度だけを変えたときは、ビットレートもその解像度の標準に合わせる
+ */
+const setRecordingProfile = async (patch: Partial<RecordingProfile>): Promise<void> => {
+  if (state.isRecording) return
+  const previous = state.recordingProfile
+  const qualityChanged = patch.quality !== undefined && patch.quality !== previous.quality
+  state.recordingProfile = normalizeRecordingProfile({
+    ...previous,
+    ...(qualityChanged ? { videoBitsPerSecond: RECORDING_QUALITIES[patch.quality!].videoBitsPerSecond } : {}),
+    ...patch,
+  })
+  saveRecordingProfile(state.deviceId, state.recordingProfile)
+  notify()
+  if (qualityChanged) await applyRecordingQuality(state.recordingProfile.quality)
+}
+
+/**
+ * 録画を始める。データは録画中から IndexedDB に書き出す（長い録画でもメモリに溜めない）
+ * 設定の上限（時間・サイズ）に達したら自動で止め、onLimitReached に録画を渡す
+ */
+const startRecord = async (onLimitReached?: (blob: Blob) => void | Promise<void>): Promise<void> => {
   if (!state.stream) {
-    state.error = new Error("Media stream is not available")
+    state.error = new MediaDeviceError("stream-interrupted", "camera", { message: "Media stream is not available" })
     notify()
     return
   }
+  if (state.isRecording) return
   const client = getCameraClient()
+  const profile = state.recordingProfile
   state.isRecording = true
+  state.recordedBytes = 0
   notify()
-  state.mediaRecorder = client.startRecord(state.stream, (blob) => {
-    state.recordedBlob = blob
+  const audioStream = profile.audio
+    ? await client.getAudioStream().catch((error) => {
+        // マイクが使えなくても映像だけで録画する
+        console.warn("[CameraStore] Microphone is not available, recording without audio:", error)
+        return null
+      })
+    : null
+  // マイクの許可を待つ間に止められた・カメラが閉じられた
+  if (!state.isRecording || !state.stream) {
+    audioStream?.getTracks().forEach((track) => track.stop())
+    return
+  }
+  const stream = audioStream
+    ? new MediaStream([...state.stream.getVideoTracks(), ...audioStream.getAudioTracks()])
+    : state.stream
+  const mimeType = pickRecordingMimeType(profile.codecs)
+  let session: VideoRecordingSession
+  try {
+    session = await createVideoRecordingSession({ mimeType: mimeType ?? "" })
+  } catch (error) {
+    audioStream?.getTracks().forEach((track) => track.stop())
+    console.error("[CameraStore] Failed to start recording session:", error)
+    state.error = new Error("Failed to start recording", { cause: error })
     state.isRecording = false
     notify()
-  })
-}
-
-const stopRecord = (onComplete: (blob: Blob) => void): void => {
-  if (!state.mediaRecorder) return
-  state.mediaRecorder.addEventListener(
-    "stop",
-    () => {
-      if (state.recordedBlob) {
-        onComplete(state.recordedBlob)
-        state.recordedBlob = null
+    return
+  }
+  // 書き出しの準備中に止められた・カメラが閉じられた
+  if (!state.isRecording || !state.stream) {
+    audioStream?.getTracks().forEach((track) => track.stop())
+    await session.discard()
+    return
+  }
+  const startedAt = Date.now()
+  let reachedLimit = false
+  const recorder = client.startRecord(
+    stream,
+    { mimeType, videoBitsPerSecond: profile.videoBitsPerSecond },
+    (chunk) => {
+      session.write(chunk).catch((error) => {
+        // 容量不足などで書き出せなければ録画を止める
+        console.error("[CameraStore] Failed to write recording chunk:", error)
+        if (recorder.state !== "inactive") recorder.stop()
+      })
+      state.recordedBytes = session.bytes
+      if (!reachedLimit && isOverRecordingLimit(profile, { elapsedMs: Date.now() - startedAt, bytes: session.bytes })) {
+        reachedLimit = true
+        if (recorder.state !== "inactive") recorder.stop()
       }
+      notify()
+    },
+    () => {
+      audioStream?.getTracks().forEach((track) => track.stop())
+      // コーデック指定（;codecs=...）を除いた形式で保存する
+      const type = (recorder.mimeType || mimeType || "video/webm").split(";")[0]
+      void finishRecord(session, type, reachedLimit ? onLimitReached : undefined)
     },
-    { once: true },
   )
-  state.mediaRecorder.stop()
+  state.mediaRecorder = recorder
+  state.recordingSession = session
+}
+
+/**
+ * 書き出した録画をまとめて受け取り側に渡し、渡し終えたら書き出した分を消す
+ * 受け取り側がない・まとめられない・保存できなかった場合は書き出した分を残し、途中で落ちた録画として復元を勧める
+ */
+const finishRecord = async (
+  session: VideoRecordingSession,
+  type: string,
+  onLimitReached?: (blob: Blob) => void | Promise<void>,
+): Promise<void> => {
+  // カメラを閉じたときは cleanup でチャンクを残して手放している
+  if (state.recordingSession !== session) return
+  state.recordingSession = null
+  let blob: Blob | null = null
+  try {
+    blob = await session.finish(type)
+  } catch (error) {
+    console.error("[CameraStore] Failed to assemble recording:", error)
+    state.error = new Error("Failed to save recording", { cause: error })
+  }
+  const onComplete = state.recordCompleteCallback ?? onLimitReached
+  state.recordCompleteCallback = null
+  state.mediaRecorder = null
+  state.isRecording = false
+  notify()
+  if (!blob || !onComplete) {
+    await session.abandon()
+    void findOrphanedRecordings()
+    return
+  }
+  try {
+    await onComplete(blob)
+    await session.discard()
+  } catch (error) {
+    console.error("[CameraStore] Failed to handle recorded video:", error)
+    await session.abandon()
+    void findOrphanedRecordings()
+  }
+}
+
+/**
+ * 録画を止める。まとめ終わった録画が onComplete に渡る（保存し終えるまで待つなら Promise を返す）
+ */
+const stopRecord = (onComplete: (blob: Blob) => void | Promise<void>): void => {
+  if (!state.mediaRecorder) {
+    // マイクの許可待ちの間に止められた
+    if (state.isRecording) {
+      state.isRecording = false
+      notify()
+    }
+    return
+  }
+  state.recordCompleteCallback = onComplete
+  if (state.mediaRecorder.state !== "inactive") state.mediaRecorder.stop()
+}
+
+/**
+ * 録画をファイルとして保存する
+ */
+const saveRecording = async (blob: Blob): Promise<void> => {
+  if (!state.externalActions.saveFile) return
+  const extension = blob.type === "video/mp4" ? "mp4" : "webm"
+  await state.externalActions.saveFile(blob, {
+    fileName: `video_${Date.now()}.${extension}`,
+    metadata: takeShotMetadata(),
+  })
+}
+
+/**
+ * 前回途中で落ちた録画を探す（モーダルを開いたときに呼ぶ）
+ */
+const findOrphanedRecordings = async (): Promise<void> => {
+  try {
+    state.orphanedRecordings = await findOrphanedVideoRecordings()
+    notify()
+  } catch (error) {
+    console.warn("[CameraStore] Failed to look for unsaved recordings:", error)
+  }
+}
+
+/**
+ * 途中で落ちた録画を復元して保存する（保存できたものから候補を消す）
+ */
+const restoreOrphanedRecordings = async (): Promise<SavedToolFileResult[]> => {
+  const { saveFile } = state.externalActions
+  if (!saveFile) return []
+  const results: SavedToolFileResult[] = []
+  for (const orphan of state.orphanedRecordings) {
+    try {
+      const blob = await restoreOrphanedVideoRecording(orphan)
+      const { startedAt } = orphan.manifest
+      const result = await saveFile(blob, {
+        fileName: `video_${new Date(startedAt).getTime()}.${blob.type === "video/mp4" ? "mp4" : "webm"}`,
+        metadata: { capturedAt: startedAt },
+      })
+      await discardOrphanedVideoRecording(orphan)
+      results.push(result)
+      state.orphanedRecordings = state.orphanedRecordings.filter((o) => o !== orphan)
+      notify()
+    } catch (error) {
+      state.error = new Error("Failed to restore the unsaved recording", { cause: error })
+      notify()
+      break
+    }
+  }
+  return results
+}
+
+const discardOrphanedRecordings = async (): Promise<void> => {
+  const orphans = state.orphanedRecordings
+  state.orphanedRecordings = []
+  notify()
+  await Promise.all(orphans.map((orphan) => discardOrphanedVideoRecording(orphan)))
 }
 
 const startOrientationTracking = (): void => {
@@ -403,11 +1057,22 @@ const stopOrientationTracking = (): void => {
 }
 
 const cleanup = (): void => {
+  state.streamMonitor?.stop()
+  state.streamMonitor = null
   stopQrScan()
+  stopDocumentDetection()
+  cancelSelfTimer()
+  stopSequence()
   stopOrientationTracking()
-  if (state.mediaRecorder?.state === "recording") {
+  // 録画中に閉じた場合は、チャンクを残して次に開いたときに復元できるようにする
+  if (state.mediaRecorder && state.mediaRecorder.state !== "inactive") {
+    const session = state.recordingSession
+    state.recordingSession = null
+    state.mediaRecorder.addEventListener("stop", () => void session?.abandon())
     state.mediaRecorder.stop()
   }
+  state.mediaRecorder = null
+  state.recordCompleteCallback = null
   if (state.stream) {
     const client = getCameraClient()
     client.cleanupStream(state.stream)
@@ -421,7 +1086,11 @@ const cleanup = (): void => {
   state.isQrEnabled = true // デフォルトに戻す
   state.isRecording = false
   state.isCapturing = false
+  state.isRecovering = false
   state.aspectRatio = null
+  state.capabilities = NO_CAPABILITIES
+  state.controls = DEFAULT_CONTROLS
+  state.captureMode = "photo"
   state.callbacks = {}
   notify()
 }
@@ -441,8 +1110,15 @@ const _internal_reset = (): void => {
   state.videoElement = null
   state.canvasElement = null
   state.mediaRecorder = null
-  state.recordedBlob = null
+  state.recordCompleteCallback = null
+  state.recordingSession = null
+  state.recordedBytes = 0
+  state.orphanedRecordings = []
+  state.recordingProfile = DEFAULT_RECORDING_PROFILE
   state.deviceOrientation = 0
+  state.lastLocation = null
+  state.driveMode = "single"
+  state.driveSettings = DEFAULT_DRIVE_SETTINGS
   state.externalActions = {}
   // バージョンをリセットして新しいスナップショットを生成
   currentVersion++
@@ -458,9 +1134,26 @@ const cameraActions = {
   stopQrScan,
   setQrEnabled,
   clearScannedData,
+  setCaptureMode,
   capture,
+  captureDocument,
+  setDriveMode,
+  setDriveSettings,
+  startSelfTimer,
+  cancelSelfTimer,
+  startSequence,
+  stopSequence,
+  setZoom,
+  setTorch,
+  setExposureCompensation,
+  focusAt,
+  setRecordingProfile,
   startRecord,
   stopRecord,
+  saveRecording,
+  findOrphanedRecordings,
+  restoreOrphanedRecordings,
+  discardOrphanedRecordings,
   setCallbacks,
   setExternalActions,
   startOrientationTracking,
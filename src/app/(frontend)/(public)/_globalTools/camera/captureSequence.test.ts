@@ -0,0 +1,89 @@
+/**
+ * captureSequence テスト
+ *
+ * セルフタイマーのカウントダウンと、連写・インターバル撮影の繰り返し（上限・中止・処理中の間引き）を検証する。
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { startCountdown, startRepeating } from "./captureSequence"
+
+describe("captureSequence", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe("startCountdown", () => {
+    it("1秒ごとに残り秒数を通知して 0 で onDone を呼ぶ", () => {
+      const onTick = vi.fn()
+      const onDone = vi.fn()
+      startCountdown(3, onTick, onDone)
+      expect(onTick.mock.calls.map(([remaining]) => remaining)).toEqual([3])
+      vi.advanceTimersByTime(2000)
+      expect(onTick.mock.calls.map(([remaining]) => remaining)).toEqual([3, 2, 1])
+      expect(onDone).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(1000)
+      expect(onDone).toHaveBeenCalledOnce()
+    })
+
+    it("中止すると onDone は呼ばれない", () => {
+      const onDone = vi.fn()
+      const cancel = startCountdown(3, () => {}, onDone)
+      vi.advanceTimersByTime(1500)
+      cancel()
+      vi.advanceTimersByTime(5000)
+      expect(onDone).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("startRepeating", () => {
+    it("1回目は即座に撮り、maxCount 回で onFinish を呼ぶ", async () => {
+      const task = vi.fn()
+      const onFinish = vi.fn()
+      startRepeating(200, task, { maxCount: 3, onFinish })
+      await vi.advanceTimersByTimeAsync(0)
+      expect(task).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(400)
+      expect(task.mock.calls.map(([index]) => index)).toEqual([0, 1, 2])
+      expect(onFinish).toHaveBeenCalledWith(3)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(task).toHaveBeenCalledTimes(3)
+    })
+
+    it("中止するとそこまでの枚数で onFinish を呼ぶ", async () => {
+      const task = vi.fn()
+      const onFinish = vi.fn()
+      const stop = startRepeating(100, task, { onFinish })
+      await vi.advanceTimersByTimeAsync(250)
+      stop()
+      stop()
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(task).toHaveBeenCalledTimes(3)
+      expect(onFinish).toHaveBeenCalledOnce()
+      expect(onFinish).toHaveBeenCalledWith(3)
+    })
+
+    it("前回の撮影が終わっていなければその回は飛ばす", async () => {
+      const task = vi.fn(() => new Promise<void>((resolve) => setTimeout(resolve, 250)))
+      const stop = startRepeating(100, task)
+      await vi.advanceTimersByTimeAsync(1000)
+      stop()
+      // 0ms・300ms・600ms・900ms にだけ撮る
+      expect(task).toHaveBeenCalledTimes(4)
+    })
+
+    it("撮影に失敗しても続ける", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const task = vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue(undefined)
+      const onFinish = vi.fn()
+      startRepeating(100, task, { maxCount: 2, onFinish })
+      await vi.advanceTimersByTimeAsync(200)
+      expect(task).toHaveBeenCalledTimes(2)
+      expect(onFinish).toHaveBeenCalledWith(2)
+      expect(warn).toHaveBeenCalledWith("[CaptureSequence] Shot failed:", expect.any(Error))
+      warn.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * 連写・セルフタイマー・インターバル撮影のタイミング制御
+ * 撮影そのものは呼び出し側のタスクに任せ、ここでは「いつ撮るか」だけを扱う
+ */
+
+export type DriveMode = "single" | "burst" | "timer" | "interval"
+
+export interface DriveSettings {
+  burstFps: number // 連写の速さ（枚/秒）
+  burstMaxFrames: number // 1回の連写の上限（押しっぱなしでも保存バッファを溢れさせない）
+  timerSeconds: 3 | 10
+  intervalSeconds: number
+  timelapse: boolean // インターバル撮影の終了時に WebM のタイムラプスを作る
+}
+
+export const DEFAULT_DRIVE_SETTINGS: DriveSettings = {
+  burstFps: 5,
+  burstMaxFrames: 30,
+  timerSeconds: 3,
+  intervalSeconds: 5,
+  timelapse: false,
+}
+
+/**
+ * 1秒ごとに残り秒数を通知し、0 になったら onDone を呼ぶ。戻り値で中止できる
+ */
+export const startCountdown = (
+  seconds: number,
+  onTick: (remaining: number) => void,
+  onDone: () => void,
+): (() => void) => {
+  let remaining = Math.max(0, Math.round(seconds))
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const tick = () => {
+    if (remaining <= 0) {
+      timer = null
+      onDone()
+      return
+    }
+    onTick(remaining)
+    remaining--
+    timer = setTimeout(tick, 1000)
+  }
+  tick()
+  return () => {
+    if (timer) clearTimeout(timer)
+    timer = null
+  }
+}
+
+/**
+ * intervalMs ごとに task を呼ぶ（1回目は即座に）。maxCount 回で終わり、戻り値で中止できる
+ * 前回の task が終わっていなければその回は飛ばす（遅い端末で撮影が積み重なってプレビューが止まるのを防ぐ）
+ */
+export const startRepeating = (
+  intervalMs: number,
+  task: (index: number) => void | Promise<void>,
+  options?: { maxCount?: number; onFinish?: (count: number) => void },
+): (() => void) => {
+  const maxCount = options?.maxCount ?? Infinity
+  let count = 0
+  let isRunning = true
+  let isBusy = false
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const finish = () => {
+    if (!isRunning) return
+    isRunning = false
+    if (timer) clearInterval(timer)
+    timer = null
+    options?.onFinish?.(count)
+  }
+
+  const run = () => {
+    if (!isRunning || isBusy) return
+    if (count >= maxCount) {
+      finish()
+      return
+    }
+    const index = count++
+    isBusy = true
+    Promise.resolve()
+      .then(() => task(index))
+      .catch((error) => console.warn("[CaptureSequence] Shot failed:", error))
+      .finally(() => {
+        isBusy = false
+        if (isRunning && count >= maxCount) finish()
+      })
+  }
+
+  run()
+  if (isRunning) timer = setInterval(run, Math.max(1, intervalMs))
+  return finish
+}
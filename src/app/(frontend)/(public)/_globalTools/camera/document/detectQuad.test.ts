@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+import { detectDocumentQuad, otsuThreshold, polygonArea, type ImageDataLike, type Point, type Quad } from "./detectQuad"
+
+const insidePolygon = (polygon: Point[], x: number, y: number) => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * 暗い机の上に明るい紙（polygon）を置いた画像。紙の上には文字の代わりに暗い横線を描く
+ */
+const createScene = (width: number, height: number, polygon: Point[], withText = true): ImageDataLike => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const isPaper = insidePolygon(polygon, x + 0.5, y + 0.5)
+      const isText = withText && isPaper && y % 12 < 2 && x % 40 > 8
+      // 机の木目の代わりに弱い模様を入れる
+      const value = isPaper ? (isText ? 60 : 225) : 50 + ((x * 7 + y * 3) % 11)
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+const toPixels = (quad: Quad, width: number, height: number) => quad.map((p) => ({ x: p.x * width, y: p.y * height }))
+
+describe("detectQuad", () => {
+  it("大津の方法で2つの山の間に閾値を置く", () => {
+    const values = new Float32Array([...Array(50).fill(10), ...Array(50).fill(200)])
+    const threshold = otsuThreshold(values)
+    expect(threshold).toBeGreaterThan(10)
+    expect(threshold).toBeLessThanOrEqual(200)
+    expect(otsuThreshold(new Float32Array(10))).toBe(0)
+  })
+
+  it("傾いた書類の四隅を左上から時計回りに検出する", () => {
+    const corners = [
+      { x: 52, y: 30 },
+      { x: 250, y: 44 },
+      { x: 238, y: 210 },
+      { x: 40, y: 196 },
+    ]
+    const quad = detectDocumentQuad(createScene(300, 240, corners))
+    expect(quad).not.toBeNull()
+    toPixels(quad!, 300, 240).forEach((p, i) => {
+      expect(Math.abs(p.x - corners[i].x)).toBeLessThan(4)
+      expect(Math.abs(p.y - corners[i].y)).toBeLessThan(4)
+    })
+  })
+
+  it("書類がない・小さすぎる・四角形でない場合は null", () => {
+    expect(detectDocumentQuad(createScene(200, 160, []))).toBeNull()
+    const small = [
+      { x: 90, y: 70 },
+      { x: 120, y: 70 },
+      { x: 120, y: 95 },
+      { x: 90, y: 95 },
+    ]
+    expect(detectDocumentQuad(createScene(200, 160, small))).toBeNull()
+    const circle = Array.from({ length: 48 }, (_, i) => ({
+      x: 100 + 60 * Math.cos((i / 48) * 2 * Math.PI),
+      y: 80 + 60 * Math.sin((i / 48) * 2 * Math.PI),
+    }))
+    expect(detectDocumentQuad(createScene(200, 160, circle, false))).toBeNull()
+  })
+
+  it("多角形の面積", () => {
+    expect(
+      polygonArea([
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 4, y: 3 },
+        { x: 0, y: 3 },
+      ]),
+    ).toBe(12)
+  })
+})
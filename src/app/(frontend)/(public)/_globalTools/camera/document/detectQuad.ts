@@ -0,0 +1,306 @@
+/**
+ * 書類の輪郭（四角形）検出
+ *
+ * 縮小したプレビュー画像に対して、以下を TypeScript だけで行う（オフラインでも動くよう外部ライブラリに頼らない）
+ * 1. グレースケール化とぼかし（ノイズや文字の細かいエッジを抑える）
+ * 2. Sobel フィルタでエッジの強さを求め、大津の方法で二値化
+ * 3. エッジで囲まれた領域のうち、画像の端に接していない最大のものを書類とみなす
+ * 4. その凸包から四隅を選び、大きさと四角形らしさを確認する
+ */
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** 左上・右上・右下・左下の順 */
+export type Quad = [Point, Point, Point, Point]
+
+export interface ImageDataLike {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+// 画像全体に対する面積がこれ未満の候補は書類とみなさない
+const MIN_AREA_RATIO = 0.15
+// 凸包に対する四角形の面積比。円や不定形の領域を除外する
+const MIN_RECTANGULARITY = 0.85
+// ノイズだけの平坦な画像でエッジが出ないよう、二値化の閾値に下限を設ける
+const MIN_EDGE_STRENGTH = 24
+// 前景には輪郭のエッジの幅が含まれるので、検出した四隅をその分だけ内側へ戻す（px）
+const EDGE_MARGIN = 2
+
+export const toGrayscale = ({ data, width, height }: ImageDataLike): Float32Array => {
+  const gray = new Float32Array(width * height)
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]
+  }
+  return gray
+}
+
+/**
+ * 3x3 のガウシアンぼかし（[1, 2, 1] を縦横に分けて適用。端は端の画素を延長する）
+ */
+const blur = (src: Float32Array, width: number, height: number): Float32Array => {
+  const tmp = new Float32Array(src.length)
+  const out = new Float32Array(src.length)
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    for (let x = 0; x < width; x++) {
+      const left = src[row + Math.max(0, x - 1)]
+      const right = src[row + Math.min(width - 1, x + 1)]
+      tmp[row + x] = (left + 2 * src[row + x] + right) / 4
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width
+    const down = Math.min(height - 1, y + 1) * width
+    const row = y * width
+    for (let x = 0; x < width; x++) {
+      out[row + x] = (tmp[up + x] + 2 * tmp[row + x] + tmp[down + x]) / 4
+    }
+  }
+  return out
+}
+
+const sobelMagnitude = (src: Float32Array, width: number, height: number): Float32Array => {
+  const magnitude = new Float32Array(src.length)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const tl = src[i - width - 1]
+      const t = src[i - width]
+      const tr = src[i - width + 1]
+      const l = src[i - 1]
+      const r = src[i + 1]
+      const bl = src[i + width - 1]
+      const b = src[i + width]
+      const br = src[i + width + 1]
+      const gx = tr + 2 * r + br - tl - 2 * l - bl
+      const gy = bl + 2 * b + br - tl - 2 * t - tr
+      magnitude[i] = Math.hypot(gx, gy)
+    }
+  }
+  return magnitude
+}
+
+/**
+ * 大津の方法（クラス間分散が最大になる閾値）
+ */
+export const otsuThreshold = (values: Float32Array): number => {
+  let max = 0
+  for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i]
+  if (max === 0) return 0
+  const bins = 256
+  const histogram = new Float64Array(bins)
+  for (let i = 0; i < values.length; i++) histogram[Math.min(bins - 1, Math.floor((values[i] / max) * bins))]++
+  let sumAll = 0
+  for (let i = 0; i < bins; i++) sumAll += i * histogram[i]
+  let weightBelow = 0
+  let sumBelow = 0
+  let best = 0
+  let bestVariance = -1
+  for (let i = 0; i < bins; i++) {
+    weightBelow += histogram[i]
+    if (weightBelow === 0) continue
+    const weightAbove = values.length - weightBelow
+    if (weightAbove === 0) break
+    sumBelow += i * histogram[i]
+    const meanBelow = sumBelow / weightBelow
+    const meanAbove = (sumAll - sumBelow) / weightAbove
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      best = i
+    }
+  }
+  return ((best + 1) / bins) * max
+}
+
+/**
+ * エッジを1画素ぶん膨張させ、途切れた輪郭をつなぐ
+ */
+const dilate = (edges: Uint8Array, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(edges.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy
+        if (ny < 0 || ny >= height) continue
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          if (nx >= 0 && nx < width) out[ny * width + nx] = 1
+        }
+      }
+    }
+  }
+  return out
+}
+
+/**
+ * 画像の端からエッジを越えずにたどれる画素を背景とし、残り（エッジで囲まれた部分とエッジ自身）を前景とする
+ * 前景を4近傍でつないだ領域のうち、画像の端に接していない最大のものの輪郭点（各行の左端・右端）を返す
+ * 紙の中の文字は紙の輪郭に囲まれているので、文字で内側が分断されても1つの領域にまとまる
+ */
+const largestEnclosedRegion = (edges: Uint8Array, width: number, height: number): Point[] | null => {
+  const BACKGROUND = -1
+  const labels = new Int32Array(edges.length)
+  const stack = new Int32Array(edges.length)
+  let top = 0
+  const fill = (i: number, label: number, canEnter: (j: number) => boolean) => {
+    if (labels[i] || !canEnter(i)) return
+    labels[i] = label
+    stack[top++] = i
+  }
+  const neighbors = (i: number, visit: (j: number) => void) => {
+    const x = i % width
+    const y = (i - x) / width
+    if (x > 0) visit(i - 1)
+    if (x < width - 1) visit(i + 1)
+    if (y > 0) visit(i - width)
+    if (y < height - 1) visit(i + width)
+  }
+
+  const isOpen = (j: number) => !edges[j]
+  for (let x = 0; x < width; x++) {
+    fill(x, BACKGROUND, isOpen)
+    fill((height - 1) * width + x, BACKGROUND, isOpen)
+  }
+  for (let y = 0; y < height; y++) {
+    fill(y * width, BACKGROUND, isOpen)
+    fill(y * width + width - 1, BACKGROUND, isOpen)
+  }
+  while (top > 0) neighbors(stack[--top], (j) => fill(j, BACKGROUND, isOpen))
+
+  let bestLabel = 0
+  let bestSize = 0
+  let label = 0
+  const isForeground = () => true
+  for (let start = 0; start < edges.length; start++) {
+    if (labels[start]) continue
+    label++
+    let size = 0
+    let touchesBorder = false
+    fill(start, label, isForeground)
+    while (top > 0) {
+      const i = stack[--top]
+      size++
+      const x = i % width
+      const y = (i - x) / width
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true
+      neighbors(i, (j) => fill(j, label, isForeground))
+    }
+    if (!touchesBorder && size > bestSize) {
+      bestSize = size
+      bestLabel = label
+    }
+  }
+  if (!bestLabel) return null
+
+  const points: Point[] = []
+  for (let y = 0; y < height; y++) {
+    let minX = -1
+    let maxX = -1
+    for (let x = 0; x < width; x++) {
+      if (labels[y * width + x] !== bestLabel) continue
+      if (minX < 0) minX = x
+      maxX = x
+    }
+    if (minX < 0) continue
+    points.push({ x: minX, y })
+    if (maxX !== minX) points.push({ x: maxX, y })
+  }
+  return points
+}
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+
+/**
+ * 凸包（Andrew の monotone chain）
+ */
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  if (sorted.length < 3) return sorted
+  const lower: Point[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: Point[] = []
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)]
+}
+
+export const polygonArea = (points: Point[]): number => {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(area) / 2
+}
+
+/**
+ * 凸包から四隅を選ぶ（x+y と x−y が最大・最小になる点）
+ * 45°近く傾いた書類では角を取り違えるが、手持ちで撮る書類はほぼ正対しているので十分
+ */
+const pickCorners = (hull: Point[]): Quad => {
+  let tl = hull[0]
+  let tr = hull[0]
+  let br = hull[0]
+  let bl = hull[0]
+  for (const p of hull) {
+    if (p.x + p.y < tl.x + tl.y) tl = p
+    if (p.x + p.y > br.x + br.y) br = p
+    if (p.x - p.y > tr.x - tr.y) tr = p
+    if (p.x - p.y < bl.x - bl.y) bl = p
+  }
+  return [tl, tr, br, bl]
+}
+
+const isConvex = (quad: Quad): boolean => {
+  const signs = quad.map((p, i) => Math.sign(cross(p, quad[(i + 1) % 4], quad[(i + 2) % 4])))
+  return signs.every((s) => s !== 0 && s === signs[0])
+}
+
+/**
+ * 画像の中から書類らしい最大の四角形を探す
+ * 見つかった場合は、画像の幅・高さに対して 0〜1 に正規化した四隅を返す
+ */
+export const detectDocumentQuad = (image: ImageDataLike): Quad | null => {
+  const { width, height } = image
+  if (width < 8 || height < 8) return null
+  const magnitude = sobelMagnitude(blur(blur(toGrayscale(image), width, height), width, height), width, height)
+  const threshold = Math.max(MIN_EDGE_STRENGTH, otsuThreshold(magnitude))
+  const edges = new Uint8Array(magnitude.length)
+  for (let i = 0; i < magnitude.length; i++) edges[i] = magnitude[i] >= threshold ? 1 : 0
+
+  const region = largestEnclosedRegion(dilate(edges, width, height), width, height)
+  if (!region) return null
+  const hull = convexHull(region)
+  if (hull.length < 4) return null
+  const quad = pickCorners(hull)
+  const area = polygonArea(quad)
+  if (!isConvex(quad) || area < width * height * MIN_AREA_RATIO) return null
+  if (area / polygonArea(hull) < MIN_RECTANGULARITY) return null
+
+  const cx = quad.reduce((sum, p) => sum + p.x, 0) / 4
+  const cy = quad.reduce((sum, p) => sum + p.y, 0) / 4
+  return quad.map((p) => {
+    const length = Math.hypot(p.x - cx, p.y - cy) || 1
+    const x = p.x - ((p.x - cx) / length) * EDGE_MARGIN
+    const y = p.y - ((p.y - cy) / length) * EDGE_MARGIN
+    // 画素の中心を基準に正規化する
+    return {
+      x: Math.min(1, Math.max(0, (x + 0.5) / width)),
+      y: Math.min(1, Math.max(0, (y + 0.5) / height)),
+    }
+  }) as Quad
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import type { ImageDataLike, Quad } from "./detectQuad"
+import { applyHomography, computeHomography, enhanceContrast, rectifiedSize, warpPerspective } from "./perspective"
+
+const square: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+]
+
+const createImage = (width: number, height: number, pixel: (x: number, y: number) => number): ImageDataLike => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = pixel(x, y)
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+describe("perspective", () => {
+  it("射影変換は4つの対応点を正確に写す", () => {
+    const target: Quad = [
+      { x: 10, y: 20 },
+      { x: 110, y: 5 },
+      { x: 130, y: 160 },
+      { x: 0, y: 140 },
+    ]
+    const h = computeHomography(square, target)
+    expect(h).not.toBeNull()
+    square.forEach((p, i) => {
+      const mapped = applyHomography(h!, p)
+      expect(mapped.x).toBeCloseTo(target[i].x, 6)
+      expect(mapped.y).toBeCloseTo(target[i].y, 6)
+    })
+  })
+
+  it("一直線上に並んだ点からは変換を作らない", () => {
+    const line: Quad = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 2 },
+      { x: 3, y: 3 },
+    ]
+    expect(computeHomography(square, line)).toBeNull()
+  })
+
+  it("向かい合う辺の長い方を出力サイズとし、長辺を上限に収める", () => {
+    const quad: Quad = [
+      { x: 0, y: 0 },
+      { x: 300, y: 0 },
+      { x: 280, y: 400 },
+      { x: 20, y: 400 },
+    ]
+    expect(rectifiedSize(quad)).toEqual({ width: 300, height: 400 })
+    expect(rectifiedSize(quad, 200)).toEqual({ width: 150, height: 200 })
+  })
+
+  it("四角形の範囲を切り出して長方形にする", () => {
+    // 左半分が黒・右半分が白の画像から、境界をまたぐ範囲を切り出す
+    const image = createImage(40, 30, (x) => (x < 20 ? 0 : 255))
+    const quad: Quad = [
+      { x: 10, y: 5 },
+      { x: 30, y: 5 },
+      { x: 30, y: 25 },
+      { x: 10, y: 25 },
+    ]
+    const warped = warpPerspective(image, quad)
+    expect(warped.width).toBe(20)
+    expect(warped.height).toBe(20)
+    expect(warped.data[(10 * 20 + 2) * 4]).toBe(0)
+    expect(warped.data[(10 * 20 + 17) * 4]).toBe(255)
+    expect(warped.data[(10 * 20 + 17) * 4 + 3]).toBe(255)
+  })
+
+  it("明るさの範囲を 0〜255 に引き伸ばす", () => {
+    const image = createImage(10, 10, (x) => 100 + x * 5)
+    enhanceContrast(image)
+    expect(image.data[0]).toBe(0)
+    expect(image.data[(9 * 10 + 9) * 4]).toBe(255)
+    // ほぼ一色の画像はそのまま
+    const flat = createImage(4, 4, () => 128)
+    enhanceContrast(flat)
+    expect(flat.data[0]).toBe(128)
+  })
+})
@@ -0,0 +1,131 @@
+import type { ImageDataLike, Point, Quad } from "./detectQuad"
+
+/**
+ * 書類画像の台形補正とコントラスト補正
+ */
+
+// 補正後の画像の長辺の上限（px）。書類の文字が読める解像度を保ちつつ、保存サイズと処理時間を抑える
+export const DOCUMENT_MAX_SIDE = 2400
+// コントラスト補正で切り捨てる暗部・明部の割合（影や反射のわずかな画素に引っ張られないようにする）
+const CONTRAST_CLIP = 0.02
+
+/**
+ * 4点の対応から射影変換行列（3x3, 行優先, h33 = 1）を求める
+ * 点が一直線上に並ぶなど解けない場合は null
+ */
+export const computeHomography = (from: Quad, to: Quad): number[] | null => {
+  // 8元連立方程式 A h = b を拡大係数行列のままガウスの消去法で解く
+  const rows: number[][] = []
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i]
+    const { x: u, y: v } = to[i]
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u])
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v])
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col
+    for (let r = col + 1; r < 8; r++) if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null
+    ;[rows[col], rows[pivot]] = [rows[pivot], rows[col]]
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue
+      const factor = rows[r][col] / rows[col][col]
+      if (factor === 0) continue
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c]
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1]
+}
+
+export const applyHomography = (h: number[], { x, y }: Point): Point => {
+  const w = h[6] * x + h[7] * y + h[8]
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w }
+}
+
+/**
+ * 四角形を正面から見た大きさ（向かい合う辺の長い方）を求め、長辺が maxSide に収まるよう縮める
+ */
+export const rectifiedSize = (quad: Quad, maxSide = DOCUMENT_MAX_SIDE): { width: number; height: number } => {
+  const [tl, tr, br, bl] = quad
+  const length = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+  const width = Math.max(length(tl, tr), length(bl, br))
+  const height = Math.max(length(tl, bl), length(tr, br))
+  const scale = Math.min(1, maxSide / Math.max(width, height, 1))
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+/**
+ * 画像中の四角形（画素座標）を長方形に引き伸ばす（双線形補間）
+ */
+export const warpPerspective = (image: ImageDataLike, quad: Quad, maxSide = DOCUMENT_MAX_SIDE): ImageDataLike => {
+  const { width, height } = rectifiedSize(quad, maxSide)
+  const rect: Quad = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]
+  // 出力の各画素が元画像のどこにあたるかを求めるため、出力 → 元画像の向きで変換を作る
+  const h = computeHomography(rect, quad)
+  if (!h) throw new Error("Document corners are degenerate")
+
+  const src = image.data
+  const sw = image.width
+  const sh = image.height
+  const out = new Uint8ClampedArray(width * height * 4)
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      // 画素の中心どうしを対応させる
+      const { x, y } = applyHomography(h, { x: u + 0.5, y: v + 0.5 })
+      const fx = Math.min(sw - 1, Math.max(0, x - 0.5))
+      const fy = Math.min(sh - 1, Math.max(0, y - 0.5))
+      const x0 = Math.floor(fx)
+      const y0 = Math.floor(fy)
+      const x1 = Math.min(sw - 1, x0 + 1)
+      const y1 = Math.min(sh - 1, y0 + 1)
+      const ax = fx - x0
+      const ay = fy - y0
+      const p00 = (y0 * sw + x0) * 4
+      const p10 = (y0 * sw + x1) * 4
+      const p01 = (y1 * sw + x0) * 4
+      const p11 = (y1 * sw + x1) * 4
+      const o = (v * width + u) * 4
+      for (let c = 0; c < 3; c++) {
+        const top = src[p00 + c] + (src[p10 + c] - src[p00 + c]) * ax
+        const bottom = src[p01 + c] + (src[p11 + c] - src[p01 + c]) * ax
+        out[o + c] = top + (bottom - top) * ay
+      }
+      out[o + 3] = 255
+    }
+  }
+  return { data: out, width, height }
+}
+
+/**
+ * 明るさの分布の両端を切り捨てて 0〜255 に引き伸ばす（色味は保ったまま、紙を白く・文字を黒くする）
+ * 画像はその場で書き換える
+ */
+export const enhanceContrast = (image: ImageDataLike): ImageDataLike => {
+  const { data } = image
+  const pixels = data.length / 4
+  const histogram = new Uint32Array(256)
+  for (let p = 0; p < data.length; p += 4) {
+    histogram[Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2])]++
+  }
+  const clip = pixels * CONTRAST_CLIP
+  let low = 0
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low]
+  let high = 255
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high]
+  // ほぼ一色の画像は引き伸ばすとノイズが目立つだけなので変えない
+  if (high - low < 16) return image
+
+  const lookup = new Uint8ClampedArray(256)
+  for (let i = 0; i < 256; i++) lookup[i] = ((i - low) * 255) / (high - low)
+  for (let p = 0; p < data.length; p += 4) {
+    data[p] = lookup[data[p]]
+    data[p + 1] = lookup[data[p + 1]]
+    data[p + 2] = lookup[data[p + 2]]
+  }
+  return image
+}
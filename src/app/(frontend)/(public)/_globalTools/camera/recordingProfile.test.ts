@@ -0,0 +1,70 @@
+/**
+ * recordingProfile テスト
+ *
+ * 設定の正規化、カメラごとの保存・読み込み、コーデックの選択、上限の判定を検証する。
+ */
+import { describe, expect, it, vi } from "vitest"
+import { createMemoryLocalStorage } from "../_hooks/testing/memoryStorage"
+import {
+  DEFAULT_RECORDING_PROFILE,
+  isOverRecordingLimit,
+  loadRecordingProfile,
+  normalizeRecordingProfile,
+  pickRecordingMimeType,
+  RECORDING_CODECS,
+  saveRecordingProfile,
+} from "./recordingProfile"
+
+describe("recordingProfile", () => {
+  it("欠けや不正な値を既定値で補う", () => {
+    expect(normalizeRecordingProfile(null)).toEqual(DEFAULT_RECORDING_PROFILE)
+    const profile = normalizeRecordingProfile({
+      quality: "8k" as never,
+      videoBitsPerSecond: -1,
+      codecs: [],
+      maxDurationSeconds: Number.NaN,
+    })
+    expect(profile).toEqual(DEFAULT_RECORDING_PROFILE)
+    // 解像度だけ指定されたらビットレートはその解像度の標準
+    expect(normalizeRecordingProfile({ quality: "sd" }).videoBitsPerSecond).toBe(1_500_000)
+  })
+
+  it("カメラごとに保存して読み込む", () => {
+    const storage = createMemoryLocalStorage()
+    saveRecordingProfile("back", { ...DEFAULT_RECORDING_PROFILE, quality: "4k", audio: true }, storage)
+    saveRecordingProfile(null, { ...DEFAULT_RECORDING_PROFILE, quality: "sd" }, storage)
+    expect(loadRecordingProfile("back", storage)).toMatchObject({ quality: "4k", audio: true })
+    expect(loadRecordingProfile(undefined, storage).quality).toBe("sd")
+    expect(loadRecordingProfile("front", storage)).toEqual(DEFAULT_RECORDING_PROFILE)
+  })
+
+  it("壊れた保存値や保存の失敗では既定値で続ける", () => {
+    const broken = { getItem: () => "{not json", setItem: () => {} }
+    expect(loadRecordingProfile("back", broken)).toEqual(DEFAULT_RECORDING_PROFILE)
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const full = {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error("QuotaExceededError")
+      },
+    }
+    expect(() => saveRecordingProfile("back", DEFAULT_RECORDING_PROFILE, full)).not.toThrow()
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+    expect(loadRecordingProfile("back", null)).toEqual(DEFAULT_RECORDING_PROFILE)
+  })
+
+  it("端末が対応している最初のコーデックを選ぶ", () => {
+    const safari = (type: string) => type.startsWith("video/mp4")
+    expect(pickRecordingMimeType(RECORDING_CODECS, safari)).toBe("video/mp4;codecs=avc1")
+    expect(pickRecordingMimeType(RECORDING_CODECS, () => true)).toBe("video/webm;codecs=vp9")
+    expect(pickRecordingMimeType(RECORDING_CODECS, () => false)).toBeUndefined()
+  })
+
+  it("時間かサイズのどちらかが上限に達したら止める", () => {
+    const profile = { ...DEFAULT_RECORDING_PROFILE, maxDurationSeconds: 60, maxBytes: 1000 }
+    expect(isOverRecordingLimit(profile, { elapsedMs: 59_000, bytes: 999 })).toBe(false)
+    expect(isOverRecordingLimit(profile, { elapsedMs: 60_000, bytes: 0 })).toBe(true)
+    expect(isOverRecordingLimit(profile, { elapsedMs: 0, bytes: 1000 })).toBe(true)
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * 動画撮影の設定（解像度・ビットレート・コーデック・音声・上限）
+ * カメラごとに localStorage へ保存し、次にそのカメラを開いたときにも使う
+ */
+
+export type RecordingQuality = "sd" | "hd" | "4k"
+
+export interface RecordingProfile {
+  quality: RecordingQuality
+  videoBitsPerSecond: number
+  codecs: string[] // 優先順。MediaRecorder.isTypeSupported で最初に対応していたものを使う
+  audio: boolean
+  maxDurationSeconds: number // これを超えたら録画を自動で止める
+  maxBytes: number
+}
+
+export const RECORDING_QUALITIES: Record<
+  RecordingQuality,
+  { label: string; width: number; height: number; videoBitsPerSecond: number }
+> = {
+  sd: { label: "SD", width: 640, height: 480, videoBitsPerSecond: 1_500_000 },
+  hd: { label: "HD", width: 1920, height: 1080, videoBitsPerSecond: 5_000_000 },
+  "4k": { label: "4K", width: 3840, height: 2160, videoBitsPerSecond: 20_000_000 },
+}
+
+// Safari は WebM を録画できないので MP4 を最後の候補にする
+export const RECORDING_CODECS = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+  "video/mp4;codecs=avc1",
+  "video/mp4",
+]
+
+export const DEFAULT_RECORDING_PROFILE: RecordingProfile = {
+  quality: "hd",
+  videoBitsPerSecond: RECORDING_QUALITIES.hd.videoBitsPerSecond,
+  codecs: RECORDING_CODECS,
+  audio: false,
+  maxDurationSeconds: 10 * 60,
+  maxBytes: 1024 * 1024 * 1024,
+}
+
+const STORAGE_KEY = "camera-recording-profiles"
+const DEFAULT_DEVICE_KEY = "default"
+
+type ProfileStorage = Pick<Storage, "getItem" | "setItem">
+
+const getStorage = (): ProfileStorage | null => (typeof localStorage === "undefined" ? null : localStorage)
+
+/**
+ * 保存値や部分的な指定から、欠けや不正な値のない設定を作る
+ */
+export const normalizeRecordingProfile = (value: Partial<RecordingProfile> | null | undefined): RecordingProfile => {
+  const quality =
+    value?.quality && value.quality in RECORDING_QUALITIES ? value.quality : DEFAULT_RECORDING_PROFILE.quality
+  const positive = (n: unknown, fallback: number) =>
+    typeof n === "number" && Number.isFinite(n) && n > 0 ? n : fallback
+  const codecs = Array.isArray(value?.codecs) ? value.codecs.filter((c) => typeof c === "string") : []
+  return {
+    quality,
+    videoBitsPerSecond: positive(value?.videoBitsPerSecond, RECORDING_QUALITIES[quality].videoBitsPerSecond),
+    codecs: codecs.length > 0 ? codecs : RECORDING_CODECS,
+    audio: typeof value?.audio === "boolean" ? value.audio : DEFAULT_RECORDING_PROFILE.audio,
+    maxDurationSeconds: positive(value?.maxDurationSeconds, DEFAULT_RECORDING_PROFILE.maxDurationSeconds),
+    maxBytes: positive(value?.maxBytes, DEFAULT_RECORDING_PROFILE.maxBytes),
+  }
+}
+
+const readAll = (storage: ProfileStorage): Record<string, Partial<RecordingProfile>> => {
+  try {
+    const parsed = JSON.parse(storage.getItem(STORAGE_KEY) ?? "{}")
+    return parsed && typeof parsed === "object" ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * カメラ（deviceId）ごとに保存した設定を読む。なければ既定値
+ */
+export const loadRecordingProfile = (
+  deviceId: string | null | undefined,
+  storage: ProfileStorage | null = getStorage(),
+): RecordingProfile => {
+  if (!storage) return DEFAULT_RECORDING_PROFILE
+  return normalizeRecordingProfile(readAll(storage)[deviceId || DEFAULT_DEVICE_KEY])
+}
+
+export const saveRecordingProfile = (
+  deviceId: string | null | undefined,
+  profile: RecordingProfile,
+  storage: ProfileStorage | null = getStorage(),
+): void => {
+  if (!storage) return
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(storage), [deviceId || DEFAULT_DEVICE_KEY]: profile }))
+  } catch (error) {
+    // 保存できなくても今回の撮影には使えるので、警告だけにする
+    console.warn("[RecordingProfile] Failed to save profile:", error)
+  }
+}
+
+/**
+ * 優先順のコーデックから、この端末で録画できる最初のものを選ぶ。どれも対応していなければ undefined（ブラウザ任せ）
+ */
+export const pickRecordingMimeType = (
+  codecs: string[],
+  isTypeSupported: (type: string) => boolean = (type) =>
+    typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(type),
+): string | undefined => codecs.find((type) => isTypeSupported(type))
+
+/**
+ * 解像度に合わせたカメラの制約（ideal なので、対応していなければ近い解像度になる）
+ */
+export const recordingVideoConstraints = (quality: RecordingQuality): MediaTrackConstraints => ({
+  width: { ideal: RECORDING_QUALITIES[quality].width },
+  height: { ideal: RECORDING_QUALITIES[quality].height },
+})
+
+export const isOverRecordingLimit = (
+  profile: RecordingProfile,
+  progress: { elapsedMs: number; bytes: number },
+): boolean => progress.elapsedMs >= profile.maxDurationSeconds * 1000 || progress.bytes >= profile.maxBytes
@@ -0,0 +1,56 @@
+/**
+ * インターバル撮影した静止画から WebM のタイムラプスを作る（ブラウザのみ）
+ * キャンバスに1枚ずつ描いて captureStream を MediaRecorder で録画する
+ */
+
+const TIMELAPSE_FPS = 10
+const TIMELAPSE_BITRATE = 4_000_000
+
+const pickWebmType = (): string | undefined =>
+  ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((type) => MediaRecorder.isTypeSupported(type))
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export const createTimelapse = async (frames: Blob[], fps = TIMELAPSE_FPS): Promise<Blob> => {
+  if (frames.length === 0) throw new Error("Time-lapse needs at least one frame")
+  const first = await createImageBitmap(frames[0])
+  const canvas = document.createElement("canvas")
+  canvas.width = first.width
+  canvas.height = first.height
+  first.close()
+  const context = canvas.getContext("2d", { alpha: false })
+  if (!context) throw new Error("Canvas 2D context is not available")
+
+  // フレームは requestFrame で明示的に送る（描いた枚数どおりの長さになる）
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+  const mimeType = pickWebmType()
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: TIMELAPSE_BITRATE })
+  const chunks: Blob[] = []
+  recorder.addEventListener("dataavailable", (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  })
+  const stopped = new Promise<void>((resolve) => recorder.addEventListener("stop", () => resolve(), { once: true }))
+
+  recorder.start()
+  try {
+    for (const frame of frames) {
+      const bitmap = await createImageBitmap(frame)
+      // 端末の向きが途中で変わった写真も、枠に収めて中央に描く
+      const scale = Math.min(canvas.width / bitmap.width, canvas.height / bitmap.height)
+      const width = bitmap.width * scale
+      const height = bitmap.height * scale
+      context.fillStyle = "#000"
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.drawImage(bitmap, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height)
+      bitmap.close()
+      track.requestFrame()
+      await wait(1000 / fps)
+    }
+  } finally {
+    recorder.stop()
+    track.stop()
+  }
+  await stopped
+  return new Blob(chunks, { type: "video/webm" })
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  applyExposureCompensation,
+  applyFocusAt,
+  applyTorch,
+  applyZoom,
+  clampToRange,
+  NO_CAPABILITIES,
+  probeCapabilities,
+  readControls,
+  toVideoPoint,
+} from "./trackControls"
+
+const createTrack = (capabilities: Record<string, unknown>, settings: Record<string, unknown> = {}) =>
+  ({
+    getCapabilities: () => capabilities,
+    getSettings: () => settings,
+    applyConstraints: vi.fn(async () => {}),
+  }) as unknown as MediaStreamTrack & { applyConstraints: ReturnType<typeof vi.fn> }
+
+describe("trackControls", () => {
+  it("対応している制御と範囲を調べ、現在値を読む", () => {
+    const track = createTrack(
+      {
+        zoom: { min: 1, max: 8, step: 0.1 },
+        torch: true,
+        focusMode: ["continuous", "single-shot"],
+        exposureCompensation: { min: -2, max: 2, step: 1 / 3 },
+      },
+      { zoom: 2, torch: false },
+    )
+    const capabilities = probeCapabilities(track)
+    expect(capabilities).toEqual({
+      zoom: { min: 1, max: 8, step: 0.1 },
+      torch: true,
+      focus: true,
+      exposureCompensation: { min: -2, max: 2, step: 1 / 3 },
+    })
+    expect(readControls(track, capabilities)).toEqual({ zoom: 2, torch: false, exposureCompensation: 0 })
+  })
+
+  it("getCapabilities がない・範囲がないトラックは非対応として扱う", () => {
+    expect(probeCapabilities({} as MediaStreamTrack)).toBe(NO_CAPABILITIES)
+    expect(probeCapabilities(createTrack({ zoom: { min: 1, max: 1 } }))).toEqual(NO_CAPABILITIES)
+  })
+
+  it("値を範囲内・刻みに揃えて適用し、非対応なら何もしない", async () => {
+    const track = createTrack({})
+    const capabilities = {
+      ...NO_CAPABILITIES,
+      zoom: { min: 1, max: 4, step: 0.5 },
+      exposureCompensation: { min: -2, max: 2, step: 0 },
+    }
+    expect(await applyZoom(track, capabilities, 2.2)).toBe(2)
+    expect(await applyZoom(track, capabilities, 10)).toBe(4)
+    expect(await applyExposureCompensation(track, capabilities, -3)).toBe(-2)
+    expect(track.applyConstraints).toHaveBeenNthCalledWith(1, { advanced: [{ zoom: 2 }] })
+
+    track.applyConstraints.mockClear()
+    expect(await applyTorch(track, capabilities, true)).toBeNull()
+    expect(await applyFocusAt(track, capabilities, 0.5, 0.5)).toBe(false)
+    expect(track.applyConstraints).not.toHaveBeenCalled()
+    expect(clampToRange(0.7, { min: 0, max: 1, step: 0.1 })).toBe(0.7)
+  })
+
+  it("フォーカスは single-shot を優先してやり直す", async () => {
+    const track = createTrack({ focusMode: ["continuous", "single-shot"] })
+    expect(await applyFocusAt(track, probeCapabilities(track), 0.2, 1.4)).toBe(true)
+    expect(track.applyConstraints).toHaveBeenCalledWith({
+      advanced: [expect.objectContaining({ focusMode: "single-shot" })],
+    })
+  })
+
+  it("タップ位置を object-fit を考慮した映像上の座標に変換する", () => {
+    const rect = { left: 0, top: 0, width: 400, height: 400 }
+    // 16:9 の映像を contain で表示すると上下に 87.5px の余白ができる
+    expect(toVideoPoint(rect, 1600, 900, 200, 200)).toEqual({ x: 0.5, y: 0.5 })
+    expect(toVideoPoint(rect, 1600, 900, 200, 50)).toBeNull()
+    // cover では左右が切り取られる
+    const covered = toVideoPoint(rect, 1600, 900, 0, 200, "cover")
+    expect(covered?.x).toBeCloseTo(0.21875)
+    expect(covered?.y).toBeCloseTo(0.5)
+  })
+})
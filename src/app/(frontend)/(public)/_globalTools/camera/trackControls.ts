@@ -0,0 +1,188 @@
+/**
+ * 映像トラックのカメラ制御（ズーム・ライト・フォーカス・露出補正）
+ * https://w3c.github.io/mediacapture-image/
+ *
+ * 対応状況は端末・ブラウザで大きく異なるため、getCapabilities() で確認できたものだけを操作し、
+ * 非対応の操作は何もしない（null / false を返す）
+ */
+
+export interface NumericRange {
+  min: number
+  max: number
+  step: number
+}
+
+export interface CameraCapabilities {
+  zoom: NumericRange | null
+  torch: boolean
+  focus: boolean // タップした位置へのフォーカス
+  exposureCompensation: NumericRange | null
+}
+
+export interface CameraControls {
+  zoom: number | null
+  torch: boolean
+  exposureCompensation: number | null
+}
+
+export const NO_CAPABILITIES: CameraCapabilities = {
+  zoom: null,
+  torch: false,
+  focus: false,
+  exposureCompensation: null,
+}
+
+export const DEFAULT_CONTROLS: CameraControls = {
+  zoom: null,
+  torch: false,
+  exposureCompensation: null,
+}
+
+// TypeScript の DOM 型定義にない Image Capture 拡張
+type MediaSettingsRange = { min?: number; max?: number; step?: number }
+type ImageTrackCapabilities = MediaTrackCapabilities & {
+  zoom?: MediaSettingsRange
+  torch?: boolean
+  focusMode?: string[]
+  exposureCompensation?: MediaSettingsRange
+}
+type ImageTrackSettings = MediaTrackSettings & {
+  zoom?: number
+  torch?: boolean
+  exposureCompensation?: number
+}
+type ImageTrackConstraintSet = MediaTrackConstraintSet & {
+  zoom?: number
+  torch?: boolean
+  focusMode?: string
+  pointsOfInterest?: { x: number; y: number }[]
+  exposureCompensation?: number
+}
+
+const toRange = (range?: MediaSettingsRange): NumericRange | null => {
+  if (!range || typeof range.min !== "number" || typeof range.max !== "number" || range.max <= range.min) return null
+  return { min: range.min, max: range.max, step: range.step && range.step > 0 ? range.step : 0 }
+}
+
+const supportsPointsOfInterest = (): boolean => {
+  if (typeof navigator === "undefined" || !navigator.mediaDevices?.getSupportedConstraints) return false
+  return "pointsOfInterest" in navigator.mediaDevices.getSupportedConstraints()
+}
+
+/**
+ * トラックが対応している制御と範囲を調べる
+ */
+export const probeCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  if (typeof track.getCapabilities !== "function") return NO_CAPABILITIES
+  const capabilities = track.getCapabilities() as ImageTrackCapabilities
+  const focusModes = capabilities.focusMode ?? []
+  return {
+    zoom: toRange(capabilities.zoom),
+    torch: capabilities.torch === true,
+    focus: focusModes.includes("single-shot") || (focusModes.length > 0 && supportsPointsOfInterest()),
+    exposureCompensation: toRange(capabilities.exposureCompensation),
+  }
+}
+
+/**
+ * 現在の設定値（対応していない制御は null / false）
+ */
+export const readControls = (track: MediaStreamTrack, capabilities: CameraCapabilities): CameraControls => {
+  const settings = track.getSettings() as ImageTrackSettings
+  return {
+    zoom: capabilities.zoom ? (settings.zoom ?? capabilities.zoom.min) : null,
+    torch: capabilities.torch ? settings.torch === true : false,
+    exposureCompensation: capabilities.exposureCompensation ? (settings.exposureCompensation ?? 0) : null,
+  }
+}
+
+/**
+ * 範囲内に収め、step の刻みに揃える
+ */
+export const clampToRange = (value: number, range: NumericRange): number => {
+  const clamped = Math.min(range.max, Math.max(range.min, value))
+  if (!range.step) return clamped
+  const stepped = range.min + Math.round((clamped - range.min) / range.step) * range.step
+  // 浮動小数の誤差を丸める
+  return Math.min(range.max, Number(stepped.toFixed(6)))
+}
+
+const apply = (track: MediaStreamTrack, constraints: ImageTrackConstraintSet) =>
+  track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] })
+
+export const applyZoom = async (
+  track: MediaStreamTrack,
+  capabilities: CameraCapabilities,
+  value: number,
+): Promise<number | null> => {
+  if (!capabilities.zoom) return null
+  const zoom = clampToRange(value, capabilities.zoom)
+  await apply(track, { zoom })
+  return zoom
+}
+
+export const applyTorch = async (
+  track: MediaStreamTrack,
+  capabilities: CameraCapabilities,
+  on: boolean,
+): Promise<boolean | null> => {
+  if (!capabilities.torch) return null
+  await apply(track, { torch: on })
+  return on
+}
+
+export const applyExposureCompensation = async (
+  track: MediaStreamTrack,
+  capabilities: CameraCapabilities,
+  value: number,
+): Promise<number | null> => {
+  if (!capabilities.exposureCompensation) return null
+  const exposureCompensation = clampToRange(value, capabilities.exposureCompensation)
+  await apply(track, { exposureCompensation })
+  return exposureCompensation
+}
+
+/**
+ * 映像上の位置（0〜1 に正規化）にピントを合わせる
+ * pointsOfInterest に対応していなければ、位置は指定せずにオートフォーカスをやり直す
+ */
+export const applyFocusAt = async (
+  track: MediaStreamTrack,
+  capabilities: CameraCapabilities,
+  x: number,
+  y: number,
+): Promise<boolean> => {
+  if (!capabilities.focus) return false
+  const focusModes = (track.getCapabilities() as ImageTrackCapabilities).focusMode ?? []
+  const point = { x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) }
+  await apply(track, {
+    ...(supportsPointsOfInterest() ? { pointsOfInterest: [point] } : {}),
+    focusMode: focusModes.includes("single-shot") ? "single-shot" : "continuous",
+  })
+  return true
+}
+
+/**
+ * 要素上のタップ位置を、映像上の正規化座標に変換する（object-fit による余白・切り取りを考慮）
+ */
+export const toVideoPoint = (
+  rect: { left: number; top: number; width: number; height: number },
+  videoWidth: number,
+  videoHeight: number,
+  clientX: number,
+  clientY: number,
+  fit: "contain" | "cover" = "contain",
+): { x: number; y: number } | null => {
+  if (rect.width <= 0 || rect.height <= 0 || videoWidth <= 0 || videoHeight <= 0) return null
+  const scale =
+    fit === "cover"
+      ? Math.max(rect.width / videoWidth, rect.height / videoHeight)
+      : Math.min(rect.width / videoWidth, rect.height / videoHeight)
+  const shownWidth = videoWidth * scale
+  const shownHeight = videoHeight * scale
+  const x = (clientX - rect.left - (rect.width - shownWidth) / 2) / shownWidth
+  const y = (clientY - rect.top - (rect.height - shownHeight) / 2) / shownHeight
+  // contain の余白部分をタップした場合は映像の外
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null
+  return { x, y }
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import React, { useCallback, useEffect, useRef, useState } from "react"
+import { cameraActions } from "./cameraStore"
+import { toVideoPoint } from "./trackControls"
+
+// これ以上動いたらタップではなくスワイプとみなす（px）
+const TAP_SLOP = 12
+// 指1本の上下スワイプで露出補正の全範囲を動かす距離（プレビューの高さに対する割合）
+const EXPOSURE_SWIPE_RATIO = 0.6
+const FOCUS_RING_DURATION = 900
+
+type Gesture =
+  | { kind: "tap"; startX: number; startY: number }
+  | { kind: "pinch"; startDistance: number; startZoom: number }
+  | { kind: "swipe"; startY: number; startExposure: number }
+  | { kind: "none" }
+
+interface Point {
+  x: number
+  y: number
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+/**
+ * プレビュー上のジェスチャー
+ * - タップ: その位置にピントを合わせる
+ * - ピンチ: ズーム
+ * - 上下スワイプ: 露出補正（上で明るく）
+ * 端末が対応していない操作は何もしない
+ */
+export const useCameraGestures = () => {
+  const pointers = useRef(new Map<number, Point>())
+  const gesture = useRef<Gesture>({ kind: "none" })
+  const frame = useRef<number | null>(null)
+  const pending = useRef<(() => void) | null>(null)
+  const ringTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [focusRing, setFocusRing] = useState<(Point & { key: number }) | null>(null)
+  const [activeGesture, setActiveGesture] = useState<"pinch" | "swipe" | null>(null)
+
+  // applyConstraints をフレームごとに1回までに抑える（最後の値だけ適用する）
+  const schedule = useCallback((task: () => void) => {
+    pending.current = task
+    if (frame.current !== null) return
+    frame.current = requestAnimationFrame(() => {
+      frame.current = null
+      pending.current?.()
+      pending.current = null
+    })
+  }, [])
+
+  useEffect(
+    () => () => {
+      if (frame.current !== null) cancelAnimationFrame(frame.current)
+      if (ringTimer.current) clearTimeout(ringTimer.current)
+    },
+    [],
+  )
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLVideoElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId)
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+    const { capabilities, controls } = cameraActions.getSnapshot()
+    const points = Array.from(pointers.current.values())
+    if (points.length === 2 && capabilities.zoom) {
+      gesture.current = {
+        kind: "pinch",
+        startDistance: Math.max(1, distance(points[0], points[1])),
+        startZoom: controls.zoom ?? capabilities.zoom.min,
+      }
+      setActiveGesture("pinch")
+    } else if (points.length === 1) {
+      gesture.current = { kind: "tap", startX: e.clientX, startY: e.clientY }
+    } else {
+      gesture.current = { kind: "none" }
+    }
+  }, [])
+
+  const onPointerMove = useCallback(
+    (e: React.PointerEvent<HTMLVideoElement>) => {
+      if (!pointers.current.has(e.pointerId)) return
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY })
+      const current = gesture.current
+      const { capabilities, controls } = cameraActions.getSnapshot()
+
+      if (current.kind === "pinch") {
+        const points = Array.from(pointers.current.values())
+        if (points.length < 2) return
+        const zoom = current.startZoom * (distance(points[0], points[1]) / current.startDistance)
+        schedule(() => void cameraActions.setZoom(zoom))
+        return
+      }
+      if (current.kind === "tap") {
+        const dx = e.clientX - current.startX
+        const dy = e.clientY - current.startY
+        if (Math.hypot(dx, dy) < TAP_SLOP) return
+        // 縦方向の動きは露出補正、それ以外はタップの取り消し
+        if (Math.abs(dy) > Math.abs(dx) && capabilities.exposureCompensation) {
+          gesture.current = { kind: "swipe", startY: current.startY, startExposure: controls.exposureCompensation ?? 0 }
+          setActiveGesture("swipe")
+        } else {
+          gesture.current = { kind: "none" }
+          return
+        }
+      }
+      const swipe = gesture.current
+      if (swipe.kind === "swipe" && capabilities.exposureCompensation) {
+        const { min, max } = capabilities.exposureCompensation
+        const height = e.currentTarget.getBoundingClientRect().height || 1
+        const delta = ((swipe.startY - e.clientY) / (height * EXPOSURE_SWIPE_RATIO)) * (max - min)
+        schedule(() => void cameraActions.setExposureCompensation(swipe.startExposure + delta))
+      }
+    },
+    [schedule],
+  )
+
+  const endPointer = useCallback((e: React.PointerEvent<HTMLVideoElement>) => {
+    if (!pointers.current.delete(e.pointerId)) return
+    const current = gesture.current
+    if (current.kind === "tap" && e.type === "pointerup") {
+      const video = e.currentTarget
+      const rect = video.getBoundingClientRect()
+      const fit = getComputedStyle(video).objectFit === "cover" ? "cover" : "contain"
+      const point = toVideoPoint(rect, video.videoWidth, video.videoHeight, e.clientX, e.clientY, fit)
+      if (point) {
+        void cameraActions.focusAt(point.x, point.y).then((focused) => {
+          if (!focused) return
+          setFocusRing({ x: e.clientX - rect.left, y: e.clientY - rect.top, key: Date.now() })
+          if (ringTimer.current) clearTimeout(ringTimer.current)
+          ringTimer.current = setTimeout(() => setFocusRing(null), FOCUS_RING_DURATION)
+        })
+      }
+    }
+    // ピンチ中に1本離した場合も、残りの指でタップやスワイプが始まらないようにする
+    gesture.current = { kind: "none" }
+    if (pointers.current.size === 0) setActiveGesture(null)
+  }, [])
+
+  return {
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: endPointer,
+      onPointerCancel: endPointer,
+    },
+    focusRing,
+    activeGesture,
+  }
+}
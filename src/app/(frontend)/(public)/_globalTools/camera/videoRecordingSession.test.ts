@@ -0,0 +1,65 @@
+/**
+ * videoRecordingSession テスト
+ *
+ * 録画中のチャンクの書き出しと終了時の後片付け、
+ * 途中で落ちた録画（マニフェストのない以前の版の recording_* キーを含む）の検出・復元・破棄を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createMemoryIdbStore } from "../_hooks/testing/memoryStorage"
+import {
+  createVideoRecordingSession,
+  discardOrphanedVideoRecording,
+  findOrphanedVideoRecordings,
+  restoreOrphanedVideoRecording,
+} from "./videoRecordingSession"
+
+describe("videoRecordingSession", () => {
+  it("書き出したチャンクをまとめ、discard でマニフェストごと消す", async () => {
+    const storage = createMemoryIdbStore()
+    const session = await createVideoRecordingSession({ mimeType: "video/webm;codecs=vp9" }, storage)
+    await session.write(new Blob(["ab"]))
+    await session.write(new Blob(["cd"]))
+    expect(session.bytes).toBe(4)
+    // 録画中のセッションは途中で落ちた録画として扱わない
+    expect(await findOrphanedVideoRecordings(storage)).toEqual([])
+
+    expect(await (await session.finish("video/webm")).text()).toBe("abcd")
+    await session.discard()
+    expect(storage.objects.size).toBe(0)
+  })
+
+  it("残っていたチャンクから録画を復元する", async () => {
+    const storage = createMemoryIdbStore()
+    const session = await createVideoRecordingSession({ mimeType: "video/mp4;codecs=avc1" }, storage)
+    await session.write(new Blob(["a"]))
+    await session.write(new Blob(["bc"]))
+    await session.abandon()
+
+    const [orphan] = await findOrphanedVideoRecordings(storage)
+    expect(orphan.manifest.id).toBe(session.manifest.id)
+    expect(orphan.bytes).toBe(3)
+    const blob = await restoreOrphanedVideoRecording(orphan, storage)
+    expect(blob.type).toBe("video/mp4")
+    expect(await blob.text()).toBe("abc")
+
+    await discardOrphanedVideoRecording(orphan, storage)
+    expect(storage.objects.size).toBe(0)
+  })
+
+  it("以前の版の recording_<時刻>_chunk_* を1つの録画として扱い、形式を推定する", async () => {
+    const storage = createMemoryIdbStore()
+    const webmHeader = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0x01])
+    await storage.put("recording_1000_chunk_00001", new Blob(["tail"]))
+    await storage.put("recording_1000_chunk_00000", new Blob([webmHeader]))
+    await storage.put("camera_file_1", new Blob(["other"]))
+    // チャンクを書く前に落ちた録画のマニフェストは消す
+    await storage.put("recording_empty_manifest", new Blob([JSON.stringify({ id: "empty" })]))
+
+    const orphans = await findOrphanedVideoRecordings(storage)
+    expect(orphans).toHaveLength(1)
+    expect(orphans[0].chunkKeys).toEqual(["recording_1000_chunk_00000", "recording_1000_chunk_00001"])
+    expect(orphans[0].manifest.startedAt).toBe(new Date(1000).toISOString())
+    expect((await restoreOrphanedVideoRecording(orphans[0], storage)).type).toBe("video/webm")
+    expect(storage.objects.has("recording_empty_manifest")).toBe(false)
+  })
+})
@@ -0,0 +1,52 @@
+import {
+  createRecordingSessions,
+  type OrphanedRecording,
+  type RecordingSession,
+  type RecordingSessionManifest,
+  type SessionStorage,
+} from "../_hooks/media/recordingSessions"
+
+/**
+ * 録画セッション（書き出しと途中で落ちた録画の復元は _hooks/media/recordingSessions で行う）
+ *
+ * - 録画データは recording_<id>_chunk_00000, ... に、形式と開始日時は recording_<id>_manifest に書く
+ * - 以前の版はマニフェストなしで recording_<時刻>_chunk_* に書き出していたため、それも復元の対象にする
+ */
+
+export type VideoRecordingManifest = RecordingSessionManifest
+export type VideoRecordingSession = RecordingSession<VideoRecordingManifest>
+export type OrphanedVideoRecording = OrphanedRecording<VideoRecordingManifest>
+
+/**
+ * 先頭のバイト列から動画の形式を推定する（WebM: EBML ヘッダー、MP4: ftyp ボックス）
+ */
+export const sniffVideoMimeType = (head: Uint8Array): string => {
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return "video/webm"
+  if (String.fromCharCode(...head.slice(4, 8)) === "ftyp") return "video/mp4"
+  return ""
+}
+
+const sessions = createRecordingSessions<VideoRecordingManifest>({
+  keyPrefix: "recording_",
+  lockPrefix: "camera-recording-",
+  sniffMimeType: sniffVideoMimeType,
+  defaultMimeType: "video/webm",
+  fallbackManifest: (id) => {
+    // 以前の版の ID は録画を始めた時刻
+    const startedAt = Number(id.split("_")[0])
+    return {
+      id,
+      mimeType: "",
+      startedAt: new Date(Number.isFinite(startedAt) ? startedAt : Date.now()).toISOString(),
+    }
+  },
+})
+
+export const createVideoRecordingSession = (
+  options: { mimeType: string },
+  storage?: SessionStorage,
+): Promise<VideoRecordingSession> => sessions.create(options, storage)
+
+export const findOrphanedVideoRecordings = sessions.findOrphans
+export const restoreOrphanedVideoRecording = sessions.restore
+export const discardOrphanedVideoRecording = sessions.discardOrphan
@@ -1,14 +1,37 @@
+import { toast } from "@/components/atoms/Toast"
 import Image from "next/image"
 import React, { useEffect, useMemo, useRef, useState } from "react"
 import { Carousel } from "../_components/atoms/Carousel"
 import { Modal } from "../_components/atoms/Modal"
+import { FileSetActions, MoveFilesButton } from "../_components/FileSetActions"
+import { FileSetArchiveActions } from "../_components/FileSetArchiveActions"
 import { Tool } from "../_components/GlobalTool"
-import { CheckIcon, LoadingSpinner, MicIcon, PictureIcon, PlayIcon, StopIcon, TrashIcon } from "../_components/Icons"
+import {
+  CheckIcon,
+  FlagIcon,
+  LoadingSpinner,
+  MicIcon,
+  PauseIcon,
+  PictureIcon,
+  PlayIcon,
+  StopIcon,
+  TrashIcon,
+} from "../_components/Icons"
+import { MediaErrorHint } from "../_components/MediaErrorHint"
+import { StorageMeter } from "../_components/StorageMeter"
+import { TrashBin } from "../_components/TrashBin"
 import { useToolActionStore, type ToolFile } from "../_hooks/useToolActionStore"
+import { isLiveTranscriptionSupported } from "./liveTranscriber"
 import { microphoneActions, useMicrophoneState } from "./microphoneStore"
+import { OutputFormatSelector } from "./OutputFormatSelector"
+import { TranscriptPanel } from "./TranscriptPanel"
+import { WaveformEditor } from "./WaveformEditor"
 
 const SABI_GOLD = "#9f890e"
 
+const formatMarkerTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`
+
 const hexToRgb = (hex: string): string => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
   return result ? `${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(result[3], 16)}` : "159, 137, 14"
@@ -46,10 +69,12 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
   const [selectedIdbKey, setSelectedIdbKey] = useState<string | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
   const [isLibraryOpen, setIsLibraryOpen] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
   const audioRef = useRef<HTMLAudioElement>(null)
   const selectedFile = useMemo(() => files.find((f) => f.idbKey === selectedIdbKey) || null, [files, selectedIdbKey])
 
   const handleSelectFile = (file: ToolFile): void => {
+    setIsEditing(false)
     setSelectedIdbKey(file.idbKey)
     microphoneActions.setAudioUrl(file.url)
   }
@@ -96,10 +121,22 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
     }
     const setupMicrophone = async () => {
       await microphoneActions.setup()
+      // 前回途中で落ちた録音があれば復元を勧める
+      await microphoneActions.findOrphanedRecordings()
     }
     setupMicrophone()
   }, [isOpen])
 
+  const handleRestoreOrphans = async () => {
+    const results = await microphoneActions.restoreOrphanedRecordings()
+    if (results.length > 0) toast.success(`${results.length}件の録音を復元しました`)
+  }
+
+  const handleDiscardOrphans = async () => {
+    if (!confirm("Discard the unsaved recording? This cannot be undone.")) return
+    await microphoneActions.discardOrphanedRecordings()
+  }
+
   const handleMainActionClick = async () => {
     if (selectedFile === null) {
       // 非選択状態: 録音操作
@@ -110,11 +147,11 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
             onClose()
             return { id: "standalone", idbKey: "standalone" }
           }
-          const res = await microphoneActions.saveFile(blob, { fileName: `recording_${Date.now()}.mp3` })
+          const res = await microphoneActions.saveFile(blob)
           return res
         })
       } else {
-        microphoneActions.startRecord()
+        void microphoneActions.startRecord()
       }
     } else {
       // 選択状態: 再生操作
@@ -340,6 +377,13 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
             </div>
           )}
 
+          {microphoneState.isRecovering && !microphoneState.error && (
+            <div className="flex flex-col items-center justify-center">
+              <LoadingSpinner size="48px" color="#3b82f6" />
+              <p className="mt-4 animate-pulse text-xs tracking-widest text-zinc-500 uppercase">Reconnecting...</p>
+            </div>
+          )}
+
           {microphoneState.error && (
             <div className="flex flex-col items-center justify-center px-8 text-center">
               <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-red-500/20 text-red-500">
@@ -347,6 +391,7 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
               </div>
               <h3 className="mb-2 text-lg font-bold text-white">Microphone Error</h3>
               <p className="mb-6 text-sm text-zinc-400">{microphoneState.error.message}</p>
+              <MediaErrorHint error={microphoneState.error} />
               <button
                 onClick={() => microphoneActions.setup()}
                 className="rounded-full bg-zinc-800 px-6 py-2 text-xs font-bold text-white hover:bg-zinc-700"
@@ -356,10 +401,56 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
             </div>
           )}
 
+          {microphoneState.isAvailable &&
+            microphoneState.orphanedRecordings.length > 0 &&
+            !microphoneState.isRecording && (
+              <div className="absolute top-4 right-4 left-4 z-10 flex items-center gap-3 rounded-2xl border border-amber-500/30 bg-zinc-950/90 px-4 py-3 backdrop-blur">
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-bold text-amber-300">Unsaved recording found</p>
+                  <p className="text-[10px] text-zinc-500">
+                    前回の録音が保存されずに残っています（
+                    {microphoneState.orphanedRecordings
+                      .map((orphan) => `約${formatMarkerTime(orphan.approximateSeconds)}`)
+                      .join("・")}
+                    ）
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    void handleDiscardOrphans()
+                  }}
+                  className="rounded-full px-3 py-1.5 text-[10px] font-bold text-zinc-400 hover:bg-zinc-800"
+                >
+                  Discard
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    void handleRestoreOrphans()
+                  }}
+                  className="rounded-full bg-amber-500 px-3 py-1.5 text-[10px] font-bold text-zinc-950 hover:bg-amber-400"
+                >
+                  Recover
+                </button>
+              </div>
+            )}
+
           {microphoneState.isAvailable && (
             <div className="flex flex-col items-center space-y-8 p-4">
               {/* Visualizer Area or Audio Player */}
-              {selectedFile ? (
+              {selectedFile && isEditing ? (
+                // 編集状態UI
+                <WaveformEditor
+                  file={selectedFile}
+                  onClose={() => setIsEditing(false)}
+                  onSaved={(result, blob) => {
+                    // 保存した新しいファイルを選択する（元のファイルはそのまま残る）
+                    setSelectedIdbKey(result.idbKey)
+                    microphoneActions.setAudioUrl(URL.createObjectURL(blob))
+                  }}
+                />
+              ) : selectedFile ? (
                 // 再生状態UI
                 <div className="flex flex-col items-center space-y-4">
                   <div className="relative flex h-48 w-48 items-center justify-center rounded-full border border-zinc-800 bg-zinc-900 shadow-2xl">
@@ -400,6 +491,28 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
                       className="h-8 w-full opacity-80 mix-blend-screen hue-rotate-180 invert filter"
                     />
                   </div>
+
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      audioRef.current?.pause()
+                      setIsEditing(true)
+                    }}
+                    disabled={selectedFile.isPending || !!selectedFile.evictedAt}
+                    className="rounded-full px-4 py-1.5 text-[10px] font-bold tracking-widest text-zinc-400 uppercase ring-1 ring-zinc-800 transition-colors hover:bg-zinc-900 hover:text-zinc-100 disabled:opacity-30"
+                  >
+                    Edit Waveform
+                  </button>
+
+                  <TranscriptPanel
+                    file={selectedFile}
+                    onSeek={(seconds) => {
+                      const audio = audioRef.current
+                      if (!audio) return
+                      audio.currentTime = seconds
+                      void audio.play()
+                    }}
+                  />
                 </div>
               ) : (
                 // 録音 / アイドル状態UI (既存のSabi Goldデザイン)
@@ -432,7 +545,9 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
                   style={{ color: microphoneState.isRecording ? "#ef4444" : isPlaying ? SABI_GOLD : "#a1a1aa" }}
                 >
                   {microphoneState.isRecording
-                    ? "Recording..."
+                    ? microphoneState.isPaused
+                      ? "Paused"
+                      : "Recording..."
                     : selectedFile
                       ? isPlaying
                         ? "Now Playing"
@@ -448,6 +563,42 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
                     <p className="text-[9px] text-zinc-600">{(selectedFile.size / 1024).toFixed(1)} KB</p>
                   </div>
                 )}
+
+                {microphoneState.isRecording && microphoneState.markers.length > 0 && (
+                  <div className="mt-2 flex max-w-64 flex-wrap justify-center gap-1">
+                    {microphoneState.markers.map((marker, i) => (
+                      <span
+                        key={i}
+                        className="rounded-full bg-zinc-900 px-2 py-0.5 font-mono text-[9px] text-[rgba(159,137,14,0.9)]"
+                      >
+                        {formatMarkerTime(marker.time)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {!selectedFile && !microphoneState.isRecording && isLiveTranscriptionSupported() && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      microphoneActions.setLiveTranscription(!microphoneState.liveTranscription)
+                    }}
+                    aria-pressed={microphoneState.liveTranscription}
+                    className={`mt-3 rounded-full px-3 py-1 text-[9px] font-bold tracking-widest uppercase ring-1 transition-colors ${microphoneState.liveTranscription ? "text-[rgba(159,137,14,0.9)] ring-[rgba(159,137,14,0.5)]" : "text-zinc-500 ring-zinc-800 hover:text-zinc-300"}`}
+                  >
+                    Live Transcript {microphoneState.liveTranscription ? "On" : "Off"}
+                  </button>
+                )}
+
+                {microphoneState.isRecording && microphoneState.liveTranscription && (
+                  <p className="mt-3 line-clamp-3 max-w-72 text-[11px] leading-snug text-zinc-400">
+                    {microphoneState.liveTranscript
+                      .slice(-2)
+                      .map((segment) => segment.text)
+                      .join(" ")}{" "}
+                    <span className="text-zinc-600">{microphoneState.liveInterim}</span>
+                  </p>
+                )}
               </div>{" "}
             </div>
           )}
@@ -456,8 +607,26 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
         {/* Controller */}
         <Tool.Controller>
           <div className="flex items-center justify-around gap-4 px-4">
-            {/* Library Switch (Placeholder to balance layout or additional function) */}
-            <div className="h-12 w-12" />
+            {/* Output Format / Pause・Resume */}
+            {microphoneState.isRecording ? (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  if (microphoneState.isPaused) microphoneActions.resumeRecord()
+                  else microphoneActions.pauseRecord()
+                }}
+                aria-label={microphoneState.isPaused ? "Resume recording" : "Pause recording"}
+                className="flex h-12 w-12 items-center justify-center rounded-full bg-zinc-800/80 transition-all hover:bg-zinc-700 active:scale-90"
+              >
+                {microphoneState.isPaused ? (
+                  <MicIcon size="h-6 w-6" color="#fff" />
+                ) : (
+                  <PauseIcon size="h-6 w-6" color="#fff" />
+                )}
+              </button>
+            ) : (
+              <OutputFormatSelector />
+            )}
 
             {/* Main Action */}
 
@@ -488,11 +657,23 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
               </button>
             </div>
 
-            {/* Deselect / Gallery Select */}
-            {selectedFile !== null ? (
+            {/* Marker / Deselect / Gallery Select */}
+            {microphoneState.isRecording ? (
               <button
                 onClick={(e) => {
                   e.stopPropagation()
+                  microphoneActions.addMarker()
+                }}
+                aria-label="Add marker"
+                className="flex h-12 w-12 items-center justify-center rounded-full bg-zinc-800/80 text-white transition-all hover:bg-zinc-700 active:scale-90"
+              >
+                <FlagIcon size="h-6 w-6" />
+              </button>
+            ) : selectedFile !== null ? (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setIsEditing(false)
                   setSelectedIdbKey(null)
                   microphoneActions.setAudioUrl(null)
                 }}
@@ -565,6 +746,12 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
                       >
                         Clear
                       </button>
+                      {!standalone && (
+                        <MoveFilesButton
+                          ids={files.filter((f) => !f.isPending && selectedKeys.has(f.idbKey)).map((f) => f.id)}
+                          onMoved={() => setSelectedKeys(new Set())}
+                        />
+                      )}
                     </div>
                   )}
                 </div>
@@ -722,6 +909,7 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
                 Create / Switch
               </button>
             </form>
+            <FileSetActions className="mt-4" />
           </div>
 
           {/* Library Grid */}
@@ -787,7 +975,10 @@ const MicrophoneModal: React.FC<MicrophoneModalProps> = ({
           </div>
 
           {/* Footer */}
-          <div className="border-t border-white/5 p-6 text-center">
+          <div className="space-y-4 border-t border-white/5 p-6 text-center">
+            <FileSetArchiveActions fileSet={currentFileSet} />
+            <TrashBin />
+            <StorageMeter />
             <button
               onClick={() => setIsLibraryOpen(false)}
               className="text-[9px] font-bold tracking-[0.3em] text-zinc-600 uppercase transition-colors hover:text-zinc-300"
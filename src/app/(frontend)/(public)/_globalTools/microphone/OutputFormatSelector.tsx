@@ -0,0 +1,60 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { AUDIO_OUTPUT_FORMATS, resolveAudioMimeType, type AudioOutputFormat } from "./audioFormats"
+import { microphoneActions, useMicrophoneState } from "./microphoneStore"
+
+const FORMATS = Object.keys(AUDIO_OUTPUT_FORMATS) as AudioOutputFormat[]
+
+/**
+ * 録音の保存形式（Opus / MP3 / WAV）の切り替え
+ * この端末で録音できない形式は選べない。録音中は変更できない
+ */
+export const OutputFormatSelector: React.FC = () => {
+  const { outputFormat, isRecording } = useMicrophoneState()
+  const [isOpen, setIsOpen] = useState(false)
+  // 形式ごとに実際に使われる MIME タイプ（null: 非対応）
+  const mimeTypes = useMemo(
+    () => Object.fromEntries(FORMATS.map((format) => [format, resolveAudioMimeType(format)])),
+    [],
+  )
+
+  return (
+    <div className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          setIsOpen(!isOpen)
+        }}
+        disabled={isRecording}
+        aria-label={`Output Format: ${AUDIO_OUTPUT_FORMATS[outputFormat].label}`}
+        className="flex h-12 w-12 items-center justify-center rounded-full bg-zinc-900/80 text-[10px] font-black tracking-wider text-zinc-400 transition-all hover:bg-zinc-800 hover:text-zinc-100 active:scale-90 disabled:opacity-40"
+      >
+        {AUDIO_OUTPUT_FORMATS[outputFormat].label}
+      </button>
+      {isOpen && !isRecording && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className="animate-in fade-in slide-in-from-bottom-2 absolute bottom-16 left-0 z-50 flex w-44 flex-col gap-1 rounded-2xl border border-zinc-800 bg-zinc-950/90 p-2 shadow-2xl backdrop-blur-2xl"
+        >
+          {FORMATS.map((format) => (
+            <button
+              key={format}
+              disabled={!mimeTypes[format]}
+              onClick={() => {
+                microphoneActions.setOutputFormat(format)
+                setIsOpen(false)
+              }}
+              className={`flex items-center justify-between rounded-xl px-3 py-2 text-[10px] font-bold transition-colors disabled:opacity-30 ${
+                outputFormat === format ? "bg-zinc-100 text-zinc-950" : "text-zinc-400 hover:bg-zinc-900"
+              }`}
+            >
+              <span>{AUDIO_OUTPUT_FORMATS[format].label}</span>
+              <span className="font-mono text-[8px] opacity-60">{mimeTypes[format] ?? "unsupported"}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useEffect, useRef, useState } from "react"
+import { LoadingSpinner } from "../_components/Icons"
+import { useToolActionStore, type ToolFile } from "../_hooks/useToolActionStore"
+import { getTranscript, transcribeRecording, type StoredTranscript } from "./transcriptRepository"
+import {
+  formatTimestamp,
+  loadTranscriptionSettings,
+  saveTranscriptionSettings,
+  transcriptToMarkdown,
+  type TranscriptionSettings,
+} from "./transcription"
+import { createTranscriptionEngine, createWasmTranscriptionEngine } from "./transcriptionEngines"
+
+const SABI_GOLD = "#9f890e"
+
+const BUTTON_CLASS =
+  "rounded-full px-3 py-1.5 text-[10px] font-bold text-zinc-400 transition-colors hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent"
+const INPUT_CLASS =
+  "w-full rounded-lg bg-zinc-900 px-2 py-1 text-[10px] text-zinc-200 ring-1 ring-zinc-800 outline-none focus:ring-zinc-600"
+
+const ENGINE_LABELS: Record<TranscriptionSettings["engine"], string> = {
+  http: "HTTP endpoint",
+  wasm: "On-device model",
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, "") || "recording"
+
+/**
+ * 選択中の録音の文字起こし
+ * 起こした区間を時刻付きで並べ（押すとその位置から再生）、テキストツールへ Markdown として渡せる
+ */
+export const TranscriptPanel: React.FC<{
+  file: ToolFile
+  onSeek: (seconds: number) => void
+}> = ({ file, onSeek }) => {
+  const { saveFile } = useToolActionStore()
+  const [transcript, setTranscript] = useState<StoredTranscript | null>(null)
+  const [settings, setSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [isTranscribing, setIsTranscribing] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // 保存済みの文字起こしを読む
+  useEffect(() => {
+    let isCancelled = false
+    setTranscript(null)
+    getTranscript(file.idbKey)
+      .then((stored) => {
+        if (!isCancelled) setTranscript(stored)
+      })
+      .catch((error) => console.warn("[TranscriptPanel] Failed to load transcript:", error))
+    return () => {
+      isCancelled = true
+    }
+  }, [file.idbKey])
+
+  // 閉じたら文字起こしを中止する
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const updateSettings = (next: Partial<TranscriptionSettings>) => {
+    const merged = { ...settings, ...next }
+    setSettings(merged)
+    saveTranscriptionSettings(merged)
+  }
+
+  const transcribe = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsTranscribing(true)
+    try {
+      const stored = await transcribeRecording(file.idbKey, createTranscriptionEngine(settings), {
+        language: settings.language || undefined,
+        signal: controller.signal,
+      })
+      setTranscript(stored)
+      if (stored.segments.length === 0) toast.warning("音声を認識できませんでした")
+    } catch (error) {
+      if (controller.signal.aborted) return
+      console.error("[TranscriptPanel] Transcription failed:", error)
+      toast.error("文字起こしできませんでした")
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      setIsTranscribing(false)
+    }
+  }
+
+  const sendToText = async () => {
+    if (!transcript) return
+    setIsSending(true)
+    try {
+      const title = `${baseName(file.fileName)} transcript`
+      const markdown = transcriptToMarkdown({ title, segments: transcript.segments, sourceFileName: file.fileName })
+      await saveFile(new Blob([markdown], { type: "text/markdown" }), {
+        fileName: `${title.replace(/\s+/g, "_")}.md`,
+        category: "text",
+      })
+      toast.success("テキストとして保存しました")
+    } catch (error) {
+      console.error("[TranscriptPanel] Failed to send transcript to text:", error)
+      toast.error("テキストとして保存できませんでした")
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const canTranscribe = !isTranscribing && !file.isPending && !file.evictedAt
+
+  return (
+    <div className="flex w-72 flex-col gap-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold tracking-widest text-zinc-500 uppercase">Transcript</span>
+        <div className="flex items-center">
+          <button
+            onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+            aria-expanded={isSettingsOpen}
+            className={BUTTON_CLASS}
+          >
+            Settings
+          </button>
+          {isTranscribing ? (
+            <button onClick={() => abortRef.current?.abort()} className={BUTTON_CLASS}>
+              Cancel
+            </button>
+          ) : (
+            <button onClick={() => void transcribe()} disabled={!canTranscribe} className={BUTTON_CLASS}>
+              {transcript ? "Re-transcribe" : "Transcribe"}
+            </button>
+          )}
+          <button
+            onClick={() => void sendToText()}
+            disabled={!transcript || transcript.segments.length === 0 || isSending}
+            className={BUTTON_CLASS}
+          >
+            Send to Text
+          </button>
+        </div>
+      </div>
+
+      {isSettingsOpen && (
+        <div className="flex flex-col gap-1.5 rounded-xl bg-zinc-950/80 p-2">
+          <select
+            value={settings.engine}
+            onChange={(e) => updateSettings({ engine: e.target.value as TranscriptionSettings["engine"] })}
+            className={INPUT_CLASS}
+            aria-label="Transcription engine"
+          >
+            {(Object.keys(ENGINE_LABELS) as TranscriptionSettings["engine"][])
+              // 端末内のモデルは登録されるまで出さない
+              .filter((engine) => engine !== "wasm" || createWasmTranscriptionEngine().isAvailable())
+              .map((engine) => (
+                <option key={engine} value={engine}>
+                  {ENGINE_LABELS[engine]}
+                </option>
+              ))}
+          </select>
+          {settings.engine === "http" && (
+            <>
+              <input
+                value={settings.endpoint}
+                onChange={(e) => updateSettings({ endpoint: e.target.value })}
+                placeholder="https://.../v1/audio/transcriptions"
+                className={INPUT_CLASS}
+                aria-label="Endpoint"
+              />
+              <div className="flex gap-1.5">
+                <input
+                  value={settings.model}
+                  onChange={(e) => updateSettings({ model: e.target.value })}
+                  placeholder="Model"
+                  className={INPUT_CLASS}
+                  aria-label="Model"
+                />
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => updateSettings({ apiKey: e.target.value })}
+                  placeholder="API key (optional)"
+                  className={INPUT_CLASS}
+                  aria-label="API key"
+                />
+              </div>
+            </>
+          )}
+          <input
+            value={settings.language}
+            onChange={(e) => updateSettings({ language: e.target.value })}
+            placeholder="Language (e.g. ja, en)"
+            className={INPUT_CLASS}
+            aria-label="Language"
+          />
+        </div>
+      )}
+
+      {isTranscribing ? (
+        <div className="flex items-center justify-center gap-2 py-3">
+          <LoadingSpinner size="16px" color={SABI_GOLD} />
+          <span className="animate-pulse text-[10px] tracking-widest text-zinc-500 uppercase">Transcribing...</span>
+        </div>
+      ) : transcript && transcript.segments.length > 0 ? (
+        <ol className="max-h-40 space-y-1 overflow-y-auto pr-1">
+          {transcript.segments.map((segment, i) => (
+            <li key={i} className="flex gap-2 text-[11px] leading-snug">
+              <button
+                onClick={() => onSeek(segment.start)}
+                className="shrink-0 font-mono text-[rgba(159,137,14,0.9)] hover:underline"
+                aria-label={`Play from ${formatTimestamp(segment.start)}`}
+              >
+                {formatTimestamp(segment.start)}
+              </button>
+              <span className="text-zinc-300">{segment.text}</span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="py-2 text-center text-[10px] text-zinc-600">
+          {transcript ? "No speech recognized" : "Not transcribed yet"}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,315 @@
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useEffect, useRef, useState } from "react"
+import { LoadingSpinner } from "../_components/Icons"
+import { idbStore } from "../_hooks/db/useIdbStore"
+import { type SavedToolFileResult, type ToolFile } from "../_hooks/useToolActionStore"
+import {
+  clipDuration,
+  computePeaks,
+  decodeAudioFile,
+  deleteRange,
+  encodeWav,
+  removeSilence,
+  renderClip,
+  splitClip,
+  trimClip,
+  type AudioClip,
+  type RenderOptions,
+} from "./audioEdit"
+import { microphoneActions } from "./microphoneStore"
+
+const SABI_GOLD = "#9f890e"
+const FADE_SECONDS = 0.5
+const HISTORY_LIMIT = 20 // 元に戻せる回数（クリップはサンプルを丸ごと持つので多くは残さない）
+
+type Selection = { start: number; end: number } // 秒。start === end はカーソル位置
+
+const BUTTON_CLASS =
+  "rounded-full px-3 py-1.5 text-[10px] font-bold transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+const toggleClass = (isActive: boolean) =>
+  `${BUTTON_CLASS} ${isActive ? "bg-zinc-100 text-zinc-950" : "text-zinc-400 hover:bg-zinc-800"}`
+
+const formatTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, "0")}`
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, "") || "recording"
+
+/**
+ * 録音の波形エディター
+ * 範囲を選んで切り取り・削除・分割、無音の削除、音量の正規化、フェードを行い、新しいファイルとして保存する（元のファイルは残す）
+ */
+export const WaveformEditor: React.FC<{
+  file: ToolFile
+  onClose: () => void
+  onSaved: (result: SavedToolFileResult, blob: Blob) => void
+}> = ({ file, onClose, onSaved }) => {
+  const [clip, setClip] = useState<AudioClip | null>(null)
+  const [history, setHistory] = useState<AudioClip[]>([])
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [effects, setEffects] = useState<{ normalize: boolean; fadeIn: boolean; fadeOut: boolean }>({
+    normalize: false,
+    fadeIn: false,
+    fadeOut: false,
+  })
+  const [isBusy, setIsBusy] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragFromRef = useRef<number | null>(null)
+  const previewRef = useRef<HTMLAudioElement | null>(null)
+
+  const duration = clip ? clipDuration(clip) : 0
+  const range = selection && selection.end > selection.start ? selection : null
+
+  // 元のファイルを読み込んでデコードする
+  useEffect(() => {
+    let isCancelled = false
+    const load = async () => {
+      const blob = await idbStore().get(file.idbKey)
+      if (!blob) throw new Error("The recording is not stored on this device")
+      const decoded = await decodeAudioFile(blob)
+      if (!isCancelled) setClip(decoded)
+    }
+    load().catch((error) => {
+      console.error("[WaveformEditor] Failed to load recording:", error)
+      if (!isCancelled) setLoadError(error instanceof Error ? error.message : "Failed to load the recording")
+    })
+    return () => {
+      isCancelled = true
+    }
+  }, [file.idbKey])
+
+  // 試聴を止める
+  useEffect(() => () => previewRef.current?.pause(), [])
+
+  // 波形を描く
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !clip) return
+    const width = canvas.clientWidth * window.devicePixelRatio
+    const height = canvas.clientHeight * window.devicePixelRatio
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+    const { min, max } = computePeaks(clip, Math.max(1, Math.floor(width)))
+    ctx.clearRect(0, 0, width, height)
+    ctx.fillStyle = SABI_GOLD
+    const middle = height / 2
+    for (let x = 0; x < min.length; x++) {
+      const top = middle - max[x] * middle
+      ctx.fillRect(x, top, 1, Math.max(1, (max[x] - min[x]) * middle))
+    }
+  }, [clip])
+
+  const timeAt = (event: React.PointerEvent<HTMLDivElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return Math.min(duration, Math.max(0, ((event.clientX - rect.left) / rect.width) * duration))
+  }
+
+  const apply = (edit: (current: AudioClip) => AudioClip) => {
+    if (!clip) return
+    const next = edit(clip)
+    if (clipDuration(next) === 0) {
+      toast.warning("すべて削除されるため実行できません")
+      return
+    }
+    setHistory([...history, clip].slice(-HISTORY_LIMIT))
+    setClip(next)
+    setSelection(null)
+  }
+
+  const undo = () => {
+    const previous = history.at(-1)
+    if (!previous) return
+    setHistory(history.slice(0, -1))
+    setClip(previous)
+    setSelection(null)
+  }
+
+  const renderOptions = (): RenderOptions => ({
+    normalize: effects.normalize,
+    fadeIn: effects.fadeIn ? FADE_SECONDS : 0,
+    fadeOut: effects.fadeOut ? FADE_SECONDS : 0,
+  })
+
+  const runBusy = async (task: () => Promise<void>, failureMessage: string) => {
+    setIsBusy(true)
+    try {
+      await task()
+    } catch (error) {
+      console.error("[WaveformEditor]", error)
+      toast.error(failureMessage)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const preview = () =>
+    runBusy(async () => {
+      if (!clip) return
+      previewRef.current?.pause()
+      const source = range ? trimClip(clip, range.start, range.end) : clip
+      const url = URL.createObjectURL(encodeWav(await renderClip(source, renderOptions())))
+      const audio = new Audio(url)
+      audio.onended = () => URL.revokeObjectURL(url)
+      previewRef.current = audio
+      await audio.play()
+    }, "試聴できませんでした")
+
+  const saveClips = (parts: AudioClip[]) =>
+    runBusy(async () => {
+      const name = baseName(file.fileName)
+      for (const [i, part] of parts.entries()) {
+        const blob = encodeWav(await renderClip(part, renderOptions()))
+        const suffix = parts.length > 1 ? `part${i + 1}` : "edit"
+        const result = await microphoneActions.saveFile(blob, { fileName: `${name}_${suffix}_${Date.now()}.wav` })
+        if (!result) throw new Error("Failed to save the edited recording")
+        onSaved(result, blob)
+      }
+      toast.success(parts.length > 1 ? `${parts.length}つに分けて保存しました` : "編集した録音を保存しました")
+      onClose()
+    }, "保存できませんでした")
+
+  if (loadError) {
+    return (
+      <div className="flex flex-col items-center gap-4 px-8 text-center">
+        <p className="text-sm text-zinc-400">{loadError}</p>
+        <button onClick={onClose} className={`${BUTTON_CLASS} bg-zinc-800 text-white`}>
+          Close
+        </button>
+      </div>
+    )
+  }
+
+  if (!clip) {
+    return (
+      <div className="flex flex-col items-center">
+        <LoadingSpinner size="48px" color={SABI_GOLD} />
+        <p className="mt-4 animate-pulse text-xs tracking-widest text-zinc-500 uppercase">Decoding...</p>
+      </div>
+    )
+  }
+
+  const canSplit = selection !== null && selection.start > 0 && selection.start < duration
+
+  return (
+    <div className="flex w-full max-w-xl flex-col gap-3 px-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-baseline justify-between text-[10px] text-zinc-500">
+        <span className="max-w-60 truncate font-bold text-zinc-300">{file.fileName}</span>
+        <span className="font-mono">
+          {selection ? `${formatTime(selection.start)}${range ? ` – ${formatTime(range.end)}` : ""} / ` : ""}
+          {formatTime(duration)}
+        </span>
+      </div>
+
+      {/* Waveform */}
+      <div
+        className="relative h-32 touch-none rounded-xl bg-zinc-900/80 select-none"
+        aria-label="Waveform"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          const time = timeAt(e)
+          dragFromRef.current = time
+          setSelection({ start: time, end: time })
+        }}
+        onPointerMove={(e) => {
+          if (dragFromRef.current === null) return
+          const from = dragFromRef.current
+          const time = timeAt(e)
+          setSelection({ start: Math.min(from, time), end: Math.max(from, time) })
+        }}
+        onPointerUp={() => {
+          dragFromRef.current = null
+        }}
+      >
+        <canvas ref={canvasRef} className="h-full w-full" />
+        {selection && (
+          <div
+            className={`pointer-events-none absolute inset-y-0 ${range ? "bg-white/15" : "w-px bg-white"}`}
+            style={{
+              left: `${(selection.start / duration) * 100}%`,
+              width: range ? `${((range.end - range.start) / duration) * 100}%` : undefined,
+            }}
+          />
+        )}
+      </div>
+
+      {/* Edit */}
+      <div className="flex flex-wrap items-center justify-center gap-1">
+        <button
+          disabled={!range || isBusy}
+          onClick={() => range && apply((c) => trimClip(c, range.start, range.end))}
+          className={toggleClass(false)}
+        >
+          Trim
+        </button>
+        <button
+          disabled={!range || isBusy}
+          onClick={() => range && apply((c) => deleteRange(c, range.start, range.end))}
+          className={toggleClass(false)}
+        >
+          Delete
+        </button>
+        <button
+          disabled={isBusy}
+          onClick={() => apply((c) => removeSilence(c))}
+          className={toggleClass(false)}
+          aria-label="Delete silence"
+        >
+          Silence
+        </button>
+        <button disabled={history.length === 0 || isBusy} onClick={undo} className={toggleClass(false)}>
+          Undo
+        </button>
+        <span className="mx-1 h-4 w-px bg-zinc-800" />
+        <button
+          onClick={() => setEffects({ ...effects, normalize: !effects.normalize })}
+          aria-pressed={effects.normalize}
+          className={toggleClass(effects.normalize)}
+        >
+          Normalize
+        </button>
+        <button
+          onClick={() => setEffects({ ...effects, fadeIn: !effects.fadeIn })}
+          aria-pressed={effects.fadeIn}
+          className={toggleClass(effects.fadeIn)}
+        >
+          Fade In
+        </button>
+        <button
+          onClick={() => setEffects({ ...effects, fadeOut: !effects.fadeOut })}
+          aria-pressed={effects.fadeOut}
+          className={toggleClass(effects.fadeOut)}
+        >
+          Fade Out
+        </button>
+      </div>
+
+      {/* Output */}
+      <div className="flex items-center justify-center gap-2">
+        <button onClick={onClose} disabled={isBusy} className={toggleClass(false)}>
+          Cancel
+        </button>
+        <button onClick={() => void preview()} disabled={isBusy} className={toggleClass(false)}>
+          {range ? "Preview Selection" : "Preview"}
+        </button>
+        <button
+          disabled={!canSplit || isBusy}
+          onClick={() => selection && void saveClips(splitClip(clip, selection.start))}
+          className={toggleClass(false)}
+        >
+          Split & Save
+        </button>
+        <button
+          onClick={() => void saveClips([clip])}
+          disabled={isBusy}
+          className={`${BUTTON_CLASS} bg-[rgba(159,137,14,0.9)] text-zinc-950 hover:bg-[rgba(159,137,14,1)]`}
+        >
+          {isBusy ? "Working..." : "Save as New"}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+/**
+ * audioEdit テスト
+ *
+ * 切り取り・削除・分割、無音の検出と削除、正規化の倍率、波形表示用のピーク、WAV への書き出しを検証する。
+ * （デコードと OfflineAudioContext での書き出しはブラウザが必要なため対象外）
+ */
+import { describe, expect, it } from "vitest"
+import {
+  clipDuration,
+  computePeaks,
+  deleteRange,
+  encodeWav,
+  findSilence,
+  normalizationGain,
+  removeSilence,
+  splitClip,
+  trimClip,
+  type AudioClip,
+} from "./audioEdit"
+
+// 10Hz で 1 秒 = 10 サンプル。値はサンプルの番号（0〜0.9）
+const ramp = (): AudioClip => ({
+  sampleRate: 10,
+  channels: [Float32Array.from({ length: 10 }, (_, i) => i / 10)],
+})
+
+const samples = (clip: AudioClip) => Array.from(clip.channels[0], (v) => Math.round(v * 10))
+
+describe("audioEdit", () => {
+  it("選択範囲を残す・取り除く・位置で分ける", () => {
+    expect(samples(trimClip(ramp(), 0.2, 0.5))).toEqual([2, 3, 4])
+    expect(samples(deleteRange(ramp(), 0.2, 0.8))).toEqual([0, 1, 8, 9])
+    const [head, tail] = splitClip(ramp(), 0.3)
+    expect(samples(head)).toEqual([0, 1, 2])
+    expect(samples(tail)).toEqual([3, 4, 5, 6, 7, 8, 9])
+    // 範囲外の指定は端に寄せる
+    expect(clipDuration(trimClip(ramp(), -1, 5))).toBe(1)
+  })
+
+  it("一定以上続く無音だけを、前後の余白を残して取り除く", () => {
+    const sampleRate = 1000
+    // 0.2 秒の音 → 1 秒の無音 → 0.2 秒の音 → 0.1 秒の無音 → 0.2 秒の音
+    const parts = [0.2, 1, 0.2, 0.1, 0.2].map((seconds, i) =>
+      new Float32Array(seconds * sampleRate).fill(i % 2 ? 0 : 0.5),
+    )
+    const channel = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+      channel.set(part, offset)
+      offset += part.length
+    }
+    const clip: AudioClip = { sampleRate, channels: [channel] }
+
+    const silence = findSilence(clip, { padding: 0.1, minDuration: 0.5 })
+    expect(silence).toHaveLength(1)
+    expect(silence[0].start).toBeCloseTo(0.3)
+    expect(silence[0].end).toBeCloseTo(1.1)
+    expect(clipDuration(removeSilence(clip, { padding: 0.1, minDuration: 0.5 }))).toBeCloseTo(1.7 - 0.8)
+  })
+
+  it("ピークに合わせた正規化の倍率を求める（無音なら 1）", () => {
+    const clip: AudioClip = { sampleRate: 10, channels: [new Float32Array([0.1, -0.49]), new Float32Array([0.2, 0])] }
+    expect(normalizationGain(clip)).toBeCloseTo(2)
+    expect(normalizationGain({ sampleRate: 10, channels: [new Float32Array(4)] })).toBe(1)
+  })
+
+  it("区間ごとの最小値・最大値を求める", () => {
+    const clip: AudioClip = { sampleRate: 10, channels: [new Float32Array([0.5, -0.25, 0.1, -1])] }
+    const { min, max } = computePeaks(clip, 2)
+    expect(Array.from(max)).toEqual([0.5, 0.10000000149011612])
+    expect(Array.from(min)).toEqual([-0.25, -1])
+  })
+
+  it("WAV として書き出す", async () => {
+    const blob = encodeWav({ sampleRate: 8000, channels: [new Float32Array([0, 1]), new Float32Array([0, -1])] })
+    expect(blob.type).toBe("audio/wav")
+    const view = new DataView(await blob.arrayBuffer())
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(8000)
+    expect(view.getInt16(48, true)).toBe(0x7fff)
+    expect(view.getInt16(50, true)).toBe(-0x8000)
+  })
+})
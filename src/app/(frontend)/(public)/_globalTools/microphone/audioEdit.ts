@@ -0,0 +1,204 @@
+import { createWavBlob, encodePcm16 } from "./audioFormats"
+
+/**
+ * 録音の編集（波形表示・切り取り・分割・無音の削除・音量の正規化・フェード）
+ *
+ * 編集中は Float32 のサンプル（AudioClip）のまま切り貼りし、保存するときに
+ * OfflineAudioContext で音量とフェードを適用して WAV に書き出す。
+ * 位置・長さはすべて秒で受け取る。
+ */
+
+export interface AudioClip {
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+export interface SilenceOptions {
+  threshold?: number // これより小さい振幅を無音とみなす（0〜1）
+  minDuration?: number // これより短い無音は残す（秒）
+  padding?: number // 無音の前後に残す余白（秒）
+}
+
+export interface RenderOptions {
+  normalize?: boolean // ピークが NORMALIZE_PEAK になるよう音量を揃える
+  fadeIn?: number // 秒
+  fadeOut?: number // 秒
+}
+
+const NORMALIZE_PEAK = 0.98 // 約 -0.2 dBFS（クリップしないよう少し余裕を残す）
+const SILENCE_WINDOW = 0.01 // 無音の判定に使う区間（秒）
+const DEFAULT_SILENCE: Required<SilenceOptions> = { threshold: 0.01, minDuration: 0.5, padding: 0.1 }
+
+export const clipLength = (clip: AudioClip): number => clip.channels[0]?.length ?? 0
+
+export const clipDuration = (clip: AudioClip): number => clipLength(clip) / clip.sampleRate
+
+const toFrame = (clip: AudioClip, seconds: number): number =>
+  Math.min(clipLength(clip), Math.max(0, Math.round(seconds * clip.sampleRate)))
+
+/**
+ * 指定した区間（フレーム）だけをつないだクリップを作る
+ */
+const keepFrames = (clip: AudioClip, ranges: [number, number][]): AudioClip => {
+  const length = ranges.reduce((sum, [start, end]) => sum + Math.max(0, end - start), 0)
+  return {
+    sampleRate: clip.sampleRate,
+    channels: clip.channels.map((channel) => {
+      const kept = new Float32Array(length)
+      let offset = 0
+      for (const [start, end] of ranges) {
+        if (end <= start) continue
+        kept.set(channel.subarray(start, end), offset)
+        offset += end - start
+      }
+      return kept
+    }),
+  }
+}
+
+/**
+ * 選択範囲だけを残す
+ */
+export const trimClip = (clip: AudioClip, start: number, end: number): AudioClip =>
+  keepFrames(clip, [[toFrame(clip, start), toFrame(clip, end)]])
+
+/**
+ * 選択範囲を取り除いて前後をつなぐ
+ */
+export const deleteRange = (clip: AudioClip, start: number, end: number): AudioClip =>
+  keepFrames(clip, [
+    [0, toFrame(clip, start)],
+    [toFrame(clip, end), clipLength(clip)],
+  ])
+
+export const splitClip = (clip: AudioClip, at: number): [AudioClip, AudioClip] => [
+  keepFrames(clip, [[0, toFrame(clip, at)]]),
+  keepFrames(clip, [[toFrame(clip, at), clipLength(clip)]]),
+]
+
+/**
+ * 無音の区間（秒）を探す。前後の padding は無音に含めない
+ */
+export const findSilence = (clip: AudioClip, options: SilenceOptions = {}): { start: number; end: number }[] => {
+  const { threshold, minDuration, padding } = { ...DEFAULT_SILENCE, ...options }
+  const window = Math.max(1, Math.round(SILENCE_WINDOW * clip.sampleRate))
+  const length = clipLength(clip)
+  const ranges: { start: number; end: number }[] = []
+  let silentFrom: number | null = null
+  const close = (frame: number) => {
+    if (silentFrom === null) return
+    const start = silentFrom / clip.sampleRate + (silentFrom > 0 ? padding : 0)
+    const end = frame / clip.sampleRate - (frame < length ? padding : 0)
+    if (frame - silentFrom >= minDuration * clip.sampleRate && end > start) ranges.push({ start, end })
+    silentFrom = null
+  }
+  for (let frame = 0; frame < length; frame += window) {
+    let peak = 0
+    for (const channel of clip.channels) {
+      for (let i = frame; i < Math.min(frame + window, length); i++) peak = Math.max(peak, Math.abs(channel[i]))
+    }
+    if (peak < threshold) silentFrom ??= frame
+    else close(frame)
+  }
+  close(length)
+  return ranges
+}
+
+export const removeSilence = (clip: AudioClip, options?: SilenceOptions): AudioClip => {
+  const silence = findSilence(clip, options)
+  if (silence.length === 0) return clip
+  const ranges: [number, number][] = []
+  let from = 0
+  for (const { start, end } of silence) {
+    ranges.push([from, toFrame(clip, start)])
+    from = toFrame(clip, end)
+  }
+  ranges.push([from, clipLength(clip)])
+  return keepFrames(clip, ranges)
+}
+
+export const peakLevel = (clip: AudioClip): number =>
+  clip.channels.reduce((peak, channel) => channel.reduce((max, sample) => Math.max(max, Math.abs(sample)), peak), 0)
+
+/**
+ * 正規化の倍率（無音なら 1）
+ */
+export const normalizationGain = (clip: AudioClip): number => {
+  const peak = peakLevel(clip)
+  return peak > 0 ? NORMALIZE_PEAK / peak : 1
+}
+
+/**
+ * 波形の表示用に、buckets 個の区間ごとの最小値・最大値を求める（全チャンネルをまとめる）
+ */
+export const computePeaks = (clip: AudioClip, buckets: number): { min: Float32Array; max: Float32Array } => {
+  const min = new Float32Array(buckets)
+  const max = new Float32Array(buckets)
+  const length = clipLength(clip)
+  if (length === 0) return { min, max }
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const from = Math.floor((bucket * length) / buckets)
+    const to = Math.max(from + 1, Math.floor(((bucket + 1) * length) / buckets))
+    for (const channel of clip.channels) {
+      for (let i = from; i < Math.min(to, length); i++) {
+        if (channel[i] < min[bucket]) min[bucket] = channel[i]
+        if (channel[i] > max[bucket]) max[bucket] = channel[i]
+      }
+    }
+  }
+  return { min, max }
+}
+
+const clipFromAudioBuffer = (buffer: AudioBuffer): AudioClip => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice()),
+})
+
+/**
+ * 録音ファイルを AudioContext でデコードする
+ */
+export const decodeAudioFile = async (blob: Blob): Promise<AudioClip> => {
+  const context = new AudioContext()
+  try {
+    return clipFromAudioBuffer(await context.decodeAudioData(await blob.arrayBuffer()))
+  } catch (error) {
+    throw new Error("Failed to decode the recording", { cause: error })
+  } finally {
+    void context.close()
+  }
+}
+
+/**
+ * 音量（正規化）とフェードを OfflineAudioContext で適用する
+ */
+export const renderClip = async (clip: AudioClip, options: RenderOptions = {}): Promise<AudioClip> => {
+  const length = clipLength(clip)
+  if (length === 0) throw new Error("Cannot render an empty clip")
+  const context = new OfflineAudioContext(clip.channels.length, length, clip.sampleRate)
+  const buffer = context.createBuffer(clip.channels.length, length, clip.sampleRate)
+  clip.channels.forEach((channel, i) => buffer.copyToChannel(channel as Float32Array<ArrayBuffer>, i))
+  const source = context.createBufferSource()
+  source.buffer = buffer
+
+  const gain = context.createGain()
+  const level = options.normalize ? normalizationGain(clip) : 1
+  const duration = clipDuration(clip)
+  // フェードインとフェードアウトが重ならないよう、それぞれ長さの半分までにする
+  const fadeIn = Math.min(options.fadeIn ?? 0, duration / 2)
+  const fadeOut = Math.min(options.fadeOut ?? 0, duration / 2)
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : level, 0)
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(level, fadeIn)
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(level, duration - fadeOut)
+    gain.gain.linearRampToValueAtTime(0, duration)
+  }
+
+  source.connect(gain).connect(context.destination)
+  source.start()
+  return clipFromAudioBuffer(await context.startRendering())
+}
+
+export const encodeWav = (clip: AudioClip): Blob => {
+  const pcm = encodePcm16(clip.channels, clip.channels.length)
+  return createWavBlob([new Blob([pcm.buffer as ArrayBuffer])], clip.sampleRate, clip.channels.length)
+}
@@ -0,0 +1,81 @@
+/**
+ * audioFormats テスト
+ *
+ * 保存形式の解決とフォールバック、拡張子、保存形式の保存・読み込み、PCM 変換と WAV ヘッダーを検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createMemoryLocalStorage } from "../_hooks/testing/memoryStorage"
+import {
+  createWavBlob,
+  createWavHeader,
+  encodePcm16,
+  extensionForMimeType,
+  loadAudioOutputFormat,
+  resolveAudioOutput,
+  saveAudioOutputFormat,
+} from "./audioFormats"
+
+const support = (types: string[], pcmCapture = false) => ({
+  isTypeSupported: (type: string) => types.includes(type),
+  pcmCapture,
+})
+
+describe("audioFormats", () => {
+  it("実際の MIME タイプから拡張子を決める", () => {
+    expect(extensionForMimeType("audio/webm;codecs=opus")).toBe("webm")
+    expect(extensionForMimeType("audio/ogg; codecs=opus")).toBe("ogg")
+    expect(extensionForMimeType("audio/mp4")).toBe("m4a")
+    expect(extensionForMimeType("audio/mpeg")).toBe("mp3")
+    expect(extensionForMimeType("audio/wav")).toBe("wav")
+    expect(extensionForMimeType("")).toBe("webm")
+  })
+
+  it("対応している最初の候補を使い、なければ opus に切り替える", () => {
+    const chrome = support(["audio/webm;codecs=opus", "audio/webm"], true)
+    expect(resolveAudioOutput("opus", chrome)).toEqual({ format: "opus", mimeType: "audio/webm;codecs=opus" })
+    expect(resolveAudioOutput("mp3", chrome)).toEqual({ format: "opus", mimeType: "audio/webm;codecs=opus" })
+    expect(resolveAudioOutput("wav", chrome)).toEqual({ format: "wav", mimeType: "audio/wav" })
+    // Safari は MP4（AAC）、PCM 取り出しができなければ WAV は opus に切り替える
+    const safari = support(["audio/mp4"])
+    expect(resolveAudioOutput("wav", safari)).toEqual({ format: "opus", mimeType: "audio/mp4" })
+    expect(resolveAudioOutput("opus", support([]))).toBeNull()
+  })
+
+  it("選んだ保存形式を保存して読み込む", () => {
+    const storage = createMemoryLocalStorage()
+    expect(loadAudioOutputFormat(storage)).toBe("opus")
+    saveAudioOutputFormat("wav", storage)
+    expect(loadAudioOutputFormat(storage)).toBe("wav")
+    storage.setItem("microphone-output-format", "flac")
+    expect(loadAudioOutputFormat(storage)).toBe("opus")
+  })
+
+  it("Float32 を 16bit PCM にしてインターリーブする", () => {
+    const pcm = encodePcm16([new Float32Array([0, 1, -1, 2])], 1)
+    expect(Array.from(pcm)).toEqual([0, 0x7fff, -0x8000, 0x7fff])
+    // モノラル入力をステレオで保存するときは同じサンプルを両方に入れる
+    const stereo = encodePcm16([new Float32Array([0.5, -0.5])], 2)
+    expect(Array.from(stereo)).toEqual([16383, 16383, -16384, -16384])
+  })
+
+  it("16bit PCM の WAV ヘッダーを付ける", async () => {
+    const header = new DataView(createWavHeader(8, 44100, 2).buffer)
+    const text = (offset: number) =>
+      String.fromCharCode(...Array.from({ length: 4 }, (_, i) => header.getUint8(offset + i)))
+    expect(text(0)).toBe("RIFF")
+    expect(header.getUint32(4, true)).toBe(44)
+    expect(text(8)).toBe("WAVE")
+    expect(header.getUint16(22, true)).toBe(2)
+    expect(header.getUint32(24, true)).toBe(44100)
+    expect(header.getUint32(28, true)).toBe(44100 * 4)
+    expect(header.getUint16(34, true)).toBe(16)
+    expect(header.getUint32(40, true)).toBe(8)
+
+    const blob = createWavBlob([new Blob([new Int16Array([1, 2])]), new Blob([new Int16Array([3])])], 16000, 1)
+    expect(blob.type).toBe("audio/wav")
+    expect(blob.size).toBe(44 + 6)
+    const view = new DataView(await blob.arrayBuffer())
+    expect(view.getUint32(40, true)).toBe(6)
+    expect(view.getInt16(48, true)).toBe(3)
+  })
+})
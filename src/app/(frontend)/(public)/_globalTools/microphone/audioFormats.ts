@@ -0,0 +1,164 @@
+/**
+ * 録音の保存形式
+ *
+ * - opus: MediaRecorder の圧縮形式（WebM / Ogg。Safari は MP4（AAC）になる）
+ * - mp3: MediaRecorder が audio/mpeg に対応しているブラウザのみ
+ * - wav: AudioWorklet で取り出した PCM を 16bit WAV にする（どのブラウザでも同じ形式になる）
+ *
+ * 実際に録音した形式を MIME タイプ・拡張子にそのまま使い、形式を偽らない。
+ */
+
+export type AudioOutputFormat = "opus" | "mp3" | "wav"
+
+export const AUDIO_OUTPUT_FORMATS: Record<AudioOutputFormat, { label: string; candidates: string[] }> = {
+  opus: {
+    label: "Opus",
+    candidates: ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm", "audio/mp4"],
+  },
+  mp3: { label: "MP3", candidates: ["audio/mpeg"] },
+  wav: { label: "WAV", candidates: ["audio/wav"] },
+}
+
+export const DEFAULT_AUDIO_OUTPUT_FORMAT: AudioOutputFormat = "opus"
+
+const STORAGE_KEY = "microphone-output-format"
+
+type FormatStorage = Pick<Storage, "getItem" | "setItem">
+
+const getStorage = (): FormatStorage | null => (typeof localStorage === "undefined" ? null : localStorage)
+
+const isAudioOutputFormat = (value: unknown): value is AudioOutputFormat =>
+  typeof value === "string" && value in AUDIO_OUTPUT_FORMATS
+
+/**
+ * 前回選んだ保存形式を読む。なければ既定値
+ */
+export const loadAudioOutputFormat = (storage: FormatStorage | null = getStorage()): AudioOutputFormat => {
+  const saved = storage?.getItem(STORAGE_KEY)
+  return isAudioOutputFormat(saved) ? saved : DEFAULT_AUDIO_OUTPUT_FORMAT
+}
+
+export const saveAudioOutputFormat = (
+  format: AudioOutputFormat,
+  storage: FormatStorage | null = getStorage(),
+): void => {
+  try {
+    storage?.setItem(STORAGE_KEY, format)
+  } catch (error) {
+    // 保存できなくても今回の録音には使えるので、警告だけにする
+    console.warn("[AudioFormats] Failed to save output format:", error)
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+}
+
+/**
+ * コーデック指定（;codecs=...）を除いた MIME タイプ
+ */
+export const baseMimeType = (mimeType: string): string => mimeType.split(";")[0].trim().toLowerCase()
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[baseMimeType(mimeType)] ?? "webm"
+
+/**
+ * 先頭のバイト列から録音データの形式を推定する（形式の記録がない古い録音の復元用）
+ */
+export const sniffAudioMimeType = (head: Uint8Array): string | null => {
+  const text = (offset: number, length: number) => String.fromCharCode(...head.subarray(offset, offset + length))
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) return "audio/webm"
+  if (text(0, 4) === "OggS") return "audio/ogg"
+  if (text(4, 4) === "ftyp") return "audio/mp4"
+  if (text(0, 4) === "RIFF" && text(8, 4) === "WAVE") return "audio/wav"
+  if (text(0, 3) === "ID3" || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)) return "audio/mpeg"
+  return null
+}
+
+const supportsPcmCapture = (): boolean => typeof AudioContext !== "undefined" && typeof AudioWorkletNode !== "undefined"
+
+const supportsMediaRecorderType = (type: string): boolean =>
+  typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported(type)
+
+/**
+ * 保存形式をこの端末で録音できる MIME タイプに決める。対応していなければ null
+ */
+export const resolveAudioMimeType = (
+  format: AudioOutputFormat,
+  support: { isTypeSupported: (type: string) => boolean; pcmCapture: boolean } = {
+    isTypeSupported: supportsMediaRecorderType,
+    pcmCapture: supportsPcmCapture(),
+  },
+): string | null => {
+  if (format === "wav") return support.pcmCapture ? "audio/wav" : null
+  return AUDIO_OUTPUT_FORMATS[format].candidates.find((type) => support.isTypeSupported(type)) ?? null
+}
+
+/**
+ * 選んだ形式で録音できなければ、既定の形式（opus）に切り替える
+ */
+export const resolveAudioOutput = (
+  format: AudioOutputFormat,
+  support?: Parameters<typeof resolveAudioMimeType>[1],
+): { format: AudioOutputFormat; mimeType: string } | null => {
+  const mimeType = resolveAudioMimeType(format, support)
+  if (mimeType) return { format, mimeType }
+  if (format === DEFAULT_AUDIO_OUTPUT_FORMAT) return null
+  const fallback = resolveAudioMimeType(DEFAULT_AUDIO_OUTPUT_FORMAT, support)
+  return fallback ? { format: DEFAULT_AUDIO_OUTPUT_FORMAT, mimeType: fallback } : null
+}
+
+/**
+ * チャンネルごとの Float32 サンプルを、16bit リトルエンディアンのインターリーブ PCM にする
+ * 入力のチャンネルが足りなければ最初のチャンネルを複製する（モノラル入力をステレオで保存する場合）
+ */
+export const encodePcm16 = (channels: Float32Array[], channelCount: number): Int16Array => {
+  const frames = channels[0]?.length ?? 0
+  const pcm = new Int16Array(frames * channelCount)
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const source = channels[channel] ?? channels[0]
+      const sample = Math.max(-1, Math.min(1, source[frame]))
+      pcm[frame * channelCount + channel] = sample < 0 ? sample * 0x8000 : sample * 0x7fff
+    }
+  }
+  return pcm
+}
+
+/**
+ * 16bit PCM の WAV ヘッダー（44 バイト）
+ */
+export const createWavHeader = (dataBytes: number, sampleRate: number, channelCount: number): Uint8Array => {
+  const bytesPerSample = 2
+  const header = new DataView(new ArrayBuffer(44))
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i))
+  }
+  writeText(0, "RIFF")
+  header.setUint32(4, 36 + dataBytes, true)
+  writeText(8, "WAVE")
+  writeText(12, "fmt ")
+  header.setUint32(16, 16, true) // fmt チャンクの大きさ
+  header.setUint16(20, 1, true) // リニア PCM
+  header.setUint16(22, channelCount, true)
+  header.setUint32(24, sampleRate, true)
+  header.setUint32(28, sampleRate * channelCount * bytesPerSample, true)
+  header.setUint16(32, channelCount * bytesPerSample, true)
+  header.setUint16(34, bytesPerSample * 8, true)
+  writeText(36, "data")
+  header.setUint32(40, dataBytes, true)
+  return new Uint8Array(header.buffer)
+}
+
+/**
+ * PCM のチャンクに WAV ヘッダーを付けて1つのファイルにする
+ */
+export const createWavBlob = (chunks: Blob[], sampleRate: number, channelCount: number): Blob => {
+  const dataBytes = chunks.reduce((sum, chunk) => sum + chunk.size, 0)
+  return new Blob([createWavHeader(dataBytes, sampleRate, channelCount) as BlobPart, ...chunks], {
+    type: "audio/wav",
+  })
+}
@@ -0,0 +1,142 @@
+import { normalizeSegments, type TranscriptSegment } from "./transcription"
+
+/**
+ * 録音中のブラウザ内文字起こし（SpeechRecognition / webkitSpeechRecognition）
+ *
+ * SpeechRecognition は区間の時刻を返さないため、録音時間（一時停止を除く）を clock で受け取り、
+ * 話し始め（最初の途中結果）から確定までを1区間とする。
+ * Chrome は無音が続くと認識を終えるので、止めるまで自動で再開する。
+ */
+
+// lib.dom に型がないため、使う分だけ定義する
+interface SpeechRecognitionAlternativeLike {
+  transcript: string
+}
+interface SpeechRecognitionResultLike {
+  readonly isFinal: boolean
+  readonly length: number
+  [index: number]: SpeechRecognitionAlternativeLike
+}
+interface SpeechRecognitionEventLike {
+  readonly resultIndex: number
+  readonly results: { readonly length: number; [index: number]: SpeechRecognitionResultLike }
+}
+interface SpeechRecognitionLike {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+  start: () => void
+  stop: () => void
+  abort: () => void
+}
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === "undefined") return null
+  const w = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  }
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null
+}
+
+export const isLiveTranscriptionSupported = (): boolean => getSpeechRecognition() !== null
+
+// 続けても直らないエラー（権限・未対応の言語など）。それ以外（no-speech 等）は再開する
+const FATAL_ERRORS = new Set(["not-allowed", "service-not-allowed", "language-not-supported", "audio-capture"])
+
+export interface LiveTranscriber {
+  readonly segments: TranscriptSegment[]
+  pause: () => void
+  resume: () => void
+  stop: () => TranscriptSegment[] // 途中結果も区間として確定させて返す
+}
+
+export const createLiveTranscriber = (options: {
+  language?: string
+  clock: () => number // 録音の先頭からの位置（秒）
+  onChange: (segments: TranscriptSegment[], interim: string) => void
+  onError?: (error: Error) => void
+}): LiveTranscriber | null => {
+  const SpeechRecognition = getSpeechRecognition()
+  if (!SpeechRecognition) return null
+
+  let segments: TranscriptSegment[] = []
+  let interim: { start: number; text: string } | null = null
+  let isActive = true // pause 中・stop 後は false（onend で再開しない）
+  let recognition: SpeechRecognitionLike | null = null
+
+  const emit = () => options.onChange(segments, interim?.text ?? "")
+
+  const commitInterim = () => {
+    if (interim?.text.trim())
+      segments = [...segments, { start: interim.start, end: options.clock(), text: interim.text }]
+    interim = null
+  }
+
+  const start = () => {
+    const instance = new SpeechRecognition()
+    instance.lang = options.language ?? ""
+    instance.continuous = true
+    instance.interimResults = true
+    instance.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i]
+        const text = result[0]?.transcript ?? ""
+        interim = { start: interim?.start ?? options.clock(), text }
+        if (result.isFinal) commitInterim()
+      }
+      emit()
+    }
+    instance.onerror = (event) => {
+      if (!FATAL_ERRORS.has(event.error)) return
+      isActive = false
+      options.onError?.(new Error(`Speech recognition stopped (${event.error})`))
+    }
+    instance.onend = () => {
+      if (recognition !== instance) return
+      commitInterim()
+      emit()
+      recognition = null
+      if (isActive) start()
+    }
+    recognition = instance
+    try {
+      instance.start()
+    } catch (error) {
+      recognition = null
+      isActive = false
+      options.onError?.(new Error("Failed to start speech recognition", { cause: error }))
+    }
+  }
+
+  const halt = () => {
+    isActive = false
+    const current = recognition
+    recognition = null
+    current?.abort()
+    commitInterim()
+    emit()
+  }
+
+  start()
+
+  return {
+    get segments() {
+      return segments
+    },
+    pause: halt,
+    resume: () => {
+      if (isActive) return
+      isActive = true
+      start()
+    },
+    stop: () => {
+      halt()
+      return normalizeSegments(segments)
+    },
+  }
+}
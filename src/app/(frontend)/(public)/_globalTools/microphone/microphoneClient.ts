@@ -1,45 +1,82 @@
+import { baseMimeType, resolveAudioOutput, type AudioOutputFormat } from "./audioFormats"
+
 interface MicrophoneConfig {
   AUDIO_CONSTRAINTS?: MediaTrackConstraints
+  SAMPLE_RATE?: number // 録音のサンプリングレート（WAV はこのレートで書き出す）
+  CHANNEL_COUNT?: number // 1: モノラル, 2: ステレオ
 }
 
 const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
-  sampleRate: { ideal: 44100 },
-  channelCount: { ideal: 1 }, // mono
   echoCancellation: true,
   noiseSuppression: true,
 }
 
+/**
+ * 録音に使うレコーダー（MediaRecorder か、WAV 用の PCM レコーダー）
+ */
+export interface AudioRecorder {
+  readonly mimeType: string
+  state: RecordingState
+  ondataavailable: ((event: BlobEvent) => void) | null
+  onstop: ((event: Event) => void) | null
+  start: (timeslice?: number) => void
+  pause: () => void
+  resume: () => void
+  stop: () => void
+  // 書き出したチャンクから保存する1つのファイルを作る
+  assemble: (chunks: Blob[]) => Blob
+  // PCM（WAV）で録音する場合の形式。チャンクだけから WAV を作り直すのに使う
+  readonly pcm?: { sampleRate: number; channelCount: number }
+}
+
 const createMicrophoneClient = (config: MicrophoneConfig = {}) => {
   const defaultConfig: Required<MicrophoneConfig> = {
     AUDIO_CONSTRAINTS: AUDIO_CONSTRAINTS,
+    SAMPLE_RATE: 44100,
+    CHANNEL_COUNT: 1, // mono
   }
   const finalConfig = { ...defaultConfig, ...config }
 
   const getMicrophoneStream = async (): Promise<MediaStream> => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: finalConfig.AUDIO_CONSTRAINTS,
+        audio: {
+          sampleRate: { ideal: finalConfig.SAMPLE_RATE },
+          channelCount: { ideal: finalConfig.CHANNEL_COUNT },
+          ...finalConfig.AUDIO_CONSTRAINTS,
+        },
         video: false,
       })
       return stream
     } catch (error) {
-      throw new Error(`Microphone access denied: ${error instanceof Error ? error.message : "Unknown error"}`)
+      throw new Error(`Microphone access denied: ${error instanceof Error ? error.message : "Unknown error"}`, {
+        cause: error,
+      })
     }
   }
 
-  const createRecorder = (stream: MediaStream): MediaRecorder => {
-    // まずMP3を試し、WebMにフォールバック
-    const mimeType = MediaRecorder.isTypeSupported("audio/mpeg")
-      ? "audio/mpeg"
-      : MediaRecorder.isTypeSupported("audio/webm")
-        ? "audio/webm"
-        : ""
-    if (!mimeType) {
+  /**
+   * 保存形式に合わせてレコーダーを作る（対応していない形式は opus に切り替える）
+   */
+  const createRecorder = async (stream: MediaStream, format: AudioOutputFormat): Promise<AudioRecorder> => {
+    const output = resolveAudioOutput(format)
+    if (!output) {
       throw new Error("No supported audio format found")
     }
-    const recorder = new MediaRecorder(stream, { mimeType })
-    return recorder
+    if (output.format !== format) {
+      console.warn(`[MicrophoneClient] ${format} is not supported, recording as ${output.mimeType}`)
+    }
+    if (output.format === "wav") {
+      // AudioContext を使うので、WAV を選んだときだけ読み込む
+      const { createPcmRecorder } = await import("./pcmRecorder")
+      return createPcmRecorder(stream, { sampleRate: finalConfig.SAMPLE_RATE, channelCount: finalConfig.CHANNEL_COUNT })
+    }
+    const recorder = new MediaRecorder(stream, { mimeType: output.mimeType })
+    // 実際に録音された形式で保存する（mimeType が空の実装では指定した形式）
+    const type = baseMimeType(recorder.mimeType || output.mimeType)
+    return Object.assign(recorder, { assemble: (chunks: Blob[]) => new Blob(chunks, { type }) })
   }
+
   const checkAvailability = async (): Promise<boolean> => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
       return false
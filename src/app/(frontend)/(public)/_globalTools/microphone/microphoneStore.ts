@@ -1,34 +1,68 @@
 import { useExternalStore } from "../_hooks/atoms/useExternalStore"
-import { idbStore } from "../_hooks/db/useIdbStore"
+import { toMediaDeviceError } from "../_hooks/media/mediaDeviceError"
+import { createStreamMonitor, type StreamLossReason, type StreamMonitor } from "../_hooks/media/streamMonitor"
+import { type FileMetadata, type RecordingMarker } from "../_hooks/metadata/fileMetadata"
+import { isQuotaExceededError } from "../_hooks/storage/storageQuota"
 import { type SavedToolFileResult } from "../_hooks/useToolActionStore"
-import { createMicrophoneClient, type MicrophoneConfig } from "./microphoneClient"
+import {
+  extensionForMimeType,
+  loadAudioOutputFormat,
+  saveAudioOutputFormat,
+  type AudioOutputFormat,
+} from "./audioFormats"
+import { createLiveTranscriber, type LiveTranscriber } from "./liveTranscriber"
+import { createMicrophoneClient, type AudioRecorder, type MicrophoneConfig } from "./microphoneClient"
+import {
+  createRecordingSession,
+  discardOrphanedRecording,
+  findOrphanedRecordings,
+  restoreOrphanedRecording,
+  type OrphanedRecording,
+  type RecordingSession,
+} from "./recordingSession"
+import { saveTranscript } from "./transcriptRepository"
+import { loadTranscriptionSettings, type TranscriptSegment } from "./transcription"
+
+const RECORD_TIMESLICE = 1000 // 録音データを IndexedDB へ書き出す間隔
 
 interface MicrophoneState {
   isAvailable: boolean | null // null:初期化中、true:利用可能、false:利用不可
   isRecording: boolean
+  isPaused: boolean // 録音の一時停止中（isRecording は true のまま）
   isPlaying: boolean
   recordedBlob: Blob | null
   audioUrl: string | null
-  error: Error | null
+  error: Error | null // マイク自体のエラーは MediaDeviceError（code で種類、recoverable で自動復帰の可否が分かる）
+  isRecovering: boolean // 止まったストリームを取り直している
   duration: number // 録音時間
   currentTime: number // 再生中の時間
   stream: MediaStream | null // Added for visualization
+  outputFormat: AudioOutputFormat // 保存形式（対応していなければ録音時に opus に切り替わる）
+  markers: RecordingMarker[] // 録音中に付けたマーカー（保存時にメタデータへ入れる）
+  orphanedRecordings: OrphanedRecording[] // 前回途中で落ちて保存されなかった録音
+  liveTranscription: boolean // 録音中にブラウザの音声認識で文字起こしする
+  liveTranscript: TranscriptSegment[] // 録音中に確定した文字起こし（保存時に録音へ紐づける）
+  liveInterim: string // 認識途中の文
 }
 
 export interface MicrophoneExternalActions {
   saveFile?: (
     file: Blob | File,
-    options?: { fileName?: string; idbKey?: string; category?: string },
+    options?: { fileName?: string; idbKey?: string; category?: string; metadata?: FileMetadata },
   ) => Promise<SavedToolFileResult>
   getFileWithUrl?: (idbKey: string) => Promise<string | null>
   deleteFile?: (idbKey: string, dbId: string) => Promise<void>
 }
 
 interface MicrophoneStateInternal extends MicrophoneState {
-  mediaRecorder: MediaRecorder | null
+  mediaRecorder: AudioRecorder | null
   audioElement: HTMLAudioElement | null
   stream: MediaStream | null
-  recordedChunks: string[] // チャンクキーの配列
+  streamMonitor: StreamMonitor | null
+  session: RecordingSession | null // 録音中のチャンクの書き出し先
+  liveTranscriber: LiveTranscriber | null
+  recordedElapsedMs: number // 一時停止までに録音した時間
+  segmentStartedAt: number | null // 録音を始めた・再開した時刻（一時停止中は null）
   externalActions: MicrophoneExternalActions
   callbacks: {
     onRecordComplete?: (result: SavedToolFileResult) => void
@@ -40,16 +74,28 @@ let microphoneClient: ReturnType<typeof createMicrophoneClient> | null = null
 const state: MicrophoneStateInternal = {
   isAvailable: true, // Optimistic display
   isRecording: false,
+  isPaused: false,
   isPlaying: false,
   recordedBlob: null,
   audioUrl: null,
   error: null,
+  isRecovering: false,
   duration: 0,
   currentTime: 0,
+  outputFormat: loadAudioOutputFormat(),
+  markers: [],
+  orphanedRecordings: [],
+  liveTranscription: false,
+  liveTranscript: [],
+  liveInterim: "",
   mediaRecorder: null,
   audioElement: null,
   stream: null,
-  recordedChunks: [],
+  streamMonitor: null,
+  session: null,
+  liveTranscriber: null,
+  recordedElapsedMs: 0,
+  segmentStartedAt: null,
   externalActions: {},
   callbacks: {},
 }
@@ -59,13 +105,21 @@ const listeners: Set<() => void> = new Set()
 const serverSnapshot: MicrophoneState = {
   isAvailable: false,
   isRecording: false,
+  isPaused: false,
   isPlaying: false,
   recordedBlob: null,
   audioUrl: null,
   error: null,
+  isRecovering: false,
   duration: 0,
   currentTime: 0,
   stream: null,
+  outputFormat: "opus",
+  markers: [],
+  orphanedRecordings: [],
+  liveTranscription: false,
+  liveTranscript: [],
+  liveInterim: "",
 }
 
 // 無限ループを避けるためのgetSnapshotキャッシュ
@@ -90,13 +144,21 @@ const getSnapshot = (): MicrophoneState => {
     snapshotCache = {
       isAvailable: state.isAvailable,
       isRecording: state.isRecording,
+      isPaused: state.isPaused,
       isPlaying: state.isPlaying,
       recordedBlob: state.recordedBlob,
       audioUrl: state.audioUrl,
       error: state.error,
+      isRecovering: state.isRecovering,
       duration: state.duration,
       currentTime: state.currentTime,
       stream: state.stream,
+      outputFormat: state.outputFormat,
+      markers: state.markers,
+      orphanedRecordings: state.orphanedRecordings,
+      liveTranscription: state.liveTranscription,
+      liveTranscript: state.liveTranscript,
+      liveInterim: state.liveInterim,
     }
     snapshotVersion = currentVersion
   }
@@ -123,6 +185,75 @@ const updateState = (updater: Partial<MicrophoneStateInternal>) => {
   notify()
 }
 
+/**
+ * ストリームが止まったら取り直すよう監視する（cleanup まで続ける）
+ */
+const watchStream = (stream: MediaStream) => {
+  if (!state.streamMonitor) {
+    state.streamMonitor = createStreamMonitor({ onLost: (reason) => void recoverStream(reason) })
+  }
+  state.streamMonitor.attach(stream)
+}
+
+/**
+ * 止まったストリームを取り直す。録音中ならそこまでの録音を確定させる（保存は利用者が選ぶ）
+ */
+const recoverStream = async (reason: StreamLossReason) => {
+  if (state.isRecovering) return
+  console.warn(`[MicrophoneStore] Stream lost (${reason}), reconnecting...`)
+  updateState({ isRecovering: true })
+  if (state.mediaRecorder && state.mediaRecorder.state !== "inactive") state.mediaRecorder.stop()
+  finishLiveTranscription()
+  state.stream?.getTracks().forEach((track) => track.stop())
+  updateState({ stream: null })
+  await actions.setup()
+  updateState({ isRecovering: false })
+}
+
+/**
+ * 録音中の文字起こしを止め、そこまでの区間を確定させる（保存時に録音へ紐づける）
+ */
+const finishLiveTranscription = () => {
+  const transcriber = state.liveTranscriber
+  if (!transcriber) return
+  state.liveTranscriber = null
+  updateState({ liveTranscript: transcriber.stop(), liveInterim: "" })
+}
+
+/**
+ * IndexedDB に書き出したチャンクを読み出して1つのファイルにする（チャンクは受け取り側に渡し終えてから消す）
+ * 失敗したときはチャンクを残したままロックを手放し、途中で落ちた録音として復元できるようにする
+ */
+const collectRecording = async (recorder: AudioRecorder, session: RecordingSession): Promise<Blob> => {
+  if (state.session === session) state.session = null
+  try {
+    return recorder.assemble([await session.finish()])
+  } catch (error) {
+    await session.abandon()
+    throw error
+  }
+}
+
+/**
+ * 一時停止していた時間を除いた録音時間（秒）
+ */
+const getRecordingElapsed = (): number =>
+  (state.recordedElapsedMs + (state.segmentStartedAt === null ? 0 : Date.now() - state.segmentStartedAt)) / 1000
+
+/**
+ * 録音をまとめられなかったとき（チャンクは残っているので、復元の候補として出す）
+ */
+const handleCollectError = (error: unknown) => {
+  console.error("[MicrophoneStore] Failed to assemble recording:", error)
+  updateState({
+    isRecording: false,
+    isPaused: false,
+    // 書き込みの失敗（容量超過など）で止めた場合は、その原因を見せる
+    error: state.error ?? new Error("Failed to assemble the recording", { cause: error }),
+  })
+  void actions.findOrphanedRecordings()
+}
+
 const actions = {
   setExternalActions: (actions: MicrophoneExternalActions) => {
     state.externalActions = actions
@@ -152,48 +283,87 @@ const actions = {
         isAvailable: true,
         error: null,
       })
+      watchStream(stream)
     } catch (error) {
+      const microphoneError = toMediaDeviceError(error, "microphone")
+      if (microphoneError.recoverable) {
+        // 他のアプリが使用中などは、画面に戻ったとき・デバイスが変わったときにまた取り直す
+        state.streamMonitor?.attach(null)
+      } else {
+        state.streamMonitor?.stop()
+        state.streamMonitor = null
+      }
       updateState({
         isAvailable: false,
-        error: error instanceof Error ? error : new Error("Microphone setup failed"),
+        error: microphoneError,
       })
     }
   },
 
-  startRecord: () => {
+  setLiveTranscription: (liveTranscription: boolean) => {
+    if (state.isRecording) return
+    updateState({ liveTranscription })
+  },
+
+  setOutputFormat: (outputFormat: AudioOutputFormat) => {
+    if (state.isRecording) return
+    saveAudioOutputFormat(outputFormat)
+    updateState({ outputFormat })
+  },
+
+  startRecord: async () => {
     if (!state.stream || state.isRecording) return
     try {
       const client = getMicrophoneClient()
-      const mediaRecorder = client.createRecorder(state.stream)
-      state.recordedChunks = []
+      const mediaRecorder = await client.createRecorder(state.stream, state.outputFormat)
+      const session = await createRecordingSession({
+        mimeType: mediaRecorder.mimeType,
+        timeslice: RECORD_TIMESLICE,
+        pcm: mediaRecorder.pcm,
+      })
       state.mediaRecorder = mediaRecorder
-      mediaRecorder.ondataavailable = async (event: BlobEvent) => {
-        if (event.data.size > 0) {
-          const idb = idbStore()
-          const chunkKey = `chunk_${Date.now()}_${Math.random()}`
-          await idb.put(chunkKey, event.data)
-          state.recordedChunks.push(chunkKey)
-        }
+      state.session = session
+      state.recordedElapsedMs = 0
+      state.segmentStartedAt = Date.now()
+      mediaRecorder.ondataavailable = (event: BlobEvent) => {
+        if (event.data.size === 0) return
+        session.write(event.data).catch((error) => {
+          // 容量超過などで書き込めない場合は、そこまでのチャンクで録音を確定させる
+          updateState({
+            error: isQuotaExceededError(error)
+              ? new Error("Storage quota exceeded while recording", { cause: error })
+              : error instanceof Error
+                ? error
+                : new Error("Failed to store recording chunk"),
+          })
+          if (mediaRecorder.state !== "inactive") mediaRecorder.stop()
+        })
       }
       mediaRecorder.onstop = async () => {
-        const idb = idbStore()
-        const chunks: Blob[] = []
-        for (const key of state.recordedChunks) {
-          const chunk = (await idb.get(key)) as Blob
-          chunks.push(chunk)
-          await idb.remove(key) // クリーンアップ
+        try {
+          const blob = await collectRecording(mediaRecorder, session)
+          await session.discard()
+          updateState({
+            recordedBlob: blob,
+            audioUrl: URL.createObjectURL(blob),
+            isRecording: false,
+            isPaused: false,
+            duration: getRecordingElapsed(),
+          })
+        } catch (error) {
+          handleCollectError(error)
         }
-        const blob = new Blob(chunks, { type: "audio/mp3" })
-        const url = URL.createObjectURL(blob)
-        updateState({
-          recordedBlob: blob,
-          audioUrl: url,
-          isRecording: false,
-          duration: 0, // TODO: 再生時間を計算
-        })
       }
-      mediaRecorder.start(1000) // 1秒ごとにストリーム
-      updateState({ isRecording: true, error: null })
+      mediaRecorder.start(RECORD_TIMESLICE)
+      state.liveTranscriber = state.liveTranscription
+        ? createLiveTranscriber({
+            language: loadTranscriptionSettings().language,
+            clock: getRecordingElapsed,
+            onChange: (liveTranscript, liveInterim) => updateState({ liveTranscript, liveInterim }),
+            onError: (error) => console.warn("[MicrophoneStore] Live transcription stopped:", error),
+          })
+        : null
+      updateState({ isRecording: true, isPaused: false, markers: [], liveTranscript: [], liveInterim: "", error: null })
     } catch (error) {
       updateState({
         error: error instanceof Error ? error : new Error("Recording failed"),
@@ -202,35 +372,82 @@ const actions = {
     }
   },
 
+  pauseRecord: () => {
+    if (state.mediaRecorder?.state !== "recording") return
+    state.mediaRecorder.pause()
+    state.liveTranscriber?.pause()
+    state.recordedElapsedMs += state.segmentStartedAt === null ? 0 : Date.now() - state.segmentStartedAt
+    state.segmentStartedAt = null
+    updateState({ isPaused: true })
+  },
+
+  resumeRecord: () => {
+    if (state.mediaRecorder?.state !== "paused") return
+    state.mediaRecorder.resume()
+    state.liveTranscriber?.resume()
+    state.segmentStartedAt = Date.now()
+    updateState({ isPaused: false })
+  },
+
+  /**
+   * 録音中の位置にマーカーを付ける（一時停止中は止めた位置に付く）
+   */
+  addMarker: (label?: string) => {
+    if (!state.session || !state.isRecording) return
+    const marker: RecordingMarker = { time: Math.round(getRecordingElapsed() * 10) / 10, ...(label ? { label } : {}) }
+    updateState({ markers: [...state.markers, marker] })
+    state.session.addMarker(marker).catch((error) => {
+      // マニフェストに書けなくても、保存時のメタデータには入る
+      console.warn("[MicrophoneStore] Failed to persist marker:", error)
+    })
+  },
+
   stopRecord: (
     onComplete?: (blob: Blob) => Promise<SavedToolFileResult | undefined>,
   ): Promise<SavedToolFileResult | undefined> => {
-    if (!state.mediaRecorder || !state.isRecording) return Promise.resolve(undefined)
+    if (!state.mediaRecorder || !state.session || !state.isRecording) return Promise.resolve(undefined)
+    const duration = getRecordingElapsed()
     state.isRecording = false
+    state.isPaused = false
+    state.segmentStartedAt = null
     state.error = null
     const mediaRecorder = state.mediaRecorder
+    const session = state.session
+    finishLiveTranscription()
     return new Promise((resolve) => {
       mediaRecorder.onstop = async () => {
-        const idb = idbStore()
-        const chunks: Blob[] = []
-        for (const key of state.recordedChunks) {
-          const chunk = (await idb.get(key)) as Blob
-          chunks.push(chunk)
-          await idb.remove(key) // クリーンアップ
+        let blob: Blob
+        try {
+          blob = await collectRecording(mediaRecorder, session)
+        } catch (error) {
+          handleCollectError(error)
+          resolve(undefined)
+          return
         }
-        const blob = new Blob(chunks, { type: "audio/mp3" })
         if (onComplete) {
-          onComplete(blob).then((result) => {
-            if (result) state.callbacks.onRecordComplete?.(result)
-            resolve(result)
-          })
+          // 保存できたらチャンクを消す。保存できなければ残して、途中で落ちた録音として復元を勧める
+          let result: SavedToolFileResult | undefined
+          try {
+            result = await onComplete(blob)
+          } catch (error) {
+            console.error("[MicrophoneStore] Failed to save recording:", error)
+          }
+          if (result) {
+            await session.discard()
+            state.callbacks.onRecordComplete?.(result)
+          } else {
+            await session.abandon()
+            void actions.findOrphanedRecordings()
+          }
+          resolve(result)
         } else {
+          await session.discard()
           const url = URL.createObjectURL(blob)
           updateState({
             recordedBlob: blob,
             audioUrl: url,
             isRecording: false,
-            duration: 0, // TODO: 再生時間を計算
+            duration,
           })
           resolve(undefined)
         }
@@ -266,10 +483,23 @@ const actions = {
     if (!state.externalActions.saveFile) return
     try {
       const result = await state.externalActions.saveFile(blob, {
-        fileName: options?.fileName || `recording_${Date.now()}.mp3`,
+        fileName: options?.fileName || `recording_${Date.now()}.${extensionForMimeType(blob.type)}`,
+        metadata: state.markers.length > 0 ? { markers: state.markers } : undefined,
       })
+      if (state.liveTranscript.length > 0) {
+        try {
+          await saveTranscript(result.idbKey, {
+            engine: "speech-recognition",
+            language: loadTranscriptionSettings().language || undefined,
+            segments: state.liveTranscript,
+          })
+        } catch (error) {
+          // 録音は保存できているので、文字起こしは後から起こし直せる
+          console.warn("[MicrophoneStore] Failed to save live transcript:", error)
+        }
+      }
       // 保存後に録音されたblobをクリア
-      updateState({ recordedBlob: null, audioUrl: null })
+      updateState({ recordedBlob: null, audioUrl: null, markers: [], liveTranscript: [] })
       return result
     } catch (error) {
       updateState({
@@ -278,7 +508,59 @@ const actions = {
     }
   },
 
+  /**
+   * 前回途中で落ちた録音を探す（モーダルを開いたときに呼ぶ）
+   */
+  findOrphanedRecordings: async () => {
+    try {
+      updateState({ orphanedRecordings: await findOrphanedRecordings() })
+    } catch (error) {
+      console.warn("[MicrophoneStore] Failed to look for unsaved recordings:", error)
+    }
+  },
+
+  /**
+   * 途中で落ちた録音を復元して保存する（保存できたものから候補を消す）
+   */
+  restoreOrphanedRecordings: async (): Promise<SavedToolFileResult[]> => {
+    const { saveFile } = state.externalActions
+    if (!saveFile) return []
+    const results: SavedToolFileResult[] = []
+    for (const orphan of state.orphanedRecordings) {
+      try {
+        const blob = await restoreOrphanedRecording(orphan)
+        const { startedAt, markers } = orphan.manifest
+        const result = await saveFile(blob, {
+          fileName: `recording_${new Date(startedAt).getTime()}.${extensionForMimeType(blob.type)}`,
+          metadata: { capturedAt: startedAt, ...(markers.length > 0 ? { markers } : {}) },
+        })
+        await discardOrphanedRecording(orphan)
+        results.push(result)
+        updateState({ orphanedRecordings: state.orphanedRecordings.filter((o) => o !== orphan) })
+      } catch (error) {
+        updateState({ error: new Error("Failed to restore the unsaved recording", { cause: error }) })
+        break
+      }
+    }
+    return results
+  },
+
+  discardOrphanedRecordings: async () => {
+    const orphans = state.orphanedRecordings
+    updateState({ orphanedRecordings: [] })
+    await Promise.all(orphans.map((orphan) => discardOrphanedRecording(orphan)))
+  },
+
   cleanup: () => {
+    state.streamMonitor?.stop()
+    state.streamMonitor = null
+    // 録音中に閉じた場合は、チャンクを残して次に開いたときに復元できるようにする
+    if (state.mediaRecorder && state.mediaRecorder.state !== "inactive") {
+      const session = state.session
+      state.mediaRecorder.onstop = () => void session?.abandon()
+      state.mediaRecorder.stop()
+    }
+    state.liveTranscriber?.stop()
     if (state.stream) {
       state.stream.getTracks().forEach((track) => track.stop())
     }
@@ -291,14 +573,23 @@ const actions = {
     updateState({
       isAvailable: null,
       isRecording: false,
+      isPaused: false,
       isPlaying: false,
       recordedBlob: null,
       audioUrl: null,
       stream: null,
       mediaRecorder: null,
       audioElement: null,
-      recordedChunks: [],
+      session: null,
+      liveTranscriber: null,
+      recordedElapsedMs: 0,
+      segmentStartedAt: null,
+      markers: [],
+      orphanedRecordings: [],
+      liveTranscript: [],
+      liveInterim: "",
       error: null,
+      isRecovering: false,
       duration: 0,
       currentTime: 0,
     })
@@ -0,0 +1,131 @@
+import { createWavBlob, encodePcm16 } from "./audioFormats"
+import type { AudioRecorder } from "./microphoneClient"
+
+/**
+ * AudioWorklet で PCM を取り出して WAV で録音する（MediaRecorder と同じ使い方ができる）
+ * サンプルの変換はオーディオスレッドから受け取ったまとまりごとに行い、timeslice ごとにチャンクとして渡す
+ */
+
+// オーディオスレッドで動く処理。128 フレームずつ呼ばれるので、ある程度まとめてから送る
+// バンドラーの設定に左右されないよう、モジュールは Blob URL で読み込む
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.batch = []
+    this.frames = 0
+    this.port.onmessage = () => this.flush(true)
+  }
+  flush(isFinal) {
+    this.port.postMessage({ batch: this.batch, isFinal })
+    this.batch = []
+    this.frames = 0
+  }
+  process(inputs) {
+    const input = inputs[0]
+    if (input && input.length > 0) {
+      this.batch.push(input.map((channel) => channel.slice(0)))
+      this.frames += input[0].length
+      if (this.frames >= 4096) this.flush(false)
+    }
+    return true
+  }
+}
+registerProcessor("pcm-capture", PcmCaptureProcessor)
+`
+
+type WorkletMessage = { batch: Float32Array[][]; isFinal: boolean }
+
+const joinBatch = (batch: Float32Array[][]): Float32Array[] => {
+  const channelCount = Math.max(0, ...batch.map((block) => block.length))
+  const frames = batch.reduce((sum, block) => sum + (block[0]?.length ?? 0), 0)
+  return Array.from({ length: channelCount }, (_, channel) => {
+    const joined = new Float32Array(frames)
+    let offset = 0
+    for (const block of batch) {
+      const samples = block[channel] ?? block[0]
+      joined.set(samples, offset)
+      offset += samples.length
+    }
+    return joined
+  })
+}
+
+export const createPcmRecorder = async (
+  stream: MediaStream,
+  options: { sampleRate: number; channelCount: number },
+): Promise<AudioRecorder> => {
+  const context = new AudioContext({ sampleRate: options.sampleRate })
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: "text/javascript" }))
+  try {
+    await context.audioWorklet.addModule(moduleUrl)
+  } catch (error) {
+    void context.close()
+    throw new Error("Failed to load the PCM capture worklet", { cause: error })
+  } finally {
+    URL.revokeObjectURL(moduleUrl)
+  }
+  const source = context.createMediaStreamSource(stream)
+  // 出力は無音のまま。destination につなぐのは、どのブラウザでも process を呼ばせるため
+  const node = new AudioWorkletNode(context, "pcm-capture")
+  // AudioContext が実際に使うサンプリングレート（端末が指定に対応していないこともある）
+  const sampleRate = context.sampleRate
+  let pending: Float32Array[][] = []
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  const emit = () => {
+    if (pending.length === 0) return
+    const pcm = encodePcm16(joinBatch(pending), options.channelCount)
+    pending = []
+    if (pcm.length === 0) return
+    const data = new Blob([pcm.buffer as ArrayBuffer], { type: "audio/l16" })
+    recorder.ondataavailable?.(new BlobEvent("dataavailable", { data }))
+  }
+
+  node.port.onmessage = (event: MessageEvent<WorkletMessage>) => {
+    pending.push(...event.data.batch)
+    if (!event.data.isFinal) return
+    // 残りを渡してから止める
+    emit()
+    source.disconnect()
+    node.disconnect()
+    node.port.onmessage = null
+    void context.close()
+    recorder.onstop?.(new Event("stop"))
+  }
+
+  const recorder: AudioRecorder = {
+    mimeType: "audio/wav",
+    state: "inactive",
+    ondataavailable: null,
+    onstop: null,
+    start: (timeslice = 1000) => {
+      if (recorder.state !== "inactive") return
+      recorder.state = "recording"
+      source.connect(node)
+      node.connect(context.destination)
+      timer = setInterval(emit, timeslice)
+    },
+    pause: () => {
+      if (recorder.state !== "recording") return
+      recorder.state = "paused"
+      // 入力を切り離すと process に音が届かなくなる。届いている分は次の emit で渡す
+      source.disconnect()
+    },
+    resume: () => {
+      if (recorder.state !== "paused") return
+      recorder.state = "recording"
+      source.connect(node)
+    },
+    stop: () => {
+      if (recorder.state === "inactive") return
+      recorder.state = "inactive"
+      if (timer) clearInterval(timer)
+      timer = null
+      node.port.postMessage("flush")
+    },
+    assemble: (chunks) => createWavBlob(chunks, sampleRate, options.channelCount),
+    pcm: { sampleRate, channelCount: options.channelCount },
+  }
+  return recorder
+}
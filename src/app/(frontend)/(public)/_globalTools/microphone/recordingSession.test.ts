@@ -0,0 +1,85 @@
+/**
+ * recordingSession テスト
+ *
+ * 録音中のチャンクとマーカーの書き出し、終了時の後片付け、
+ * 途中で落ちた録音（以前の版の chunk_* キーを含む）の検出・復元・破棄を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createMemoryIdbStore } from "../_hooks/testing/memoryStorage"
+import {
+  createRecordingSession,
+  discardOrphanedRecording,
+  findOrphanedRecordings,
+  restoreOrphanedRecording,
+} from "./recordingSession"
+
+describe("recordingSession", () => {
+  it("書き出したチャンクをまとめ、discard でマニフェストごと消す", async () => {
+    const storage = createMemoryIdbStore()
+    const session = await createRecordingSession({ mimeType: "audio/webm;codecs=opus", timeslice: 1000 }, storage)
+    await session.write(new Blob(["ab"]))
+    await session.write(new Blob(["cd"]))
+    await session.addMarker({ time: 1.5, label: "質問1" })
+    expect(session.bytes).toBe(4)
+    // 録音中のセッションは途中で落ちた録音として扱わない
+    expect(await findOrphanedRecordings(storage)).toEqual([])
+
+    expect(await (await session.finish()).text()).toBe("abcd")
+    await session.discard()
+    expect(storage.objects.size).toBe(0)
+  })
+
+  it("残っていたチャンクとマーカーから録音を復元する", async () => {
+    const storage = createMemoryIdbStore()
+    const session = await createRecordingSession({ mimeType: "audio/ogg;codecs=opus", timeslice: 1000 }, storage)
+    await session.write(new Blob(["a"]))
+    await session.write(new Blob(["b"]))
+    await session.write(new Blob(["c"]))
+    await session.addMarker({ time: 2 })
+    await session.abandon()
+
+    const [orphan] = await findOrphanedRecordings(storage)
+    expect(orphan.manifest.markers).toEqual([{ time: 2 }])
+    expect(orphan.approximateSeconds).toBe(3)
+    const blob = await restoreOrphanedRecording(orphan, storage)
+    expect(blob.type).toBe("audio/ogg")
+    expect(await blob.text()).toBe("abc")
+
+    await discardOrphanedRecording(orphan, storage)
+    expect(storage.objects.size).toBe(0)
+  })
+
+  it("WAV はマニフェストの形式でヘッダーを付け直す", async () => {
+    const storage = createMemoryIdbStore()
+    const session = await createRecordingSession(
+      { mimeType: "audio/wav", timeslice: 1000, pcm: { sampleRate: 16000, channelCount: 1 } },
+      storage,
+    )
+    await session.write(new Blob([new Int16Array([1, 2])]))
+    await session.abandon()
+
+    const [orphan] = await findOrphanedRecordings(storage)
+    const blob = await restoreOrphanedRecording(orphan, storage)
+    expect(blob.type).toBe("audio/wav")
+    const view = new DataView(await blob.arrayBuffer())
+    expect(view.getUint32(24, true)).toBe(16000)
+    expect(view.getUint32(40, true)).toBe(4)
+  })
+
+  it("以前の版の chunk_* キーを時刻順に1つの録音として扱い、形式を推定する", async () => {
+    const storage = createMemoryIdbStore()
+    const webmHeader = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0x01])
+    await storage.put("chunk_2000_0.5", new Blob(["tail"]))
+    await storage.put("chunk_1000_0.1", new Blob([webmHeader]))
+    await storage.put("camera_file_1", new Blob(["other"]))
+    // チャンクを書く前に落ちた録音のマニフェストは消す
+    await storage.put("microphone_empty_manifest", new Blob([JSON.stringify({ id: "empty" })]))
+
+    const orphans = await findOrphanedRecordings(storage)
+    expect(orphans).toHaveLength(1)
+    expect(orphans[0].chunkKeys).toEqual(["chunk_1000_0.1", "chunk_2000_0.5"])
+    expect(orphans[0].manifest.startedAt).toBe(new Date(1000).toISOString())
+    expect((await restoreOrphanedRecording(orphans[0], storage)).type).toBe("audio/webm")
+    expect(storage.objects.has("microphone_empty_manifest")).toBe(false)
+  })
+})
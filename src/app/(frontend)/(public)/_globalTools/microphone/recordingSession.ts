@@ -0,0 +1,76 @@
+import {
+  createRecordingSessions,
+  type OrphanedRecording as MediaOrphanedRecording,
+  type RecordingSession as MediaRecordingSession,
+  type RecordingSessionManifest,
+  type SessionStorage,
+} from "../_hooks/media/recordingSessions"
+import { type RecordingMarker } from "../_hooks/metadata/fileMetadata"
+import { createWavBlob, sniffAudioMimeType } from "./audioFormats"
+
+/**
+ * 録音セッション（書き出しと途中で落ちた録音の復元は _hooks/media/recordingSessions で行う）
+ *
+ * - 録音データは microphone_<id>_chunk_00000, ... に、形式・開始日時・マーカーは microphone_<id>_manifest に書く
+ * - マーカーを付けるたびにマニフェストを書き直す
+ * - 以前の版は形式の記録なしで chunk_<時刻>_<乱数> に書き出していたため、それも1つの録音として扱う
+ */
+
+export interface RecordingManifest extends RecordingSessionManifest {
+  timeslice: number // チャンクの間隔（ミリ秒）
+  pcm?: { sampleRate: number; channelCount: number } // WAV のみ
+  markers: RecordingMarker[]
+}
+
+export interface RecordingSession extends MediaRecordingSession<RecordingManifest> {
+  addMarker: (marker: RecordingMarker) => Promise<void>
+}
+
+export interface OrphanedRecording extends MediaOrphanedRecording<RecordingManifest> {
+  approximateSeconds: number // チャンク数 × timeslice（一時停止中はチャンクが出ないので、おおよその録音時間）
+}
+
+const LEGACY_CHUNK_PATTERN = /^chunk_(\d+)_/
+const LEGACY_ID = "legacy"
+
+const sessions = createRecordingSessions<RecordingManifest>({
+  keyPrefix: "microphone_",
+  lockPrefix: "microphone-recording-",
+  sniffMimeType: sniffAudioMimeType,
+  defaultMimeType: "audio/webm",
+  fallbackManifest: (id, firstOrder) => ({
+    id,
+    mimeType: "",
+    startedAt: new Date(id === LEGACY_ID ? firstOrder : Date.now()).toISOString(),
+    timeslice: 1000,
+    markers: [],
+  }),
+  parseLegacyChunkKey: (key) => {
+    const legacy = LEGACY_CHUNK_PATTERN.exec(key)
+    return legacy ? { id: LEGACY_ID, order: Number(legacy[1]) } : null
+  },
+  // WAV はマニフェストの形式でヘッダーを付け直す
+  assemble: (chunks, { pcm }) => (pcm ? createWavBlob(chunks, pcm.sampleRate, pcm.channelCount) : null),
+})
+
+export const createRecordingSession = async (
+  options: Omit<RecordingManifest, "id" | "startedAt" | "markers">,
+  storage?: SessionStorage,
+): Promise<RecordingSession> => {
+  const session = await sessions.create({ ...options, markers: [] }, storage)
+  return Object.assign(session, {
+    addMarker: (marker: RecordingMarker) => session.updateManifest({ markers: [...session.manifest.markers, marker] }),
+  })
+}
+
+/**
+ * 途中で落ちた録音（消されずに残っているチャンク）を探す。録音中のセッションは除く
+ */
+export const findOrphanedRecordings = async (storage?: SessionStorage): Promise<OrphanedRecording[]> =>
+  (await sessions.findOrphans(storage)).map((orphan) => ({
+    ...orphan,
+    approximateSeconds: Math.round((orphan.chunkKeys.length * orphan.manifest.timeslice) / 1000),
+  }))
+
+export const restoreOrphanedRecording = sessions.restore
+export const discardOrphanedRecording = sessions.discardOrphan
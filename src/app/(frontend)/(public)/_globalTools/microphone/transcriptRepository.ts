@@ -0,0 +1,120 @@
+import { asc, eq } from "drizzle-orm"
+import { files as filesTable, transcriptSegments } from "../_hooks/db/pgliteSchema"
+import { idbStore } from "../_hooks/db/useIdbStore"
+import { getDb } from "../_hooks/db/usePgliteStore"
+import {
+  normalizeSegments,
+  transcriptText,
+  type TranscribeOptions,
+  type TranscriptionEngine,
+  type TranscriptionEngineId,
+  type TranscriptSegment,
+} from "./transcription"
+
+/**
+ * 文字起こしの保存先（transcript_segments）
+ *
+ * - 録音（files の行）ごとに最新の1件だけを持つ。起こし直したら置き換える
+ * - 本文を files.search_text にも入れ、録音を全文検索で探せるようにする
+ */
+
+export interface StoredTranscript {
+  engine: TranscriptionEngineId
+  language: string | null
+  segments: TranscriptSegment[]
+  createdAt: Date
+}
+
+const findFile = async (idbKey: string) => {
+  const db = await getDb()
+  const [file] = await db
+    .select({ id: filesTable.id, fileName: filesTable.fileName })
+    .from(filesTable)
+    .where(eq(filesTable.idbKey, idbKey))
+  return file ?? null
+}
+
+export const saveTranscript = async (
+  idbKey: string,
+  transcript: { engine: TranscriptionEngineId; language?: string; segments: TranscriptSegment[] },
+): Promise<StoredTranscript> => {
+  const file = await findFile(idbKey)
+  if (!file) throw new Error(`Recording not found: ${idbKey}`)
+  const segments = normalizeSegments(transcript.segments)
+  const db = await getDb()
+  const rows = await db.transaction(async (tx) => {
+    await tx.delete(transcriptSegments).where(eq(transcriptSegments.fileId, file.id))
+    const inserted =
+      segments.length > 0
+        ? await tx
+            .insert(transcriptSegments)
+            .values(
+              segments.map((segment, position) => ({
+                fileId: file.id,
+                engine: transcript.engine,
+                language: transcript.language ?? null,
+                position,
+                startMs: Math.round(segment.start * 1000),
+                endMs: Math.round(segment.end * 1000),
+                text: segment.text,
+              })),
+            )
+            .returning()
+        : []
+    await tx
+      .update(filesTable)
+      .set({ searchText: [file.fileName, transcriptText(segments)].join("\n"), updatedAt: new Date() })
+      .where(eq(filesTable.id, file.id))
+    return inserted
+  })
+  return {
+    engine: transcript.engine,
+    language: transcript.language ?? null,
+    segments,
+    createdAt: rows[0]?.createdAt ?? new Date(),
+  }
+}
+
+/**
+ * 録音の文字起こしを読む（まだなければ null）
+ */
+export const getTranscript = async (idbKey: string): Promise<StoredTranscript | null> => {
+  const db = await getDb()
+  const rows = await db
+    .select({ segment: transcriptSegments })
+    .from(transcriptSegments)
+    .innerJoin(filesTable, eq(filesTable.id, transcriptSegments.fileId))
+    .where(eq(filesTable.idbKey, idbKey))
+    .orderBy(asc(transcriptSegments.position))
+  if (rows.length === 0) return null
+  const [{ segment: first }] = rows
+  return {
+    engine: first.engine as TranscriptionEngineId,
+    language: first.language,
+    segments: rows.map(({ segment }) => ({
+      start: segment.startMs / 1000,
+      end: segment.endMs / 1000,
+      text: segment.text,
+    })),
+    createdAt: first.createdAt,
+  }
+}
+
+/**
+ * 保存済みの録音を IndexedDB から読み出して文字起こしし、保存する
+ */
+export const transcribeRecording = async (
+  idbKey: string,
+  engine: TranscriptionEngine,
+  options?: TranscribeOptions,
+): Promise<StoredTranscript> => {
+  if (!engine.isAvailable()) throw new Error(`Transcription engine is not available: ${engine.label}`)
+  const audio = await idbStore().get(idbKey)
+  if (!audio) throw new Error("The recording is not stored on this device")
+  const result = await engine.transcribe(audio, options)
+  return saveTranscript(idbKey, {
+    engine: engine.id,
+    language: result.language ?? options?.language,
+    segments: result.segments,
+  })
+}
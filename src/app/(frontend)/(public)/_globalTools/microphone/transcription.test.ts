@@ -0,0 +1,64 @@
+/**
+ * transcription テスト
+ *
+ * 区間の位置の表示、区間の整形、設定の読み書き、テキストツール向けの Markdown への変換を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createMemoryLocalStorage } from "../_hooks/testing/memoryStorage"
+import { createTextClient } from "../text/textClient"
+import {
+  DEFAULT_TRANSCRIPTION_SETTINGS,
+  formatTimestamp,
+  loadTranscriptionSettings,
+  normalizeSegments,
+  saveTranscriptionSettings,
+  transcriptToMarkdown,
+} from "./transcription"
+
+describe("transcription", () => {
+  it("1時間未満は m:ss、それ以上は h:mm:ss で表示する", () => {
+    expect(formatTimestamp(0)).toBe("0:00")
+    expect(formatTimestamp(75.9)).toBe("1:15")
+    expect(formatTimestamp(3600 + 62)).toBe("1:01:02")
+  })
+
+  it("空の区間を除いて時刻順に並べる", () => {
+    expect(
+      normalizeSegments([
+        { start: 5, end: 7, text: " 次の議題 " },
+        { start: 1, end: 0.5, text: "はじめに" },
+        { start: 3, end: 4, text: "  " },
+      ]),
+    ).toEqual([
+      { start: 1, end: 1, text: "はじめに" },
+      { start: 5, end: 7, text: "次の議題" },
+    ])
+  })
+
+  it("設定を保存して読み戻し、壊れた値は既定値にする", () => {
+    const storage = createMemoryLocalStorage()
+    expect(loadTranscriptionSettings(storage)).toEqual(DEFAULT_TRANSCRIPTION_SETTINGS)
+    saveTranscriptionSettings({ ...DEFAULT_TRANSCRIPTION_SETTINGS, engine: "wasm", language: "en" }, storage)
+    expect(loadTranscriptionSettings(storage)).toMatchObject({ engine: "wasm", language: "en" })
+
+    storage.setItem("microphone-transcription-settings", JSON.stringify({ engine: "cloud" }))
+    expect(loadTranscriptionSettings(storage)).toEqual(DEFAULT_TRANSCRIPTION_SETTINGS)
+    storage.setItem("microphone-transcription-settings", "{")
+    expect(loadTranscriptionSettings(storage)).toEqual(DEFAULT_TRANSCRIPTION_SETTINGS)
+  })
+
+  it("時刻付きの行を持つ Markdown にし、テキストツールで読める", () => {
+    const markdown = transcriptToMarkdown({
+      title: "定例会議",
+      segments: [
+        { start: 0, end: 4, text: "始めます" },
+        { start: 65, end: 70, text: "予算について" },
+      ],
+      sourceFileName: "recording_1.webm",
+    })
+    const parsed = createTextClient().parseMarkdown(markdown)
+    expect(parsed.metadata).toMatchObject({ title: "定例会議", tags: ["transcript"], wordCount: 2 })
+    expect(parsed.body).toContain("> 録音: recording_1.webm")
+    expect(parsed.body).toContain("- **[0:00]** 始めます\n- **[1:05]** 予算について")
+  })
+})
@@ -0,0 +1,147 @@
+import { createTextClient } from "../text/textClient"
+
+/**
+ * 録音の文字起こし
+ *
+ * - エンジンは差し替えられる（TranscriptionEngine）
+ *   - http: OpenAI 互換の /audio/transcriptions エンドポイント（whisper.cpp / faster-whisper のサーバー、ローカルのモック）
+ *   - wasm: 端末内のモデル（registerWasmSpeechModel で読み込み方を登録したときだけ使える）
+ *   - speech-recognition: 録音中にブラウザの SpeechRecognition で起こす（liveTranscriber.ts）
+ * - 結果は区間（秒）ごとに PGlite の transcript_segments へ保存する（transcriptRepository.ts）
+ * - テキストツールへは Markdown の文書として渡す
+ */
+
+export interface TranscriptSegment {
+  start: number // 録音の先頭からの位置（秒）
+  end: number
+  text: string
+}
+
+export interface TranscriptionResult {
+  segments: TranscriptSegment[]
+  language?: string // エンジンが判定・使用した言語
+}
+
+export type TranscriptionEngineId = "http" | "wasm" | "speech-recognition"
+
+export interface TranscribeOptions {
+  language?: string // BCP 47。空ならエンジンに任せる
+  signal?: AbortSignal
+  onProgress?: (ratio: number) => void // 0〜1（分かるエンジンのみ）
+}
+
+export interface TranscriptionEngine {
+  readonly id: TranscriptionEngineId
+  readonly label: string
+  isAvailable: () => boolean
+  transcribe: (audio: Blob, options?: TranscribeOptions) => Promise<TranscriptionResult>
+}
+
+/**
+ * 保存済みの録音に使うエンジンの設定（speech-recognition は録音中のみなので含めない）
+ */
+export interface TranscriptionSettings {
+  engine: Exclude<TranscriptionEngineId, "speech-recognition">
+  endpoint: string
+  apiKey: string // ローカルのサーバーなら空でよい
+  model: string
+  language: string
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  engine: "http",
+  endpoint: "http://localhost:8000/v1/audio/transcriptions",
+  apiKey: "",
+  model: "whisper-1",
+  language: "ja",
+}
+
+const STORAGE_KEY = "microphone-transcription-settings"
+
+type SettingsStorage = Pick<Storage, "getItem" | "setItem">
+
+const getStorage = (): SettingsStorage | null => (typeof localStorage === "undefined" ? null : localStorage)
+
+/**
+ * 前回の設定を読む。壊れていれば既定値
+ */
+export const loadTranscriptionSettings = (storage: SettingsStorage | null = getStorage()): TranscriptionSettings => {
+  try {
+    const saved: unknown = JSON.parse(storage?.getItem(STORAGE_KEY) ?? "null")
+    if (!saved || typeof saved !== "object") return DEFAULT_TRANSCRIPTION_SETTINGS
+    const merged = { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...saved }
+    const isValid =
+      (merged.engine === "http" || merged.engine === "wasm") &&
+      [merged.endpoint, merged.apiKey, merged.model, merged.language].every((value) => typeof value === "string")
+    return isValid ? merged : DEFAULT_TRANSCRIPTION_SETTINGS
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS
+  }
+}
+
+export const saveTranscriptionSettings = (
+  settings: TranscriptionSettings,
+  storage: SettingsStorage | null = getStorage(),
+): void => {
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.warn("[Transcription] Failed to save settings:", error)
+  }
+}
+
+/**
+ * 区間の位置を表示する（1時間未満は m:ss）
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, "0")
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`
+}
+
+/**
+ * 空の区間を除き、時刻順に並べ、前後の空白を整える
+ */
+export const normalizeSegments = (segments: TranscriptSegment[]): TranscriptSegment[] =>
+  segments
+    .map((segment) => ({
+      start: Math.max(0, segment.start),
+      end: Math.max(segment.start, segment.end),
+      text: segment.text.trim(),
+    }))
+    .filter((segment) => segment.text.length > 0)
+    .sort((a, b) => a.start - b.start)
+
+export const transcriptText = (segments: TranscriptSegment[]): string =>
+  segments.map((segment) => segment.text).join("\n")
+
+/**
+ * 文字起こしをテキストツールの Markdown（front-matter 付き）にする
+ * 各行の先頭に区間の位置を付ける（議事録で録音と突き合わせられるように）
+ */
+export const transcriptToMarkdown = (params: {
+  title: string
+  segments: TranscriptSegment[]
+  sourceFileName?: string
+  tags?: string[]
+  createdAt?: Date
+}): string => {
+  const textClient = createTextClient()
+  const lines = params.segments.map((segment) => `- **[${formatTimestamp(segment.start)}]** ${segment.text}`)
+  const body = [
+    `# ${params.title}`,
+    "",
+    ...(params.sourceFileName ? [`> 録音: ${params.sourceFileName}`, ""] : []),
+    ...lines,
+    "",
+  ].join("\n")
+  return textClient.serializeMarkdown({
+    title: params.title,
+    tags: params.tags ?? ["transcript"],
+    body,
+    wordCount: textClient.countWords(transcriptText(params.segments)),
+    createdAt: params.createdAt,
+  })
+}
@@ -0,0 +1,57 @@
+/**
+ * transcriptionEngines テスト
+ *
+ * HTTP エンジンが OpenAI 互換の形式で送り、区間付き・全文のみの応答をどちらも区間にすること、
+ * 失敗を Error として返すことを検証する。（wasm エンジンはデコードにブラウザが必要なため対象外）
+ */
+import { describe, expect, it, vi } from "vitest"
+import { createHttpTranscriptionEngine, createWasmTranscriptionEngine } from "./transcriptionEngines"
+
+const config = { endpoint: "http://localhost:8000/v1/audio/transcriptions", apiKey: "", model: "whisper-1" }
+const audio = new Blob(["audio"], { type: "audio/webm;codecs=opus" })
+
+const respond = (body: unknown, status = 200) =>
+  vi.fn(async () => new Response(typeof body === "string" ? body : JSON.stringify(body), { status }))
+
+describe("transcriptionEngines", () => {
+  it("録音を multipart で送り、区間を受け取る", async () => {
+    const fetchMock = respond({
+      text: "こんにちは 今日は",
+      language: "japanese",
+      segments: [
+        { start: 0, end: 1.5, text: " こんにちは" },
+        { start: 1.5, end: 3, text: " 今日は" },
+      ],
+    })
+    const engine = createHttpTranscriptionEngine({ ...config, apiKey: "secret" }, fetchMock)
+    const result = await engine.transcribe(audio, { language: "ja" })
+
+    expect(result).toEqual({
+      language: "japanese",
+      segments: [
+        { start: 0, end: 1.5, text: "こんにちは" },
+        { start: 1.5, end: 3, text: "今日は" },
+      ],
+    })
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe(config.endpoint)
+    expect(init.headers).toEqual({ Authorization: "Bearer secret" })
+    const form = init.body as FormData
+    expect((form.get("file") as File).name).toBe("recording.webm")
+    expect(form.get("response_format")).toBe("verbose_json")
+    expect(form.get("language")).toBe("ja")
+  })
+
+  it("区間がない応答は全文を1区間にする", async () => {
+    const engine = createHttpTranscriptionEngine(config, respond({ text: "全文だけ", duration: 4 }))
+    expect((await engine.transcribe(audio)).segments).toEqual([{ start: 0, end: 4, text: "全文だけ" }])
+  })
+
+  it("失敗した応答・未設定のエンジンを区別できる", async () => {
+    const engine = createHttpTranscriptionEngine(config, respond("model not loaded", 503))
+    await expect(engine.transcribe(audio)).rejects.toThrow("Transcription request failed (503)")
+    expect(createHttpTranscriptionEngine({ ...config, endpoint: " " }).isAvailable()).toBe(false)
+    // モデルを登録するまで wasm は使えない
+    expect(createWasmTranscriptionEngine().isAvailable()).toBe(false)
+  })
+})
@@ -0,0 +1,143 @@
+import { decodeAudioFile, type AudioClip } from "./audioEdit"
+import { extensionForMimeType } from "./audioFormats"
+import {
+  normalizeSegments,
+  type TranscribeOptions,
+  type TranscriptionEngine,
+  type TranscriptionResult,
+  type TranscriptionSettings,
+} from "./transcription"
+
+/**
+ * 保存済みの録音を文字起こしするエンジン（http / wasm）
+ * wasm 用のモデルは同梱していない。registerWasmSpeechModel で登録されるまで wasm は選べない
+ */
+
+type Fetch = typeof fetch
+
+/**
+ * OpenAI 互換 API の verbose_json（whisper.cpp server・faster-whisper-server なども同じ形で返す）
+ */
+interface VerboseTranscriptionResponse {
+  text?: string
+  language?: string
+  duration?: number
+  segments?: { start: number; end: number; text: string }[]
+}
+
+const parseTranscriptionResponse = (body: VerboseTranscriptionResponse): TranscriptionResult => {
+  const segments = Array.isArray(body.segments)
+    ? body.segments.filter(
+        (s) => typeof s?.start === "number" && typeof s?.end === "number" && typeof s?.text === "string",
+      )
+    : []
+  return {
+    // 区間を返さない実装（response_format を無視するモックなど）は全文を1区間にする
+    segments: normalizeSegments(
+      segments.length > 0 ? segments : [{ start: 0, end: body.duration ?? 0, text: body.text ?? "" }],
+    ),
+    ...(body.language ? { language: body.language } : {}),
+  }
+}
+
+/**
+ * 設定した HTTP エンドポイントへ録音を送る
+ */
+export const createHttpTranscriptionEngine = (
+  config: Pick<TranscriptionSettings, "endpoint" | "apiKey" | "model">,
+  fetchImpl: Fetch = (...args) => fetch(...args),
+): TranscriptionEngine => ({
+  id: "http",
+  label: "HTTP endpoint",
+  isAvailable: () => config.endpoint.trim().length > 0,
+  transcribe: async (audio: Blob, options: TranscribeOptions = {}) => {
+    const form = new FormData()
+    // サーバーは拡張子で形式を判断するため、録音の形式に合った名前を付ける
+    form.append("file", new File([audio], `recording.${extensionForMimeType(audio.type)}`, { type: audio.type }))
+    form.append("model", config.model)
+    form.append("response_format", "verbose_json")
+    form.append("timestamp_granularities[]", "segment")
+    if (options.language) form.append("language", options.language)
+
+    let response: Response
+    try {
+      response = await fetchImpl(config.endpoint, {
+        method: "POST",
+        body: form,
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+        signal: options.signal,
+      })
+    } catch (error) {
+      throw new Error("Failed to reach the transcription endpoint", { cause: error })
+    }
+    if (!response.ok) {
+      throw new Error(`Transcription request failed (${response.status})`, {
+        cause: await response.text().catch(() => null),
+      })
+    }
+    const result = parseTranscriptionResponse(await response.json())
+    options.onProgress?.(1)
+    return result
+  },
+})
+
+/**
+ * 端末内で動く音声認識モデル（16kHz モノラルの Float32 を受け取る）
+ */
+export interface WasmSpeechModel {
+  transcribe: (
+    samples: Float32Array,
+    options: { language?: string; onProgress?: (ratio: number) => void; signal?: AbortSignal },
+  ) => Promise<TranscriptionResult>
+}
+
+export const WASM_SAMPLE_RATE = 16000
+
+let wasmModelLoader: (() => Promise<WasmSpeechModel>) | null = null
+let wasmModel: Promise<WasmSpeechModel> | null = null
+
+/**
+ * wasm エンジンで使うモデルの読み込み方を登録する（whisper.cpp の WASM ビルドなど）
+ * 登録するまで wasm エンジンは使えず、TranscriptPanel の選択肢にも出さない
+ */
+export const registerWasmSpeechModel = (loader: (() => Promise<WasmSpeechModel>) | null): void => {
+  wasmModelLoader = loader
+  wasmModel = null
+}
+
+/**
+ * モデルの入力に合わせて 16kHz モノラルにする
+ */
+const toMono16k = async (clip: AudioClip): Promise<Float32Array> => {
+  const duration = (clip.channels[0]?.length ?? 0) / clip.sampleRate
+  const length = Math.max(1, Math.ceil(duration * WASM_SAMPLE_RATE))
+  const context = new OfflineAudioContext(1, length, WASM_SAMPLE_RATE)
+  const buffer = context.createBuffer(clip.channels.length, clip.channels[0]?.length || 1, clip.sampleRate)
+  clip.channels.forEach((channel, i) => buffer.copyToChannel(channel as Float32Array<ArrayBuffer>, i))
+  const source = context.createBufferSource()
+  source.buffer = buffer
+  source.connect(context.destination)
+  source.start()
+  return (await context.startRendering()).getChannelData(0)
+}
+
+export const createWasmTranscriptionEngine = (): TranscriptionEngine => ({
+  id: "wasm",
+  label: "On-device model",
+  isAvailable: () => wasmModelLoader !== null && typeof OfflineAudioContext !== "undefined",
+  transcribe: async (audio: Blob, options: TranscribeOptions = {}) => {
+    if (!wasmModelLoader) throw new Error("No on-device speech model is registered")
+    const loader = wasmModelLoader
+    wasmModel ??= loader().catch((error) => {
+      // 次に使うときに読み込み直せるようにする
+      wasmModel = null
+      throw new Error("Failed to load the on-device speech model", { cause: error })
+    })
+    const [model, samples] = await Promise.all([wasmModel, decodeAudioFile(audio).then(toMono16k)])
+    const result = await model.transcribe(samples, options)
+    return { ...result, segments: normalizeSegments(result.segments) }
+  },
+})
+
+export const createTranscriptionEngine = (settings: TranscriptionSettings): TranscriptionEngine =>
+  settings.engine === "wasm" ? createWasmTranscriptionEngine() : createHttpTranscriptionEngine(settings)
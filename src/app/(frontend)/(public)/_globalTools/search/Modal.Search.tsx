@@ -0,0 +1,167 @@
+/**
+ * File Search Modal
+ * Cross-tool search over captured files, note bodies, tags and QR scans
+ */
+
+"use client"
+
+import { toast } from "@/components/atoms/Toast"
+import React, { useEffect, useState } from "react"
+import { Modal } from "../_components/atoms/Modal"
+import { CameraIcon, DocumentIcon, LoadingSpinner, MicIcon, QrIcon, SearchIcon } from "../_components/Icons"
+import { SCAN_CATEGORY, useToolActionStore, type FileSearchResult } from "../_hooks/useToolActionStore"
+
+interface SearchModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const CATEGORY_FILTERS: { label: string; value: string | undefined }[] = [
+  { label: "All", value: undefined },
+  { label: "Camera", value: "camera" },
+  { label: "Mic", value: "microphone" },
+  { label: "Text", value: "text" },
+  { label: "QR", value: SCAN_CATEGORY },
+]
+
+const TOOL_BY_CATEGORY: Record<string, "camera" | "microphone" | "text"> = {
+  camera: "camera",
+  microphone: "microphone",
+  text: "text",
+}
+
+const SEARCH_DEBOUNCE_MS = 250
+
+const ResultIcon: React.FC<{ category: string | null }> = ({ category }) => {
+  if (category === "camera") return <CameraIcon size="20px" color="currentColor" />
+  if (category === "microphone") return <MicIcon size="20px" color="currentColor" />
+  if (category === SCAN_CATEGORY) return <QrIcon size="20px" />
+  return <DocumentIcon size="20px" color="currentColor" />
+}
+
+const SearchModal: React.FC<SearchModalProps> = ({ isOpen, onClose }) => {
+  const { searchFiles, switchFileSet, setActiveTool, currentFileSet, isDbReady } = useToolActionStore()
+  const [query, setQuery] = useState("")
+  const [category, setCategory] = useState<string | undefined>(undefined)
+  const [onlyCurrentSet, setOnlyCurrentSet] = useState(false)
+  const [results, setResults] = useState<FileSearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen || !isDbReady || !searchFiles) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setIsSearching(true)
+      searchFiles({ query, category, fileSet: onlyCurrentSet ? currentFileSet : undefined })
+        .then((next) => {
+          if (!cancelled) setResults(next)
+        })
+        .catch((error) => {
+          console.error("[SearchModal] search failed:", error)
+          if (!cancelled) setResults([])
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false)
+        })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [isOpen, isDbReady, searchFiles, query, category, onlyCurrentSet, currentFileSet])
+
+  const handleOpen = async (result: FileSearchResult) => {
+    if (result.kind === "scan") {
+      try {
+        await navigator.clipboard.writeText(result.title)
+        toast.success("スキャン結果をコピーしました", { description: result.title })
+      } catch {
+        toast.error("コピーできませんでした")
+      }
+      return
+    }
+    if (result.fileSet !== currentFileSet) switchFileSet(result.fileSet)
+    const tool = result.category ? TOOL_BY_CATEGORY[result.category] : undefined
+    onClose()
+    if (tool) setActiveTool(tool)
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      className="fixed top-[10vh] z-50 h-[80vh] w-[90vw] max-w-2xl overflow-hidden bg-zinc-950 p-0 text-white"
+    >
+      <div className="flex h-full flex-col">
+        <div className="space-y-3 border-b border-white/10 p-4">
+          <label className="flex items-center gap-2 rounded-xl bg-zinc-900 px-3 py-2 ring-1 ring-white/10">
+            <SearchIcon size="18px" color="#a1a1aa" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="ファイル名・本文・タグ・QRを検索"
+              aria-label="Search files"
+              className="w-full bg-transparent text-sm outline-none placeholder:text-zinc-500"
+              autoFocus
+            />
+            {isSearching && <LoadingSpinner size="16px" />}
+          </label>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {CATEGORY_FILTERS.map((filter) => (
+              <button
+                key={filter.label}
+                onClick={() => setCategory(filter.value)}
+                aria-pressed={category === filter.value}
+                className={`rounded-full px-3 py-1 font-bold transition-colors ${
+                  category === filter.value ? "bg-white text-zinc-900" : "bg-zinc-900 text-zinc-400 hover:text-white"
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+            <label className="ml-auto flex items-center gap-1 text-zinc-400">
+              <input type="checkbox" checked={onlyCurrentSet} onChange={(e) => setOnlyCurrentSet(e.target.checked)} />
+              {currentFileSet} のみ
+            </label>
+          </div>
+        </div>
+
+        <ul className="flex-1 divide-y divide-white/5 overflow-y-auto">
+          {results.map((result) => (
+            <li key={`${result.kind}-${result.id}`}>
+              <button
+                onClick={() => void handleOpen(result)}
+                className="flex w-full items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-white/5"
+              >
+                <span className="mt-0.5 text-zinc-400">
+                  <ResultIcon category={result.category} />
+                </span>
+                <span className="min-w-0 flex-1 space-y-1">
+                  <span className="block truncate text-sm font-bold">{result.title}</span>
+                  {result.snippet && result.snippet !== result.title && (
+                    <span className="line-clamp-2 block text-xs text-zinc-400">{result.snippet}</span>
+                  )}
+                  <span className="flex flex-wrap items-center gap-2 text-[10px] text-zinc-500">
+                    <span>{result.fileSet}</span>
+                    <span>{new Date(result.createdAt).toLocaleString()}</span>
+                    {result.tags.map((tag) => (
+                      <span key={tag} className="rounded bg-zinc-800 px-1.5 py-0.5 text-zinc-300">
+                        #{tag}
+                      </span>
+                    ))}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+          {!isSearching && results.length === 0 && (
+            <li className="p-8 text-center text-xs text-zinc-500">{isDbReady ? "該当なし" : "Loading..."}</li>
+          )}
+        </ul>
+      </div>
+    </Modal>
+  )
+}
+
+export default SearchModal
@@ -0,0 +1,70 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { listBacklinks, type Backlink } from "./textLinks"
+
+const SABI_GOLD = "#9f890e"
+
+/**
+ * Notes that link to (`[[title]]`) or embed (`![[idbKey]]`) the open note
+ */
+export const BacklinksPanel: React.FC<{
+  idbKey: string
+  refreshKey: string // Reloads when the note is saved (its title may have changed)
+  onOpen: (idbKey: string) => void
+}> = ({ idbKey, refreshKey, onOpen }) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [loaded, setLoaded] = useState<{ key: string; backlinks: Backlink[] } | null>(null)
+  const requestKey = `${idbKey}|${refreshKey}`
+
+  useEffect(() => {
+    let isCancelled = false
+    listBacklinks(idbKey)
+      .then((backlinks) => {
+        if (!isCancelled) setLoaded({ key: requestKey, backlinks })
+      })
+      .catch((err) => console.warn("[BacklinksPanel] Failed to list backlinks:", err))
+    return () => {
+      isCancelled = true
+    }
+  }, [idbKey, requestKey])
+
+  const backlinks = loaded?.key === requestKey ? loaded.backlinks : null
+
+  return (
+    <div className="flex flex-col gap-2" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="self-start text-[10px] font-bold tracking-widest text-zinc-600 uppercase transition-colors hover:text-zinc-400"
+      >
+        <span style={{ color: SABI_GOLD }}>{isOpen ? "−" : "+"}</span> Backlinks
+        {backlinks && backlinks.length > 0 && ` (${backlinks.length})`}
+      </button>
+
+      {isOpen && (
+        <ul className="flex flex-col gap-1 border-l border-zinc-900 pl-3">
+          {backlinks === null ? (
+            <li className="text-xs text-zinc-700">Loading…</li>
+          ) : backlinks.length === 0 ? (
+            <li className="text-xs text-zinc-700">No notes link here yet</li>
+          ) : (
+            backlinks.map((backlink) => (
+              <li key={`${backlink.idbKey}-${backlink.kind}`} className="flex items-baseline gap-2">
+                <button
+                  onClick={() => onOpen(backlink.idbKey)}
+                  className="truncate text-left text-xs text-zinc-400 transition-colors hover:text-zinc-100"
+                >
+                  {backlink.title}
+                </button>
+                {backlink.kind === "embed" && (
+                  <span className="text-[9px] tracking-widest text-zinc-700 uppercase">embeds</span>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
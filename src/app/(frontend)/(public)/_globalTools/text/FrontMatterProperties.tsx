@@ -0,0 +1,144 @@
+"use client"
+
+import React, { useState } from "react"
+import {
+  formatPropertyValue,
+  parsePropertyValue,
+  stringifyFrontMatter,
+  type FrontMatter,
+  type FrontMatterValue,
+} from "./frontMatter"
+import { MANAGED_FRONT_MATTER_KEYS } from "./textClient"
+
+const SABI_GOLD = "#9f890e"
+
+const INPUT_CLASS =
+  "min-w-0 flex-1 bg-transparent px-1 text-xs text-zinc-300 transition-colors placeholder:text-zinc-700 focus:text-zinc-100 focus:outline-none"
+
+/**
+ * Front-matter properties other than title / tags (author, status, due, links, custom fields)
+ * Scalars and flat lists are edited inline (lists as comma-separated text); nested values are shown read-only
+ */
+export const FrontMatterProperties: React.FC<{
+  properties: FrontMatter
+  onChange: (properties: FrontMatter) => void
+}> = ({ properties, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [newKey, setNewKey] = useState("")
+  const [newValue, setNewValue] = useState("")
+  const entries = Object.entries(properties)
+
+  const trimmedKey = newKey.trim()
+  const canAdd =
+    trimmedKey.length > 0 &&
+    !(trimmedKey in properties) &&
+    !(MANAGED_FRONT_MATTER_KEYS as readonly string[]).includes(trimmedKey)
+
+  const commit = (key: string, input: string, previous: FrontMatterValue) => {
+    const value = parsePropertyValue(input, previous)
+    if (JSON.stringify(value) === JSON.stringify(previous)) return
+    onChange({ ...properties, [key]: value })
+  }
+
+  const remove = (key: string) => {
+    onChange(Object.fromEntries(Object.entries(properties).filter(([name]) => name !== key)))
+  }
+
+  const add = () => {
+    if (!canAdd) return
+    onChange({ ...properties, [trimmedKey]: parsePropertyValue(newValue) })
+    setNewKey("")
+    setNewValue("")
+  }
+
+  return (
+    <div className="flex flex-col gap-2" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="self-start text-[10px] font-bold tracking-widest text-zinc-600 uppercase transition-colors hover:text-zinc-400"
+      >
+        <span style={{ color: SABI_GOLD }}>{isOpen ? "−" : "+"}</span> Properties
+        {entries.length > 0 && ` (${entries.length})`}
+      </button>
+
+      {isOpen && (
+        <dl className="flex flex-col gap-1 border-l border-zinc-900 pl-3">
+          {entries.map(([key, value]) => {
+            const text = formatPropertyValue(value)
+            return (
+              <div key={key} className="group flex items-baseline gap-3">
+                <dt className="w-24 shrink-0 truncate font-mono text-[10px] text-zinc-500">{key}</dt>
+                <dd className="flex min-w-0 flex-1 items-baseline gap-2">
+                  {text === null ? (
+                    <pre className="min-w-0 flex-1 overflow-x-auto font-mono text-[10px] text-zinc-500">
+                      {stringifyFrontMatter({ [key]: value })
+                        .split("\n")
+                        .slice(1)
+                        .join("\n")}
+                    </pre>
+                  ) : (
+                    <input
+                      // Re-mount when the value changes elsewhere (e.g. loading another note)
+                      key={JSON.stringify(value)}
+                      type="text"
+                      defaultValue={text}
+                      onBlur={(e) => commit(key, e.target.value, value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault()
+                          commit(key, e.currentTarget.value, value)
+                        }
+                      }}
+                      aria-label={`Property ${key}`}
+                      placeholder={Array.isArray(value) ? "a, b, c" : ""}
+                      className={INPUT_CLASS}
+                    />
+                  )}
+                  <button
+                    onClick={() => remove(key)}
+                    aria-label={`Remove property ${key}`}
+                    className="text-xs text-zinc-600 opacity-0 transition-opacity group-hover:opacity-100 hover:text-zinc-300"
+                  >
+                    ×
+                  </button>
+                </dd>
+              </div>
+            )
+          })}
+          <div className="flex items-baseline gap-3">
+            <input
+              type="text"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              placeholder="key"
+              aria-label="New property key"
+              className={`w-24 flex-none shrink-0 font-mono text-[10px] ${INPUT_CLASS}`}
+            />
+            <input
+              type="text"
+              value={newValue}
+              onChange={(e) => setNewValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault()
+                  add()
+                }
+              }}
+              placeholder="value, [a, b] for a list"
+              aria-label="New property value"
+              className={INPUT_CLASS}
+            />
+            <button
+              onClick={add}
+              disabled={!canAdd}
+              className="text-[10px] font-bold tracking-widest text-zinc-500 uppercase hover:text-zinc-300 disabled:opacity-30"
+            >
+              Add
+            </button>
+          </div>
+        </dl>
+      )}
+    </div>
+  )
+}
@@ -6,18 +6,37 @@
 
 "use client"
 
+import { toast } from "@/components/atoms/Toast"
 import React, { useCallback, useEffect, useRef, useState } from "react"
 import ReactMarkdown, { type Components } from "react-markdown"
 import remarkGfm from "remark-gfm"
 import { Carousel } from "../_components/atoms/Carousel"
 import { Modal } from "../_components/atoms/Modal"
+import { FileSetActions, MoveFilesButton } from "../_components/FileSetActions"
+import { FileSetArchiveActions } from "../_components/FileSetArchiveActions"
 import { Tool } from "../_components/GlobalTool"
-import { CheckIcon, DocumentIcon, LoadingSpinner, PenIcon, TrashIcon } from "../_components/Icons"
+import { CheckIcon, DocumentIcon, HistoryIcon, LoadingSpinner, PenIcon, TrashIcon } from "../_components/Icons"
+import { StorageMeter } from "../_components/StorageMeter"
+import { TrashBin } from "../_components/TrashBin"
 import { useToolActionStore, type ToolFile } from "../_hooks/useToolActionStore"
+import { BacklinksPanel } from "./BacklinksPanel"
+import { FrontMatterProperties } from "./FrontMatterProperties"
+import { RevisionHistory } from "./RevisionHistory"
+import { type SlashCommand } from "./slashCommands"
+import { SuggestionList } from "./SuggestionList"
 import { createTextClient } from "./textClient"
+import { resolveNoteLink, saveLinks, searchLinkTargets } from "./textLinks"
+import { recordRevision } from "./textRevisions"
 import { textActions, useTextState } from "./textStore"
 import { editorialStyles } from "./textStyles"
-import { buildCheckboxLineMap, toggleCheckboxAtLine, useMarkdownKeyboard } from "./useMarkdownKeyboard"
+import {
+  buildCheckboxLineMap,
+  toggleCheckboxAtLine,
+  useMarkdownKeyboard,
+  type MarkdownFormat,
+} from "./useMarkdownKeyboard"
+import { WikiEmbed } from "./WikiEmbed"
+import { parseWikiUrl, remarkWikiLinks, wikiUrlTransform } from "./wikiLinks"
 
 const SABI_GOLD = "#9f890e"
 
@@ -40,6 +59,18 @@ interface TextModalProps {
 
 const textClient = createTextClient()
 
+const FORMAT_BUTTONS: { format: MarkdownFormat; label: string; title: string; className?: string }[] = [
+  { format: "bold", label: "B", title: "Bold (Ctrl/⌘+B)", className: "font-black" },
+  { format: "italic", label: "I", title: "Italic (Ctrl/⌘+I)", className: "font-serif italic" },
+  { format: "link", label: "Link", title: "Link (Ctrl/⌘+K)" },
+  { format: "outdent", label: "⇤", title: "Outdent (Shift+Tab)" },
+  { format: "indent", label: "⇥", title: "Indent (Tab)" },
+]
+
+const handleSlashCommandEmpty = (command: SlashCommand) => {
+  toast.warning(command.id === "photo" ? "このコレクションに写真がありません" : "挿入できるスキャン結果がありません")
+}
+
 const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, showShowcase, onCapture }) => {
   const {
     textFiles: files,
@@ -56,15 +87,46 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
   const [tagInput, setTagInput] = useState("")
   const [isSaving, setIsSaving] = useState(false)
   const [isLibraryOpen, setIsLibraryOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
 
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
-  // Markdown keyboard handler (list/checkbox auto-continuation, Tab indent)
-  const { handleKeyDown, handleBeforeInput, handleInput } = useMarkdownKeyboard({
+  // Markdown keyboard handler (list/checkbox auto-continuation, Tab indent/table cells, shortcuts,
+  // [[wiki link]] completion, / commands)
+  const getSlashCommandContext = useCallback(() => ({ fileSet: currentFileSet }), [currentFileSet])
+  const {
+    handleKeyDown,
+    handleBeforeInput,
+    handleInput,
+    applyFormat,
+    wikiCompletion,
+    applyWikiCompletion,
+    closeWikiCompletion,
+    slashPalette,
+    runSlashCommand,
+    closeSlashPalette,
+  } = useMarkdownKeyboard({
     textareaRef,
     onChange: textActions.setText,
+    searchWikiLinks: searchLinkTargets,
+    getSlashCommandContext,
+    onSlashCommandEmpty: handleSlashCommandEmpty,
   })
 
+  // [[Note title]] → open that note (closing the preview)
+  const handleOpenWikiLink = useCallback(async (title: string) => {
+    const idbKey = await resolveNoteLink(title).catch((err) => {
+      console.error("Failed to resolve link:", err)
+      return null
+    })
+    if (!idbKey) {
+      toast.warning(`「${title}」というノートはありません`)
+      return
+    }
+    textActions.setPreviewEnabled(false)
+    await textActions.loadText(idbKey)
+  }, [])
+
   // Create markdown components factory for checkbox interactivity
   // This creates fresh components on each render to ensure correct checkbox indexing
   const createMarkdownComponents = useCallback((): Components => {
@@ -92,6 +154,34 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
         }
         return <input type={type} checked={checked} {...props} />
       },
+      a: ({ href, children, ...props }) => {
+        const wikiLink = href ? parseWikiUrl(href) : null
+        if (wikiLink?.kind !== "note")
+          return (
+            <a href={href} {...props}>
+              {children}
+            </a>
+          )
+        return (
+          <a
+            href={href}
+            className="wiki-link"
+            onClick={(e) => {
+              e.preventDefault()
+              void handleOpenWikiLink(wikiLink.target)
+            }}
+          >
+            {children}
+          </a>
+        )
+      },
+      img: ({ src, alt, ...props }) => {
+        const wikiLink = typeof src === "string" ? parseWikiUrl(src) : null
+        if (wikiLink?.kind === "embed" && getFileWithUrl) {
+          return <WikiEmbed idbKey={wikiLink.target} alt={alt} resolveUrl={getFileWithUrl} />
+        }
+        return <img src={src} alt={alt} {...props} />
+      },
       li: ({ children, className, ...props }) => {
         const isTaskItem = className?.includes("task-list-item")
         return (
@@ -101,7 +191,7 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
         )
       },
     }
-  }, [textState.currentText])
+  }, [textState.currentText, handleOpenWikiLink, getFileWithUrl])
 
   // FileSet切り替え時の選択リセット＆エディター内容クリア
   const [prevFileSet, setPrevFileSet] = useState(currentFileSet)
@@ -126,6 +216,8 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
       },
       getFileWithUrl,
       deleteFile: (idbKey, dbId) => deleteFiles([{ idbKey, id: dbId }]),
+      recordRevision,
+      saveLinks,
     })
   }, [isOpen, saveFile, getFileWithUrl, deleteFiles])
 
@@ -188,6 +280,28 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
     }
   }
 
+  const handleRestoreRevision = async (markdown: string, seq: number) => {
+    try {
+      await textActions.restoreRevision(markdown, seq)
+      toast.success(`r${seq} に戻しました`)
+    } catch (err) {
+      console.error("Restore failed:", err)
+      toast.error("リビジョンを復元できませんでした")
+    }
+  }
+
+  const handleBranchRevision = async (markdown: string, seq: number) => {
+    if (!textState.editingIdbKey) return
+    try {
+      await textActions.branchFromRevision(markdown, { idbKey: textState.editingIdbKey, seq })
+      setIsHistoryOpen(false)
+      toast.success(`r${seq} から新しいノートを作成しました`)
+    } catch (err) {
+      console.error("Branch failed:", err)
+      toast.error("ノートを作成できませんでした")
+    }
+  }
+
   const handleLoadFile = async (file: ToolFile) => {
     await textActions.loadText(file.idbKey)
   }
@@ -351,6 +465,36 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
                   style={{ "--sabi-gold": hexToRgb(SABI_GOLD) } as React.CSSProperties}
                 />
               </div>
+              <FrontMatterProperties properties={textState.properties} onChange={textActions.setProperties} />
+              {textState.editingIdbKey && (
+                <BacklinksPanel
+                  idbKey={textState.editingIdbKey}
+                  refreshKey={textState.lastSavedContent}
+                  onOpen={(idbKey) => textActions.loadText(idbKey)}
+                />
+              )}
+            </div>
+
+            {/* Formatting toolbar (same edits as the Mod+B / I / K / ] / [ shortcuts) */}
+            <div
+              role="toolbar"
+              aria-label="Formatting"
+              className="flex items-center gap-1 text-xs text-zinc-600"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {FORMAT_BUTTONS.map(({ format, label, title, className }) => (
+                <button
+                  key={format}
+                  // Keep the textarea selection
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => applyFormat(format)}
+                  aria-label={title}
+                  title={title}
+                  className={`h-7 min-w-7 px-1.5 transition-colors hover:text-zinc-200 ${className ?? ""}`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
 
             {/* Markdown Input / Editor */}
@@ -365,7 +509,31 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
                 placeholder="--- Begin your narrative here ---"
                 className="custom-scrollbar h-full min-h-[45svh] w-full resize-none bg-transparent py-4 font-mono text-base leading-relaxed text-zinc-400 transition-colors placeholder:text-zinc-900 focus:text-zinc-200 focus:outline-none"
                 onClick={(e) => e.stopPropagation()}
+                onBlur={() => {
+                  closeWikiCompletion()
+                  closeSlashPalette()
+                }}
               />
+              {/* `/` commands */}
+              {slashPalette && (
+                <SuggestionList
+                  label="Commands"
+                  items={slashPalette.commands.map((command) => ({ key: command.id, label: command.label }))}
+                  activeIndex={slashPalette.activeIndex}
+                  emptyText="No matching commands"
+                  onSelect={(i) => void runSlashCommand(slashPalette.commands[i])}
+                />
+              )}
+              {/* Wiki link suggestions ([[note / ![[capture) */}
+              {wikiCompletion && !slashPalette && (
+                <SuggestionList
+                  label={wikiCompletion.query.kind === "note" ? "Link to note" : "Embed capture"}
+                  items={wikiCompletion.suggestions.map((suggestion) => ({ key: suggestion.value, ...suggestion }))}
+                  activeIndex={wikiCompletion.activeIndex}
+                  emptyText={wikiCompletion.query.kind === "note" ? "No matching notes" : "No matching captures"}
+                  onSelect={(i) => applyWikiCompletion(wikiCompletion.suggestions[i])}
+                />
+              )}
               {/* Subtle background decoration */}
               <div className="pointer-events-none absolute top-0 right-0 p-4 opacity-5 select-none">
                 <PenIcon size="120px" color="#fff" />
@@ -469,6 +637,20 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
             >
               <DocumentIcon size="24px" color="currentColor" />
             </button>
+
+            {/* Revision History (saved notes only) */}
+            {textState.editingIdbKey && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setIsHistoryOpen(true)
+                }}
+                aria-label="Show revision history"
+                className="flex h-12 w-12 items-center justify-center rounded-full border border-zinc-800 bg-zinc-900 text-zinc-500 transition-all hover:scale-110 hover:text-zinc-100 active:scale-95"
+              >
+                <HistoryIcon size="24px" color="currentColor" />
+              </button>
+            )}
           </div>
         </Tool.Controller>
 
@@ -520,6 +702,12 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
                       >
                         Clear
                       </button>
+                      {!standalone && (
+                        <MoveFilesButton
+                          ids={files.filter((f) => !f.isPending && selectedKeys.has(f.idbKey)).map((f) => f.id)}
+                          onMoved={() => setSelectedKeys(new Set())}
+                        />
+                      )}
                     </div>
                   )}
                 </div>
@@ -645,7 +833,11 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
               </div>
             </header>
             <div className="prose prose-zinc wabi-editorial-prose min-h-[50svh] max-w-none font-serif text-lg leading-relaxed text-zinc-800 sm:text-xl">
-              <ReactMarkdown remarkPlugins={[remarkGfm]} components={createMarkdownComponents()}>
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm, remarkWikiLinks]}
+                urlTransform={wikiUrlTransform}
+                components={createMarkdownComponents()}
+              >
                 {textState.currentText}
               </ReactMarkdown>
             </div>
@@ -659,6 +851,32 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
         </div>
       </Modal>
 
+      {/* Revision History Modal */}
+      <Modal
+        isOpen={isHistoryOpen && !!textState.editingIdbKey}
+        onClose={() => setIsHistoryOpen(false)}
+        className="h-[85vh] w-[90vw] max-w-4xl border border-white/5 bg-zinc-900/95 p-0 shadow-[0_40px_100px_rgba(0,0,0,0.8)]"
+      >
+        <div className="flex h-full flex-col overflow-hidden">
+          <h3
+            style={{ color: SABI_GOLD }}
+            className="border-b border-white/5 px-6 pt-6 pb-4 text-[10px] font-black tracking-[0.4em] uppercase"
+          >
+            Revision History
+          </h3>
+          <div className="min-h-0 flex-1">
+            {textState.editingIdbKey && (
+              <RevisionHistory
+                idbKey={textState.editingIdbKey}
+                refreshKey={textState.lastSavedContent}
+                onRestore={handleRestoreRevision}
+                onBranch={handleBranchRevision}
+              />
+            )}
+          </div>
+        </div>
+      </Modal>
+
       {/* FileSet Library Modal */}
       <Modal
         isOpen={isLibraryOpen}
@@ -713,6 +931,7 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
                 Create / Switch
               </button>
             </form>
+            <FileSetActions className="mt-4" />
           </div>
 
           {/* Library Grid */}
@@ -775,7 +994,10 @@ const TextModal: React.FC<TextModalProps> = ({ isOpen, onClose, standalone, show
           </div>
 
           {/* Footer */}
-          <div className="border-t border-white/5 p-6 text-center">
+          <div className="space-y-4 border-t border-white/5 p-6 text-center">
+            <FileSetArchiveActions fileSet={currentFileSet} />
+            <TrashBin />
+            <StorageMeter />
             <button
               onClick={() => setIsLibraryOpen(false)}
               className="text-[9px] font-bold tracking-[0.3em] text-zinc-600 uppercase transition-colors hover:text-zinc-300"
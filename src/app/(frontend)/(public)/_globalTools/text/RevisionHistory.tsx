@@ -0,0 +1,287 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from "react"
+import { LoadingSpinner } from "../_components/Icons"
+import { countChanges, diffLines, splitLines, toSideBySide, type DiffOp } from "./textDiff"
+import { getRevisionContent, listRevisions, type TextRevisionSummary } from "./textRevisions"
+
+const SABI_GOLD = "#9f890e"
+
+type DiffMode = "inline" | "side"
+
+const LINE_CLASS: Record<DiffOp["type"], string> = {
+  equal: "text-zinc-500",
+  insert: "bg-emerald-950/40 text-emerald-200",
+  delete: "bg-rose-950/40 text-rose-200",
+}
+
+const formatRevisionTime = (date: Date) =>
+  date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+
+const describeOrigin = (origin: TextRevisionSummary["origin"]) => {
+  if (!origin) return null
+  if (origin.kind === "restore") return `restored from r${origin.seq}`
+  return `branched from ${origin.fileName ?? "a deleted note"} r${origin.seq}`
+}
+
+/**
+ * Hook: full markdown of the given revisions (null while loading)
+ */
+const useRevisionContents = (idbKey: string, seqs: number[], refreshKey: string) => {
+  // Results are keyed by request so that stale ones read as loading without resetting state in the effect
+  const [loaded, setLoaded] = useState<{ key: string; contents: Record<number, string> | null; error: Error | null }>()
+  const seqKey = seqs.join(",")
+  const requestKey = `${idbKey}|${seqKey}|${refreshKey}`
+
+  useEffect(() => {
+    let isCancelled = false
+    const targets = seqKey ? seqKey.split(",").map(Number) : []
+    Promise.all(targets.map(async (seq) => [seq, await getRevisionContent(idbKey, seq)] as const))
+      .then((entries) => {
+        if (!isCancelled) setLoaded({ key: requestKey, contents: Object.fromEntries(entries), error: null })
+      })
+      .catch((err) => {
+        console.warn("[RevisionHistory] Failed to read revisions:", err)
+        const error = err instanceof Error ? err : new Error("Failed to read revisions")
+        if (!isCancelled) setLoaded({ key: requestKey, contents: null, error })
+      })
+    return () => {
+      isCancelled = true
+    }
+  }, [idbKey, seqKey, requestKey])
+
+  return loaded?.key === requestKey ? loaded : { contents: null, error: null }
+}
+
+/**
+ * Timeline of saved revisions with a diff between any two of them
+ * - Select a revision to compare it with the one before it; pick another "base" to compare any two
+ * - Restore replaces the current note with the selected revision (saved as a new revision)
+ * - Branch saves the selected revision as a new note
+ */
+export const RevisionHistory: React.FC<{
+  idbKey: string
+  refreshKey: string // Reloads the timeline when the note is saved
+  onRestore: (markdown: string, seq: number) => Promise<void>
+  onBranch: (markdown: string, seq: number) => Promise<void>
+}> = ({ idbKey, refreshKey, onRestore, onBranch }) => {
+  const [revisions, setRevisions] = useState<TextRevisionSummary[] | null>(null)
+  const [selectedSeq, setSelectedSeq] = useState<number | null>(null)
+  const [baseSeq, setBaseSeq] = useState<number | null>(null)
+  const [mode, setMode] = useState<DiffMode>("inline")
+  const [isBusy, setIsBusy] = useState(false)
+
+  useEffect(() => {
+    let isCancelled = false
+    listRevisions(idbKey)
+      .then((list) => {
+        if (isCancelled) return
+        setRevisions(list)
+        // Keep the selection across saves, otherwise start from the newest revision
+        setSelectedSeq((seq) => (seq !== null && list.some((r) => r.seq === seq) ? seq : (list[0]?.seq ?? null)))
+      })
+      .catch((err) => {
+        console.warn("[RevisionHistory] Failed to list revisions:", err)
+        if (!isCancelled) setRevisions([])
+      })
+    return () => {
+      isCancelled = true
+    }
+  }, [idbKey, refreshKey])
+
+  // Compare with the previous revision unless another base is picked
+  const previousSeq = revisions?.find((r) => selectedSeq !== null && r.seq < selectedSeq)?.seq ?? null
+  const effectiveBase = baseSeq !== null && baseSeq !== selectedSeq ? baseSeq : previousSeq
+  const [olderSeq, newerSeq] =
+    effectiveBase !== null && selectedSeq !== null && effectiveBase > selectedSeq
+      ? [selectedSeq, effectiveBase]
+      : [effectiveBase, selectedSeq]
+
+  const { contents, error } = useRevisionContents(
+    idbKey,
+    [olderSeq, newerSeq].filter((seq): seq is number => seq !== null),
+    refreshKey,
+  )
+
+  const ops = useMemo(() => {
+    if (!contents || newerSeq === null) return null
+    const before = olderSeq === null ? [] : splitLines(contents[olderSeq] ?? "")
+    return diffLines(before, splitLines(contents[newerSeq] ?? ""))
+  }, [contents, olderSeq, newerSeq])
+  const changes = ops ? countChanges(ops) : null
+
+  const run = async (action: (markdown: string, seq: number) => Promise<void>) => {
+    if (selectedSeq === null || contents?.[selectedSeq] === undefined) return
+    setIsBusy(true)
+    try {
+      await action(contents[selectedSeq], selectedSeq)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  if (revisions === null) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <LoadingSpinner size="24px" color={SABI_GOLD} />
+      </div>
+    )
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="p-8 text-center text-xs text-zinc-500">No revisions yet. Save the note to start its history.</p>
+    )
+  }
+
+  return (
+    <div className="grid h-full min-h-0 grid-cols-1 grid-rows-[auto_1fr] sm:grid-cols-[14rem_1fr] sm:grid-rows-1">
+      {/* Timeline */}
+      <ol
+        aria-label="Revisions"
+        className="custom-scrollbar max-h-40 overflow-y-auto border-b border-white/5 sm:max-h-none sm:border-r sm:border-b-0"
+      >
+        {revisions.map((revision) => {
+          const isSelected = revision.seq === selectedSeq
+          const isBase = revision.seq === effectiveBase
+          return (
+            <li key={revision.seq} className="flex items-stretch">
+              <button
+                onClick={() => {
+                  setSelectedSeq(revision.seq)
+                  setBaseSeq(null)
+                }}
+                aria-current={isSelected}
+                className={`flex flex-1 flex-col items-start gap-0.5 px-4 py-2 text-left transition-colors ${
+                  isSelected ? "bg-white/5" : "hover:bg-white/5"
+                }`}
+              >
+                <span className="flex items-center gap-2 text-[10px] font-bold tracking-widest text-zinc-300 uppercase">
+                  <span style={isSelected ? { color: SABI_GOLD } : undefined}>r{revision.seq}</span>
+                  <span className="font-normal tracking-normal text-zinc-500 normal-case">
+                    {formatRevisionTime(revision.createdAt)}
+                  </span>
+                </span>
+                <span className="text-[10px] text-zinc-600">
+                  {revision.size} chr
+                  {revision.origin && ` · ${describeOrigin(revision.origin)}`}
+                </span>
+              </button>
+              {!isSelected && (
+                <button
+                  onClick={() => setBaseSeq(revision.seq)}
+                  aria-pressed={isBase}
+                  aria-label={`Compare with r${revision.seq}`}
+                  className={`px-3 text-[9px] font-bold tracking-widest uppercase transition-colors ${
+                    isBase ? "text-zinc-200" : "text-zinc-700 hover:text-zinc-400"
+                  }`}
+                >
+                  Base
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+
+      {/* Diff */}
+      <div className="flex min-h-0 flex-col">
+        <div className="flex flex-wrap items-center gap-4 border-b border-white/5 px-4 py-3 text-[10px] font-bold tracking-widest uppercase">
+          <span className="text-zinc-400">
+            {olderSeq === null ? "empty" : `r${olderSeq}`} → r{newerSeq}
+          </span>
+          {changes && (
+            <span className="font-mono tracking-normal">
+              <span className="text-emerald-400">+{changes.added}</span>{" "}
+              <span className="text-rose-400">−{changes.removed}</span>
+            </span>
+          )}
+          <div className="ml-auto flex gap-3" role="group" aria-label="Diff view">
+            {(["inline", "side"] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                aria-pressed={mode === value}
+                className={mode === value ? "text-zinc-100" : "text-zinc-600 hover:text-zinc-400"}
+              >
+                {value === "inline" ? "Inline" : "Side by side"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="custom-scrollbar min-h-0 flex-1 overflow-auto font-mono text-[11px] leading-5">
+          {error ? (
+            <p className="p-4 text-rose-300">{error.message}</p>
+          ) : !ops ? (
+            <div className="flex h-full items-center justify-center">
+              <LoadingSpinner size="20px" color={SABI_GOLD} />
+            </div>
+          ) : mode === "inline" ? (
+            <InlineDiff ops={ops} />
+          ) : (
+            <SideBySideDiff ops={ops} />
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-6 border-t border-white/5 px-4 py-3">
+          <button
+            onClick={() => run(onBranch)}
+            disabled={isBusy || !contents}
+            className="text-[10px] font-bold tracking-widest text-zinc-400 uppercase transition-colors hover:text-zinc-100 disabled:opacity-30"
+          >
+            Branch r{selectedSeq}
+          </button>
+          <button
+            onClick={() => run(onRestore)}
+            disabled={isBusy || !contents || selectedSeq === revisions[0]?.seq}
+            style={{ color: SABI_GOLD }}
+            className="text-[10px] font-bold tracking-widest uppercase transition-opacity hover:opacity-70 disabled:opacity-30"
+          >
+            Restore r{selectedSeq}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const InlineDiff: React.FC<{ ops: DiffOp[] }> = ({ ops }) => (
+  <table className="w-full border-collapse">
+    <tbody>
+      {ops.flatMap((op, i) =>
+        op.lines.map((line, j) => (
+          <tr key={`${i}-${j}`} className={LINE_CLASS[op.type]}>
+            <td className="w-4 px-2 text-center select-none">
+              {op.type === "insert" ? "+" : op.type === "delete" ? "−" : ""}
+            </td>
+            <td className="pr-4 break-all whitespace-pre-wrap">{line || " "}</td>
+          </tr>
+        )),
+      )}
+    </tbody>
+  </table>
+)
+
+const SideBySideDiff: React.FC<{ ops: DiffOp[] }> = ({ ops }) => (
+  <table className="w-full table-fixed border-collapse">
+    <tbody>
+      {toSideBySide(ops).map((row, i) => (
+        <tr key={i}>
+          {[row.left, row.right].map((cell, side) => (
+            <React.Fragment key={side}>
+              <td className="w-8 pr-2 text-right text-zinc-700 select-none">{cell?.number}</td>
+              <td
+                className={`border-white/5 pr-4 break-all whitespace-pre-wrap ${side === 0 ? "border-r" : ""} ${
+                  cell ? LINE_CLASS[row.type === "equal" ? "equal" : side === 0 ? "delete" : "insert"] : ""
+                }`}
+              >
+                {cell ? cell.text || " " : ""}
+              </td>
+            </React.Fragment>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+)
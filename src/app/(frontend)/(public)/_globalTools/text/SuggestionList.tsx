@@ -0,0 +1,51 @@
+"use client"
+
+import React from "react"
+
+export interface SuggestionItem {
+  key: string
+  label: string
+  detail?: string
+}
+
+/**
+ * Popup list under the editor (wiki link completion, `/` commands)
+ * Keyboard navigation lives in useMarkdownKeyboard; clicking keeps focus in the textarea
+ */
+export const SuggestionList: React.FC<{
+  label: string
+  items: SuggestionItem[]
+  activeIndex: number
+  emptyText: string
+  onSelect: (index: number) => void
+}> = ({ label, items, activeIndex, emptyText, onSelect }) => (
+  <ul
+    role="listbox"
+    aria-label={label}
+    className="absolute bottom-4 left-0 z-10 max-h-64 w-72 max-w-full overflow-y-auto border border-zinc-800 bg-zinc-950/95 py-1 shadow-[0_20px_50px_rgba(0,0,0,0.5)]"
+  >
+    {items.length === 0 ? (
+      <li className="px-3 py-1.5 text-xs text-zinc-600">{emptyText}</li>
+    ) : (
+      items.map((item, i) => (
+        <li
+          key={item.key}
+          role="option"
+          aria-selected={i === activeIndex}
+          onMouseDown={(e) => {
+            e.preventDefault()
+            onSelect(i)
+          }}
+          className={`flex cursor-pointer items-baseline justify-between gap-3 px-3 py-1.5 text-xs ${
+            i === activeIndex ? "bg-zinc-800 text-zinc-100" : "text-zinc-400"
+          }`}
+        >
+          <span className="truncate">{item.label}</span>
+          {item.detail && (
+            <span className="shrink-0 text-[9px] tracking-widest text-zinc-600 uppercase">{item.detail}</span>
+          )}
+        </li>
+      ))
+    )}
+  </ul>
+)
@@ -0,0 +1,86 @@
+"use client"
+
+import Image from "next/image"
+import React, { useEffect, useState } from "react"
+import { getEmbedTarget } from "./textLinks"
+
+type EmbedState =
+  | { status: "loading" }
+  | { status: "missing" }
+  | { status: "ready"; url: string; fileName: string; mimeType: string }
+
+/**
+ * Capture embedded with `![[idbKey]]`: images inline, recordings and videos as players
+ * The object URL comes from idbStore (via `resolveUrl`) and is revoked on unmount
+ */
+export const WikiEmbed: React.FC<{
+  idbKey: string
+  alt?: string
+  resolveUrl: (idbKey: string) => Promise<string | null>
+}> = ({ idbKey, alt, resolveUrl }) => {
+  const [embed, setEmbed] = useState<EmbedState & { idbKey: string }>({ idbKey, status: "loading" })
+
+  useEffect(() => {
+    let isCancelled = false
+    let objectUrl: string | null = null
+    Promise.all([getEmbedTarget(idbKey), resolveUrl(idbKey)])
+      .then(([target, url]) => {
+        objectUrl = url
+        if (isCancelled) {
+          if (url) URL.revokeObjectURL(url)
+          return
+        }
+        setEmbed(target && url ? { idbKey, status: "ready", url, ...target } : { idbKey, status: "missing" })
+      })
+      .catch((err) => {
+        console.warn("[WikiEmbed] Failed to load capture:", err)
+        if (!isCancelled) setEmbed({ idbKey, status: "missing" })
+      })
+    return () => {
+      isCancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [idbKey, resolveUrl])
+
+  const current: EmbedState = embed.idbKey === idbKey ? embed : { status: "loading" }
+
+  if (current.status === "loading") {
+    return <span className="my-4 block h-24 w-full animate-pulse bg-zinc-200" aria-label="Loading capture" />
+  }
+  if (current.status === "missing") {
+    return (
+      <span className="font-mono text-sm text-zinc-400 line-through" title="Capture not found">
+        ![[{idbKey}]]
+      </span>
+    )
+  }
+  const label = alt && alt !== idbKey ? alt : current.fileName
+  if (current.mimeType.startsWith("image/")) {
+    return (
+      <Image
+        src={current.url}
+        alt={label}
+        width={1600}
+        height={1200}
+        unoptimized
+        className="my-4 block h-auto max-h-[60vh] w-auto max-w-full"
+      />
+    )
+  }
+  if (current.mimeType.startsWith("audio/")) {
+    return (
+      <span className="my-4 block">
+        <audio src={current.url} controls className="w-full" aria-label={label} />
+        <span className="mt-1 block text-xs text-zinc-400">{label}</span>
+      </span>
+    )
+  }
+  if (current.mimeType.startsWith("video/")) {
+    return <video src={current.url} controls className="my-4 block max-h-[60vh] max-w-full" aria-label={label} />
+  }
+  return (
+    <a href={current.url} download={current.fileName} className="underline">
+      {label}
+    </a>
+  )
+}
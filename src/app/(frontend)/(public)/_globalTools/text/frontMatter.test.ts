@@ -0,0 +1,115 @@
+/**
+ * frontMatter テスト
+ *
+ * YAML のサブセット（ネストしたマップ・リスト、フロー形式、引用符、ブロックスカラー、コメント）の読み込みと、
+ * 書き出した内容が同じ値に読み戻せること、プロパティ編集欄の入力の解釈を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import {
+  formatPropertyValue,
+  parseFrontMatter,
+  parsePropertyValue,
+  stringifyFrontMatter,
+  type FrontMatter,
+} from "./frontMatter"
+
+describe("frontMatter", () => {
+  it("スカラー・フロー形式・ネストしたリストとマップを読む", () => {
+    const source = [
+      'title: "He said \\"hi\\""',
+      "author: 'O''Brien' # コメント",
+      "status: draft",
+      "due: 2026-11-01",
+      "priority: 2",
+      "done: false",
+      "reviewer: ~",
+      'tags: [meeting, "q4", 3]',
+      "links:",
+      "  - https://example.com/a#b",
+      "  - title: Spec",
+      "    url: https://example.com/spec",
+      "owners:",
+      "- alice",
+      "- bob",
+      "meta: { rev: 3, team: core }",
+    ].join("\n")
+    expect(parseFrontMatter(source)).toEqual({
+      title: 'He said "hi"',
+      author: "O'Brien",
+      status: "draft",
+      due: "2026-11-01",
+      priority: 2,
+      done: false,
+      reviewer: null,
+      tags: ["meeting", "q4", 3],
+      links: ["https://example.com/a#b", { title: "Spec", url: "https://example.com/spec" }],
+      owners: ["alice", "bob"],
+      meta: { rev: 3, team: "core" },
+    })
+  })
+
+  it("リテラル・折り返しのブロックスカラーと末尾の改行の扱いを読む", () => {
+    const source = [
+      "summary: |",
+      "  line 1",
+      "    indented",
+      "",
+      "folded: >-",
+      "  one",
+      "  two",
+      "",
+      "  three",
+      "kept: |+",
+      "  end",
+      "",
+      "next: 1",
+    ].join("\n")
+    expect(parseFrontMatter(source)).toEqual({
+      summary: "line 1\n  indented\n",
+      folded: "one two\nthree",
+      kept: "end\n\n",
+      next: 1,
+    })
+  })
+
+  it("書き出した YAML は同じ値に読み戻せる", () => {
+    const data: FrontMatter = {
+      title: 'Quote " and colon: here',
+      "odd key": "#not a comment",
+      version: "1.0",
+      flag: "true",
+      count: 0,
+      empty: "",
+      nothing: null,
+      notes: "first\nsecond\n",
+      raw: "  leading spaces\nno newline",
+      kept: "tail\n\n\n",
+      tags: [],
+      mixed: ["a", 1, true, null],
+      links: [{ title: "Spec", url: "https://example.com", refs: ["x", "y"] }, "plain"],
+      nested: { deep: { list: [["a", "b"], "multi\nline"] }, emptyMap: {} },
+    }
+    const yaml = stringifyFrontMatter(data)
+    expect(parseFrontMatter(yaml)).toEqual(data)
+    expect(yaml).toContain('title: "Quote \\" and colon: here"')
+    expect(yaml).toContain('mixed: ["a", 1, true, null]')
+  })
+
+  it("壊れた YAML は行番号付きのエラーにする", () => {
+    expect(() => parseFrontMatter("title: ok\ntags: [a, b")).toThrow(/line 2/)
+    expect(() => parseFrontMatter("title: ok\n    stray: 1")).toThrow(/line 2/)
+    expect(() => parseFrontMatter("- a\n- b")).toThrow("must be a mapping")
+  })
+
+  it("編集欄の入力を元の値の型に合わせて解釈する", () => {
+    expect(formatPropertyValue(["a", "b"])).toBe("a, b")
+    expect(formatPropertyValue({ nested: 1 })).toBeNull()
+    expect(parsePropertyValue("a, b ,", ["x"])).toEqual(["a", "b"])
+    expect(parsePropertyValue("42", "old")).toBe("42")
+    expect(parsePropertyValue("5", 3)).toBe(5)
+    // 新しいプロパティは YAML として読む
+    expect(parsePropertyValue("[x, y]")).toEqual(["x", "y"])
+    expect(parsePropertyValue("2026-11-01")).toBe("2026-11-01")
+    expect(parsePropertyValue("[unclosed")).toBe("[unclosed")
+  })
+})
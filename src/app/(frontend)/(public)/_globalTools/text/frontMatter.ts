@@ -0,0 +1,367 @@
+/**
+ * Front-matter YAML - a dependency-free subset parser / serializer
+ *
+ * Supported:
+ * - block mappings and sequences (nested by indentation, `- key: value` items)
+ * - flow sequences / mappings: `[a, "b", 1]`, `{ name: x }`
+ * - plain, "double-quoted" (JSON escapes) and 'single-quoted' scalars
+ * - literal `|` and folded `>` block scalars with `-` / `+` chomping
+ * - null / booleans / numbers; everything else (including dates) stays a string
+ * - `#` comments
+ *
+ * Not supported: anchors, aliases, tags, multi-document streams, complex keys.
+ */
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue }
+
+export type FrontMatter = { [key: string]: FrontMatterValue }
+
+const isMap = (value: FrontMatterValue | undefined): value is FrontMatter =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const indentOf = (line: string): number => line.length - line.trimStart().length
+
+const isBlankOrComment = (line: string): boolean => {
+  const trimmed = line.trim()
+  return trimmed === "" || trimmed.startsWith("#")
+}
+
+/**
+ * Resolve a plain (unquoted) scalar to null / boolean / number / string
+ */
+const resolvePlain = (text: string): FrontMatterValue => {
+  if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) return null
+  if (/^(true|True|TRUE)$/.test(text)) return true
+  if (/^(false|False|FALSE)$/.test(text)) return false
+  if (/^[-+]?\d+$/.test(text)) {
+    const value = Number(text)
+    return Number.isSafeInteger(value) ? value : text
+  }
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text)
+  return text
+}
+
+const FLOW_INDICATORS = ",[]{}"
+
+/**
+ * Parse an inline value (scalar or flow collection) starting at `pos`
+ */
+const parseInline = (
+  source: string,
+  pos: number,
+  inFlow: boolean,
+  fail: (message: string) => never,
+): [FrontMatterValue, number] => {
+  while (source[pos] === " " || source[pos] === "\t") pos++
+  const char = source[pos]
+
+  if (char === "[" || char === "{") {
+    const isSeq = char === "["
+    const close = isSeq ? "]" : "}"
+    const items: FrontMatterValue[] = []
+    const map: FrontMatter = {}
+    pos++
+    for (;;) {
+      while (/\s/.test(source[pos] ?? "")) pos++
+      if (source[pos] === close) return [isSeq ? items : map, pos + 1]
+      if (pos >= source.length) fail(`unterminated flow ${isSeq ? "sequence" : "mapping"}`)
+      let value: FrontMatterValue
+      if (isSeq) {
+        ;[value, pos] = parseInline(source, pos, true, fail)
+        items.push(value)
+      } else {
+        let key: FrontMatterValue
+        ;[key, pos] = parseInline(source, pos, true, fail)
+        while (source[pos] === " ") pos++
+        if (source[pos] !== ":") fail("expected ':' in flow mapping")
+        ;[value, pos] = parseInline(source, pos + 1, true, fail)
+        map[String(key)] = value
+      }
+      while (source[pos] === " ") pos++
+      if (source[pos] === ",") pos++
+      else if (source[pos] !== close) fail(`expected ',' or '${close}'`)
+    }
+  }
+
+  if (char === '"') {
+    let end = pos + 1
+    while (end < source.length && source[end] !== '"') end += source[end] === "\\" ? 2 : 1
+    if (end >= source.length) fail("unterminated double-quoted string")
+    try {
+      return [JSON.parse(source.slice(pos, end + 1).replace(/\\'/g, "'")) as string, end + 1]
+    } catch {
+      fail("invalid escape in double-quoted string")
+    }
+  }
+
+  if (char === "'") {
+    let end = pos + 1
+    let value = ""
+    for (;;) {
+      if (end >= source.length) fail("unterminated single-quoted string")
+      if (source[end] === "'") {
+        if (source[end + 1] !== "'") break
+        value += "'"
+        end += 2
+      } else {
+        value += source[end++]
+      }
+    }
+    return [value, end + 1]
+  }
+
+  // Plain scalar: up to a comment (and flow indicators inside flow collections)
+  let end = pos
+  while (end < source.length) {
+    if (source[end] === "#" && /\s/.test(source[end - 1] ?? " ")) break
+    if (inFlow && FLOW_INDICATORS.includes(source[end])) break
+    if (inFlow && source[end] === ":" && /[\s,\]}]/.test(source[end + 1] ?? " ")) break
+    end++
+  }
+  return [resolvePlain(source.slice(pos, end).trim()), end]
+}
+
+/**
+ * Parse a YAML mapping (the body between the `---` fences)
+ */
+export const parseFrontMatter = (source: string): FrontMatter => {
+  const lines = source.split(/\r?\n/)
+  let i = 0
+
+  const fail = (message: string, line = i): never => {
+    throw new Error(`Invalid front-matter at line ${line + 1}: ${message}`)
+  }
+
+  const skipBlank = (): number => {
+    while (i < lines.length && isBlankOrComment(lines[i])) i++
+    return i < lines.length ? indentOf(lines[i]) : -1
+  }
+
+  const parseScalarLine = (text: string): FrontMatterValue => {
+    const line = i - 1
+    const [value, end] = parseInline(text, 0, false, (message) => fail(message, line))
+    const rest = text.slice(end).trim()
+    if (rest && !rest.startsWith("#")) fail(`unexpected '${rest}'`, line)
+    return value
+  }
+
+  const parseBlockScalar = (header: string, parentIndent: number): string => {
+    const match = /^([|>])([+-]?)([1-9]?)([+-]?)\s*(#.*)?$/.exec(header)
+    if (!match) fail(`invalid block scalar header '${header}'`, i - 1)
+    const [, style, chompA, indicator, chompB] = match!
+    const chomp = chompA || chompB
+    const block: string[] = []
+    while (i < lines.length && (lines[i].trim() === "" || indentOf(lines[i]) > parentIndent)) block.push(lines[i++])
+    const firstContent = block.find((line) => line.trim() !== "")
+    const contentIndent = indicator ? parentIndent + Number(indicator) : firstContent ? indentOf(firstContent) : 0
+    const content = block.map((line) => line.slice(contentIndent))
+    let trailing = 0
+    while (content.length > 0 && content[content.length - 1].trim() === "") {
+      content.pop()
+      trailing++
+    }
+    // Leave trailing blank lines to the document unless they are kept
+    if (chomp !== "+") i -= trailing
+    if (content.length === 0) return ""
+    const text =
+      style === "|"
+        ? content.join("\n")
+        : content.reduce(
+            (folded, line, index) =>
+              index === 0 ? line : folded + (line === "" ? "\n" : content[index - 1] === "" ? "" : " ") + line,
+            "",
+          )
+    if (chomp === "-") return text
+    return text + "\n".repeat(chomp === "+" ? trailing + 1 : 1)
+  }
+
+  /**
+   * Value after `key:` or `-` on the same line (or in the nested block below it)
+   */
+  const parseNested = (rest: string, parentIndent: number, allowSameIndentSeq: boolean): FrontMatterValue => {
+    const text = rest.trim()
+    if (text.startsWith("|") || text.startsWith(">")) return parseBlockScalar(text, parentIndent)
+    if (text !== "" && !text.startsWith("#")) return parseScalarLine(text)
+    const indent = skipBlank()
+    if (indent > parentIndent) return parseBlock(indent)
+    if (allowSameIndentSeq && indent === parentIndent && /^-(\s|$)/.test(lines[i].trim())) {
+      return parseSequence(indent)
+    }
+    return null
+  }
+
+  const parseSequence = (indent: number): FrontMatterValue[] => {
+    const items: FrontMatterValue[] = []
+    while (skipBlank() === indent) {
+      const line = lines[i]
+      const text = line.trim()
+      if (!/^-(\s|$)/.test(text)) break
+      const rest = text.slice(1).trimStart()
+      const itemIndent = indent + (text.length - rest.length)
+      if (rest !== "" && (/^-(\s|$)/.test(rest) || isMappingEntry(rest))) {
+        // `- key: value` / `- - item` start a nested block on the same line
+        lines[i] = " ".repeat(itemIndent) + rest
+        items.push(parseBlock(itemIndent))
+      } else {
+        i++
+        items.push(parseNested(rest, indent, false))
+      }
+    }
+    if (i < lines.length && indentOf(lines[i]) > indent) fail("unexpected indentation")
+    return items
+  }
+
+  const parseMapping = (indent: number): FrontMatter => {
+    const map: FrontMatter = {}
+    while (skipBlank() === indent) {
+      const text = lines[i].trim()
+      if (/^-(\s|$)/.test(text)) break
+      const [key, rest] = splitMappingEntry(text) ?? fail(`expected 'key: value', got '${text}'`)
+      i++
+      map[key] = parseNested(rest, indent, true)
+    }
+    if (i < lines.length && indentOf(lines[i]) > indent) fail("unexpected indentation")
+    return map
+  }
+
+  const parseBlock = (indent: number): FrontMatterValue =>
+    /^-(\s|$)/.test(lines[i].trim()) ? parseSequence(indent) : parseMapping(indent)
+
+  const splitMappingEntry = (text: string): [string, string] | null => {
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const [key, end] = parseInline(text, 0, true, fail)
+      const rest = text.slice(end).trimStart()
+      return rest.startsWith(":") ? [String(key), rest.slice(1)] : null
+    }
+    const match = /^([^\s#][^#]*?)\s*:(?:\s+(.*)|$)$/.exec(text)
+    return match ? [match[1], match[2] ?? ""] : null
+  }
+
+  const isMappingEntry = (text: string): boolean => splitMappingEntry(text) !== null
+
+  const indent = skipBlank()
+  if (indent === -1) return {}
+  const root = parseBlock(indent)
+  if (skipBlank() !== -1) fail("unexpected content")
+  if (!isMap(root)) fail("front-matter must be a mapping", 0)
+  return root as FrontMatter
+}
+
+const formatKey = (key: string): string => (/^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key))
+
+/**
+ * Scalars are always written so that they read back as the same type
+ * (strings are double-quoted, so "2026-01-01" or "true" stay strings)
+ */
+const formatScalar = (value: string | number | boolean | null): string => {
+  if (value === null) return "null"
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "null"
+  if (typeof value === "boolean") return String(value)
+  return JSON.stringify(value)
+}
+
+const isInline = (value: FrontMatterValue): value is string | number | boolean | null =>
+  !(typeof value === "object" && value !== null) && !(typeof value === "string" && value.includes("\n"))
+
+const formatBlockScalar = (value: string, indent: number): string[] => {
+  const core = value.replace(/\n+$/, "")
+  const trailing = value.length - core.length
+  const chomp = trailing === 0 ? "-" : trailing === 1 ? "" : "+"
+  // An explicit indentation indicator is needed when the first line starts with a space
+  const indicator = core.startsWith(" ") ? "2" : ""
+  const pad = " ".repeat(indent + 2)
+  return [
+    `|${indicator}${chomp}`,
+    ...core.split("\n").map((line) => (line ? pad + line : "")),
+    ...Array.from({ length: Math.max(0, trailing - 1) }, () => ""),
+  ]
+}
+
+/**
+ * Lines for `value` under a key / sequence item; the first entry goes after `key:` or `-`
+ */
+const formatValue = (value: FrontMatterValue, indent: number): string[] => {
+  if (isInline(value)) return [formatScalar(value)]
+  if (typeof value === "string") return formatBlockScalar(value, indent)
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ["[]"]
+    if (value.every(isInline)) return [`[${value.map((item) => formatScalar(item)).join(", ")}]`]
+    return ["", ...formatSequence(value, indent + 2)]
+  }
+  if (Object.keys(value).length === 0) return ["{}"]
+  return ["", ...formatMapping(value, indent + 2)]
+}
+
+const joinFirst = (prefix: string, [first, ...rest]: string[]): string[] => [
+  first === "" ? prefix : `${prefix} ${first}`,
+  ...rest,
+]
+
+const formatSequence = (items: FrontMatterValue[], indent: number): string[] => {
+  const pad = " ".repeat(indent)
+  return items.flatMap((item) => {
+    if (isMap(item) && Object.keys(item).length > 0) {
+      // `- key: value` with the remaining keys aligned under the first one
+      const [first, ...rest] = formatMapping(item, indent + 2)
+      return [`${pad}- ${first.trimStart()}`, ...rest]
+    }
+    return joinFirst(`${pad}-`, formatValue(item, indent))
+  })
+}
+
+const formatMapping = (map: FrontMatter, indent: number): string[] => {
+  const pad = " ".repeat(indent)
+  return Object.entries(map).flatMap(([key, value]) =>
+    joinFirst(`${pad}${formatKey(key)}:`, formatValue(value, indent)),
+  )
+}
+
+/**
+ * Serialize a mapping as YAML (without the `---` fences)
+ */
+export const stringifyFrontMatter = (data: FrontMatter): string => formatMapping(data, 0).join("\n")
+
+/**
+ * Text for editing a property in a single input, or null when the value is too
+ * complex (nested mappings, lists of lists) to edit inline
+ */
+export const formatPropertyValue = (value: FrontMatterValue): string | null => {
+  if (Array.isArray(value)) {
+    return value.every((item) => isInline(item) && item !== null) ? value.map(String).join(", ") : null
+  }
+  if (isMap(value)) return null
+  return value === null ? "" : String(value)
+}
+
+/**
+ * Parse the input of a property editor, keeping the type of the previous value
+ * (a list stays a list, a string stays a string). New properties are read as YAML scalars / flow lists.
+ */
+export const parsePropertyValue = (input: string, previous?: FrontMatterValue): FrontMatterValue => {
+  const text = input.trim()
+  if (Array.isArray(previous)) {
+    return text
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0)
+  }
+  if (typeof previous === "string") return input
+  if (typeof previous === "number" || typeof previous === "boolean" || previous === null) {
+    const resolved = resolvePlain(text)
+    return typeof resolved === typeof previous || previous === null ? resolved : input
+  }
+  try {
+    const [value, end] = parseInline(text, 0, false, (message) => {
+      throw new Error(message)
+    })
+    return text.slice(end).trim() === "" ? value : input
+  } catch {
+    return input
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * markdownEditing テスト
+ *
+ * 太字・リンクの挿入、表のセル移動、`/` コマンドの検出が置き換え範囲と選択範囲を正しく返すことを検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { findSlashQuery, insertLink, moveTableCell, toggleInlineMarker, type TextEdit } from "./markdownEditing"
+
+const apply = (value: string, edit: TextEdit) => {
+  const text = value.slice(0, edit.start) + edit.text + value.slice(edit.end)
+  return { text, selected: text.slice(edit.selectionStart, edit.selectionEnd) }
+}
+
+describe("markdownEditing", () => {
+  it("選択範囲を太字にし、もう一度で元に戻す", () => {
+    const bold = toggleInlineMarker("say hello now", 4, 9, "**")
+    expect(apply("say hello now", bold)).toEqual({ text: "say **hello** now", selected: "hello" })
+    const unbold = toggleInlineMarker("say **hello** now", bold.selectionStart, bold.selectionEnd, "**")
+    expect(apply("say **hello** now", unbold)).toEqual({ text: "say hello now", selected: "hello" })
+    // 何も選んでいなければ記号の間にカーソルを置く
+    expect(toggleInlineMarker("ab", 1, 1, "_")).toMatchObject({ text: "__", selectionStart: 2, selectionEnd: 2 })
+  })
+
+  it("リンクは選んだ文字を表示名に、URL を選んでいれば URL に使う", () => {
+    expect(apply("see docs", insertLink("see docs", 4, 8))).toEqual({
+      text: "see [docs](https://)",
+      selected: "https://",
+    })
+    const url = "https://example.com"
+    expect(apply(url, insertLink(url, 0, url.length))).toEqual({ text: `[text](${url})`, selected: "text" })
+  })
+
+  it("Tab で次のセルへ進み、区切り行を飛ばし、最後のセルでは行を足す", () => {
+    const table = "| Name | Qty |\n| --- | --- |\n| Tea |  |"
+    const first = moveTableCell(table, 3, false)!
+    expect(apply(table, first).selected).toBe("Qty")
+    const nextRow = moveTableCell(table, first.selectionEnd, false)!
+    expect(apply(table, nextRow).selected).toBe("Tea")
+    const back = moveTableCell(table, nextRow.selectionStart, true)!
+    expect(apply(table, back).selected).toBe("Qty")
+
+    const lastCell = table.length - 2
+    const added = moveTableCell(table, lastCell, false)!
+    const { text } = apply(table, added)
+    expect(text).toBe(`${table}\n| | |`)
+    expect(added.selectionStart).toBe(table.length + 3)
+    expect(moveTableCell("plain text", 3, false)).toBeNull()
+  })
+
+  it("行頭か空白の後の / だけをコマンドとして扱う", () => {
+    expect(findSlashQuery("/hea", 4)).toEqual({ query: "hea", start: 0, end: 4, atLineStart: true })
+    expect(findSlashQuery("text\nsee /da", 12)).toEqual({ query: "da", start: 9, end: 12, atLineStart: false })
+    expect(findSlashQuery("and/or", 6)).toBeNull()
+    expect(findSlashQuery("https://x", 9)).toBeNull()
+  })
+})
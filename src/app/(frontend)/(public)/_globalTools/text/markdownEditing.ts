@@ -0,0 +1,135 @@
+/**
+ * Markdown editing helpers for the editor textarea
+ *
+ * - Every helper returns a `TextEdit` (replace start..end, then select) instead of a whole new value,
+ *   so the editor can apply it as native input and keep the textarea's undo stack
+ * - Inline formatting (bold / italic / link), table cell navigation and `/` command detection
+ */
+
+export interface TextEdit {
+  start: number
+  end: number
+  text: string
+  selectionStart: number
+  selectionEnd: number
+}
+
+/**
+ * `/` being typed at the start of a line or after whitespace (start is the index of the slash)
+ */
+export interface SlashQuery {
+  query: string
+  start: number
+  end: number
+  atLineStart: boolean
+}
+
+const TABLE_ROW_REGEX = /^\s*\|.*\|\s*$/
+const TABLE_SEPARATOR_REGEX = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/
+
+const lineBounds = (value: string, position: number) => {
+  const start = value.lastIndexOf("\n", position - 1) + 1
+  const newline = value.indexOf("\n", position)
+  return { start, end: newline === -1 ? value.length : newline }
+}
+
+/**
+ * Wrap the selection in `marker` (or unwrap it when it is already wrapped)
+ */
+export const toggleInlineMarker = (value: string, start: number, end: number, marker: string): TextEdit => {
+  const m = marker.length
+  const selected = value.slice(start, end)
+  if (start >= m && value.slice(start - m, start) === marker && value.slice(end, end + m) === marker) {
+    return { start: start - m, end: end + m, text: selected, selectionStart: start - m, selectionEnd: end - m }
+  }
+  if (selected.length > 2 * m && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(m, -m)
+    return { start, end, text: inner, selectionStart: start, selectionEnd: start + inner.length }
+  }
+  return { start, end, text: `${marker}${selected}${marker}`, selectionStart: start + m, selectionEnd: end + m }
+}
+
+/**
+ * `[selection](url)`: selects the URL placeholder, or the label when nothing was selected
+ */
+export const insertLink = (value: string, start: number, end: number): TextEdit => {
+  const selected = value.slice(start, end)
+  const isUrl = /^https?:\/\/\S+$/.test(selected)
+  const label = isUrl || !selected ? "text" : selected
+  const url = isUrl ? selected : "https://"
+  const text = `[${label}](${url})`
+  return selected && !isUrl
+    ? { start, end, text, selectionStart: start + label.length + 3, selectionEnd: start + text.length - 1 }
+    : { start, end, text, selectionStart: start + 1, selectionEnd: start + 1 + label.length }
+}
+
+const tableCells = (value: string, lineStart: number, lineEnd: number) => {
+  const line = value.slice(lineStart, lineEnd)
+  const pipes = [...line.matchAll(/(?<!\\)\|/g)].map((match) => lineStart + (match.index ?? 0))
+  return pipes.slice(0, -1).map((pipe, i) => {
+    const raw = value.slice(pipe + 1, pipes[i + 1])
+    const contentStart = pipe + 1 + (raw.length - raw.trimStart().length)
+    const contentEnd = pipes[i + 1] - (raw.length - raw.trimEnd().length)
+    // Empty cells: place the caret after the leading space
+    return contentStart > contentEnd
+      ? {
+          start: Math.min(pipe + 2, pipes[i + 1]),
+          end: Math.min(pipe + 2, pipes[i + 1]),
+          left: pipe,
+          right: pipes[i + 1],
+        }
+      : { start: contentStart, end: contentEnd, left: pipe, right: pipes[i + 1] }
+  })
+}
+
+/**
+ * Tab / Shift+Tab inside a table row: select the next / previous cell (skipping the separator row)
+ * Tab in the last cell adds a row. Returns null outside tables
+ */
+export const moveTableCell = (value: string, cursor: number, backwards: boolean): TextEdit | null => {
+  const current = lineBounds(value, cursor)
+  const currentLine = value.slice(current.start, current.end)
+  if (!TABLE_ROW_REGEX.test(currentLine) || TABLE_SEPARATOR_REGEX.test(currentLine)) return null
+
+  const select = (cell: { start: number; end: number }): TextEdit => ({
+    start: cursor,
+    end: cursor,
+    text: "",
+    selectionStart: cell.start,
+    selectionEnd: cell.end,
+  })
+  const cells = tableCells(value, current.start, current.end)
+  const index = cells.findIndex((cell) => cursor > cell.left && cursor <= cell.right)
+  if (index === -1) return null
+  const target = cells[index + (backwards ? -1 : 1)]
+  if (target) return select(target)
+
+  // Move to the neighbouring row (skipping the separator)
+  let line = current
+  for (;;) {
+    const nextPosition = backwards ? line.start - 1 : line.end + 1
+    if (nextPosition < 0 || nextPosition > value.length || (!backwards && line.end === value.length)) break
+    line = lineBounds(value, nextPosition)
+    const text = value.slice(line.start, line.end)
+    if (!TABLE_ROW_REGEX.test(text)) break
+    if (TABLE_SEPARATOR_REGEX.test(text)) continue
+    const rowCells = tableCells(value, line.start, line.end)
+    const cell = backwards ? rowCells[rowCells.length - 1] : rowCells[0]
+    if (cell) return select(cell)
+  }
+  if (backwards) return null
+
+  // Last cell of the table: append an empty row
+  const indent = currentLine.match(/^\s*/)?.[0] ?? ""
+  const row = `\n${indent}|${" |".repeat(cells.length)}`
+  const caret = current.end + indent.length + 3
+  return { start: current.end, end: current.end, text: row, selectionStart: caret, selectionEnd: caret }
+}
+
+export const findSlashQuery = (value: string, cursor: number): SlashQuery | null => {
+  const lineStart = value.lastIndexOf("\n", cursor - 1) + 1
+  const match = value.slice(lineStart, cursor).match(/(^|\s)\/([\p{L}\p{N}-]*)$/u)
+  if (!match) return null
+  const start = cursor - match[2].length - 1
+  return { query: match[2], start, end: cursor, atLineStart: value.slice(lineStart, start).trim() === "" }
+}
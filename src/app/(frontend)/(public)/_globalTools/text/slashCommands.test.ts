@@ -0,0 +1,30 @@
+/**
+ * slashCommands テスト
+ *
+ * `/` の後の入力による絞り込みと、PGlite を使わないコマンドの挿入内容を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { filterSlashCommands, SLASH_COMMANDS } from "./slashCommands"
+
+const command = (id: string) => SLASH_COMMANDS.find((c) => c.id === id)!
+
+describe("slashCommands", () => {
+  it("前方一致するコマンドを先に並べる", () => {
+    expect(filterSlashCommands("").length).toBe(SLASH_COMMANDS.length)
+    expect(filterSlashCommands("h2").map((c) => c.id)).toEqual(["h2"])
+    expect(filterSlashCommands("qr").map((c) => c.id)).toEqual(["scan"])
+    expect(filterSlashCommands("time").map((c) => c.id)).toEqual(["datetime"])
+    expect(filterSlashCommands("warn").map((c) => c.id)).toEqual(["callout-warning"])
+    expect(filterSlashCommands("zzz")).toEqual([])
+  })
+
+  it("見出し・表・日付は置き換える部分を選んだ状態で挿入する", async () => {
+    const context = { fileSet: "default", now: new Date(2026, 9, 19, 8, 5) }
+    const heading = await command("h2").build(context)
+    expect(heading).toEqual({ text: "## Heading", selection: [3, 10] })
+    const table = await command("table").build(context)
+    expect(table?.text.split("\n")).toEqual(["| Column | Column |", "| --- | --- |", "|  |  |"])
+    expect(table?.text.slice(...table.selection!)).toBe("Column")
+    expect(await command("datetime").build(context)).toEqual({ text: "2026-10-19 08:05" })
+  })
+})
@@ -0,0 +1,163 @@
+import { and, desc, eq, isNull, like } from "drizzle-orm"
+import { files as filesTable, scans as scansTable } from "../_hooks/db/pgliteSchema"
+import { getDb } from "../_hooks/db/usePgliteStore"
+import { getSessionState } from "../_hooks/useSessionSync"
+
+/**
+ * `/` command palette of the markdown editor
+ *
+ * - Each command builds a snippet; `[start, end]` in `selection` is selected after inserting it
+ * - Block snippets start on their own line (a newline is added when `/` was typed mid-line)
+ * - Capture commands read the current session / file set from PGlite and return null when there is nothing to insert
+ */
+
+export interface SlashCommandContext {
+  fileSet: string
+  now?: Date
+}
+
+export interface SlashSnippet {
+  text: string
+  selection?: [number, number]
+}
+
+export interface SlashCommand {
+  id: string
+  label: string
+  keywords: string[]
+  block: boolean
+  build: (context: SlashCommandContext) => SlashSnippet | null | Promise<SlashSnippet | null>
+}
+
+const pad = (n: number) => String(n).padStart(2, "0")
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+const formatTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+const placeholder = (before: string, selected: string, after = ""): SlashSnippet => ({
+  text: `${before}${selected}${after}`,
+  selection: [before.length, before.length + selected.length],
+})
+
+const heading = (level: number): SlashCommand => ({
+  id: `h${level}`,
+  label: `Heading ${level}`,
+  keywords: ["heading", "title", `h${level}`],
+  block: true,
+  build: () => placeholder(`${"#".repeat(level)} `, "Heading"),
+})
+
+const callout = (type: string): SlashCommand => ({
+  id: `callout-${type.toLowerCase()}`,
+  label: `Callout: ${type.charAt(0)}${type.slice(1).toLowerCase()}`,
+  keywords: ["callout", "admonition", type.toLowerCase()],
+  block: true,
+  build: () => placeholder(`> [!${type}]\n> `, "Text"),
+})
+
+/**
+ * Newest photo of the current session / file set, embedded as `![[idbKey]]`
+ */
+const latestPhoto = async ({ fileSet }: SlashCommandContext): Promise<SlashSnippet | null> => {
+  const db = await getDb()
+  const [photo] = await db
+    .select({ idbKey: filesTable.idbKey })
+    .from(filesTable)
+    .where(
+      and(
+        eq(filesTable.sessionId, getSessionState()?.currentId || "default"),
+        eq(filesTable.fileSet, fileSet),
+        like(filesTable.mimeType, "image/%"),
+        isNull(filesTable.deletedAt),
+      ),
+    )
+    .orderBy(desc(filesTable.createdAt))
+    .limit(1)
+  return photo ? { text: `![[${photo.idbKey}]]` } : null
+}
+
+/**
+ * Newest QR / barcode scan of the current session / file set
+ */
+const latestScan = async ({ fileSet }: SlashCommandContext): Promise<SlashSnippet | null> => {
+  const db = await getDb()
+  const [scan] = await db
+    .select({ payload: scansTable.payload, kind: scansTable.kind })
+    .from(scansTable)
+    .where(and(eq(scansTable.sessionId, getSessionState()?.currentId || "default"), eq(scansTable.fileSet, fileSet)))
+    .orderBy(desc(scansTable.createdAt))
+    .limit(1)
+  if (!scan) return null
+  if (scan.kind === "url") return { text: `<${scan.payload.trim()}>` }
+  // Wi-Fi / vCard payloads span several lines
+  return { text: scan.payload.includes("\n") ? `\`\`\`\n${scan.payload}\n\`\`\`` : scan.payload }
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  heading(1),
+  heading(2),
+  heading(3),
+  {
+    id: "table",
+    label: "Table",
+    keywords: ["table", "grid"],
+    block: true,
+    build: () => placeholder("| ", "Column", " | Column |\n| --- | --- |\n|  |  |"),
+  },
+  {
+    id: "code",
+    label: "Code block",
+    keywords: ["code", "fence", "snippet"],
+    block: true,
+    build: () => placeholder("```", "text", "\n\n```"),
+  },
+  callout("NOTE"),
+  callout("TIP"),
+  callout("WARNING"),
+  {
+    id: "date",
+    label: "Date",
+    keywords: ["date", "today"],
+    block: false,
+    build: ({ now = new Date() }) => ({ text: formatDate(now) }),
+  },
+  {
+    id: "datetime",
+    label: "Date & time",
+    keywords: ["time", "now", "timestamp"],
+    block: false,
+    build: ({ now = new Date() }) => ({ text: `${formatDate(now)} ${formatTime(now)}` }),
+  },
+  {
+    id: "photo",
+    label: "Last photo",
+    keywords: ["photo", "image", "camera", "picture"],
+    block: false,
+    build: latestPhoto,
+  },
+  {
+    id: "scan",
+    label: "Last QR scan",
+    keywords: ["qr", "scan", "barcode"],
+    block: false,
+    build: latestScan,
+  },
+]
+
+/**
+ * Commands matching what was typed after `/` (prefix matches on the label first)
+ */
+export const filterSlashCommands = (query: string, commands: SlashCommand[] = SLASH_COMMANDS): SlashCommand[] => {
+  const q = query.trim().toLowerCase()
+  if (!q) return commands
+  const score = (command: SlashCommand) => {
+    const words = [command.id, ...command.label.toLowerCase().split(/[\s:&]+/), ...command.keywords]
+    if (words.some((word) => word.startsWith(q))) return 0
+    if (command.label.toLowerCase().includes(q) || command.keywords.some((word) => word.includes(q))) return 1
+    return null
+  }
+  return commands
+    .map((command, index) => ({ command, index, rank: score(command) }))
+    .filter((entry): entry is { command: SlashCommand; index: number; rank: number } => entry.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((entry) => entry.command)
+}
@@ -0,0 +1,44 @@
+/**
+ * textClient テスト
+ *
+ * front-matter の読み書きで、引用符を含むタイトルや未知のキーが失われずに往復することを検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { createTextClient } from "./textClient"
+
+const textClient = createTextClient()
+
+describe("textClient", () => {
+  it("引用符を含むタイトルと未知のキーを保ったまま往復する", () => {
+    const createdAt = new Date("2026-10-01T09:00:00.000Z")
+    const markdown = textClient.serializeMarkdown({
+      title: 'The "Q4" plan',
+      tags: ["plan", 'say "yes"'],
+      body: "# Body\n\n---\n\ntext",
+      wordCount: 3,
+      createdAt,
+      properties: { author: "Hana", due: "2026-12-01", links: ["https://example.com"], title: "ignored" },
+    })
+    const { metadata, body } = textClient.parseMarkdown(markdown)
+    expect(metadata).toEqual({
+      title: 'The "Q4" plan',
+      tags: ["plan", 'say "yes"'],
+      createdAt,
+      wordCount: 3,
+      properties: { author: "Hana", due: "2026-12-01", links: ["https://example.com"] },
+    })
+    expect(body).toBe("# Body\n\n---\n\ntext")
+  })
+
+  it("以前の形式・CRLF・空の front-matter を読む", () => {
+    const legacy = '---\ntitle: "Old"\ntags: ["a", "b"]\ncreatedAt: "2025-01-01T00:00:00.000Z"\nwordCount: 2\n---\nbody'
+    expect(textClient.parseMarkdown(legacy).metadata).toMatchObject({ title: "Old", tags: ["a", "b"], wordCount: 2 })
+    expect(textClient.parseMarkdown("---\r\ntitle: Win\r\n---\r\nbody").metadata.title).toBe("Win")
+    expect(textClient.parseMarkdown("---\n---\nbody")).toMatchObject({ metadata: { title: "Untitled" }, body: "body" })
+  })
+
+  it("読めない front-matter は本文として扱う", () => {
+    const markdown = "---\ntitle: [broken\n---\nbody"
+    expect(textClient.parseMarkdown(markdown)).toMatchObject({ metadata: { title: "Untitled" }, body: markdown })
+  })
+})
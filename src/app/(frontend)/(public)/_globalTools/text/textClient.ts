@@ -3,6 +3,18 @@
  * Handles Front-matter + body markdown format
  */
 
+import { parseFrontMatter, stringifyFrontMatter, type FrontMatter, type FrontMatterValue } from "./frontMatter"
+
+/**
+ * Front-matter keys managed by the editor itself (everything else is kept in `properties`)
+ */
+export const MANAGED_FRONT_MATTER_KEYS = ["title", "tags", "createdAt", "updatedAt", "wordCount"] as const
+
+/**
+ * File name a note is saved under (also how [[Note title]] links find their note)
+ */
+export const noteFileName = (title: string): string => `${title.replace(/\s+/g, "_")}.md`
+
 /**
  * Front-matter metadata
  */
@@ -12,6 +24,7 @@ export interface TextMetadata {
   createdAt: Date
   updatedAt?: Date
   wordCount: number
+  properties: FrontMatter // author, status, due, links, custom fields... (in file order)
 }
 
 /**
@@ -22,11 +35,33 @@ export interface ParsedMarkdown {
   body: string
 }
 
+const toDate = (value: FrontMatterValue | undefined): Date | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+const toTags = (value: FrontMatterValue | undefined): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : []
+  return items
+    .filter((tag) => tag !== null && typeof tag !== "object")
+    .map((tag) => String(tag).trim())
+    .filter((tag) => tag.length > 0)
+}
+
+const emptyMetadata = (): TextMetadata => ({
+  title: "Untitled",
+  tags: [],
+  createdAt: new Date(),
+  wordCount: 0,
+  properties: {},
+})
+
 /**
  * Text client - Markdown parsing & serialization
  */
 export const createTextClient = () => {
-  const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---\n([\s\S]*)$/
+  const FRONTMATTER_REGEX = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)([\s\S]*)$/
 
   return {
     /**
@@ -47,77 +82,34 @@ export const createTextClient = () => {
 
       if (!match) {
         // No front-matter found
-        return {
-          metadata: {
-            title: "Untitled",
-            tags: [],
-            createdAt: new Date(),
-            wordCount: 0,
-          },
-          body: markdown,
-        }
+        return { metadata: emptyMetadata(), body: markdown }
       }
 
-      const [, frontMatterStr, body] = match
+      const [, frontMatterStr = "", body] = match
 
       try {
-        // Simple YAML-like parsing (avoid heavy dependencies)
-        const lines = frontMatterStr.split("\n")
-        const frontMatter: Record<string, unknown> = {}
-
-        for (const line of lines) {
-          if (!line.trim()) continue
-
-          const colonIdx = line.indexOf(":")
-          if (colonIdx === -1) continue
-
-          const key = line.substring(0, colonIdx).trim()
-          const valueStr = line.substring(colonIdx + 1).trim()
-
-          if (key === "title") {
-            frontMatter.title = valueStr.replace(/^["']|["']$/g, "")
-          } else if (key === "tags") {
-            // Parse array: [tag1, tag2]
-            const match = valueStr.match(/^\[(.*?)\]$/)
-            if (match) {
-              frontMatter.tags = match[1]
-                .split(",")
-                .map((t) => t.trim().replace(/^["']|["']$/g, ""))
-                .filter((t) => t.length > 0)
-            }
-          } else if (key === "createdAt") {
-            frontMatter.createdAt = new Date(valueStr.replace(/^["']|["']$/g, ""))
-          } else if (key === "wordCount") {
-            frontMatter.wordCount = parseInt(valueStr, 10)
-          }
-        }
-
+        const { title, tags, createdAt, updatedAt, wordCount, ...properties } = parseFrontMatter(frontMatterStr)
         return {
           metadata: {
-            title: (frontMatter.title as string) || "Untitled",
-            tags: (frontMatter.tags as string[]) || [],
-            createdAt: (frontMatter.createdAt as Date) || new Date(),
-            wordCount: (frontMatter.wordCount as number) || 0,
+            title: typeof title === "string" || typeof title === "number" ? String(title) || "Untitled" : "Untitled",
+            tags: toTags(tags),
+            createdAt: toDate(createdAt) ?? new Date(),
+            ...(toDate(updatedAt) ? { updatedAt: toDate(updatedAt) } : {}),
+            wordCount: typeof wordCount === "number" ? wordCount : 0,
+            properties,
           },
           body,
         }
       } catch (err) {
         console.error("Failed to parse front-matter:", err)
         // Parsing failed, treat entire content as body
-        return {
-          metadata: {
-            title: "Untitled",
-            tags: [],
-            createdAt: new Date(),
-            wordCount: 0,
-          },
-          body: markdown,
-        }
+        return { metadata: emptyMetadata(), body: markdown }
       }
     },
 
     /**
      * Serialize markdown with front-matter
+     * Managed keys come first; `properties` follow in their original order
      */
     serializeMarkdown: (data: {
       title: string
@@ -125,18 +117,24 @@ export const createTextClient = () => {
       body: string
       wordCount: number
       createdAt?: Date
+      updatedAt?: Date
+      properties?: FrontMatter
     }): string => {
-      const frontMatter = [
-        "---",
-        `title: "${data.title}"`,
-        `tags: [${data.tags.map((t) => `"${t}"`).join(", ")}]`,
-        `createdAt: "${(data.createdAt || new Date()).toISOString()}"`,
-        `wordCount: ${data.wordCount}`,
-        "---",
-        "",
-      ].join("\n")
-
-      return frontMatter + data.body
+      const properties = Object.fromEntries(
+        Object.entries(data.properties ?? {}).filter(
+          ([key]) => !(MANAGED_FRONT_MATTER_KEYS as readonly string[]).includes(key),
+        ),
+      )
+      const frontMatter = stringifyFrontMatter({
+        title: data.title,
+        tags: data.tags,
+        createdAt: (data.createdAt || new Date()).toISOString(),
+        ...(data.updatedAt ? { updatedAt: data.updatedAt.toISOString() } : {}),
+        wordCount: data.wordCount,
+        ...properties,
+      })
+
+      return ["---", frontMatter, "---", ""].join("\n") + data.body
     },
 
     /**
@@ -0,0 +1,46 @@
+/**
+ * textDiff テスト
+ *
+ * 行単位の差分・リビジョン保存用のパッチ・左右比較の行の組み方を検証する。
+ */
+import { describe, expect, it } from "vitest"
+import { applyPatch, countChanges, createPatch, diffLines, toSideBySide } from "./textDiff"
+
+describe("textDiff", () => {
+  it("共通部分を残して追加・削除を求める（削除が先）", () => {
+    const ops = diffLines(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"])
+    expect(ops).toEqual([
+      { type: "equal", lines: ["a"] },
+      { type: "delete", lines: ["b"] },
+      { type: "insert", lines: ["x"] },
+      { type: "equal", lines: ["c", "d"] },
+      { type: "insert", lines: ["e"] },
+    ])
+    expect(countChanges(ops)).toEqual({ added: 2, removed: 1 })
+  })
+
+  it("パッチは変更のない行を行数だけで持ち、元の文書に当てると復元できる", () => {
+    const before = "# Title\n\nfirst\nsecond\nthird\n"
+    const after = "# Title\n\nfirst\n2nd\nthird\nfourth\n"
+    const patch = createPatch(before, after)
+    expect(patch).toEqual([3, -1, ["2nd"], 1, ["fourth"], 1])
+    expect(applyPatch(before, patch)).toBe(after)
+    expect(applyPatch("", createPatch("", "new"))).toBe("new")
+    expect(applyPatch("gone", createPatch("gone", ""))).toBe("")
+  })
+
+  it("別の文書にパッチを当てるとエラーになる", () => {
+    const patch = createPatch("a\nb\nc", "a\nc")
+    expect(() => applyPatch("a", patch)).toThrow("Patch does not match the previous revision")
+  })
+
+  it("左右比較では削除と追加を同じ行に並べ、行番号を振る", () => {
+    const rows = toSideBySide(diffLines(["a", "b", "c"], ["a", "B", "B2", "c"]))
+    expect(rows).toEqual([
+      { type: "equal", left: { number: 1, text: "a" }, right: { number: 1, text: "a" } },
+      { type: "change", left: { number: 2, text: "b" }, right: { number: 2, text: "B" } },
+      { type: "insert", left: null, right: { number: 3, text: "B2" } },
+      { type: "equal", left: { number: 3, text: "c" }, right: { number: 4, text: "c" } },
+    ])
+  })
+})
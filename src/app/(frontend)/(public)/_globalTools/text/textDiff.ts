@@ -0,0 +1,144 @@
+/**
+ * Line-based diff for text revisions
+ *
+ * - `diffLines` computes equal / insert / delete runs (LCS after trimming the common prefix and suffix)
+ * - `createPatch` / `applyPatch` turn them into a compact JSON patch stored in PGlite
+ * - `toSideBySide` pairs deleted and inserted lines into rows for the side-by-side view
+ */
+
+export interface DiffOp {
+  type: "equal" | "insert" | "delete"
+  lines: string[]
+}
+
+/**
+ * Compact patch: a positive number keeps n lines, a negative number deletes n lines,
+ * an array inserts the given lines
+ */
+export type LinePatch = (number | string[])[]
+
+export interface SideBySideRow {
+  left: { number: number; text: string } | null // line in the older revision (1-based)
+  right: { number: number; text: string } | null // line in the newer revision
+  type: "equal" | "change" | "delete" | "insert"
+}
+
+// Above this many cells the middle block is treated as replaced (keeps diffing large documents bounded)
+const MAX_LCS_CELLS = 4_000_000
+
+export const splitLines = (text: string): string[] => text.split("\n")
+
+const pushOp = (ops: DiffOp[], type: DiffOp["type"], lines: string[]) => {
+  if (lines.length === 0) return
+  const last = ops[ops.length - 1]
+  if (last?.type === type) last.lines.push(...lines)
+  else ops.push({ type, lines: [...lines] })
+}
+
+export const diffLines = (before: string[], after: string[]): DiffOp[] => {
+  let prefix = 0
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  const a = before.slice(prefix, before.length - suffix)
+  const b = after.slice(prefix, after.length - suffix)
+
+  const ops: DiffOp[] = []
+  pushOp(ops, "equal", before.slice(0, prefix))
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    pushOp(ops, "delete", a)
+    pushOp(ops, "insert", b)
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const width = b.length + 1
+    const lengths = new Uint32Array((a.length + 1) * width)
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        pushOp(ops, "equal", [a[i++]])
+        j++
+      } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        // Deletions first, so that changed lines pair up as delete + insert
+        pushOp(ops, "delete", [a[i++]])
+      } else {
+        pushOp(ops, "insert", [b[j++]])
+      }
+    }
+  }
+  pushOp(ops, "equal", before.slice(before.length - suffix))
+  return ops
+}
+
+export const createPatch = (before: string, after: string): LinePatch =>
+  diffLines(splitLines(before), splitLines(after)).map((op) =>
+    op.type === "equal" ? op.lines.length : op.type === "delete" ? -op.lines.length : op.lines,
+  )
+
+/**
+ * Apply a patch created from `before`; throws when the patch does not fit
+ */
+export const applyPatch = (before: string, patch: LinePatch): string => {
+  const lines = splitLines(before)
+  const result: string[] = []
+  let position = 0
+  for (const op of patch) {
+    if (Array.isArray(op)) {
+      result.push(...op)
+    } else if (op > 0) {
+      if (position + op > lines.length) throw new Error("Patch does not match the previous revision")
+      result.push(...lines.slice(position, position + op))
+      position += op
+    } else {
+      position -= op
+    }
+  }
+  if (position !== lines.length) throw new Error("Patch does not match the previous revision")
+  return result.join("\n")
+}
+
+/**
+ * Rows for a side-by-side view: a delete followed by an insert is shown as changed lines next to each other
+ */
+export const toSideBySide = (ops: DiffOp[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = []
+  let left = 1
+  let right = 1
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k]
+    if (op.type === "equal") {
+      for (const text of op.lines)
+        rows.push({ type: "equal", left: { number: left++, text }, right: { number: right++, text } })
+    } else if (op.type === "delete") {
+      const inserted = ops[k + 1]?.type === "insert" ? ops[++k].lines : []
+      const count = Math.max(op.lines.length, inserted.length)
+      for (let n = 0; n < count; n++) {
+        const removed = n < op.lines.length ? { number: left++, text: op.lines[n] } : null
+        const added = n < inserted.length ? { number: right++, text: inserted[n] } : null
+        rows.push({ type: removed && added ? "change" : removed ? "delete" : "insert", left: removed, right: added })
+      }
+    } else {
+      for (const text of op.lines) rows.push({ type: "insert", left: null, right: { number: right++, text } })
+    }
+  }
+  return rows
+}
+
+export const countChanges = (ops: DiffOp[]): { added: number; removed: number } => ({
+  added: ops.filter((op) => op.type === "insert").reduce((sum, op) => sum + op.lines.length, 0),
+  removed: ops.filter((op) => op.type === "delete").reduce((sum, op) => sum + op.lines.length, 0),
+})
@@ -0,0 +1,137 @@
+import { and, desc, eq, ilike, isNull, ne, or, sql } from "drizzle-orm"
+import { files as filesTable, links } from "../_hooks/db/pgliteSchema"
+import { getDb } from "../_hooks/db/usePgliteStore"
+import { extractWikiLinks, linkTargetKey, type WikiLinkQuery, type WikiLinkSuggestion } from "./wikiLinks"
+
+/**
+ * Link index between notes and captures (links)
+ *
+ * - Rebuilt for a note every time it is saved, so backlinks are a single indexed lookup
+ * - Notes are matched by file name (the title), captures by idbKey
+ */
+
+export interface Backlink {
+  idbKey: string
+  title: string
+  kind: "note" | "embed"
+}
+
+const SUGGESTION_LIMIT = 8
+
+const escapeLike = (term: string) => `%${term.replace(/[\\%_]/g, "\\$&")}%`
+
+const titleFromFileName = (fileName: string) => fileName.replace(/\.md$/, "").replace(/_/g, " ")
+
+/**
+ * Replace the links recorded for the note stored under `idbKey` with the ones in `markdown`
+ */
+export const saveLinks = async (idbKey: string, markdown: string): Promise<void> => {
+  const db = await getDb()
+  await db.transaction(async (tx) => {
+    const [file] = await tx.select({ id: filesTable.id }).from(filesTable).where(eq(filesTable.idbKey, idbKey))
+    if (!file) throw new Error(`Document not found: ${idbKey}`)
+    await tx.delete(links).where(eq(links.sourceFileId, file.id))
+    const found = extractWikiLinks(markdown)
+    if (found.length === 0) return
+    await tx.insert(links).values(
+      found.map((link) => ({
+        sourceFileId: file.id,
+        kind: link.kind,
+        target: link.target,
+        targetKey: linkTargetKey(link.kind, link.target),
+      })),
+    )
+  })
+}
+
+/**
+ * Notes that link to or embed the file stored under `idbKey` (trashed notes excluded)
+ */
+export const listBacklinks = async (idbKey: string): Promise<Backlink[]> => {
+  const db = await getDb()
+  const [file] = await db
+    .select({ id: filesTable.id, fileName: filesTable.fileName, category: filesTable.category })
+    .from(filesTable)
+    .where(eq(filesTable.idbKey, idbKey))
+  if (!file) return []
+  const rows = await db
+    .selectDistinct({ idbKey: filesTable.idbKey, fileName: filesTable.fileName, kind: links.kind })
+    .from(links)
+    .innerJoin(filesTable, eq(filesTable.id, links.sourceFileId))
+    .where(
+      and(
+        isNull(filesTable.deletedAt),
+        ne(links.sourceFileId, file.id),
+        or(
+          and(eq(links.kind, "embed"), eq(links.targetKey, idbKey)),
+          file.category === "text"
+            ? and(eq(links.kind, "note"), eq(links.targetKey, file.fileName.toLowerCase()))
+            : undefined,
+        ),
+      ),
+    )
+    .orderBy(filesTable.fileName)
+  return rows.map((row) => ({
+    idbKey: row.idbKey,
+    title: titleFromFileName(row.fileName),
+    kind: row.kind === "embed" ? "embed" : "note",
+  }))
+}
+
+/**
+ * idbKey of the note a `[[title]]` link points to (the most recently updated one if titles collide)
+ */
+export const resolveNoteLink = async (title: string): Promise<string | null> => {
+  const db = await getDb()
+  const [note] = await db
+    .select({ idbKey: filesTable.idbKey })
+    .from(filesTable)
+    .where(
+      and(
+        eq(filesTable.category, "text"),
+        isNull(filesTable.deletedAt),
+        eq(sql`lower(${filesTable.fileName})`, linkTargetKey("note", title)),
+      ),
+    )
+    .orderBy(desc(filesTable.updatedAt))
+    .limit(1)
+  return note?.idbKey ?? null
+}
+
+/**
+ * File name and type of an embedded capture (null when it is gone or in the trash)
+ */
+export const getEmbedTarget = async (idbKey: string): Promise<{ fileName: string; mimeType: string } | null> => {
+  const db = await getDb()
+  const [file] = await db
+    .select({ fileName: filesTable.fileName, mimeType: filesTable.mimeType })
+    .from(filesTable)
+    .where(and(eq(filesTable.idbKey, idbKey), isNull(filesTable.deletedAt)))
+  return file ?? null
+}
+
+/**
+ * Candidates for the `[[` / `![[` being typed: notes by title, captures by file name or idbKey
+ */
+export const searchLinkTargets = async (query: WikiLinkQuery): Promise<WikiLinkSuggestion[]> => {
+  const db = await getDb()
+  const term = escapeLike(query.query.trim().replace(/\s+/g, query.kind === "note" ? "_" : " "))
+  const rows = await db
+    .select({ idbKey: filesTable.idbKey, fileName: filesTable.fileName, category: filesTable.category })
+    .from(filesTable)
+    .where(
+      and(
+        isNull(filesTable.deletedAt),
+        query.kind === "note"
+          ? and(eq(filesTable.category, "text"), ilike(filesTable.fileName, term))
+          : and(ne(filesTable.category, "text"), or(ilike(filesTable.fileName, term), ilike(filesTable.idbKey, term))),
+      ),
+    )
+    .orderBy(desc(filesTable.updatedAt))
+    .limit(SUGGESTION_LIMIT)
+  return rows.map((row) =>
+    query.kind === "note"
+      ? { value: titleFromFileName(row.fileName), label: titleFromFileName(row.fileName) }
+      : { value: row.idbKey, label: row.fileName, detail: row.category ?? undefined },
+  )
+}
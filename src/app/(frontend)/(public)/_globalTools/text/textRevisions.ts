@@ -0,0 +1,172 @@
+import { and, asc, desc, eq, gte, isNotNull, lte } from "drizzle-orm"
+import { alias } from "drizzle-orm/pg-core"
+import { files as filesTable, textRevisions, type TextRevisionRecord } from "../_hooks/db/pgliteSchema"
+import { getDb } from "../_hooks/db/usePgliteStore"
+import { applyPatch, createPatch } from "./textDiff"
+
+/**
+ * Text revision log (text_revisions)
+ *
+ * - Every save appends a revision; most revisions store a line patch against the previous one,
+ *   and every REVISION_SNAPSHOT_INTERVAL-th revision stores the full document so reading stays cheap
+ * - Auto-saves within REVISION_COALESCE_MS of the latest revision update it instead of appending
+ * - Restoring or branching records where the content came from (origin)
+ */
+
+export const REVISION_SNAPSHOT_INTERVAL = 20
+export const REVISION_COALESCE_MS = 2 * 60 * 1000
+
+export interface TextRevisionSummary {
+  seq: number
+  createdAt: Date
+  size: number
+  origin: { kind: "restore" | "branch"; seq: number; fileName: string | null } | null
+}
+
+export interface RevisionOrigin {
+  idbKey: string
+  seq: number
+}
+
+type Db = Awaited<ReturnType<typeof getDb>>
+type Executor = Pick<Db, "select">
+
+const findFileId = async (executor: Executor, idbKey: string): Promise<string | null> => {
+  const [file] = await executor.select({ id: filesTable.id }).from(filesTable).where(eq(filesTable.idbKey, idbKey))
+  return file?.id ?? null
+}
+
+/**
+ * Rebuild a revision from the nearest snapshot at or before it
+ */
+const readContent = async (executor: Executor, fileId: string, seq: number): Promise<string> => {
+  const [base] = await executor
+    .select({ seq: textRevisions.seq })
+    .from(textRevisions)
+    .where(and(eq(textRevisions.fileId, fileId), lte(textRevisions.seq, seq), isNotNull(textRevisions.snapshot)))
+    .orderBy(desc(textRevisions.seq))
+    .limit(1)
+  if (!base) throw new Error(`No snapshot found for revision ${seq}`)
+  const rows = await executor
+    .select()
+    .from(textRevisions)
+    .where(and(eq(textRevisions.fileId, fileId), gte(textRevisions.seq, base.seq), lte(textRevisions.seq, seq)))
+    .orderBy(asc(textRevisions.seq))
+  if (rows.length !== seq - base.seq + 1) throw new Error(`Revision history is incomplete up to ${seq}`)
+  return rows.reduce((content, row) => {
+    if (row.snapshot !== null) return row.snapshot
+    if (!row.patch) throw new Error(`Revision ${row.seq} has no content`)
+    return applyPatch(content, row.patch)
+  }, "")
+}
+
+const contentColumns = (seq: number, markdown: string, previous: string | null) =>
+  seq === 1 || seq % REVISION_SNAPSHOT_INTERVAL === 0 || previous === null
+    ? { snapshot: markdown, patch: null }
+    : { snapshot: null, patch: createPatch(previous, markdown) }
+
+/**
+ * Record the saved markdown as a new revision of the document stored under `idbKey`
+ * Returns null when the content is unchanged since the latest revision
+ */
+export const recordRevision = async (
+  idbKey: string,
+  markdown: string,
+  options: { coalesce?: boolean; origin?: RevisionOrigin } = {},
+): Promise<TextRevisionRecord | null> => {
+  const db = await getDb()
+  return db.transaction(async (tx) => {
+    const fileId = await findFileId(tx, idbKey)
+    if (!fileId) throw new Error(`Document not found: ${idbKey}`)
+    const originFileId = options.origin ? await findFileId(tx, options.origin.idbKey) : null
+    const [latest] = await tx
+      .select()
+      .from(textRevisions)
+      .where(eq(textRevisions.fileId, fileId))
+      .orderBy(desc(textRevisions.seq))
+      .limit(1)
+    const latestContent = latest ? await readContent(tx, fileId, latest.seq) : null
+    if (latestContent === markdown && !options.origin) return null
+
+    const canCoalesce =
+      options.coalesce &&
+      !options.origin &&
+      latest &&
+      latest.seq > 1 &&
+      latest.originFileId === null &&
+      Date.now() - latest.createdAt.getTime() < REVISION_COALESCE_MS
+    if (canCoalesce) {
+      const previous = latest.snapshot === null ? await readContent(tx, fileId, latest.seq - 1) : null
+      const [updated] = await tx
+        .update(textRevisions)
+        .set({
+          ...(previous === null ? { snapshot: markdown } : { patch: createPatch(previous, markdown) }),
+          size: markdown.length,
+          createdAt: new Date(),
+        })
+        .where(eq(textRevisions.id, latest.id))
+        .returning()
+      return updated
+    }
+
+    const seq = (latest?.seq ?? 0) + 1
+    const [inserted] = await tx
+      .insert(textRevisions)
+      .values({
+        fileId,
+        seq,
+        ...contentColumns(seq, markdown, latestContent),
+        size: markdown.length,
+        originFileId: options.origin ? originFileId : null,
+        originSeq: options.origin?.seq ?? null,
+      })
+      .returning()
+    return inserted
+  })
+}
+
+/**
+ * Revisions of a document, newest first (without content)
+ */
+export const listRevisions = async (idbKey: string): Promise<TextRevisionSummary[]> => {
+  const db = await getDb()
+  const fileId = await findFileId(db, idbKey)
+  if (!fileId) return []
+  const originFiles = alias(filesTable, "origin_files")
+  const rows = await db
+    .select({
+      seq: textRevisions.seq,
+      createdAt: textRevisions.createdAt,
+      size: textRevisions.size,
+      originFileId: textRevisions.originFileId,
+      originSeq: textRevisions.originSeq,
+      originFileName: originFiles.fileName,
+    })
+    .from(textRevisions)
+    .leftJoin(originFiles, eq(originFiles.id, textRevisions.originFileId))
+    .where(eq(textRevisions.fileId, fileId))
+    .orderBy(desc(textRevisions.seq))
+  return rows.map((row) => ({
+    seq: row.seq,
+    createdAt: row.createdAt,
+    size: row.size,
+    origin:
+      row.originSeq === null
+        ? null
+        : {
+            kind: row.originFileId === fileId ? "restore" : "branch",
+            seq: row.originSeq,
+            fileName: row.originFileName,
+          },
+  }))
+}
+
+/**
+ * Full markdown of a revision
+ */
+export const getRevisionContent = async (idbKey: string, seq: number): Promise<string> => {
+  const db = await getDb()
+  const fileId = await findFileId(db, idbKey)
+  if (!fileId) throw new Error(`Document not found: ${idbKey}`)
+  return readContent(db, fileId, seq)
+}
@@ -5,7 +5,9 @@
 
 import { useExternalStore } from "../_hooks/atoms/useExternalStore"
 import { type SavedToolFileResult } from "../_hooks/useToolActionStore"
-import { createTextClient } from "./textClient"
+import { type FrontMatter } from "./frontMatter"
+import { createTextClient, noteFileName } from "./textClient"
+import { type RevisionOrigin } from "./textRevisions"
 
 /**
  * Text Editor State
@@ -20,6 +22,7 @@ export interface TextState {
   // Metadata
   title: string
   tags: string[]
+  properties: FrontMatter // Other front-matter keys (author, status, due, custom fields), preserved on save
 
   // Metrics
   wordCount: number
@@ -46,6 +49,12 @@ export interface TextExternalActions {
   ) => Promise<SavedToolFileResult>
   getFileWithUrl?: (idbKey: string) => Promise<string | null>
   deleteFile?: (idbKey: string, dbId: string) => Promise<void>
+  recordRevision?: (
+    idbKey: string,
+    markdown: string,
+    options: { coalesce: boolean; origin?: RevisionOrigin },
+  ) => Promise<unknown>
+  saveLinks?: (idbKey: string, markdown: string) => Promise<void>
 }
 
 /**
@@ -54,6 +63,9 @@ export interface TextExternalActions {
 interface TextStateInternal extends TextState {
   externalActions: TextExternalActions
   autoSaveTimer: NodeJS.Timeout | null
+  createdAt: Date | null // Front-matter createdAt of the loaded document (kept across saves)
+  updatedAt: Date | null // Front-matter updatedAt (only moves when the content changes)
+  pendingOrigin: RevisionOrigin | null // Revision the unsaved content was restored / branched from
   callbacks: {
     onSave?: (result: SavedToolFileResult) => void
     onLoad?: (content: string, metadata: { title: string; tags: string[] }) => void
@@ -73,6 +85,7 @@ const state: TextStateInternal = {
   editingIdbKey: null,
   title: "Untitled",
   tags: [],
+  properties: {},
   wordCount: 0,
   charCount: 0,
   lastSavedContent: "",
@@ -80,6 +93,9 @@ const state: TextStateInternal = {
   error: null,
   externalActions: {},
   autoSaveTimer: null,
+  createdAt: null,
+  updatedAt: null,
+  pendingOrigin: null,
   callbacks: {},
 }
 
@@ -94,6 +110,7 @@ const serverSnapshot: TextState = {
   editingIdbKey: null,
   title: "",
   tags: [],
+  properties: {},
   wordCount: 0,
   charCount: 0,
   lastSavedContent: "",
@@ -121,6 +138,7 @@ const getSnapshot = (): TextState => {
       editingIdbKey: state.editingIdbKey,
       title: state.title,
       tags: state.tags,
+      properties: state.properties,
       wordCount: state.wordCount,
       charCount: state.charCount,
       lastSavedContent: state.lastSavedContent,
@@ -141,7 +159,7 @@ const subscribe = (listener: () => void): (() => void) => {
  * Generate content signature for change tracking
  */
 const generateContentSignature = (): string => {
-  return `${state.title}|${state.currentText}|${state.tags.join(",")}`
+  return `${state.title}|${state.currentText}|${state.tags.join(",")}|${JSON.stringify(state.properties)}`
 }
 
 /**
@@ -169,7 +187,7 @@ const triggerAutoSave = () => {
   state.autoSaveTimer = setTimeout(async () => {
     try {
       if (hasUnsavedChanges()) {
-        await textActions.saveText()
+        await textActions.saveText({ autoSave: true })
       }
     } catch (err) {
       console.error("Auto-save failed:", err)
@@ -179,6 +197,23 @@ const triggerAutoSave = () => {
   }, 2000)
 }
 
+/**
+ * Load markdown into the editor (keeps editingIdbKey)
+ */
+const applyParsed = (markdown: string) => {
+  const parsed = textClient.parseMarkdown(markdown)
+  state.currentText = parsed.body
+  state.title = parsed.metadata.title
+  state.tags = parsed.metadata.tags
+  state.properties = parsed.metadata.properties
+  state.createdAt = parsed.metadata.createdAt
+  state.updatedAt = parsed.metadata.updatedAt ?? null
+  state.wordCount = textClient.countWords(parsed.body)
+  state.charCount = parsed.body.length
+  state.error = null
+  return parsed
+}
+
 /**
  * Export actions
  */
@@ -207,6 +242,10 @@ export const textActions = {
     state.currentText = ""
     state.title = "Untitled"
     state.tags = []
+    state.properties = {}
+    state.createdAt = null
+    state.updatedAt = null
+    state.pendingOrigin = null
     state.editingIdbKey = null
     state.wordCount = 0
     state.charCount = 0
@@ -231,6 +270,10 @@ export const textActions = {
     state.editingIdbKey = null
     state.title = "Untitled"
     state.tags = []
+    state.properties = {}
+    state.createdAt = null
+    state.updatedAt = null
+    state.pendingOrigin = null
     state.wordCount = 0
     state.charCount = 0
     state.lastSavedContent = ""
@@ -265,6 +308,12 @@ export const textActions = {
     triggerAutoSave()
   },
 
+  setProperties: (properties: FrontMatter) => {
+    state.properties = properties
+    notify()
+    triggerAutoSave()
+  },
+
   setEditing: (isEditing: boolean) => {
     state.isEditing = isEditing
     notify()
@@ -285,6 +334,10 @@ export const textActions = {
     state.currentText = ""
     state.title = "Untitled"
     state.tags = []
+    state.properties = {}
+    state.createdAt = null
+    state.updatedAt = null
+    state.pendingOrigin = null
     state.editingIdbKey = null
     state.wordCount = 0
     state.charCount = 0
@@ -302,15 +355,9 @@ export const textActions = {
       if (!url) throw new Error("File not found")
       const response = await fetch(url)
       const markdown = await response.text()
-      const parsed = textClient.parseMarkdown(markdown)
-      state.currentText = parsed.body
-      state.title = parsed.metadata.title
-      state.tags = parsed.metadata.tags
+      const parsed = applyParsed(markdown)
       state.editingIdbKey = idbKey
-      state.wordCount = textClient.countWords(parsed.body)
-      state.charCount = parsed.body.length
       state.isEditing = true
-      state.error = null
       // Update lastSavedContent signature after loading
       state.lastSavedContent = generateContentSignature()
       state.callbacks.onLoad?.(parsed.body, {
@@ -325,31 +372,49 @@ export const textActions = {
     }
   },
 
-  saveText: async () => {
+  saveText: async (options: { autoSave?: boolean } = {}) => {
     try {
       const actions = state.externalActions
       if (!actions.saveFile) throw new Error("saveFile not implemented")
+      const createdAt = state.createdAt ?? new Date()
+      // Saving without edits keeps the previous updatedAt, so the markdown (and its revision) stays the same
+      const changed = generateContentSignature() !== state.lastSavedContent
+      const updatedAt = state.editingIdbKey ? (changed ? new Date() : (state.updatedAt ?? undefined)) : undefined
       const markdown = textClient.serializeMarkdown({
         title: state.title,
         tags: state.tags,
         body: state.currentText,
         wordCount: state.wordCount,
+        createdAt,
+        updatedAt,
+        properties: state.properties,
       })
       // upsert: idbKey があれば UPDATE、なければ INSERT
       const result = await actions.saveFile(
         markdown,
         { title: state.title, tags: state.tags },
         {
-          fileName: `${state.title.replace(/\s+/g, "_")}.md`,
+          fileName: noteFileName(state.title),
           idbKey: state.editingIdbKey || undefined,
           category: "text",
         },
       )
       state.editingIdbKey = result.idbKey
+      state.createdAt = createdAt
+      state.updatedAt = updatedAt ?? null
       state.isEditing = false
       state.error = null
       // Update lastSavedContent signature after successful save
       state.lastSavedContent = generateContentSignature()
+      // The document itself is saved; failing to update its history or links must not fail the save
+      const origin = state.pendingOrigin ?? undefined
+      state.pendingOrigin = null
+      await actions
+        .recordRevision?.(result.idbKey, markdown, { coalesce: options.autoSave === true, origin })
+        .catch((err) => console.warn("[TextStore] Failed to record revision:", err))
+      await actions
+        .saveLinks?.(result.idbKey, markdown)
+        .catch((err) => console.warn("[TextStore] Failed to update links:", err))
       state.callbacks.onSave?.(result)
       notify()
       return result
@@ -361,6 +426,29 @@ export const textActions = {
     }
   },
 
+  /**
+   * Replace the current document with an older revision and save it as the newest one
+   */
+  restoreRevision: async (markdown: string, seq: number) => {
+    if (!state.editingIdbKey) throw new Error("No document is open")
+    applyParsed(markdown)
+    state.pendingOrigin = { idbKey: state.editingIdbKey, seq }
+    return textActions.saveText()
+  },
+
+  /**
+   * Save an older revision as a new document (the original keeps its history)
+   */
+  branchFromRevision: async (markdown: string, origin: RevisionOrigin) => {
+    applyParsed(markdown)
+    state.title = `${state.title} (branch r${origin.seq})`
+    state.createdAt = null
+    state.updatedAt = null
+    state.editingIdbKey = null
+    state.pendingOrigin = origin
+    return textActions.saveText()
+  },
+
   // Preview cache management
   loadPreview: async (idbKey: string) => {
     // Skip if already cached
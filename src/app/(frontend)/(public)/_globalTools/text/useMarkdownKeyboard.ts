@@ -1,9 +1,22 @@
 /**
  * Markdown Keyboard Handler Hook
- * Provides GitHub-like editing experience with list/checkbox auto-continuation
+ * Provides GitHub-like editing experience with list/checkbox auto-continuation,
+ * `[[` / `![[` wiki link completion, a `/` command palette, formatting shortcuts and table cell navigation
+ *
+ * All edits go through `applyTextChange` so they land on the native textarea undo stack (Ctrl/Cmd+Z)
  */
 
-import React, { useCallback } from "react"
+import React, { useCallback, useRef, useState } from "react"
+import {
+  findSlashQuery,
+  insertLink,
+  moveTableCell,
+  toggleInlineMarker,
+  type SlashQuery,
+  type TextEdit,
+} from "./markdownEditing"
+import { filterSlashCommands, type SlashCommand, type SlashCommandContext, type SlashSnippet } from "./slashCommands"
+import { completeWikiLink, findWikiLinkQuery, type WikiLinkQuery, type WikiLinkSuggestion } from "./wikiLinks"
 
 // Regex patterns for list detection - Standard Markdown only supports numeric ordered lists
 const ORDERED_LIST_REGEX = /^(\s*)(\d+)(\.|\))\s/
@@ -14,6 +27,82 @@ const EMPTY_LIST_ITEM_REGEX = /^(\s*)([-*]|\d+\.)\s(\[[ xX]\]\s)?$/
 interface UseMarkdownKeyboardOptions {
   textareaRef: React.RefObject<HTMLTextAreaElement | null>
   onChange: (newValue: string) => void
+  searchWikiLinks?: (query: WikiLinkQuery) => Promise<WikiLinkSuggestion[]>
+  getSlashCommandContext?: () => SlashCommandContext // Enables the `/` palette
+  onSlashCommandEmpty?: (command: SlashCommand) => void // The command had nothing to insert (no photo, no scan)
+}
+
+/**
+ * Open wiki link completion (suggestions for the `[[` being typed)
+ */
+export interface WikiLinkCompletion {
+  query: WikiLinkQuery
+  suggestions: WikiLinkSuggestion[]
+  activeIndex: number
+}
+
+/**
+ * Open `/` command palette
+ */
+export interface SlashCommandPalette {
+  query: SlashQuery
+  commands: SlashCommand[]
+  activeIndex: number
+}
+
+export type MarkdownFormat = "bold" | "italic" | "link" | "indent" | "outdent"
+
+// Mod+key shortcuts
+const FORMAT_SHORTCUTS: Record<string, MarkdownFormat> = {
+  b: "bold",
+  i: "italic",
+  k: "link",
+  "]": "indent",
+  "[": "outdent",
+}
+
+// Keys that move the caret away from the completion without typing
+const CARET_KEYS = new Set(["ArrowLeft", "ArrowRight", "Home", "End", "PageUp", "PageDown"])
+
+// Set while our own edit is dispatched as native input (its beforeinput / input events are not user typing)
+let isApplyingChange = false
+
+/**
+ * Replace the textarea value as native input so that undo / redo keep working
+ * Only the changed range is inserted; falls back to onChange where execCommand is unavailable
+ */
+function applyTextChange(textarea: HTMLTextAreaElement, newText: string, onChange: (newValue: string) => void) {
+  const oldText = textarea.value
+  if (oldText === newText) return
+  const maxLength = Math.min(oldText.length, newText.length)
+  let prefix = 0
+  while (prefix < maxLength && oldText[prefix] === newText[prefix]) prefix++
+  let suffix = 0
+  while (suffix < maxLength - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+    suffix++
+  }
+  const inserted = newText.slice(prefix, newText.length - suffix)
+
+  textarea.focus()
+  textarea.setSelectionRange(prefix, oldText.length - suffix)
+  let handled = false
+  isApplyingChange = true
+  try {
+    handled =
+      typeof document.execCommand === "function" &&
+      document.execCommand(inserted ? "insertText" : "delete", false, inserted)
+  } finally {
+    isApplyingChange = false
+  }
+  if (!handled || textarea.value !== newText) onChange(newText)
+}
+
+function applyEdit(textarea: HTMLTextAreaElement, edit: TextEdit, onChange: (newValue: string) => void) {
+  const value = textarea.value
+  applyTextChange(textarea, value.slice(0, edit.start) + edit.text + value.slice(edit.end), onChange)
+  textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd)
+  // Re-apply after React re-renders the controlled value (fallback path)
+  requestAnimationFrame(() => textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd))
 }
 
 interface LineInfo {
@@ -81,7 +170,7 @@ function handleEnterKey(
   // Check for empty list item - should remove prefix
   if (EMPTY_LIST_ITEM_REGEX.test(line)) {
     const newText = text.substring(0, lineStart) + text.substring(lineEnd)
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     requestAnimationFrame(() => {
       textarea.setSelectionRange(lineStart, lineStart)
     })
@@ -93,7 +182,7 @@ function handleEnterKey(
   if (nextPrefix) {
     const newText = text.substring(0, selectionStart) + "\n" + nextPrefix + text.substring(selectionStart)
     const newCursorPos = selectionStart + 1 + nextPrefix.length
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     requestAnimationFrame(() => {
       textarea.setSelectionRange(newCursorPos, newCursorPos)
     })
@@ -131,7 +220,7 @@ function handleIndent(
       newContent = indent + INDENT + "1" + delimiter + " " + lineContent.substring(match[0].length)
     }
     const newText = text.substring(0, firstLineStart) + newContent
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     requestAnimationFrame(() => {
       textarea.setSelectionRange(selectionStart + cursorOffset, selectionEnd + cursorOffset)
     })
@@ -144,7 +233,7 @@ function handleIndent(
       .join("\n")
     const newText = text.substring(0, firstLineStart) + indentedText + afterEnd
     const lineCount = textToIndent.split("\n").length
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     requestAnimationFrame(() => {
       textarea.setSelectionRange(selectionStart + INDENT.length, selectionEnd + INDENT.length * lineCount)
     })
@@ -169,7 +258,7 @@ function handleOutdent(
     if (lineContent.startsWith(INDENT)) {
       const newContent = lineContent.substring(INDENT.length)
       const newText = text.substring(0, firstLineStart) + newContent
-      onChange(newText)
+      applyTextChange(textarea, newText, onChange)
       requestAnimationFrame(() => {
         textarea.setSelectionRange(
           Math.max(firstLineStart, selectionStart - INDENT.length),
@@ -192,7 +281,7 @@ function handleOutdent(
       })
       .join("\n")
     const newText = text.substring(0, firstLineStart) + outdentedText + afterEnd
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     requestAnimationFrame(() => {
       const firstLineRemoved = text.substring(firstLineStart).startsWith(INDENT) ? INDENT.length : 0
       textarea.setSelectionRange(
@@ -218,7 +307,7 @@ function handleCheckboxAutocomplete(
     const prefix = matchBefore[0]
     const newText = text.substring(0, lineStart) + prefix + "[ ] " + text.substring(selectionStart)
     const newCursorPos = lineStart + prefix.length + 4
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     setTimeout(() => {
       if (textarea) {
         textarea.setSelectionRange(newCursorPos, newCursorPos)
@@ -234,7 +323,7 @@ function handleCheckboxAutocomplete(
     const prefix = matchAfter[0].slice(0, -1) // remove the bracket
     const newText = text.substring(0, lineStart) + prefix + "[ ] " + text.substring(selectionStart)
     const newCursorPos = lineStart + prefix.length + 4
-    onChange(newText)
+    applyTextChange(textarea, newText, onChange)
     setTimeout(() => {
       if (textarea) {
         textarea.setSelectionRange(newCursorPos, newCursorPos)
@@ -246,13 +335,176 @@ function handleCheckboxAutocomplete(
   return false
 }
 
-export function useMarkdownKeyboard({ textareaRef, onChange }: UseMarkdownKeyboardOptions) {
+export function useMarkdownKeyboard({
+  textareaRef,
+  onChange,
+  searchWikiLinks,
+  getSlashCommandContext,
+  onSlashCommandEmpty,
+}: UseMarkdownKeyboardOptions) {
+  const [wikiCompletion, setWikiCompletion] = useState<WikiLinkCompletion | null>(null)
+  const [slashPalette, setSlashPalette] = useState<SlashCommandPalette | null>(null)
+  const searchIdRef = useRef(0)
+
+  const closeWikiCompletion = useCallback(() => {
+    searchIdRef.current++
+    setWikiCompletion(null)
+  }, [])
+
+  const closeSlashPalette = useCallback(() => setSlashPalette(null), [])
+
+  const updateWikiCompletion = useCallback(
+    (text: string, cursor: number) => {
+      const query = searchWikiLinks ? findWikiLinkQuery(text, cursor) : null
+      if (!query || !searchWikiLinks) {
+        closeWikiCompletion()
+        return
+      }
+      // Only the latest search may open the list
+      const searchId = ++searchIdRef.current
+      searchWikiLinks(query)
+        .then((suggestions) => {
+          if (searchId === searchIdRef.current) setWikiCompletion({ query, suggestions, activeIndex: 0 })
+        })
+        .catch((err) => console.warn("[useMarkdownKeyboard] Wiki link search failed:", err))
+    },
+    [searchWikiLinks, closeWikiCompletion],
+  )
+
+  const updateSlashPalette = useCallback(
+    (text: string, cursor: number) => {
+      const query = getSlashCommandContext ? findSlashQuery(text, cursor) : null
+      const commands = query ? filterSlashCommands(query.query) : []
+      setSlashPalette(query && commands.length > 0 ? { query, commands, activeIndex: 0 } : null)
+    },
+    [getSlashCommandContext],
+  )
+
+  const applyWikiCompletion = useCallback(
+    (suggestion: WikiLinkSuggestion) => {
+      const textarea = textareaRef.current
+      if (!textarea || !wikiCompletion) return
+      const { text, cursor } = completeWikiLink(textarea.value, wikiCompletion.query, suggestion.value)
+      closeWikiCompletion()
+      applyTextChange(textarea, text, onChange)
+      setTimeout(() => {
+        if (textarea) {
+          textarea.setSelectionRange(cursor, cursor)
+          textarea.focus()
+        }
+      }, 10)
+    },
+    [textareaRef, onChange, wikiCompletion, closeWikiCompletion],
+  )
+
+  const runSlashCommand = useCallback(
+    async (command: SlashCommand) => {
+      const textarea = textareaRef.current
+      if (!textarea || !slashPalette || !getSlashCommandContext) return
+      const { query } = slashPalette
+      closeSlashPalette()
+      let snippet: SlashSnippet | null
+      try {
+        snippet = await command.build(getSlashCommandContext())
+      } catch (err) {
+        console.warn(`[useMarkdownKeyboard] Slash command "${command.id}" failed:`, err)
+        snippet = null
+      }
+      if (!snippet) {
+        onSlashCommandEmpty?.(command)
+        return
+      }
+      // Skip if the "/query" was edited while the command was loading
+      if (textarea.value.slice(query.start, query.end) !== `/${query.query}`) return
+      const prefix = command.block && !query.atLineStart ? "\n" : ""
+      const [from, to] = snippet.selection ?? [snippet.text.length, snippet.text.length]
+      const offset = query.start + prefix.length
+      applyEdit(
+        textarea,
+        {
+          start: query.start,
+          end: query.end,
+          text: prefix + snippet.text,
+          selectionStart: offset + from,
+          selectionEnd: offset + to,
+        },
+        onChange,
+      )
+    },
+    [textareaRef, onChange, slashPalette, getSlashCommandContext, onSlashCommandEmpty, closeSlashPalette],
+  )
+
+  /**
+   * Bold / italic / link / indent on the current selection (keyboard shortcuts and the toolbar)
+   */
+  const applyFormat = useCallback(
+    (format: MarkdownFormat) => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      const { selectionStart, selectionEnd, value } = textarea
+      if (format === "indent") return handleIndent(value, selectionStart, selectionEnd, onChange, textarea)
+      if (format === "outdent") return handleOutdent(value, selectionStart, selectionEnd, onChange, textarea)
+      const edit =
+        format === "link"
+          ? insertLink(value, selectionStart, selectionEnd)
+          : toggleInlineMarker(value, selectionStart, selectionEnd, format === "bold" ? "**" : "_")
+      applyEdit(textarea, edit, onChange)
+    },
+    [textareaRef, onChange],
+  )
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
       const textarea = textareaRef.current
       if (!textarea) return
       const { selectionStart, selectionEnd } = textarea
       const currentText = textarea.value
+      const isComposing = e.nativeEvent.isComposing
+
+      // Navigate / accept wiki link suggestions or slash commands while a list is open
+      const palette = slashPalette
+        ? { count: slashPalette.commands.length, activeIndex: slashPalette.activeIndex }
+        : wikiCompletion
+          ? { count: wikiCompletion.suggestions.length, activeIndex: wikiCompletion.activeIndex }
+          : null
+      if (palette) {
+        const { count, activeIndex } = palette
+        if (count > 0 && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+          e.preventDefault()
+          const next = (activeIndex + (e.key === "ArrowDown" ? 1 : -1) + count) % count
+          if (slashPalette) setSlashPalette({ ...slashPalette, activeIndex: next })
+          else if (wikiCompletion) setWikiCompletion({ ...wikiCompletion, activeIndex: next })
+          return
+        }
+        if (count > 0 && (e.key === "Enter" || e.key === "Tab") && !isComposing) {
+          e.preventDefault()
+          if (slashPalette) void runSlashCommand(slashPalette.commands[activeIndex])
+          else if (wikiCompletion) applyWikiCompletion(wikiCompletion.suggestions[activeIndex])
+          return
+        }
+        if (e.key === "Escape") {
+          // Close the list, not the modal
+          e.preventDefault()
+          e.stopPropagation()
+          closeSlashPalette()
+          closeWikiCompletion()
+          return
+        }
+        if (CARET_KEYS.has(e.key)) {
+          closeSlashPalette()
+          closeWikiCompletion()
+        }
+      }
+
+      // Formatting shortcuts: Mod+B bold, Mod+I italic, Mod+K link, Mod+] / Mod+[ indent
+      const format =
+        (e.metaKey || e.ctrlKey) && !e.altKey && !isComposing ? FORMAT_SHORTCUTS[e.key.toLowerCase()] : null
+      if (format) {
+        e.preventDefault()
+        applyFormat(format)
+        return
+      }
+
       // Handle "[" key for checkbox auto-completion
       if (e.key === "[" && selectionStart === selectionEnd) {
         const handled = handleCheckboxAutocomplete(currentText, selectionStart, textarea, onChange)
@@ -270,23 +522,36 @@ export function useMarkdownKeyboard({ textareaRef, onChange }: UseMarkdownKeyboa
         }
         return
       }
-      // Handle Tab key
+      // Handle Tab key (table cells first, then indentation)
       if (e.key === "Tab") {
         e.preventDefault()
-        if (e.shiftKey) {
+        const cellEdit = moveTableCell(currentText, selectionStart, e.shiftKey)
+        if (cellEdit) {
+          applyEdit(textarea, cellEdit, onChange)
+        } else if (e.shiftKey) {
           handleOutdent(currentText, selectionStart, selectionEnd, onChange, textarea)
         } else {
           handleIndent(currentText, selectionStart, selectionEnd, onChange, textarea)
         }
       }
     },
-    [textareaRef, onChange],
+    [
+      textareaRef,
+      onChange,
+      wikiCompletion,
+      slashPalette,
+      applyWikiCompletion,
+      runSlashCommand,
+      closeWikiCompletion,
+      closeSlashPalette,
+      applyFormat,
+    ],
   )
 
   const handleBeforeInput = useCallback(
     (e: React.FormEvent<HTMLTextAreaElement>) => {
       const textarea = textareaRef.current
-      if (!textarea) return
+      if (!textarea || isApplyingChange) return
       const { selectionStart, selectionEnd } = textarea
       const currentText = textarea.value
       const nativeEvent = e.nativeEvent as InputEvent
@@ -295,6 +560,16 @@ export function useMarkdownKeyboard({ textareaRef, onChange }: UseMarkdownKeyboa
         nativeEvent.inputType === "insertLineBreak" ||
         (nativeEvent.inputType === "insertText" && nativeEvent.data === "\n")
       ) {
+        if (slashPalette && slashPalette.commands.length > 0) {
+          e.preventDefault()
+          void runSlashCommand(slashPalette.commands[slashPalette.activeIndex])
+          return
+        }
+        if (wikiCompletion && wikiCompletion.suggestions.length > 0) {
+          e.preventDefault()
+          applyWikiCompletion(wikiCompletion.suggestions[wikiCompletion.activeIndex])
+          return
+        }
         const handled = handleEnterKey(currentText, selectionStart, selectionEnd, onChange, textarea)
         if (handled) {
           e.preventDefault()
@@ -311,12 +586,12 @@ export function useMarkdownKeyboard({ textareaRef, onChange }: UseMarkdownKeyboa
         }
       }
     },
-    [textareaRef, onChange],
+    [textareaRef, onChange, wikiCompletion, slashPalette, applyWikiCompletion, runSlashCommand],
   )
 
   const handleInput = useCallback(() => {
     const textarea = textareaRef.current
-    if (!textarea) return
+    if (!textarea || isApplyingChange) return
     const { selectionStart } = textarea
     const currentText = textarea.value
     // If the last character entered was "[" and it wasn't handled by beforeinput
@@ -325,10 +600,24 @@ export function useMarkdownKeyboard({ textareaRef, onChange }: UseMarkdownKeyboa
     const lineUpToCursor = line.substring(0, selectionStart - lineStart)
     if (/^(\s*)([-*])\s+[[［]$/.test(lineUpToCursor)) {
       handleCheckboxAutocomplete(currentText, selectionStart, textarea, onChange)
+      return
     }
-  }, [textareaRef, onChange])
+    updateSlashPalette(currentText, selectionStart)
+    updateWikiCompletion(currentText, selectionStart)
+  }, [textareaRef, onChange, updateSlashPalette, updateWikiCompletion])
 
-  return { handleKeyDown, handleBeforeInput, handleInput }
+  return {
+    handleKeyDown,
+    handleBeforeInput,
+    handleInput,
+    applyFormat,
+    wikiCompletion,
+    applyWikiCompletion,
+    closeWikiCompletion,
+    slashPalette,
+    runSlashCommand,
+    closeSlashPalette,
+  }
 }
 /**
  * Toggle checkbox state in markdown text
@@ -0,0 +1,70 @@
+/**
+ * wikiLinks テスト
+ *
+ * [[ノート名]] / ![[idbKey]] の抽出・入力中の補完・プレビューでの描画を検証する。
+ */
+import React from "react"
+import { renderToStaticMarkup } from "react-dom/server"
+import ReactMarkdown from "react-markdown"
+import { describe, expect, it } from "vitest"
+import {
+  completeWikiLink,
+  extractWikiLinks,
+  findWikiLinkQuery,
+  linkTargetKey,
+  parseWikiUrl,
+  remarkWikiLinks,
+  wikiUrlTransform,
+} from "./wikiLinks"
+
+describe("wikiLinks", () => {
+  it("リンクと埋め込みを抽出し、コード内のものと重複は除く", () => {
+    const markdown = [
+      "See [[Field Notes]] and [[field notes|again]].",
+      "![[camera-123]] `[[not a link]]`",
+      "```",
+      "[[inside code]]",
+      "```",
+      "[[Plan B|the plan]]",
+    ].join("\n")
+    expect(extractWikiLinks(markdown)).toEqual([
+      { kind: "note", target: "Field Notes", label: null },
+      { kind: "embed", target: "camera-123", label: null },
+      { kind: "note", target: "Plan B", label: "the plan" },
+    ])
+    expect(linkTargetKey("note", " Field  Notes ")).toBe("field_notes.md")
+    expect(linkTargetKey("embed", "camera-123")).toBe("camera-123")
+  })
+
+  it("入力中の [[ を見つけ、選んだ値で括弧を閉じる", () => {
+    const text = "Meet ![[cam and [[Fie"
+    const query = findWikiLinkQuery(text, text.length)
+    expect(query).toEqual({ kind: "note", query: "Fie", start: 18, end: 21 })
+    expect(completeWikiLink(text, query!, "Field Notes")).toEqual({
+      text: "Meet ![[cam and [[Field Notes]]",
+      cursor: 31,
+    })
+    expect(findWikiLinkQuery("![[cam", 6)).toMatchObject({ kind: "embed", query: "cam" })
+    expect(findWikiLinkQuery("[[done]] after", 14)).toBeNull()
+    expect(findWikiLinkQuery("[[\nnext", 7)).toBeNull()
+    // 閉じ括弧が既にあれば重ねない
+    const closed = completeWikiLink("[[]]", { kind: "note", query: "", start: 2, end: 2 }, "A")
+    expect(closed.text).toBe("[[A]]")
+  })
+
+  it("プレビューではノートへのリンクと埋め込み画像になり、コードはそのまま残る", () => {
+    const html = renderToStaticMarkup(
+      React.createElement(
+        ReactMarkdown,
+        { remarkPlugins: [remarkWikiLinks], urlTransform: wikiUrlTransform },
+        "Go to [[Plan B|the plan]] ![[mic-1]] `[[code]]` [x](javascript:alert(1))",
+      ),
+    )
+    expect(html).toContain('<a href="wiki:Plan%20B">the plan</a>')
+    expect(html).toContain('<img src="embed:mic-1" alt="mic-1"/>')
+    expect(html).toContain("<code>[[code]]</code>")
+    expect(html).not.toContain("javascript:")
+    expect(parseWikiUrl("wiki:Plan%20B")).toEqual({ kind: "note", target: "Plan B" })
+    expect(parseWikiUrl("https://example.com")).toBeNull()
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Wiki-style links between notes and captures
+ *
+ * - `[[Note title]]` (or `[[Note title|label]]`) links to another note by its title
+ * - `![[idbKey]]` embeds a capture (photo, recording, video) stored in idbStore
+ * - Links inside code are left alone: `extractWikiLinks` strips code first and the remark plugin only rewrites text nodes
+ */
+
+import { defaultUrlTransform } from "react-markdown"
+import { noteFileName } from "./textClient"
+
+export type WikiLinkKind = "note" | "embed"
+
+export interface WikiLink {
+  kind: WikiLinkKind
+  target: string // Note title, or idbKey for embeds
+  label: string | null
+}
+
+/**
+ * `[[` / `![[` being typed at the cursor (start..end is the partial target)
+ */
+export interface WikiLinkQuery {
+  kind: WikiLinkKind
+  query: string
+  start: number
+  end: number
+}
+
+export interface WikiLinkSuggestion {
+  value: string // Inserted between the brackets
+  label: string
+  detail?: string
+}
+
+const WIKI_LINK_REGEX = /(!?)\[\[([^[\]|\n]+?)(?:\|([^[\]\n]+?))?\]\]/g
+const CODE_REGEX = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g
+
+// URLs the remark plugin gives to wiki links (react-markdown would strip unknown protocols)
+const URL_PREFIX: Record<WikiLinkKind, string> = { note: "wiki:", embed: "embed:" }
+
+export const extractWikiLinks = (markdown: string): WikiLink[] => {
+  const seen = new Set<string>()
+  const result: WikiLink[] = []
+  for (const match of markdown.replace(CODE_REGEX, "").matchAll(WIKI_LINK_REGEX)) {
+    const link: WikiLink = {
+      kind: match[1] ? "embed" : "note",
+      target: match[2].trim(),
+      label: match[3]?.trim() || null,
+    }
+    const key = `${link.kind}:${linkTargetKey(link.kind, link.target)}`
+    if (!link.target || seen.has(key)) continue
+    seen.add(key)
+    result.push(link)
+  }
+  return result
+}
+
+/**
+ * Key a link is matched by: notes by their file name (case-insensitive), embeds by idbKey
+ */
+export const linkTargetKey = (kind: WikiLinkKind, target: string): string =>
+  kind === "note" ? noteFileName(target.trim()).toLowerCase() : target.trim()
+
+export const toWikiUrl = (kind: WikiLinkKind, target: string): string =>
+  `${URL_PREFIX[kind]}${encodeURIComponent(target)}`
+
+export const parseWikiUrl = (url: string): { kind: WikiLinkKind; target: string } | null => {
+  for (const kind of ["note", "embed"] as const) {
+    if (!url.startsWith(URL_PREFIX[kind])) continue
+    try {
+      return { kind, target: decodeURIComponent(url.slice(URL_PREFIX[kind].length)) }
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * react-markdown `urlTransform` that keeps wiki URLs
+ */
+export const wikiUrlTransform = (url: string): string => (parseWikiUrl(url) ? url : defaultUrlTransform(url))
+
+/**
+ * Find an unfinished `[[` / `![[` on the current line before the cursor
+ */
+export const findWikiLinkQuery = (text: string, cursor: number): WikiLinkQuery | null => {
+  const lineStart = text.lastIndexOf("\n", cursor - 1) + 1
+  const match = text.slice(lineStart, cursor).match(/(!?)\[\[([^[\]|\n]*)$/)
+  if (!match) return null
+  return { kind: match[1] ? "embed" : "note", query: match[2], start: cursor - match[2].length, end: cursor }
+}
+
+/**
+ * Replace the partial target with the chosen value and close the brackets
+ */
+export const completeWikiLink = (
+  text: string,
+  query: WikiLinkQuery,
+  value: string,
+): { text: string; cursor: number } => {
+  const after = text.slice(query.end)
+  const closing = after.startsWith("]]") ? "" : "]]"
+  return {
+    text: text.slice(0, query.start) + value + closing + after,
+    cursor: query.start + value.length + 2,
+  }
+}
+
+/**
+ * Minimal mdast shape (the plugin only needs these fields)
+ */
+interface MarkdownNode {
+  type: string
+  value?: string
+  url?: string
+  alt?: string
+  title?: string | null
+  children?: MarkdownNode[]
+}
+
+const SKIPPED_NODES = new Set(["code", "inlineCode", "html", "link", "linkReference", "definition"])
+
+const splitText = (value: string): MarkdownNode[] => {
+  const nodes: MarkdownNode[] = []
+  let position = 0
+  for (const match of value.matchAll(WIKI_LINK_REGEX)) {
+    const [raw, bang, rawTarget, rawLabel] = match
+    const target = rawTarget.trim()
+    if (!target) continue
+    const index = match.index ?? 0
+    if (index > position) nodes.push({ type: "text", value: value.slice(position, index) })
+    const label = rawLabel?.trim() || target
+    nodes.push(
+      bang
+        ? { type: "image", url: toWikiUrl("embed", target), alt: label, title: null }
+        : {
+            type: "link",
+            url: toWikiUrl("note", target),
+            title: null,
+            children: [{ type: "text", value: label }],
+          },
+    )
+    position = index + raw.length
+  }
+  if (position === 0) return [{ type: "text", value }]
+  if (position < value.length) nodes.push({ type: "text", value: value.slice(position) })
+  return nodes
+}
+
+const rewriteChildren = (node: MarkdownNode) => {
+  if (!node.children) return
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text" && child.value) return splitText(child.value)
+    if (!SKIPPED_NODES.has(child.type)) rewriteChildren(child)
+    return [child]
+  })
+}
+
+/**
+ * remark plugin: turn `[[...]]` into links (`wiki:`) and `![[...]]` into images (`embed:`)
+ */
+export const remarkWikiLinks = () => (tree: MarkdownNode) => {
+  rewriteChildren(tree)
+}
@@ -36,7 +36,8 @@ export interface BaseJobOptions<P = any> {
  * ローカルジョブのオプション
  */
 export interface LocalJobOptions<P = any> extends BaseJobOptions<P> {
-  // (ローカル固有のオプションが必要な場合、ここに追加)
+  // 所有権を Worker に移すオブジェクト（ImageBitmap, ArrayBuffer など）。転送後は再送できないため retries は 0 にすること
+  transfer?: Transferable[]
 }
 
 /**
@@ -77,6 +78,8 @@ declare module "@/utils/pubsub" {
  */
 export interface WorkerManagerOptions {
   scriptUrl: string
+  // バンドラーに Worker を含めさせる場合（new Worker(new URL(...), ...) を書く）は、scriptUrl の代わりにこちらで生成する
+  createWorker?: () => Worker
   mode: "local" | "remote"
   workerType?: WorkerType
   debug?: boolean
@@ -96,7 +99,7 @@ export interface WorkerManagerOptions {
  * Worker管理クラス - React非依存
  */
 export class WorkerManager {
-  private options: Required<WorkerManagerOptions>
+  private options: Required<Omit<WorkerManagerOptions, "createWorker">> & Pick<WorkerManagerOptions, "createWorker">
   private worker: Worker | null = null
   private creationTime: number = 0
   private abortControllers: Map<string, AbortController> = new Map()
@@ -110,6 +113,7 @@ export class WorkerManager {
     const isRemote = options.mode === "remote"
     this.options = {
       scriptUrl: options.scriptUrl,
+      createWorker: options.createWorker,
       mode: options.mode,
       workerType: options.workerType || (isRemote ? "module" : "classic"),
       credentials: options.credentials,
@@ -163,10 +167,12 @@ export class WorkerManager {
     if (!this.worker) {
       try {
         this.log(`Creating new ${isRemote ? "API" : "local"} worker: ${this.options.scriptUrl}`)
-        this.worker = new Worker(this.options.scriptUrl, {
-          type: this.options.workerType,
-          credentials: this.options.credentials ?? undefined,
-        })
+        this.worker =
+          this.options.createWorker?.() ??
+          new Worker(this.options.scriptUrl, {
+            type: this.options.workerType,
+            credentials: this.options.credentials ?? undefined,
+          })
         this.creationTime = Date.now()
 
         if (isRemote) {
@@ -323,6 +329,7 @@ export class WorkerManager {
       persistState = false,
       onProgress,
       metadata = {},
+      transfer = [],
     } = jobOptions
 
     // ジョブ開始イベントを発行
@@ -461,12 +468,15 @@ export class WorkerManager {
           worker.addEventListener("message", progressHandler)
 
           // ジョブメッセージを送信
-          worker.postMessage({
-            type: "JOB",
-            payload,
-            jobId,
-            debug: jobDebug,
-          })
+          worker.postMessage(
+            {
+              type: "JOB",
+              payload,
+              jobId,
+              debug: jobDebug,
+            },
+            transfer,
+          )
         })
 
         // 成功した場合の処理